@@ -1,24 +1,39 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { AIArticleGenerator } from '@/lib/ai-article-generator';
+import { LLMProviderRegistry } from '@/lib/llm-providers';
 
 /**
- * Test OpenRouter AI connection
+ * Test LLM provider connection (?provider=name, defaults to OpenRouter)
  */
-export async function GET() {
+export async function GET(request: NextRequest) {
+  const provider = request.nextUrl.searchParams.get('provider') || undefined;
+
   try {
-    const isConnected = await AIArticleGenerator.testConnection();
+    if (provider && !LLMProviderRegistry.has(provider)) {
+      return NextResponse.json({
+        success: false,
+        connected: false,
+        error: `Unknown LLM provider: ${provider}`,
+        providers: LLMProviderRegistry.list()
+      }, { status: 400 });
+    }
+
+    const isConnected = await AIArticleGenerator.testConnection(provider);
+    const providerName = LLMProviderRegistry.get(provider).name;
     
     return NextResponse.json({
       success: true,
       connected: isConnected,
-      message: isConnected ? 'OpenRouter API is working' : 'OpenRouter API connection failed'
+      provider: providerName,
+      providers: LLMProviderRegistry.list(),
+      message: isConnected ? `${providerName} provider is working` : `${providerName} provider connection failed`
     });
   } catch (error) {
     return NextResponse.json({
       success: false,
       connected: false,
       error: error instanceof Error ? error.message : 'Unknown error',
-      message: 'Failed to test OpenRouter connection'
+      message: 'Failed to test LLM provider connection'
     }, { status: 500 });
   }
 }
@@ -29,7 +44,7 @@ export async function GET() {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { testPrompt } = body;
+    const { testPrompt, provider, model } = body;
 
     if (!testPrompt) {
       return NextResponse.json({
@@ -38,6 +53,14 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
+    if (provider !== undefined && (typeof provider !== 'string' || !LLMProviderRegistry.has(provider))) {
+      return NextResponse.json({
+        success: false,
+        error: `Unknown LLM provider: ${provider}`,
+        providers: LLMProviderRegistry.list()
+      }, { status: 400 });
+    }
+
     // Create sample data for testing
     const sampleAnalysis = {
       topics: [
@@ -75,7 +98,7 @@ export async function POST(request: NextRequest) {
       sampleAnalysis,
       sampleMetadata,
       sampleTranscript,
-      { length: 'short', tone: 'professional', format: 'markdown' }
+      { length: 'short', tone: 'professional', format: 'markdown', provider, model }
     );
 
     return NextResponse.json({
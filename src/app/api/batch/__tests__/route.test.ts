@@ -0,0 +1,125 @@
+/**
+ * @jest-environment node
+ */
+import { POST, GET } from '../route';
+import { NextRequest } from 'next/server';
+import { YouTubeApiService, YouTubeApiError } from '@/lib/youtube-api';
+import { BatchProcessor } from '@/lib/batch-processor';
+import { DirectStageExecutor } from '@/lib/stage-executor';
+
+jest.mock('@/lib/youtube-api', () => {
+  const actual = jest.requireActual('@/lib/youtube-api');
+  return { ...actual, YouTubeApiService: jest.fn() };
+});
+jest.mock('@/lib/batch-processor', () => {
+  const actual = jest.requireActual('@/lib/batch-processor');
+  const MockBatchProcessor = jest.fn() as unknown as jest.Mock & { MAX_CONCURRENCY: number; DEFAULT_CONCURRENCY: number };
+  MockBatchProcessor.MAX_CONCURRENCY = actual.BatchProcessor.MAX_CONCURRENCY;
+  MockBatchProcessor.DEFAULT_CONCURRENCY = actual.BatchProcessor.DEFAULT_CONCURRENCY;
+  return { ...actual, BatchProcessor: MockBatchProcessor };
+});
+
+describe('/api/batch', () => {
+  let mockGetCollectionVideos: jest.Mock;
+  let mockProcessBatch: jest.Mock;
+
+  const createRequest = (body: unknown) => new NextRequest('http://localhost:3000/api/batch', {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: {
+      'Content-Type': 'application/json'
+    }
+  });
+
+  const readEvents = async (response: Response) => {
+    const text = await response.text();
+    return text.split('\n\n').filter(Boolean).map(event => JSON.parse(event.replace(/^data: /, '')));
+  };
+
+  beforeEach(() => {
+    process.env.YOUTUBE_API_KEY = 'test-api-key';
+    mockGetCollectionVideos = jest.fn().mockResolvedValue({
+      info: { type: 'playlist', id: 'PL123', title: 'Playlist' },
+      videos: [{ id: 'a', title: 'Video A', position: 0 }, { id: 'b', title: 'Video B', position: 1 }]
+    });
+    mockProcessBatch = jest.fn(async (videos, options, info) => {
+      const status = { state: 'complete', source: info, total: videos.length, completed: videos.length, failed: 0, progress: 100, items: [] };
+      options.onUpdate({ ...status, state: 'running', completed: 0, progress: 0 });
+      return status;
+    });
+    (YouTubeApiService as unknown as jest.Mock).mockImplementation(() => ({ getCollectionVideos: mockGetCollectionVideos }));
+    (BatchProcessor as unknown as jest.Mock).mockImplementation(() => ({ processBatch: mockProcessBatch }));
+  });
+
+  afterEach(() => {
+    delete process.env.YOUTUBE_API_KEY;
+    jest.clearAllMocks();
+  });
+
+  describe('POST', () => {
+    it('should stream batch progress and the final status', async () => {
+      const response = await POST(createRequest({
+        url: 'https://www.youtube.com/playlist?list=PL123',
+        maxVideos: 5,
+        concurrency: 3,
+        options: { tone: 'casual' }
+      }));
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+
+      const events = await readEvents(response);
+      expect(events.map(event => event.type)).toEqual(['progress', 'result']);
+      expect(events[1].status).toMatchObject({ state: 'complete', total: 2, source: { title: 'Playlist' } });
+
+      expect(mockGetCollectionVideos).toHaveBeenCalledWith({ type: 'playlist', playlistId: 'PL123' }, 5);
+      expect(BatchProcessor).toHaveBeenCalledWith(expect.any(DirectStageExecutor));
+      expect(mockProcessBatch.mock.calls[0][1]).toMatchObject({ concurrency: 3, generationOptions: { tone: 'casual' } });
+    });
+
+    it('should reject URLs that are not playlists or channels', async () => {
+      const response = await POST(createRequest({ url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ' }));
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toContain('playlist or channel URL');
+    });
+
+    it('should validate maxVideos and concurrency', async () => {
+      const url = 'https://www.youtube.com/@channel';
+
+      expect((await POST(createRequest({ url, maxVideos: 0 }))).status).toBe(400);
+      expect((await POST(createRequest({ url, concurrency: 99 }))).status).toBe(400);
+    });
+
+    it('should require a YouTube API key', async () => {
+      delete process.env.YOUTUBE_API_KEY;
+
+      const response = await POST(createRequest({ url: 'https://www.youtube.com/@channel' }));
+
+      expect(response.status).toBe(500);
+    });
+
+    it('should return 404 when the collection cannot be found or is empty', async () => {
+      mockGetCollectionVideos.mockRejectedValueOnce(new YouTubeApiError('Channel not found.', 404));
+      const notFound = await POST(createRequest({ url: 'https://www.youtube.com/@missing' }));
+      expect(notFound.status).toBe(404);
+      expect((await notFound.json()).error).toBe('Channel not found.');
+
+      mockGetCollectionVideos.mockResolvedValueOnce({ info: { type: 'channel', id: 'UC1', title: 'Empty' }, videos: [] });
+      const empty = await POST(createRequest({ url: 'https://www.youtube.com/@empty' }));
+      expect(empty.status).toBe(404);
+      expect((await empty.json()).error).toBe('No public videos found in this channel');
+    });
+  });
+
+  describe('GET', () => {
+    it('should return API documentation', async () => {
+      const response = await GET();
+      const data = await response.json();
+
+      expect(data.message).toBe('Batch Processing API');
+      expect(data.usage.body.url).toBeDefined();
+    });
+  });
+});
@@ -0,0 +1,188 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseYouTubeCollectionUrl } from '@/lib/youtube-utils';
+import { YouTubeApiService, YouTubeApiError } from '@/lib/youtube-api';
+import { BatchProcessor, BatchStatus } from '@/lib/batch-processor';
+import { DirectStageExecutor } from '@/lib/stage-executor';
+import { createProcessingError, ErrorType } from '@/lib/error-handling';
+import { GenerationOptions } from '@/types';
+
+// Keep batches small enough to finish in one session and within API quotas
+const DEFAULT_MAX_VIDEOS = 10;
+const MAX_VIDEOS_LIMIT = 50;
+
+/**
+ * POST /api/batch
+ * Process every video in a YouTube playlist or channel
+ * Streams aggregate batch status using Server-Sent Events (SSE)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const {
+      url,
+      maxVideos,
+      concurrency,
+      options,
+      force
+    }: { url: string; maxVideos?: number; concurrency?: number; options?: GenerationOptions; force?: boolean } = body;
+
+    const collection = url ? parseYouTubeCollectionUrl(url) : null;
+    if (!collection) {
+      return NextResponse.json({
+        success: false,
+        error: 'A YouTube playlist or channel URL is required',
+        type: ErrorType.INVALID_URL
+      }, { status: 400 });
+    }
+
+    if (maxVideos !== undefined && (!Number.isInteger(maxVideos) || maxVideos < 1 || maxVideos > MAX_VIDEOS_LIMIT)) {
+      return NextResponse.json({
+        success: false,
+        error: `maxVideos must be an integer between 1 and ${MAX_VIDEOS_LIMIT}`,
+        type: ErrorType.VALIDATION_ERROR
+      }, { status: 400 });
+    }
+
+    if (concurrency !== undefined && (!Number.isInteger(concurrency) || concurrency < 1 || concurrency > BatchProcessor.MAX_CONCURRENCY)) {
+      return NextResponse.json({
+        success: false,
+        error: `concurrency must be an integer between 1 and ${BatchProcessor.MAX_CONCURRENCY}`,
+        type: ErrorType.VALIDATION_ERROR
+      }, { status: 400 });
+    }
+
+    const apiKey = process.env.YOUTUBE_API_KEY;
+    if (!apiKey) {
+      const error = createProcessingError(ErrorType.API_KEY_INVALID);
+      return NextResponse.json({
+        success: false,
+        error: error.details.userMessage,
+        type: error.type
+      }, { status: 500 });
+    }
+
+    // Enumerate the collection up front so lookup errors are returned as regular responses
+    let collectionVideos;
+    try {
+      collectionVideos = await new YouTubeApiService(apiKey)
+        .getCollectionVideos(collection, maxVideos ?? DEFAULT_MAX_VIDEOS);
+    } catch (error) {
+      const status = error instanceof YouTubeApiError && error.code === 404 ? 404 : 502;
+      return NextResponse.json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to list videos',
+        type: status === 404 ? ErrorType.VIDEO_NOT_FOUND : ErrorType.NETWORK_ERROR
+      }, { status });
+    }
+
+    const { info, videos } = collectionVideos;
+    if (videos.length === 0) {
+      return NextResponse.json({
+        success: false,
+        error: `No public videos found in this ${info.type}`,
+        type: ErrorType.VIDEO_NOT_FOUND
+      }, { status: 404 });
+    }
+
+    // Aborted when the client disconnects or cancels the stream
+    const abortController = new AbortController();
+    request.signal.addEventListener('abort', () => abortController.abort());
+    let closed = false;
+
+    const stream = new ReadableStream({
+      start(controller) {
+        const encoder = new TextEncoder();
+
+        const send = (payload: Record<string, unknown>) => {
+          if (closed) return;
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(payload)}\n\n`));
+        };
+
+        // Pipelines run the stages in-process
+        const processor = new BatchProcessor(new DirectStageExecutor());
+
+        processor.processBatch(
+          videos,
+          {
+            concurrency,
+            generationOptions: options,
+            force,
+            signal: abortController.signal,
+            onUpdate: (status: BatchStatus) => send({ type: 'progress', status })
+          },
+          info
+        )
+          .then((status) => {
+            send({ type: 'result', status });
+            if (!closed) controller.close();
+          })
+          .catch((error) => {
+            send({ type: 'error', error: error instanceof Error ? error.message : 'Batch processing failed' });
+            if (!closed) controller.close();
+          });
+      },
+      cancel() {
+        closed = true;
+        abortController.abort();
+      }
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive'
+      }
+    });
+
+  } catch (error) {
+    console.error('Batch processing error:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to start batch processing'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * GET /api/batch
+ * Get batch API documentation
+ */
+export async function GET(): Promise<NextResponse> {
+  return NextResponse.json({
+    message: 'Batch Processing API',
+    description: 'Generate articles for every video in a YouTube playlist or channel',
+    usage: {
+      method: 'POST',
+      contentType: 'application/json',
+      body: {
+        url: 'YouTube playlist (youtube.com/playlist?list=...) or channel (youtube.com/@handle, /channel/UC...) URL',
+        maxVideos: `Optional number of videos to process (default ${DEFAULT_MAX_VIDEOS}, max ${MAX_VIDEOS_LIMIT})`,
+        concurrency: `Optional number of videos processed at once (default ${BatchProcessor.DEFAULT_CONCURRENCY}, max ${BatchProcessor.MAX_CONCURRENCY})`,
+        options: 'Optional generation options applied to every video',
+        force: 'Optional boolean; ignore cached stage results and reprocess'
+      }
+    },
+    response: {
+      type: 'text/event-stream',
+      events: [
+        {
+          type: 'progress',
+          description: 'Aggregate batch status whenever any video changes stage',
+          data: {
+            status: 'BatchStatus with total, completed, failed, progress and per-video items'
+          }
+        },
+        {
+          type: 'result',
+          description: 'Final batch status, including each generated article or error'
+        },
+        {
+          type: 'error',
+          description: 'Batch could not be completed'
+        }
+      ]
+    }
+  });
+}
@@ -51,7 +51,7 @@ export async function GET() {
     },
     requiredFields: {
       transcript: 'Transcript object with segments array',
-      options: 'Optional ContentAnalysisOptions object'
+      options: 'Optional ContentAnalysisOptions object; pass videoDescription to use the chapters listed in it'
     }
   });
 }
\ No newline at end of file
@@ -0,0 +1,82 @@
+/**
+ * @jest-environment node
+ */
+import { POST, GET } from '../route';
+import { NextRequest } from 'next/server';
+import { EchoProvider, LLMProviderRegistry } from '@/lib/llm-providers';
+import { ErrorType } from '@/lib/error-handling';
+import { Article } from '@/types';
+
+describe('/api/content/derivatives', () => {
+  const article = {
+    title: 'Building a Compiler',
+    introduction: 'Compilers look like magic.',
+    sections: [{ heading: 'Lexing', content: 'The lexer turns characters into tokens.' }],
+    conclusion: 'Happy hacking!',
+    tags: ['compilers'],
+    metadata: { sourceVideo: { id: 'abc123' } }
+  } as unknown as Article;
+
+  const createRequest = (body: unknown) => new NextRequest('http://localhost:3000/api/content/derivatives', {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: {
+      'Content-Type': 'application/json'
+    }
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    LLMProviderRegistry.reset();
+  });
+
+  it('should return the AI-written posts', async () => {
+    LLMProviderRegistry.register(new EchoProvider(JSON.stringify({
+      thread: ['Compilers are not magic.', 'Watch: https://www.youtube.com/watch?v=abc123'],
+      linkedInPost: 'What I learned building a compiler.',
+      newsletterSummary: 'A short tour of compilers.'
+    })));
+
+    const response = await POST(createRequest({ article, options: { provider: 'echo' } }));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.generationMethod).toBe('ai');
+    expect(data.derivatives).toEqual({
+      thread: ['Compilers are not magic. 1/2', 'Watch: https://www.youtube.com/watch?v=abc123 2/2'],
+      linkedInPost: 'What I learned building a compiler.',
+      newsletterSummary: 'A short tour of compilers.',
+      showNotes: 'Compilers look like magic.\n\nKey points:\n- The lexer turns characters into tokens.\n\n#Compilers'
+    });
+  });
+
+  it('should fall back to templates when the model does not return posts', async () => {
+    const response = await POST(createRequest({ article, options: { provider: 'echo' } }));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.generationMethod).toBe('template');
+    expect(data.derivatives.thread[0]).toBe('Building a Compiler\n\nCompilers look like magic. 1/3');
+  });
+
+  it('should validate the article and provider', async () => {
+    for (const body of [{}, { article: { title: 'No sections' } }, { article, options: { provider: 'nope' } }, { article, options: { provider: 1 } }]) {
+      const response = await POST(createRequest(body));
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.type).toBe(ErrorType.VALIDATION_ERROR);
+    }
+  });
+
+  it('should document the endpoint', async () => {
+    const data = await (await GET()).json();
+
+    expect(data.endpoints['POST /api/content/derivatives']).toBeDefined();
+  });
+});
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SocialDerivativeGenerator } from '@/lib/social-derivatives';
+import { LLMProviderRegistry } from '@/lib/llm-providers';
+import { ErrorType } from '@/lib/error-handling';
+import { Article, ContentAnalysis, GenerationOptions, SocialDerivatives } from '@/types';
+
+export interface DerivativesRequest {
+  article: Article;
+  // Its key points and topics feed the posts and the show note chapters
+  analysis?: ContentAnalysis;
+  options?: GenerationOptions;
+}
+
+export interface DerivativesResponse {
+  success: boolean;
+  derivatives?: SocialDerivatives;
+  generationMethod?: 'ai' | 'template';
+  error?: string;
+  type?: ErrorType;
+}
+
+/**
+ * POST /api/content/derivatives
+ * Write an X/Twitter thread, a LinkedIn post, a newsletter summary and video show notes for an article
+ */
+export async function POST(request: NextRequest): Promise<NextResponse<DerivativesResponse>> {
+  try {
+    const body: DerivativesRequest = await request.json();
+
+    if (!body.article || !body.article.title || !Array.isArray(body.article.sections)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Article with a title and a sections array is required',
+        type: ErrorType.VALIDATION_ERROR
+      }, { status: 400 });
+    }
+
+    if (
+      body.options?.provider !== undefined &&
+      (typeof body.options.provider !== 'string' || !LLMProviderRegistry.has(body.options.provider))
+    ) {
+      return NextResponse.json({
+        success: false,
+        error: `Unknown LLM provider: ${body.options.provider}`,
+        type: ErrorType.VALIDATION_ERROR
+      }, { status: 400 });
+    }
+
+    const options: GenerationOptions = {
+      length: 'medium',
+      tone: 'professional',
+      format: 'markdown',
+      ...body.options
+    };
+
+    const result = await SocialDerivativeGenerator.generate(
+      { ...body.article, tags: body.article.tags || [] },
+      body.analysis,
+      options,
+      request.signal
+    );
+
+    return NextResponse.json({
+      success: true,
+      ...result
+    });
+
+  } catch (error) {
+    console.error('Derivative generation error:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to generate social posts'
+    }, { status: 500 });
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    message: 'Social Derivatives API',
+    endpoints: {
+      'POST /api/content/derivatives': 'Write social media posts, a newsletter summary and show notes for an article'
+    },
+    requiredFields: {
+      article: 'The Article to promote'
+    },
+    optionalFields: {
+      analysis: 'ContentAnalysis; its key points are used in the posts and its topics become show note chapters',
+      options: 'Optional GenerationOptions (tone, provider, model)'
+    },
+    response: {
+      derivatives: `{ thread, linkedInPost, newsletterSummary, showNotes }; thread posts are at most ${SocialDerivativeGenerator.TWEET_CHARACTER_LIMIT} characters`,
+      generationMethod: '"ai", or "template" when AI generation was unavailable'
+    }
+  });
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { ArticleGenerator } from '@/lib/article-generator';
-import { AIArticleGenerator } from '@/lib/ai-article-generator';
+import { AIArticleGenerator, GenerationTelemetry, createGenerationTelemetry } from '@/lib/ai-article-generator';
+import { LLMProviderRegistry } from '@/lib/llm-providers';
+import { ChunkedArticleGenerator, ChunkSummary } from '@/lib/chunked-article-generator';
 import { 
   ContentAnalysis, 
   VideoMetadata, 
@@ -14,6 +16,8 @@ export interface GenerateArticleRequest {
   videoMetadata: VideoMetadata;
   transcript: Transcript;
   options?: GenerationOptions;
+  // Pre-computed chunk summaries (map step) - only the reduce step runs
+  chunkSummaries?: ChunkSummary[];
 }
 
 export interface GenerateArticleResponse {
@@ -21,6 +25,50 @@ export interface GenerateArticleResponse {
   article?: Article;
   error?: string;
   processingTime?: number;
+  generationMethod?: 'ai' | 'template';
+  telemetry?: GenerationTelemetry;
+}
+
+/**
+ * Validate provider, model and sampling settings in generation options
+ */
+function validateLLMOptions(options?: GenerationOptions): string | null {
+  if (!options) return null;
+
+  if (options.provider !== undefined && typeof options.provider !== 'string') {
+    return 'Invalid options: provider must be a string';
+  }
+
+  if (options.provider !== undefined && !LLMProviderRegistry.has(options.provider)) {
+    const available = LLMProviderRegistry.list().map(p => p.name).join(', ');
+    return `Unknown LLM provider: ${options.provider}. Available providers: ${available}`;
+  }
+
+  if (options.model !== undefined && (typeof options.model !== 'string' || !options.model.trim())) {
+    return 'Invalid options: model must be a non-empty string';
+  }
+
+  if (options.temperature !== undefined &&
+      (typeof options.temperature !== 'number' || options.temperature < 0 || options.temperature > 2)) {
+    return 'Invalid options: temperature must be a number between 0 and 2';
+  }
+
+  if (options.maxTokens !== undefined &&
+      (!Number.isInteger(options.maxTokens) || options.maxTokens <= 0)) {
+    return 'Invalid options: maxTokens must be a positive integer';
+  }
+
+  if (options.generationMode !== undefined && !['single', 'chunked'].includes(options.generationMode)) {
+    return 'Invalid options: generationMode must be "single" or "chunked"';
+  }
+
+  if (options.contextTokenBudget !== undefined &&
+      (!Number.isInteger(options.contextTokenBudget) ||
+       options.contextTokenBudget < ChunkedArticleGenerator.MIN_CONTEXT_TOKEN_BUDGET)) {
+    return `Invalid options: contextTokenBudget must be an integer of at least ${ChunkedArticleGenerator.MIN_CONTEXT_TOKEN_BUDGET}`;
+  }
+
+  return null;
 }
 
 /**
@@ -70,6 +118,22 @@ export async function POST(request: NextRequest): Promise<NextResponse<GenerateA
       }, { status: 400 });
     }
 
+    // Validate LLM selection
+    const llmError = validateLLMOptions(body.options);
+    if (llmError) {
+      return NextResponse.json({
+        success: false,
+        error: llmError
+      }, { status: 400 });
+    }
+
+    if (body.chunkSummaries !== undefined && !Array.isArray(body.chunkSummaries)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid chunkSummaries: array expected'
+      }, { status: 400 });
+    }
+
     // Set default options
     const options: GenerationOptions = {
       length: 'medium',
@@ -80,20 +144,27 @@ export async function POST(request: NextRequest): Promise<NextResponse<GenerateA
     };
 
     // Generate the article using AI (with fallback to template-based)
-    let article;
-    let generationMethod = 'template';
+    let article: Article;
+    let telemetry: GenerationTelemetry;
     
     try {
       console.log('Attempting AI article generation...');
       // Try AI generation first
-      article = await AIArticleGenerator.generateArticle(
-        body.analysis,
-        body.videoMetadata,
-        body.transcript,
-        options
-      );
-      generationMethod = 'ai';
-      console.log('AI generation successful');
+      ({ article, telemetry } = body.chunkSummaries
+        ? await ChunkedArticleGenerator.composeArticleWithTelemetry(
+            body.chunkSummaries,
+            body.analysis,
+            body.videoMetadata,
+            body.transcript,
+            options
+          )
+        : await AIArticleGenerator.generateArticleWithTelemetry(
+            body.analysis,
+            body.videoMetadata,
+            body.transcript,
+            options
+          ));
+      console.log(telemetry.fallback ? 'Template-based generation used as fallback' : 'AI generation successful');
     } catch (error) {
       console.warn('AI generation failed, falling back to template-based generation:', error);
       // Fallback to template-based generation
@@ -103,6 +174,7 @@ export async function POST(request: NextRequest): Promise<NextResponse<GenerateA
         body.transcript,
         options
       );
+      telemetry = AIArticleGenerator.recordFallback(createGenerationTelemetry(), error);
       console.log('Template-based generation used as fallback');
     }
 
@@ -112,7 +184,8 @@ export async function POST(request: NextRequest): Promise<NextResponse<GenerateA
       success: true,
       article,
       processingTime,
-      generationMethod
+      generationMethod: telemetry.fallback ? 'template' : 'ai',
+      telemetry
     });
 
   } catch (error) {
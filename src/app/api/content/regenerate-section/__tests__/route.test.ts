@@ -0,0 +1,119 @@
+/**
+ * @jest-environment node
+ */
+import { POST, GET } from '../route';
+import { NextRequest } from 'next/server';
+import { SectionRegenerator } from '@/lib/section-regenerator';
+import { TranscriptService } from '@/lib/transcript-service';
+import { ErrorType } from '@/lib/error-handling';
+import { Article, Transcript } from '@/types';
+
+jest.mock('@/lib/section-regenerator', () => ({
+  SectionRegenerator: {
+    regenerateSection: jest.fn()
+  }
+}));
+
+jest.mock('@/lib/transcript-service', () => ({
+  TranscriptService: {
+    extractTranscript: jest.fn()
+  }
+}));
+
+describe('/api/content/regenerate-section', () => {
+  const article = {
+    title: 'Article',
+    introduction: '',
+    sections: [{ heading: 'Only Section', content: 'Old content' }],
+    conclusion: '',
+    tags: [],
+    metadata: { sourceVideo: { id: 'dQw4w9WgXcQ' } }
+  } as unknown as Article;
+
+  const transcript: Transcript = {
+    segments: [{ text: 'Hello', startTime: 0, endTime: 1, confidence: 1 }],
+    language: 'en',
+    confidence: 1,
+    duration: 1
+  };
+
+  const createRequest = (body: unknown) => new NextRequest('http://localhost:3000/api/content/regenerate-section', {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: {
+      'Content-Type': 'application/json'
+    }
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    (SectionRegenerator.regenerateSection as jest.Mock).mockResolvedValue({
+      section: { heading: 'Only Section', content: 'New content' },
+      generationMethod: 'ai',
+      timeRange: { start: 0, end: 1 }
+    });
+  });
+
+  it('should return only the rewritten section', async () => {
+    const response = await POST(createRequest({ article, sectionIndex: 0, instruction: 'make this more concrete', transcript }));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toEqual({
+      success: true,
+      section: { heading: 'Only Section', content: 'New content' },
+      generationMethod: 'ai',
+      timeRange: { start: 0, end: 1 }
+    });
+    expect(SectionRegenerator.regenerateSection).toHaveBeenCalledWith(
+      article, 0, 'make this more concrete', transcript, undefined,
+      expect.objectContaining({ length: 'medium', tone: 'professional' }),
+      expect.anything()
+    );
+  });
+
+  it('should validate the article, section index, instruction and provider', async () => {
+    const invalid = [
+      { sectionIndex: 0 },
+      { article, sectionIndex: 1 },
+      { article, sectionIndex: 0.5 },
+      { article, sectionIndex: 0, instruction: 'x'.repeat(1001) },
+      { article, sectionIndex: 0, options: { provider: 'does-not-exist' } }
+    ];
+
+    for (const body of invalid) {
+      const response = await POST(createRequest({ transcript, ...body }));
+      expect(response.status).toBe(400);
+    }
+    expect(SectionRegenerator.regenerateSection).not.toHaveBeenCalled();
+  });
+
+  it('should fetch the transcript of the source video when none is sent', async () => {
+    (TranscriptService.extractTranscript as jest.Mock).mockResolvedValue(transcript);
+
+    const response = await POST(createRequest({ article, sectionIndex: 0 }));
+
+    expect(response.status).toBe(200);
+    expect(TranscriptService.extractTranscript).toHaveBeenCalledWith('dQw4w9WgXcQ', { lang: 'en', country: 'US' });
+    expect(SectionRegenerator.regenerateSection).toHaveBeenCalledWith(
+      article, 0, 'Improve the clarity and flow of this section.', transcript, undefined, expect.any(Object), expect.anything()
+    );
+  });
+
+  it('should report a missing transcript', async () => {
+    (TranscriptService.extractTranscript as jest.Mock).mockRejectedValue(new Error('Transcript is disabled on this video'));
+
+    const response = await POST(createRequest({ article, sectionIndex: 0 }));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.type).toBe(ErrorType.NO_TRANSCRIPT);
+  });
+
+  it('should document the endpoint', async () => {
+    const data = await (await GET()).json();
+
+    expect(data.requiredFields).toHaveProperty('sectionIndex');
+  });
+});
@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SectionRegenerator } from '@/lib/section-regenerator';
+import { LLMProviderRegistry } from '@/lib/llm-providers';
+import { TranscriptService } from '@/lib/transcript-service';
+import { ErrorType } from '@/lib/error-handling';
+import {
+  Article,
+  ArticleSection,
+  ContentAnalysis,
+  GenerationOptions,
+  TimeRange,
+  Transcript
+} from '@/types';
+
+export interface RegenerateSectionRequest {
+  article: Article;
+  sectionIndex: number;
+  instruction?: string;
+  // Fetched from YouTube for the article's source video when omitted
+  transcript?: Transcript;
+  analysis?: ContentAnalysis;
+  options?: GenerationOptions;
+}
+
+export interface RegenerateSectionResponse {
+  success: boolean;
+  section?: ArticleSection;
+  generationMethod?: 'ai' | 'template';
+  timeRange?: TimeRange;
+  error?: string;
+  type?: ErrorType;
+}
+
+const DEFAULT_INSTRUCTION = 'Improve the clarity and flow of this section.';
+const MAX_INSTRUCTION_LENGTH = 1000;
+
+/**
+ * POST /api/content/regenerate-section
+ * Rewrite one section of an article from the transcript of the part of the video it covers
+ */
+export async function POST(request: NextRequest): Promise<NextResponse<RegenerateSectionResponse>> {
+  try {
+    const body: RegenerateSectionRequest = await request.json();
+
+    if (!body.article || !Array.isArray(body.article.sections)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Article with a sections array is required',
+        type: ErrorType.VALIDATION_ERROR
+      }, { status: 400 });
+    }
+
+    const { sectionIndex } = body;
+    if (!Number.isInteger(sectionIndex) || sectionIndex < 0 || sectionIndex >= body.article.sections.length) {
+      return NextResponse.json({
+        success: false,
+        error: `sectionIndex must be an integer between 0 and ${body.article.sections.length - 1}`,
+        type: ErrorType.VALIDATION_ERROR
+      }, { status: 400 });
+    }
+
+    if (body.instruction !== undefined &&
+        (typeof body.instruction !== 'string' || body.instruction.length > MAX_INSTRUCTION_LENGTH)) {
+      return NextResponse.json({
+        success: false,
+        error: `instruction must be a string of at most ${MAX_INSTRUCTION_LENGTH} characters`,
+        type: ErrorType.VALIDATION_ERROR
+      }, { status: 400 });
+    }
+
+    if (
+      body.options?.provider !== undefined &&
+      (typeof body.options.provider !== 'string' || !LLMProviderRegistry.has(body.options.provider))
+    ) {
+      return NextResponse.json({
+        success: false,
+        error: `Unknown LLM provider: ${body.options.provider}`,
+        type: ErrorType.VALIDATION_ERROR
+      }, { status: 400 });
+    }
+
+    let transcript = body.transcript;
+    if (!transcript || !Array.isArray(transcript.segments)) {
+      const videoId = body.article.metadata?.sourceVideo?.id;
+      try {
+        if (!videoId) throw new Error('Article has no source video');
+        transcript = await TranscriptService.extractTranscript(videoId, { lang: 'en', country: 'US' });
+      } catch (error) {
+        console.warn('Could not fetch transcript for section regeneration:', error);
+        return NextResponse.json({
+          success: false,
+          error: 'Transcript is required: none was provided and it could not be fetched for the source video',
+          type: ErrorType.NO_TRANSCRIPT
+        }, { status: 400 });
+      }
+    }
+
+    const options: GenerationOptions = {
+      length: 'medium',
+      tone: 'professional',
+      format: 'markdown',
+      ...body.options
+    };
+
+    const result = await SectionRegenerator.regenerateSection(
+      body.article,
+      sectionIndex,
+      body.instruction?.trim() || DEFAULT_INSTRUCTION,
+      transcript,
+      body.analysis,
+      options,
+      request.signal
+    );
+
+    return NextResponse.json({
+      success: true,
+      ...result
+    });
+
+  } catch (error) {
+    console.error('Section regeneration error:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to regenerate section'
+    }, { status: 500 });
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    message: 'Section Regeneration API',
+    endpoints: {
+      'POST /api/content/regenerate-section': 'Rewrite one section of an article, grounded in the transcript for that section'
+    },
+    requiredFields: {
+      article: 'The current Article',
+      sectionIndex: 'Index of the section in article.sections'
+    },
+    optionalFields: {
+      instruction: `Free-text instruction, e.g. "make this more concrete" (max ${MAX_INSTRUCTION_LENGTH} characters)`,
+      transcript: 'Transcript of the source video; fetched from YouTube when omitted',
+      analysis: 'ContentAnalysis; its topic time ranges locate the section in the video',
+      options: 'Optional GenerationOptions (tone, format, provider, model)'
+    },
+    response: {
+      section: 'The rewritten ArticleSection (heading and content)',
+      generationMethod: '"ai", or "template" when AI generation was unavailable',
+      timeRange: 'Part of the video, in seconds, the section was grounded in'
+    }
+  });
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ChunkedArticleGenerator, TranscriptChunk, ChunkSummary } from '@/lib/chunked-article-generator';
+import { LLMProviderRegistry } from '@/lib/llm-providers';
+import { VideoMetadata, GenerationOptions } from '@/types';
+
+export interface SummarizeChunkRequest {
+  chunk: TranscriptChunk;
+  totalChunks: number;
+  videoMetadata: VideoMetadata;
+  options?: GenerationOptions;
+}
+
+export interface SummarizeChunkResponse {
+  success: boolean;
+  summary?: ChunkSummary;
+  error?: string;
+}
+
+/**
+ * POST /api/content/summarize-chunk
+ * Map step of chunked generation: summarize one transcript chunk
+ */
+export async function POST(request: NextRequest): Promise<NextResponse<SummarizeChunkResponse>> {
+  try {
+    const body: SummarizeChunkRequest = await request.json();
+
+    if (!body.chunk || !Array.isArray(body.chunk.segments) || body.chunk.segments.length === 0) {
+      return NextResponse.json({
+        success: false,
+        error: 'Chunk with a non-empty segments array is required'
+      }, { status: 400 });
+    }
+
+    if (!body.videoMetadata) {
+      return NextResponse.json({
+        success: false,
+        error: 'Video metadata is required'
+      }, { status: 400 });
+    }
+
+    if (
+      body.options?.provider !== undefined &&
+      (typeof body.options.provider !== 'string' || !LLMProviderRegistry.has(body.options.provider))
+    ) {
+      return NextResponse.json({
+        success: false,
+        error: `Unknown LLM provider: ${body.options.provider}`
+      }, { status: 400 });
+    }
+
+    const options: GenerationOptions = {
+      length: 'medium',
+      tone: 'professional',
+      format: 'markdown',
+      ...body.options
+    };
+
+    const summary = await ChunkedArticleGenerator.summarizeChunk(
+      body.chunk,
+      body.totalChunks || 1,
+      body.videoMetadata,
+      options
+    );
+
+    return NextResponse.json({
+      success: true,
+      summary
+    });
+
+  } catch (error) {
+    console.error('Chunk summarization error:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to summarize chunk'
+    }, { status: 500 });
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    message: 'Chunk Summarization API',
+    endpoints: {
+      'POST /api/content/summarize-chunk': 'Summarize one transcript chunk (map step of chunked generation)'
+    },
+    requiredFields: {
+      chunk: 'TranscriptChunk from ChunkedArticleGenerator.planChunks',
+      totalChunks: 'Total number of chunks in the transcript',
+      videoMetadata: 'Video metadata object',
+      options: 'Optional GenerationOptions (provider, model, contextTokenBudget)'
+    }
+  });
+}
@@ -0,0 +1,150 @@
+/**
+ * @jest-environment node
+ */
+import { POST, GET } from '../route';
+import { NextRequest } from 'next/server';
+import { Article } from '@/types';
+
+describe('/api/export', () => {
+  const mockArticle: Article = {
+    title: 'Exported Article',
+    introduction: 'Introduction text.',
+    sections: [{ heading: 'Main', content: 'Main content.' }],
+    conclusion: 'Conclusion text.',
+    metadata: {
+      wordCount: 10,
+      readingTime: 1,
+      seoTitle: 'Exported Article',
+      metaDescription: 'Introduction text.',
+      sourceVideo: {
+        id: 'abc123',
+        title: 'Source Video',
+        description: 'A video',
+        duration: 60,
+        thumbnailUrl: '',
+        channelName: 'Channel',
+        publishDate: new Date('2024-01-01'),
+        viewCount: 1
+      }
+    },
+    tags: ['export']
+  };
+
+  const createRequest = (body: unknown) => new NextRequest('http://localhost:3000/api/export', {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: {
+      'Content-Type': 'application/json'
+    }
+  });
+
+  describe('POST', () => {
+    it('should return a PDF attachment by default', async () => {
+      const response = await POST(createRequest({ article: mockArticle }));
+      const bytes = Buffer.from(await response.arrayBuffer());
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Content-Type')).toBe('application/pdf');
+      expect(response.headers.get('Content-Disposition')).toBe('attachment; filename="exported-article.pdf"');
+      expect(bytes.subarray(0, 5).toString()).toBe('%PDF-');
+    });
+
+    it('should export text formats', async () => {
+      const response = await POST(createRequest({
+        article: mockArticle,
+        options: { format: 'markdown', includeMetadata: false }
+      }));
+      const text = await response.text();
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Content-Type')).toBe('text/markdown; charset=utf-8');
+      expect(text).toContain('# Exported Article');
+      expect(text).not.toContain('**Source:**');
+    });
+
+    it('should render a custom template', async () => {
+      const response = await POST(createRequest({
+        article: mockArticle,
+        options: { format: 'html', customTemplate: '<h1>{{title}}</h1>{{#each sections}}{{> section}}{{/each}}' }
+      }));
+      const text = await response.text();
+
+      expect(response.status).toBe(200);
+      expect(text).toBe('<h1>Exported Article</h1>    <h2>Main</h2>\n    <p>Main content.</p>\n');
+    });
+
+    it('should return 400 for invalid custom templates', async () => {
+      const response = await POST(createRequest({
+        article: mockArticle,
+        options: { format: 'markdown', customTemplate: '{{#each sections}}{{heading}}' }
+      }));
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe('Invalid export template: Unclosed {{#each}} (line 1)');
+    });
+
+    it('should export static-site formats with the site profile applied', async () => {
+      const response = await POST(createRequest({
+        article: mockArticle,
+        options: { format: 'hugo', siteProfile: { frontMatterFormat: 'yaml', fields: { canonicalUrl: 'source' } } }
+      }));
+      const text = await response.text();
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Content-Disposition')).toBe('attachment; filename="exported-article.md"');
+      expect(text.startsWith('---\ntitle: "Exported Article"\n')).toBe(true);
+      expect(text).toContain('source: "https://www.youtube.com/watch?v=abc123"\n');
+    });
+
+    it('should return 400 for invalid site profiles', async () => {
+      const response = await POST(createRequest({
+        article: mockArticle,
+        options: { format: 'jekyll', siteProfile: { fields: { author: 'author' } } }
+      }));
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe('Invalid site profile: Unknown front matter field: author');
+    });
+
+    it('should export publishing platform files with the post status', async () => {
+      const response = await POST(createRequest({
+        article: mockArticle,
+        options: { format: 'ghost', publishStatus: 'published' }
+      }));
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Content-Disposition')).toBe('attachment; filename="exported-article-ghost.json"');
+      expect(data.db[0].data.posts[0]).toMatchObject({ title: 'Exported Article', status: 'published' });
+    });
+
+    it('should return 400 when the article is missing', async () => {
+      const response = await POST(createRequest({ options: { format: 'pdf' } }));
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.success).toBe(false);
+    });
+
+    it('should return 400 for unsupported formats', async () => {
+      const response = await POST(createRequest({ article: mockArticle, options: { format: 'docx' } }));
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toContain('Unsupported export format: docx');
+    });
+  });
+
+  describe('GET', () => {
+    it('should document the supported formats', async () => {
+      const response = await GET();
+      const data = await response.json();
+
+      expect(data.formats.map((f: { format: string }) => f.format)).toEqual([
+        'markdown', 'html', 'plain', 'pdf', 'hugo', 'jekyll', 'astro', 'next-mdx', 'wordpress', 'ghost', 'medium'
+      ]);
+    });
+  });
+});
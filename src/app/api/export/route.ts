@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  exportArticle,
+  getAvailableTemplates,
+  CitationStyle,
+  ExportFormat,
+  PUBLISHING_FORMATS,
+  PublishStatus
+} from '@/lib/export-utils';
+import { exportArticleToPdf } from '@/lib/pdf-export';
+import { TemplateError } from '@/lib/template-engine';
+import { STATIC_SITE_FORMATS, SiteProfileError } from '@/lib/static-site-export';
+import { Article, SiteProfileOverrides } from '@/types';
+
+export interface ExportRequest {
+  article: Article;
+  options?: {
+    format?: ExportFormat;
+    template?: string;
+    // Template source used instead of the named template (markdown, html and plain)
+    customTemplate?: string;
+    includeMetadata?: boolean;
+    citationStyle?: CitationStyle;
+    // Front matter mapping for hugo, jekyll, astro and next-mdx exports
+    siteProfile?: SiteProfileOverrides;
+    // Post status for wordpress, ghost and medium exports
+    publishStatus?: PublishStatus;
+    includeThumbnail?: boolean;
+    pageSize?: 'a4' | 'letter';
+  };
+}
+
+const SUPPORTED_FORMATS: ExportFormat[] = ['markdown', 'html', 'plain', 'pdf', ...STATIC_SITE_FORMATS, ...PUBLISHING_FORMATS];
+
+/**
+ * POST /api/export
+ * Render an article in the requested format and return it as a file download
+ */
+export async function POST(request: NextRequest): Promise<Response> {
+  try {
+    const body: ExportRequest = await request.json();
+    const format = body.options?.format || 'pdf';
+
+    if (!body.article || !body.article.title || !body.article.metadata?.sourceVideo) {
+      return NextResponse.json({
+        success: false,
+        error: 'Article with title and source video metadata is required'
+      }, { status: 400 });
+    }
+
+    if (!SUPPORTED_FORMATS.includes(format)) {
+      return NextResponse.json({
+        success: false,
+        error: `Unsupported export format: ${format}. Supported formats: ${SUPPORTED_FORMATS.join(', ')}`
+      }, { status: 400 });
+    }
+
+    const article: Article = {
+      ...body.article,
+      sections: body.article.sections || [],
+      tags: body.article.tags || []
+    };
+
+    if (format === 'pdf') {
+      const result = await exportArticleToPdf(article, {
+        includeMetadata: body.options?.includeMetadata ?? true,
+        includeThumbnail: body.options?.includeThumbnail ?? true,
+        pageSize: body.options?.pageSize === 'letter' ? 'letter' : 'a4'
+      });
+
+      return new Response(Buffer.from(result.content), {
+        status: 200,
+        headers: {
+          'Content-Type': result.mimeType,
+          'Content-Disposition': `attachment; filename="${result.filename}"`,
+          'Content-Length': String(result.content.byteLength)
+        }
+      });
+    }
+
+    let result;
+    try {
+      result = exportArticle(article, {
+        format,
+        template: body.options?.template,
+        customTemplate: body.options?.customTemplate,
+        includeMetadata: body.options?.includeMetadata ?? true,
+        citationStyle: body.options?.citationStyle,
+        siteProfile: body.options?.siteProfile,
+        publishStatus: body.options?.publishStatus === 'published' ? 'published' : 'draft'
+      });
+    } catch (error) {
+      if (error instanceof TemplateError) {
+        return NextResponse.json({
+          success: false,
+          error: `Invalid export template: ${error.message}`
+        }, { status: 400 });
+      }
+      if (error instanceof SiteProfileError) {
+        return NextResponse.json({
+          success: false,
+          error: `Invalid site profile: ${error.message}`
+        }, { status: 400 });
+      }
+      throw error;
+    }
+
+    return new Response(result.content, {
+      status: 200,
+      headers: {
+        'Content-Type': `${result.mimeType}; charset=utf-8`,
+        'Content-Disposition': `attachment; filename="${result.filename}"`
+      }
+    });
+
+  } catch (error) {
+    console.error('Article export error:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to export article'
+    }, { status: 500 });
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    message: 'Article Export API',
+    endpoints: {
+      'POST /api/export': 'Export an article as a downloadable file (PDF rendered server-side)'
+    },
+    formats: SUPPORTED_FORMATS.map(format => ({
+      format,
+      templates: getAvailableTemplates(format)
+    })),
+    requiredFields: {
+      article: 'Article object',
+      options: 'Optional { format, template, customTemplate, includeMetadata, citationStyle, siteProfile, publishStatus, includeThumbnail, pageSize }'
+    }
+  });
+}
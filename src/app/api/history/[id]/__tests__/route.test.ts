@@ -0,0 +1,88 @@
+/**
+ * @jest-environment node
+ */
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { GET, PUT, DELETE } from '../route';
+import { GET as list } from '../../route';
+import { NextRequest } from 'next/server';
+import { FileHistoryStore, getHistoryStore } from '@/lib/history-store';
+import { Article, VideoMetadata } from '@/types';
+
+jest.mock('@/lib/history-store', () => ({
+  ...jest.requireActual('@/lib/history-store'),
+  getHistoryStore: jest.fn()
+}));
+
+describe('/api/history', () => {
+  let directory: string;
+
+  const videoMetadata = { id: 'abc', title: 'Video', channelName: 'Channel' } as VideoMetadata;
+  const article = {
+    title: 'Saved Article',
+    introduction: '',
+    sections: [],
+    conclusion: '',
+    tags: ['testing'],
+    metadata: { sourceVideo: videoMetadata }
+  } as unknown as Article;
+
+  const context = (id: string) => ({ params: Promise.resolve({ id }) });
+
+  const put = (id: string, body: unknown) => PUT(new NextRequest(`http://localhost:3000/api/history/${id}`, {
+    method: 'PUT',
+    body: JSON.stringify(body),
+    headers: {
+      'Content-Type': 'application/json'
+    }
+  }), context(id));
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'history-route-'));
+    (getHistoryStore as jest.Mock).mockReturnValue(new FileHistoryStore(directory));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should save an article and keep its creation time on update', async () => {
+    const created = await put('entry-1', { article, videoMetadata, createdAt: '2024-01-01T00:00:00.000Z' });
+    expect(created.status).toBe(201);
+
+    const updated = await put('entry-1', { article: { ...article, title: 'Edited' }, videoMetadata, createdAt: '2030-01-01T00:00:00.000Z' });
+    const data = await updated.json();
+
+    expect(updated.status).toBe(200);
+    expect(data.data).toMatchObject({ id: 'entry-1', createdAt: '2024-01-01T00:00:00.000Z' });
+
+    const loaded = await (await GET(new NextRequest('http://localhost:3000/api/history/entry-1'), context('entry-1'))).json();
+    expect(loaded.data.article.title).toBe('Edited');
+  });
+
+  it('should reject invalid ids and incomplete entries', async () => {
+    expect((await put('bad.id', { article, videoMetadata })).status).toBe(400);
+    expect((await put('entry-1', { article })).status).toBe(400);
+  });
+
+  it('should list and search saved articles', async () => {
+    await put('entry-1', { article, videoMetadata });
+    await put('entry-2', { article: { ...article, title: 'Another', tags: [] }, videoMetadata });
+
+    const all = await (await list(new NextRequest('http://localhost:3000/api/history'))).json();
+    const matching = await (await list(new NextRequest('http://localhost:3000/api/history?q=testing'))).json();
+
+    expect(all.data).toHaveLength(2);
+    expect(matching.data.map((entry: { id: string }) => entry.id)).toEqual(['entry-1']);
+  });
+
+  it('should delete saved articles and return 404 for unknown ones', async () => {
+    await put('entry-1', { article, videoMetadata });
+    const request = new NextRequest('http://localhost:3000/api/history/entry-1', { method: 'DELETE' });
+
+    expect((await DELETE(request, context('entry-1'))).status).toBe(200);
+    expect((await DELETE(request, context('entry-1'))).status).toBe(404);
+    expect((await GET(request, context('entry-1'))).status).toBe(404);
+  });
+});
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getHistoryStore } from '@/lib/history-store';
+import { ArticleHistoryEntry, HISTORY_ID_PATTERN } from '@/lib/article-history';
+import { ErrorType } from '@/lib/error-handling';
+
+/**
+ * GET /api/history/:id
+ * Load a saved article with its source video, analysis and options
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const entry = await getHistoryStore().get(id);
+
+    if (!entry) {
+      return NextResponse.json({
+        success: false,
+        error: 'Article not found'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: entry
+    });
+  } catch (error) {
+    console.error('History lookup error:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to get article'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/history/:id
+ * Save a new article or the edits to an existing one
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body: Partial<ArticleHistoryEntry> = await request.json();
+
+    if (!HISTORY_ID_PATTERN.test(id)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid article id',
+        type: ErrorType.VALIDATION_ERROR
+      }, { status: 400 });
+    }
+
+    if (!body.article || !body.videoMetadata) {
+      return NextResponse.json({
+        success: false,
+        error: 'article and videoMetadata are required',
+        type: ErrorType.VALIDATION_ERROR
+      }, { status: 400 });
+    }
+
+    const store = getHistoryStore();
+    const existing = await store.get(id);
+    const now = new Date().toISOString();
+    const entry: ArticleHistoryEntry = {
+      id,
+      article: body.article,
+      videoMetadata: body.videoMetadata,
+      analysis: body.analysis,
+      options: body.options,
+      createdAt: existing?.createdAt || body.createdAt || now,
+      updatedAt: body.updatedAt || now
+    };
+    await store.save(entry);
+
+    return NextResponse.json({
+      success: true,
+      data: entry
+    }, { status: existing ? 200 : 201 });
+  } catch (error) {
+    console.error('History save error:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to save article'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/history/:id
+ * Remove a saved article
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const store = getHistoryStore();
+
+    if (!(await store.get(id))) {
+      return NextResponse.json({
+        success: false,
+        error: 'Article not found'
+      }, { status: 404 });
+    }
+
+    await store.delete(id);
+
+    return NextResponse.json({
+      success: true,
+      data: { id }
+    });
+  } catch (error) {
+    console.error('History delete error:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to delete article'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getHistoryStore } from '@/lib/history-store';
+import { searchHistory } from '@/lib/article-history';
+
+/**
+ * GET /api/history
+ * List saved articles, most recently updated first. Filter with ?q=
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const entries = await getHistoryStore().list();
+    const query = request.nextUrl.searchParams.get('q') || '';
+
+    return NextResponse.json({
+      success: true,
+      data: searchHistory(entries, query)
+    });
+  } catch (error) {
+    console.error('History listing error:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to list article history'
+    }, { status: 500 });
+  }
+}
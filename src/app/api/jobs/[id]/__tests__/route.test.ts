@@ -0,0 +1,74 @@
+/**
+ * @jest-environment node
+ */
+import { GET } from '../route';
+import { POST as cancel } from '../cancel/route';
+import { POST as retry } from '../retry/route';
+import { NextRequest } from 'next/server';
+import { getJobQueue, JobQueueError } from '@/lib/job-queue';
+
+jest.mock('@/lib/job-queue', () => ({
+  ...jest.requireActual('@/lib/job-queue'),
+  getJobQueue: jest.fn()
+}));
+
+describe('/api/jobs/:id', () => {
+  const mockQueue = {
+    getJob: jest.fn(),
+    cancelJob: jest.fn(),
+    retryJob: jest.fn()
+  };
+
+  const request = new NextRequest('http://localhost:3000/api/jobs/job-1');
+  const context = { params: Promise.resolve({ id: 'job-1' }) };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getJobQueue as jest.Mock).mockResolvedValue(mockQueue);
+  });
+
+  describe('GET', () => {
+    it('should return the job status and result', async () => {
+      mockQueue.getJob.mockResolvedValue({
+        id: 'job-1',
+        url: 'https://youtu.be/abc',
+        state: 'running',
+        status: { stage: 'analysis', progress: 55, message: 'Analyzing video content...' },
+        checkpoint: {},
+        attempts: 1
+      });
+
+      const response = await GET(request, context);
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.data).toMatchObject({ id: 'job-1', state: 'running', status: { stage: 'analysis' } });
+      expect(mockQueue.getJob).toHaveBeenCalledWith('job-1');
+    });
+
+    it('should return 404 for unknown jobs', async () => {
+      mockQueue.getJob.mockResolvedValue(null);
+
+      expect((await GET(request, context)).status).toBe(404);
+    });
+  });
+
+  describe('POST cancel and retry', () => {
+    it('should cancel and retry jobs', async () => {
+      mockQueue.cancelJob.mockResolvedValue({ id: 'job-1', state: 'cancelled', status: {} });
+      mockQueue.retryJob.mockResolvedValue({ id: 'job-1', state: 'queued', status: {} });
+
+      expect((await (await cancel(request, context)).json()).data.state).toBe('cancelled');
+      expect((await (await retry(request, context)).json()).data.state).toBe('queued');
+    });
+
+    it('should map queue errors to their status codes', async () => {
+      mockQueue.retryJob.mockRejectedValue(new JobQueueError('Cannot retry a job that is completed', 409));
+
+      const response = await retry(request, context);
+
+      expect(response.status).toBe(409);
+      expect((await response.json()).error).toBe('Cannot retry a job that is completed');
+    });
+  });
+});
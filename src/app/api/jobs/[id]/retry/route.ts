@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobQueue, JobQueueError } from '@/lib/job-queue';
+
+/**
+ * POST /api/jobs/:id/retry
+ * Re-queue a failed or cancelled job, resuming from its last completed stage
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const queue = await getJobQueue();
+    const job = await queue.retryJob(id);
+
+    return NextResponse.json({
+      success: true,
+      data: { id: job.id, state: job.state, status: job.status }
+    });
+  } catch (error) {
+    if (error instanceof JobQueueError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: error.statusCode });
+    }
+
+    console.error('Job retry error:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to retry job'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobQueue } from '@/lib/job-queue';
+
+/**
+ * GET /api/jobs/:id
+ * Report a job's state, processing status and, once finished, its result
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const queue = await getJobQueue();
+    const job = await queue.getJob(id);
+
+    if (!job) {
+      return NextResponse.json({
+        success: false,
+        error: 'Job not found'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        id: job.id,
+        url: job.url,
+        state: job.state,
+        status: job.status,
+        result: job.result,
+        error: job.error,
+        attempts: job.attempts,
+        createdAt: job.createdAt,
+        updatedAt: job.updatedAt
+      }
+    });
+  } catch (error) {
+    console.error('Job lookup error:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to get job'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * @jest-environment node
+ */
+import { POST, GET } from '../route';
+import { NextRequest } from 'next/server';
+import { getJobQueue } from '@/lib/job-queue';
+
+jest.mock('@/lib/job-queue', () => ({
+  ...jest.requireActual('@/lib/job-queue'),
+  getJobQueue: jest.fn()
+}));
+
+describe('/api/jobs', () => {
+  const mockQueue = {
+    createJob: jest.fn(),
+    listJobs: jest.fn()
+  };
+
+  const createRequest = (body: unknown) => new NextRequest('http://localhost:3000/api/jobs', {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: {
+      'Content-Type': 'application/json'
+    }
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getJobQueue as jest.Mock).mockResolvedValue(mockQueue);
+    mockQueue.createJob.mockResolvedValue({
+      id: 'job-1',
+      state: 'queued',
+      status: { stage: 'validation', progress: 0, message: 'Waiting to start...' }
+    });
+  });
+
+  describe('POST', () => {
+    it('should queue a job and return its id', async () => {
+      const response = await POST(createRequest({
+        url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
+        options: { length: 'short', tone: 'casual', format: 'markdown' }
+      }));
+      const data = await response.json();
+
+      expect(response.status).toBe(202);
+      expect(data.data).toMatchObject({ id: 'job-1', state: 'queued' });
+      expect(mockQueue.createJob).toHaveBeenCalledWith({
+        url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
+        baseUrl: 'http://localhost:3000',
+        generationOptions: { length: 'short', tone: 'casual', format: 'markdown' },
+        transcript: undefined
+      });
+    });
+
+    it('should parse uploaded captions into the job transcript', async () => {
+      await POST(createRequest({
+        url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
+        captions: { content: '1\n00:00:01,000 --> 00:00:02,000\nHello\n', format: 'srt' }
+      }));
+
+      expect(mockQueue.createJob.mock.calls[0][0].transcript.segments[0].text).toBe('Hello');
+    });
+
+    it('should reject invalid URLs and captions', async () => {
+      expect((await POST(createRequest({}))).status).toBe(400);
+      expect((await POST(createRequest({ url: 'https://example.com' }))).status).toBe(400);
+
+      const response = await POST(createRequest({
+        url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
+        captions: { content: 'not captions', format: 'srt' }
+      }));
+      expect(response.status).toBe(400);
+
+      const missingContent = await POST(createRequest({
+        url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
+        captions: {}
+      }));
+      expect(missingContent.status).toBe(400);
+      expect(mockQueue.createJob).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET', () => {
+    it('should list jobs', async () => {
+      mockQueue.listJobs.mockResolvedValue([{
+        id: 'job-1',
+        url: 'https://youtu.be/abc',
+        state: 'completed',
+        status: { stage: 'complete', progress: 100, message: 'Done' },
+        checkpoint: {},
+        result: { success: true, article: { title: 'Article' }, processingTime: 1 },
+        createdAt: '2024-01-01T00:00:00.000Z',
+        updatedAt: '2024-01-01T00:00:00.000Z'
+      }]);
+
+      const response = await GET();
+      const data = await response.json();
+
+      expect(data.data).toEqual([expect.objectContaining({ id: 'job-1', state: 'completed', title: 'Article' })]);
+    });
+  });
+});
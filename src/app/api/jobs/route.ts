@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateYouTubeUrl } from '@/lib/youtube-utils';
+import { getJobQueue } from '@/lib/job-queue';
+import { TranscriptService } from '@/lib/transcript-service';
+import { CaptionParseError, CaptionFormat } from '@/lib/caption-parser';
+import { ErrorType } from '@/lib/error-handling';
+import { GenerationOptions, Transcript } from '@/types';
+
+interface CreateJobRequest {
+  url: string;
+  options?: GenerationOptions;
+  force?: boolean;
+  // Uploaded caption file used instead of the YouTube transcript
+  captions?: {
+    content: string;
+    format?: CaptionFormat;
+    filename?: string;
+    language?: string;
+  };
+}
+
+/**
+ * POST /api/jobs
+ * Queue a video for background processing and return the job id
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { url, options, captions, force }: CreateJobRequest = await request.json();
+
+    const validation = validateYouTubeUrl(url || '');
+    if (!validation.isValid) {
+      return NextResponse.json({
+        success: false,
+        error: url ? validation.error || 'Invalid YouTube URL' : 'YouTube URL is required',
+        type: ErrorType.INVALID_URL
+      }, { status: 400 });
+    }
+
+    let transcript: Transcript | undefined;
+    if (captions) {
+      if (typeof captions.content !== 'string') {
+        return NextResponse.json({
+          success: false,
+          error: 'Caption file content (captions.content) must be a string',
+          type: ErrorType.VALIDATION_ERROR
+        }, { status: 400 });
+      }
+
+      try {
+        transcript = TranscriptService.parseCaptionFile(captions.content, captions);
+      } catch (error) {
+        if (error instanceof CaptionParseError) {
+          return NextResponse.json({
+            success: false,
+            error: error.message,
+            type: ErrorType.VALIDATION_ERROR,
+            format: error.format,
+            line: error.line
+          }, { status: 400 });
+        }
+        throw error;
+      }
+    }
+
+    const queue = await getJobQueue();
+    const job = await queue.createJob({
+      url,
+      baseUrl: request.nextUrl.origin,
+      generationOptions: options,
+      transcript,
+      force
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { id: job.id, state: job.state, status: job.status }
+    }, { status: 202 });
+
+  } catch (error) {
+    console.error('Job creation error:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to create job'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * GET /api/jobs
+ * List jobs, newest first
+ */
+export async function GET() {
+  try {
+    const queue = await getJobQueue();
+    const jobs = await queue.listJobs();
+
+    return NextResponse.json({
+      success: true,
+      data: jobs.map(job => ({
+        id: job.id,
+        url: job.url,
+        state: job.state,
+        status: job.status,
+        title: job.result?.article?.title || job.checkpoint.videoMetadata?.title,
+        error: job.error,
+        createdAt: job.createdAt,
+        updatedAt: job.updatedAt
+      }))
+    });
+  } catch (error) {
+    console.error('Job listing error:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to list jobs'
+    }, { status: 500 });
+  }
+}
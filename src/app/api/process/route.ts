@@ -1,34 +1,44 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { validateYouTubeUrl } from '@/lib/youtube-utils';
-import { ProcessingError, createProcessingError, ErrorType } from '@/lib/error-handling';
+import { createProcessingError, ErrorType } from '@/lib/error-handling';
 import { ProcessingPipeline } from '@/lib/processing-pipeline';
+import { getDefaultStageCache } from '@/lib/stage-cache';
+import { DirectStageExecutor } from '@/lib/stage-executor';
+import { TranscriptService } from '@/lib/transcript-service';
+import { CaptionParseError, CaptionFormat } from '@/lib/caption-parser';
+import { ArticleTemplate, GenerationOptions, ProcessingStatus, Transcript } from '@/types';
 
 interface ProcessingRequest {
   url: string;
+  // Uploaded caption file used instead of the YouTube transcript
+  captions?: {
+    content: string;
+    format?: CaptionFormat;
+    filename?: string;
+    language?: string;
+  };
   options?: {
     articleLength?: 'short' | 'medium' | 'long';
     tone?: 'professional' | 'casual' | 'technical';
     format?: 'markdown' | 'html' | 'plain';
     customTemplate?: string;
+    // User-defined templates customTemplate may refer to
+    userTemplates?: ArticleTemplate[];
+    provider?: string;
+    model?: string;
+    temperature?: number;
+    maxTokens?: number;
+    generationMode?: 'single' | 'chunked';
+    contextTokenBudget?: number;
   };
-}
-
-interface ProcessingResponse {
-  success: boolean;
-  data?: {
-    metadata: any;
-    transcript: any;
-    analysis: any;
-    article: any;
-  };
-  error?: string;
-  stage?: string;
+  // Ignore cached stage results and reprocess
+  force?: boolean;
 }
 
 export async function POST(request: NextRequest) {
   try {
     const body: ProcessingRequest = await request.json();
-    const { url, options = {} } = body;
+    const { url, captions, options = {}, force } = body;
 
     // Validate input
     if (!url) {
@@ -46,96 +56,93 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
-    // Import service functions directly for server-side processing
-    const { YouTubeApiService } = await import('@/lib/youtube-api');
-    const { TranscriptService } = await import('@/lib/transcript-service');
-    const { ContentAnalyzer } = await import('@/lib/content-analyzer');
-    const { AIArticleGenerator } = await import('@/lib/ai-article-generator');
-    const { ArticleGenerator } = await import('@/lib/article-generator');
-    const { extractVideoId } = await import('@/lib/youtube-utils');
+    // Uploaded captions skip YouTube transcript extraction
+    let transcript: Transcript | undefined;
+    if (captions) {
+      if (typeof captions.content !== 'string') {
+        return NextResponse.json({
+          success: false,
+          error: 'Caption file content (captions.content) must be a string',
+          stage: 'transcription'
+        }, { status: 400 });
+      }
+
+      try {
+        transcript = TranscriptService.parseCaptionFile(captions.content, {
+          format: captions.format,
+          filename: captions.filename,
+          language: captions.language
+        });
+      } catch (error) {
+        if (error instanceof CaptionParseError) {
+          return NextResponse.json({
+            success: false,
+            error: error.message,
+            stage: 'transcription'
+          }, { status: 400 });
+        }
+        throw error;
+      }
+    }
 
-    // Stage 1: Extract metadata
-    const videoId = extractVideoId(url);
-    if (!videoId) {
+    const generationOptions: GenerationOptions = {
+      length: options.articleLength || 'medium',
+      tone: options.tone || 'professional',
+      format: options.format || 'markdown',
+      customTemplate: options.customTemplate,
+      userTemplates: options.userTemplates,
+      provider: options.provider,
+      model: options.model,
+      temperature: options.temperature,
+      maxTokens: options.maxTokens,
+      generationMode: options.generationMode,
+      contextTokenBudget: options.contextTokenBudget
+    };
+
+    // Stages run in-process; a client disconnect cancels them
+    let stage: ProcessingStatus['stage'] = 'validation';
+    const pipeline = new ProcessingPipeline(new DirectStageExecutor(), getDefaultStageCache());
+    const result = await pipeline.processVideo(url, {
+      generationOptions,
+      transcript,
+      force,
+      signal: request.signal,
+      onProgress: status => {
+        if (status.stage !== 'error' && status.stage !== 'cancelled') stage = status.stage;
+      }
+    });
+
+    if (result.cancelled) {
       return NextResponse.json({
         success: false,
-        error: 'Invalid YouTube URL - could not extract video ID',
-        stage: 'metadata'
-      }, { status: 400 });
+        error: result.error,
+        stage
+      }, { status: 499 });
     }
 
-    const apiKey = process.env.YOUTUBE_API_KEY;
-    if (!apiKey) {
+    if (!result.success) {
       return NextResponse.json({
         success: false,
-        error: 'YouTube API key not configured',
-        stage: 'metadata'
+        error: result.error,
+        stage
       }, { status: 500 });
     }
 
-    const youtubeService = new YouTubeApiService(apiKey);
-    const metadata = await youtubeService.getVideoMetadata(videoId);
-
-    // Stage 2: Extract transcript
-    const transcript = await TranscriptService.extractTranscript(videoId);
-
-    // Stage 3: Analyze content
-    const analysis = ContentAnalyzer.analyzeContent(transcript);
-
-    // Stage 4: Generate article with AI (fallback to template-based)
-    let article;
-    let generationMethod = 'template';
-    
-    const generationOptions = {
-      length: options.articleLength || 'medium',
-      tone: options.tone || 'professional',
-      format: options.format || 'markdown',
-      customTemplate: options.customTemplate
-    };
-
-    try {
-      console.log('Attempting AI article generation...');
-      console.log('Analysis summary:', analysis.summary);
-      console.log('Key points count:', analysis.keyPoints?.length || 0);
-      console.log('Topics count:', analysis.topics?.length || 0);
-      console.log('Generation options:', generationOptions);
-      
-      article = await AIArticleGenerator.generateArticle(
-        analysis,
-        metadata,
-        transcript,
-        generationOptions
-      );
-      generationMethod = 'ai';
-      console.log('✅ AI generation successful');
-    } catch (error) {
-      console.error('❌ AI generation failed with error:', error);
-      console.error('Error details:', {
-        message: error instanceof Error ? error.message : 'Unknown error',
-        stack: error instanceof Error ? error.stack : undefined
-      });
-      
-      console.log('Falling back to template-based generation...');
-      article = ArticleGenerator.generateArticle(
-        analysis,
-        metadata,
-        transcript,
-        generationOptions
-      );
-      generationMethod = 'template';
-      console.log('✅ Template-based generation completed');
-    }
+    // Cached articles were not template fallbacks, which are never cached
+    const generationMethod = result.telemetry?.fallback ? 'template' : 'ai';
 
-    // Return complete result
     return NextResponse.json({
       success: true,
       data: {
-        metadata,
-        transcript,
-        analysis,
-        article,
-        generationMethod
-      }
+        metadata: result.videoMetadata,
+        transcript: result.transcript,
+        analysis: result.analysis,
+        article: result.article,
+        generationMethod,
+        telemetry: result.telemetry
+      },
+      processingTime: result.processingTime,
+      cacheHits: result.cacheHits
     });
 
   } catch (error) {
@@ -162,7 +169,9 @@ export async function GET() {
       contentType: 'application/json',
       body: {
         url: 'YouTube video URL',
-        options: 'Optional processing options'
+        captions: 'Optional uploaded caption file { content, format, filename, language } used instead of the YouTube transcript',
+        options: 'Optional processing options',
+        force: 'Optional boolean; ignore cached stage results and reprocess'
       }
     },
     response: {
@@ -171,9 +180,14 @@ export async function GET() {
         metadata: 'Video metadata object',
         transcript: 'Extracted transcript',
         analysis: 'Content analysis results',
-        article: 'Generated article'
+        article: 'Generated article',
+        generationMethod: "'ai', or 'template' when the LLM failed and the template generator was used",
+        telemetry: 'How the article was generated (absent for cached articles)'
       },
-      error: 'Error message if failed'
+      processingTime: 'Total processing time in milliseconds',
+      cacheHits: 'Whether each stage result came from the stage cache',
+      error: 'Error message if failed',
+      stage: 'Stage that failed or was cancelled'
     }
   });
 }
\ No newline at end of file
@@ -157,7 +157,7 @@ describe('/api/process/stream', () => {
       expect(data.description).toContain('Server-Sent Events');
       expect(data.usage.method).toBe('POST');
       expect(data.response.type).toBe('text/event-stream');
-      expect(data.response.events).toHaveLength(3);
+      expect(data.response.events).toHaveLength(4);
       expect(data.example.javascript).toContain('fetch(\'/api/process/stream\'');
     });
 
@@ -167,6 +167,7 @@ describe('/api/process/stream', () => {
 
       const eventTypes = data.response.events.map((event: any) => event.type);
       expect(eventTypes).toContain('progress');
+      expect(eventTypes).toContain('article-delta');
       expect(eventTypes).toContain('result');
       expect(eventTypes).toContain('error');
     });
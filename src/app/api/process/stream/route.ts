@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { ProcessingPipeline, PipelineOptions } from '@/lib/processing-pipeline';
+import { getDefaultStageCache } from '@/lib/stage-cache';
+import { DirectStageExecutor } from '@/lib/stage-executor';
+import { ArticleDelta } from '@/lib/article-stream';
 import { GenerationOptions, ProcessingStatus } from '@/types';
 
 /**
@@ -10,7 +13,7 @@ import { GenerationOptions, ProcessingStatus } from '@/types';
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { url, options }: { url: string; options?: GenerationOptions } = body;
+    const { url, options, force }: { url: string; options?: GenerationOptions; force?: boolean } = body;
     
     // Validate required fields
     if (!url) {
@@ -19,6 +22,11 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
+    // Aborted when the client disconnects or cancels the stream
+    const abortController = new AbortController();
+    request.signal.addEventListener('abort', () => abortController.abort());
+    let closed = false;
+
     // Create a readable stream for Server-Sent Events
     const stream = new ReadableStream({
       start(controller) {
@@ -26,6 +34,7 @@ export async function POST(request: NextRequest) {
         
         // Function to send progress updates
         const sendProgress = (status: ProcessingStatus) => {
+          if (closed) return;
           const data = `data: ${JSON.stringify({
             type: 'progress',
             status
@@ -33,8 +42,19 @@ export async function POST(request: NextRequest) {
           controller.enqueue(encoder.encode(data));
         };
 
+        // Function to send article text as the LLM generates it
+        const sendArticleDelta = (delta: ArticleDelta) => {
+          if (closed) return;
+          const data = `data: ${JSON.stringify({
+            type: 'article-delta',
+            delta
+          })}\n\n`;
+          controller.enqueue(encoder.encode(data));
+        };
+
         // Function to send final result
         const sendResult = (result: any) => {
+          if (closed) return;
           const data = `data: ${JSON.stringify({
             type: 'result',
             result
@@ -44,6 +64,7 @@ export async function POST(request: NextRequest) {
 
         // Function to send error
         const sendError = (error: string) => {
+          if (closed) return;
           const data = `data: ${JSON.stringify({
             type: 'error',
             error
@@ -51,24 +72,32 @@ export async function POST(request: NextRequest) {
           controller.enqueue(encoder.encode(data));
         };
 
-        // Create pipeline instance with progress callback
-        const pipeline = new ProcessingPipeline();
+        // Create pipeline instance with progress callback; stages run in-process
+        const pipeline = new ProcessingPipeline(new DirectStageExecutor(), getDefaultStageCache());
         
         const pipelineOptions: PipelineOptions = {
           generationOptions: options,
-          onProgress: sendProgress
+          onProgress: sendProgress,
+          onArticleDelta: sendArticleDelta,
+          force,
+          signal: abortController.signal
         };
 
         // Start processing
         pipeline.processVideo(url, pipelineOptions)
           .then((result) => {
             sendResult(result);
-            controller.close();
+            if (!closed) controller.close();
           })
           .catch((error) => {
             sendError(error instanceof Error ? error.message : 'Processing failed');
-            controller.close();
+            if (!closed) controller.close();
           });
+      },
+      cancel() {
+        // The reader went away, so stop the pipeline's in-flight requests
+        closed = true;
+        abortController.abort();
       }
     });
 
@@ -106,7 +135,8 @@ export async function GET(): Promise<NextResponse> {
       contentType: 'application/json',
       body: {
         url: 'YouTube video URL',
-        options: 'Optional generation options'
+        options: 'Optional generation options',
+        force: 'Optional boolean; ignore cached stage results and reprocess'
       }
     },
     response: {
@@ -122,6 +152,15 @@ export async function GET(): Promise<NextResponse> {
             estimatedTimeRemaining: 'Estimated seconds remaining (optional)'
           }
         },
+        {
+          type: 'article-delta',
+          description: 'Article text streamed while the LLM writes it; append it to the named field',
+          data: {
+            field: "'title', 'introduction', 'conclusion', or 'heading' / 'content' of a section",
+            sectionIndex: 'Index of the section (heading and content deltas only)',
+            text: 'Text to append to the field'
+          }
+        },
         {
           type: 'result',
           description: 'Final processing result',
@@ -132,6 +171,7 @@ export async function GET(): Promise<NextResponse> {
             analysis: 'Content analysis results',
             article: 'Generated article',
             error: 'Error message if failed',
+            cancelled: 'True if processing was cancelled',
             processingTime: 'Total processing time in milliseconds'
           }
         },
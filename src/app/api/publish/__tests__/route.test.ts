@@ -0,0 +1,137 @@
+/**
+ * @jest-environment node
+ */
+import { POST, GET } from '../route';
+import { NextRequest } from 'next/server';
+import { PublishingConnectorRegistry } from '@/lib/publishing-connectors';
+import { MOCK_PUBLISHING_CREDENTIALS, MockPublishingServer, startMockPublishingServer } from '@/lib/publishing-mock-server';
+import { Article } from '@/types';
+
+describe('/api/publish', () => {
+  const env = process.env;
+  let server: MockPublishingServer;
+
+  const mockArticle: Article = {
+    title: 'Published Article',
+    introduction: 'Introduction text.',
+    sections: [{ heading: 'Main', content: 'Main content.' }],
+    conclusion: 'Conclusion text.',
+    metadata: {
+      wordCount: 10,
+      readingTime: 1,
+      seoTitle: 'Published Article',
+      metaDescription: 'Introduction text.',
+      sourceVideo: {
+        id: 'abc123',
+        title: 'Source Video',
+        description: 'A video',
+        duration: 60,
+        thumbnailUrl: '',
+        channelName: 'Channel',
+        publishDate: new Date('2024-01-01'),
+        viewCount: 1
+      }
+    },
+    tags: ['publish']
+  };
+
+  const createRequest = (body: unknown) => new NextRequest('http://localhost:3000/api/publish', {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: {
+      'Content-Type': 'application/json'
+    }
+  });
+
+  beforeEach(async () => {
+    server = await startMockPublishingServer();
+    process.env = {
+      ...env,
+      WORDPRESS_URL: server.url,
+      WORDPRESS_USERNAME: MOCK_PUBLISHING_CREDENTIALS.wordpress.username,
+      WORDPRESS_APP_PASSWORD: MOCK_PUBLISHING_CREDENTIALS.wordpress.applicationPassword,
+      GHOST_ADMIN_URL: server.url,
+      GHOST_ADMIN_API_KEY: 'abc:00ff',
+      DEVTO_API_KEY: '',
+      PUBLISH_WEBHOOK_URL: ''
+    };
+    PublishingConnectorRegistry.reset();
+  });
+
+  afterEach(async () => {
+    process.env = env;
+    PublishingConnectorRegistry.reset();
+    await server.close();
+  });
+
+  describe('POST', () => {
+    it('should publish the article and record the publication', async () => {
+      const response = await POST(createRequest({ article: mockArticle, destination: 'wordpress', status: 'published' }));
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.success).toBe(true);
+      expect(data.publication).toMatchObject({ destination: 'wordpress', remoteId: '2', status: 'published' });
+      expect(data.article.publications).toEqual([data.publication]);
+      expect(server.posts[0].data).toMatchObject({ title: 'Published Article', status: 'publish' });
+    });
+
+    it('should update the recorded post when republishing', async () => {
+      const first = await (await POST(createRequest({ article: mockArticle, destination: 'wordpress' }))).json();
+      const response = await POST(createRequest({
+        article: { ...first.article, title: 'Renamed Article' },
+        destination: 'wordpress'
+      }));
+      const data = await response.json();
+
+      expect(data.publication.remoteId).toBe(first.publication.remoteId);
+      expect(data.publication.status).toBe('draft');
+      expect(server.posts).toHaveLength(1);
+      expect(server.posts[0].data.title).toBe('Renamed Article');
+    });
+
+    it('should return 502 when the destination rejects the post', async () => {
+      const response = await POST(createRequest({ article: mockArticle, destination: 'ghost' }));
+      const data = await response.json();
+
+      expect(response.status).toBe(502);
+      expect(data.error).toBe('Ghost API error: 401 - Invalid token');
+    });
+
+    it('should return 400 for destinations without credentials', async () => {
+      const response = await POST(createRequest({ article: mockArticle, destination: 'devto' }));
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe('Dev.to publishing is not configured');
+    });
+
+    it('should return 400 for unsupported destinations', async () => {
+      const response = await POST(createRequest({ article: mockArticle, destination: 'medium' }));
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toContain('Unsupported destination: medium');
+    });
+
+    it('should return 400 when the article is missing', async () => {
+      const response = await POST(createRequest({ destination: 'wordpress' }));
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('GET', () => {
+    it('should list the destinations with their configuration state', async () => {
+      const response = await GET();
+      const data = await response.json();
+
+      expect(data.destinations).toEqual([
+        { destination: 'wordpress', label: 'WordPress', configured: true },
+        { destination: 'ghost', label: 'Ghost', configured: true },
+        { destination: 'devto', label: 'Dev.to', configured: false },
+        { destination: 'webhook', label: 'Webhook', configured: false }
+      ]);
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PublishStatus } from '@/lib/export-utils';
+import {
+  PUBLISHING_DESTINATIONS,
+  PublishingConnectorRegistry,
+  PublishingError,
+  isPublishingDestination,
+  publishArticle
+} from '@/lib/publishing-connectors';
+import { Article, PublishingDestination } from '@/types';
+
+export interface PublishRequestBody {
+  article: Article;
+  destination: PublishingDestination;
+  // Posts are drafts unless set to 'published'
+  status?: PublishStatus;
+}
+
+/**
+ * POST /api/publish
+ * Publish an article to a destination, or update the post it was published as
+ * before, and return the article with the publication recorded on it
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body: PublishRequestBody = await request.json();
+
+    if (!body.article || !body.article.title || !body.article.metadata?.sourceVideo) {
+      return NextResponse.json({
+        success: false,
+        error: 'Article with title and source video metadata is required'
+      }, { status: 400 });
+    }
+
+    if (!isPublishingDestination(body.destination)) {
+      return NextResponse.json({
+        success: false,
+        error: `Unsupported destination: ${body.destination}. Supported destinations: ${PUBLISHING_DESTINATIONS.join(', ')}`
+      }, { status: 400 });
+    }
+
+    const connector = PublishingConnectorRegistry.get(body.destination);
+    if (!connector.isConfigured()) {
+      return NextResponse.json({
+        success: false,
+        error: `${connector.label} publishing is not configured`
+      }, { status: 400 });
+    }
+
+    const article: Article = {
+      ...body.article,
+      sections: body.article.sections || [],
+      tags: body.article.tags || []
+    };
+
+    try {
+      const result = await publishArticle(article, connector, body.status === 'published' ? 'published' : 'draft');
+
+      return NextResponse.json({
+        success: true,
+        article: result.article,
+        publication: result.publication
+      });
+    } catch (error) {
+      if (error instanceof PublishingError) {
+        // The destination rejected the post or could not be reached
+        return NextResponse.json({
+          success: false,
+          error: error.message
+        }, { status: 502 });
+      }
+      throw error;
+    }
+
+  } catch (error) {
+    console.error('Article publishing error:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to publish article'
+    }, { status: 500 });
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    message: 'Article Publishing API',
+    endpoints: {
+      'POST /api/publish': 'Publish an article, or update its earlier publication, at a destination'
+    },
+    destinations: PublishingConnectorRegistry.list(),
+    requiredFields: {
+      article: 'Article object; its publications record earlier posts',
+      destination: PUBLISHING_DESTINATIONS.join(' | '),
+      status: 'Optional draft | published (default draft)'
+    }
+  });
+}
@@ -0,0 +1,90 @@
+/**
+ * @jest-environment node
+ */
+import { POST, GET } from '../route';
+import { NextRequest } from 'next/server';
+
+describe('/api/transcript/upload', () => {
+  const srt = `1
+00:00:01,000 --> 00:00:03,000
+Hello world
+
+2
+00:00:04,000 --> 00:00:06,000
+Second line
+`;
+
+  const createJsonRequest = (body: unknown) => new NextRequest('http://localhost:3000/api/transcript/upload', {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: {
+      'Content-Type': 'application/json'
+    }
+  });
+
+  describe('POST', () => {
+    it('should parse a caption file uploaded as multipart form data', async () => {
+      const formData = new FormData();
+      formData.append('file', new File([srt], 'captions.srt', { type: 'application/x-subrip' }));
+      formData.append('language', 'en');
+
+      const request = new NextRequest('http://localhost:3000/api/transcript/upload', {
+        method: 'POST',
+        body: formData
+      });
+
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.success).toBe(true);
+      expect(data.format).toBe('srt');
+      expect(data.segmentCount).toBe(2);
+      expect(data.data.segments[0]).toEqual(expect.objectContaining({ text: 'Hello world', startTime: 1, endTime: 3 }));
+    });
+
+    it('should parse caption content sent as JSON', async () => {
+      const response = await POST(createJsonRequest({ content: srt, format: 'srt', language: 'es' }));
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.data.language).toBe('es');
+      expect(data.data.duration).toBe(6);
+    });
+
+    it('should return 400 with the line number for malformed files', async () => {
+      const response = await POST(createJsonRequest({ content: '1\nbroken\ntext', format: 'srt' }));
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.success).toBe(false);
+      expect(data.line).toBe(1);
+      expect(data.format).toBe('srt');
+    });
+
+    it('should return 400 for unsupported formats', async () => {
+      const response = await POST(createJsonRequest({ content: srt, format: 'ass' }));
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toContain('Unsupported caption format: ass');
+    });
+
+    it('should return 400 when no file is provided', async () => {
+      const response = await POST(createJsonRequest({}));
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.type).toBe('VALIDATION_ERROR');
+    });
+  });
+
+  describe('GET', () => {
+    it('should list supported formats', async () => {
+      const response = await GET();
+      const data = await response.json();
+
+      expect(data.supportedFormats).toEqual(['srt', 'vtt', 'sbv', 'ttml']);
+    });
+  });
+});
@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { TranscriptService } from '@/lib/transcript-service';
+import { CaptionParser, CaptionParseError, CaptionFormat, SUPPORTED_CAPTION_FORMATS } from '@/lib/caption-parser';
+import { createProcessingError, ErrorType } from '@/lib/error-handling';
+
+// Caption files are plain text; anything larger is almost certainly not a caption file
+const MAX_CAPTION_FILE_SIZE = 5 * 1024 * 1024;
+
+interface CaptionUpload {
+  content: string;
+  filename?: string;
+  format?: string;
+  language?: string;
+}
+
+/**
+ * Read the caption upload from multipart form data or a JSON body
+ */
+async function readUpload(request: NextRequest): Promise<CaptionUpload | null> {
+  const contentType = request.headers.get('content-type') || '';
+
+  if (contentType.includes('multipart/form-data')) {
+    const formData = await request.formData();
+    const file = formData.get('file');
+    if (!file || typeof file === 'string') {
+      return null;
+    }
+
+    return {
+      content: await file.text(),
+      filename: file.name,
+      format: (formData.get('format') as string | null) || undefined,
+      language: (formData.get('language') as string | null) || undefined
+    };
+  }
+
+  const body = await request.json();
+  if (typeof body?.content !== 'string') {
+    return null;
+  }
+
+  return body;
+}
+
+/**
+ * POST /api/transcript/upload
+ * Parse an uploaded SRT, WebVTT, SBV or TTML caption file into a transcript
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const upload = await readUpload(request);
+
+    if (!upload) {
+      const error = createProcessingError(
+        ErrorType.VALIDATION_ERROR,
+        undefined,
+        'A caption file (form field "file") or JSON "content" is required'
+      );
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.details.message,
+          type: error.type,
+          suggestions: error.details.suggestions
+        },
+        { status: 400 }
+      );
+    }
+
+    if (upload.content.length > MAX_CAPTION_FILE_SIZE) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Caption file is too large (maximum ${MAX_CAPTION_FILE_SIZE / 1024 / 1024} MB)`,
+          type: ErrorType.VALIDATION_ERROR
+        },
+        { status: 413 }
+      );
+    }
+
+    if (upload.format && !SUPPORTED_CAPTION_FORMATS.includes(upload.format as CaptionFormat)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Unsupported caption format: ${upload.format}. Supported formats: ${SUPPORTED_CAPTION_FORMATS.join(', ')}`,
+          type: ErrorType.VALIDATION_ERROR
+        },
+        { status: 400 }
+      );
+    }
+
+    const format = (upload.format as CaptionFormat | undefined) ||
+      CaptionParser.detectFormat(upload.content, upload.filename) ||
+      undefined;
+
+    const transcript = TranscriptService.parseCaptionFile(upload.content, {
+      format,
+      filename: upload.filename,
+      language: upload.language
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: transcript,
+      format,
+      segmentCount: transcript.segments.length
+    });
+
+  } catch (error) {
+    if (error instanceof CaptionParseError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message,
+          type: ErrorType.VALIDATION_ERROR,
+          format: error.format,
+          line: error.line
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Caption upload error:', error);
+
+    const processingError = createProcessingError(ErrorType.PROCESSING_FAILED, error as Error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: processingError.details.userMessage,
+        type: processingError.type
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    message: 'Caption Upload API',
+    endpoints: {
+      'POST /api/transcript/upload': 'Parse an uploaded caption file into a transcript'
+    },
+    supportedFormats: SUPPORTED_CAPTION_FORMATS,
+    requiredFields: {
+      file: 'Caption file (multipart/form-data), or "content" string in a JSON body',
+      format: 'Optional format (detected from filename or content when omitted)',
+      language: 'Optional language code (defaults to the file language or "en")'
+    },
+    maxFileSize: `${MAX_CAPTION_FILE_SIZE / 1024 / 1024} MB`
+  });
+}
@@ -2,11 +2,23 @@
 
 import { useState, useEffect } from 'react';
 import { Button } from "@/components/ui/button";
-import { validateYouTubeUrl, formatDuration } from "@/lib/youtube-utils";
-import { VideoMetadata } from "@/types";
+import { validateYouTubeUrl, parseYouTubeCollectionUrl, formatDuration } from "@/lib/youtube-utils";
+import { Article, ArticleSection, GenerationOptions, VideoMetadata } from "@/types";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
 import { ErrorDisplay } from "@/components/ErrorDisplay";
-import { ProcessingError, normalizeError } from "@/lib/error-handling";
+import { BatchProcessingStatus } from "@/components/BatchProcessingStatus";
+import { ArticleHistory } from "@/components/ArticleHistory";
+import { TemplateBuilder } from "@/components/TemplateBuilder";
+import { SocialPostsPanel } from "@/components/SocialPostsPanel";
+import ArticlePreview, { StreamingArticlePreview } from "@/components/ArticlePreview";
+import { useBatchProcessing } from "@/hooks/useBatchProcessing";
+import { useProcessingPipeline } from "@/hooks/useProcessingPipeline";
+import { useArticleHistory } from "@/hooks/useArticleHistory";
+import { useUserPreferences } from "@/hooks/useUserPreferences";
+import type { ArticleHistoryEntry } from "@/lib/article-history";
+import type { SocialDerivativesResult } from "@/lib/social-derivatives";
+import { ChapterDetector } from "@/lib/chapter-detector";
+import { ProcessingError } from "@/lib/error-handling";
 
 interface ValidationState {
   isValid: boolean;
@@ -27,11 +39,25 @@ function HomePage() {
     message: '',
     showValidation: false
   });
-  const [isLoading, setIsLoading] = useState(false);
   const [metadata, setMetadata] = useState<VideoMetadata | null>(null);
   const [error, setError] = useState<ProcessingError | null>(null);
   const [processingResult, setProcessingResult] = useState<any>(null);
   const [copyNotification, setCopyNotification] = useState<string | null>(null);
+  const batch = useBatchProcessing();
+  // Single videos go through the streaming endpoint so the article shows up as it is written
+  const pipeline = useProcessingPipeline();
+  const [batchFormat, setBatchFormat] = useState<'markdown' | 'html' | 'plain'>('markdown');
+  const { preferences, updatePreference } = useUserPreferences();
+  const [showTemplateBuilder, setShowTemplateBuilder] = useState(false);
+  const history = useArticleHistory();
+  // History entry of the article currently shown, once it has been saved
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  // Bumped whenever another article is shown, so the editor starts a fresh revision history
+  const [articleSession, setArticleSession] = useState(0);
+  const [isEditing, setIsEditing] = useState(false);
+  const [resultTab, setResultTab] = useState<'article' | 'social'>('article');
+  const isBusy = pipeline.state.isProcessing || batch.state.isProcessing;
+  const displayError = error || pipeline.state.error || batch.state.error;
 
   // Real-time URL validation
   useEffect(() => {
@@ -44,6 +70,17 @@ function HomePage() {
       return;
     }
 
+    // Playlists and channels are processed as a batch
+    const collection = parseYouTubeCollectionUrl(url);
+    if (collection) {
+      setValidation({
+        isValid: true,
+        message: `Valid YouTube ${collection.type} URL - videos will be processed as a batch`,
+        showValidation: true
+      });
+      return;
+    }
+
     const validation = validateYouTubeUrl(url);
     setValidation({
       isValid: validation.isValid,
@@ -59,63 +96,165 @@ function HomePage() {
       return;
     }
 
-    setIsLoading(true);
+    // Get form values
+    const articleLength = (document.getElementById('article-length') as HTMLSelectElement)?.value || 'medium';
+    const tone = (document.getElementById('writing-tone') as HTMLSelectElement)?.value || 'professional';
+    const format = (document.getElementById('output-format') as HTMLSelectElement)?.value || 'markdown';
+    const template = (document.getElementById('article-template') as HTMLSelectElement)?.value || 'auto';
+    const userTemplate = preferences.customTemplates.find(t => t.name === template);
+    const options = {
+      articleLength: articleLength as 'short' | 'medium' | 'long',
+      tone: tone as 'professional' | 'casual' | 'technical',
+      format: format as 'markdown' | 'html' | 'plain',
+      customTemplate: template === 'auto' ? undefined : template,
+      userTemplates: userTemplate ? [userTemplate] : undefined
+    };
+
+    const { articleLength: length, ...rest } = options;
+    const generationOptions: GenerationOptions = { length, ...rest };
+
     setError(null);
     setMetadata(null);
-
-    try {
-      // Get form values
-      const articleLength = (document.getElementById('article-length') as HTMLSelectElement)?.value || 'medium';
-      const tone = (document.getElementById('writing-tone') as HTMLSelectElement)?.value || 'professional';
-      const format = (document.getElementById('output-format') as HTMLSelectElement)?.value || 'markdown';
-      const template = (document.getElementById('article-template') as HTMLSelectElement)?.value || 'auto';
-
-      // Use the full processing pipeline
-      const response = await fetch('/api/process', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          url,
-          options: {
-            articleLength: articleLength as 'short' | 'medium' | 'long',
-            tone: tone as 'professional' | 'casual' | 'technical',
-            format: format as 'markdown' | 'html' | 'plain',
-            customTemplate: template === 'auto' ? undefined : template
+    setProcessingResult(null);
+    setHistoryId(null);
+    setIsEditing(false);
+    setResultTab('article');
+
+    if (parseYouTubeCollectionUrl(url)) {
+      setBatchFormat(options.format);
+      const status = await batch.processBatch(url, generationOptions);
+      if (status && preferences.autoSave) {
+        for (const item of status.items) {
+          if (item.article) {
+            await history.saveArticle(item.article, item.article.metadata.sourceVideo, undefined, generationOptions);
           }
-        }),
-      });
+        }
+      }
+      return;
+    }
 
-      const data = await response.json();
+    const result = await pipeline.processVideoWithProgress(url, generationOptions);
 
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to process video');
+    if (result) {
+      setMetadata(result.videoMetadata);
+      setProcessingResult({ ...result, metadata: result.videoMetadata, options: generationOptions });
+      setArticleSession(session => session + 1);
+
+      if (preferences.autoSave && result.article) {
+        const entry = await history.saveArticle(result.article, result.videoMetadata, result.analysis, generationOptions);
+        setHistoryId(entry?.id ?? null);
       }
+      console.log('Full processing result:', result);
+    }
+  };
+
+  // Show an article from the batch in the regular result view
+  const handleSelectBatchArticle = (article: Article) => {
+    setMetadata(article.metadata.sourceVideo);
+    setProcessingResult({ article });
+    setArticleSession(session => session + 1);
+    setHistoryId(history.entries.find(entry => entry.article === article)?.id ?? null);
+    setIsEditing(false);
+  };
 
-      if (data.success && data.data) {
-        setMetadata(data.data.metadata);
-        setProcessingResult(data.data);
-        console.log('Full processing result:', data.data);
-        
-        // Show generation method if available
-        if (data.data.generationMethod) {
-          console.log('Article generation method:', data.data.generationMethod);
+  // Reopen a saved article for editing
+  const handleOpenHistoryEntry = (entry: ArticleHistoryEntry) => {
+    setMetadata(entry.videoMetadata);
+    setProcessingResult({ article: entry.article, analysis: entry.analysis, options: entry.options });
+    setArticleSession(session => session + 1);
+    setHistoryId(entry.id);
+    setIsEditing(true);
+    setError(null);
+  };
+
+  const handleDeleteHistoryEntry = async (id: string) => {
+    await history.removeEntry(id);
+    if (id === historyId) {
+      setHistoryId(null);
+    }
+  };
+
+  const handleSaveDraft = async (article: Article) => {
+    const entry = historyId
+      ? await history.updateArticle(historyId, article)
+      : await history.saveArticle(article, metadata ?? article.metadata.sourceVideo, processingResult?.analysis);
+    if (entry) {
+      setHistoryId(entry.id);
+      setCopyNotification('Article saved to history');
+      setTimeout(() => setCopyNotification(null), 3000);
+    }
+  };
+
+  // Rewrite one section; the server fetches the transcript itself for reopened articles
+  const handleRegenerateSection = async (sectionIndex: number, instruction: string): Promise<ArticleSection> => {
+    const response = await fetch('/api/content/regenerate-section', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        article: processingResult.article,
+        sectionIndex,
+        instruction,
+        transcript: processingResult.transcript,
+        analysis: processingResult.analysis
+      }),
+    });
+
+    const data = await response.json();
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || 'Failed to regenerate section');
+    }
+    return data.section;
+  };
+
+  // Social posts for the article shown; the analysis adds key points and show note chapters.
+  // They are written with the LLM and tone the article was generated with.
+  const handleGenerateDerivatives = async (): Promise<SocialDerivativesResult> => {
+    const articleOptions: GenerationOptions | undefined = processingResult.options;
+    const response = await fetch('/api/content/derivatives', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        article: processingResult.article,
+        analysis: processingResult.analysis,
+        options: articleOptions && {
+          length: articleOptions.length,
+          tone: articleOptions.tone,
+          format: articleOptions.format,
+          provider: articleOptions.provider,
+          model: articleOptions.model,
+          temperature: articleOptions.temperature
         }
-      }
-    } catch (err) {
-      const processingError = normalizeError(err);
-      setError(processingError);
-    } finally {
-      setIsLoading(false);
+      }),
+    });
+
+    const data = await response.json();
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || 'Failed to generate social posts');
+    }
+    return { derivatives: data.derivatives, generationMethod: data.generationMethod };
+  };
+
+  const handleArticleChange = (article: Article) => {
+    setProcessingResult({ ...processingResult, article });
+    if (preferences.autoSave && historyId) {
+      history.updateArticle(historyId, article);
     }
   };
 
   const handleReset = () => {
+    batch.reset();
+    pipeline.reset();
     setUrl('');
     setMetadata(null);
     setError(null);
     setProcessingResult(null);
+    setHistoryId(null);
+    setIsEditing(false);
+    setResultTab('article');
     setCopyNotification(null);
     setValidation({
       isValid: false,
@@ -191,7 +330,17 @@ function HomePage() {
                   <option value="Presentation Notes">Presentation Notes</option>
                   <option value="Discussion Summary">Discussion Summary</option>
                   <option value="General Article">General Article</option>
+                  {preferences.customTemplates.map(t => (
+                    <option key={t.name} value={t.name}>{t.name}</option>
+                  ))}
                 </select>
+                <button
+                  type="button"
+                  onClick={() => setShowTemplateBuilder(!showTemplateBuilder)}
+                  className="mt-1 text-xs text-blue-600 hover:underline"
+                >
+                  {showTemplateBuilder ? 'Hide' : 'Manage'} custom templates
+                </button>
               </div>
 
               <div>
@@ -208,11 +357,21 @@ function HomePage() {
                   <option value="plain">Plain Text</option>
                 </select>
               </div>
+
+              <label className="flex items-center md:col-span-2 lg:col-span-4">
+                <input
+                  type="checkbox"
+                  checked={preferences.autoSave}
+                  onChange={(e) => updatePreference('autoSave', e.target.checked)}
+                  className="mr-2 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                />
+                <span className="text-sm text-gray-700">Auto-save generated articles to history</span>
+              </label>
             </div>
 
             <div>
               <label htmlFor="youtube-url" className="block text-sm font-medium text-gray-700 mb-2">
-                YouTube Video URL
+                YouTube Video, Playlist or Channel URL
               </label>
               <div className="relative">
                 <input
@@ -227,7 +386,7 @@ function HomePage() {
                       : 'border-red-300 bg-red-50'
                     : 'border-gray-300'
                     }`}
-                  disabled={isLoading}
+                  disabled={isBusy}
                 />
                 {validation.showValidation && (
                   <div className={`absolute right-3 top-1/2 transform -translate-y-1/2 ${validation.isValid ? 'text-green-500' : 'text-red-500'
@@ -255,10 +414,10 @@ function HomePage() {
             <div className="flex gap-4">
               <Button
                 type="submit"
-                disabled={!validation.isValid || isLoading}
+                disabled={!validation.isValid || isBusy}
                 className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
               >
-                {isLoading ? (
+                {isBusy ? (
                   <div className="flex items-center gap-2">
                     <svg className="animate-spin h-4 w-4" fill="none" viewBox="0 0 24 24">
                       <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
@@ -271,12 +430,12 @@ function HomePage() {
                 )}
               </Button>
 
-              {(processingResult || error) && (
+              {(processingResult || displayError || batch.state.status) && (
                 <Button
                   type="button"
                   variant="outline"
                   onClick={handleReset}
-                  disabled={isLoading}
+                  disabled={isBusy}
                 >
                   Reset
                 </Button>
@@ -284,6 +443,14 @@ function HomePage() {
             </div>
           </form>
 
+          {showTemplateBuilder && (
+            <TemplateBuilder
+              className="mt-6"
+              templates={preferences.customTemplates}
+              onChange={(templates) => updatePreference('customTemplates', templates)}
+            />
+          )}
+
           {/* Copy Notification */}
           {copyNotification && (
             <div className="mt-6 p-4 bg-green-100 border border-green-300 rounded-lg">
@@ -297,17 +464,38 @@ function HomePage() {
           )}
 
           {/* Error Display */}
-          {error && (
+          {displayError && (
             <div className="mt-6">
               <ErrorDisplay
-                error={error}
+                error={displayError}
                 onRetry={() => handleSubmit({ preventDefault: () => { } } as React.FormEvent)}
-                onDismiss={() => setError(null)}
+                onDismiss={() => error ? setError(null) : pipeline.state.error ? pipeline.reset() : batch.reset()}
                 showDetails={process.env.NODE_ENV === 'development'}
               />
             </div>
           )}
 
+          {/* Batch Status */}
+          {batch.state.status && (
+            <div className="mt-6">
+              <BatchProcessingStatus
+                status={batch.state.status}
+                format={batchFormat}
+                onSelectArticle={handleSelectBatchArticle}
+              />
+            </div>
+          )}
+
+          {/* Article Being Generated */}
+          {pipeline.state.isProcessing && pipeline.state.partialArticle && (
+            <div className="mt-6">
+              <StreamingArticlePreview
+                article={pipeline.state.partialArticle}
+                status={pipeline.state.status?.message}
+              />
+            </div>
+          )}
+
           {/* Processing Results Display */}
           {processingResult && (
             <div className="mt-6 space-y-6">
@@ -371,8 +559,27 @@ function HomePage() {
                 </div>
               </div>
 
+              {/* Article Editor */}
+              {processingResult.article && isEditing && (
+                <div>
+                  <div className="flex justify-end mb-2">
+                    <Button variant="outline" className="text-sm" onClick={() => setIsEditing(false)}>
+                      Done Editing
+                    </Button>
+                  </div>
+                  <ArticlePreview
+                    key={articleSession}
+                    article={processingResult.article}
+                    onArticleChange={handleArticleChange}
+                    onSaveDraft={handleSaveDraft}
+                    onRegenerateSection={handleRegenerateSection}
+                    transcript={processingResult.transcript}
+                  />
+                </div>
+              )}
+
               {/* Generated Article Preview */}
-              {processingResult.article && (
+              {processingResult.article && !isEditing && (
                 <div className="p-6 bg-blue-50 border border-blue-200 rounded-lg">
                   <div className="flex items-center justify-between mb-4">
                     <h4 className="text-lg font-semibold text-gray-900">Generated Article</h4>
@@ -397,6 +604,33 @@ function HomePage() {
                     )}
                   </div>
 
+                  <div className="flex gap-2 mb-4 border-b border-blue-200" role="tablist">
+                    {([['article', 'Article'], ['social', 'Social Posts']] as const).map(([tab, label]) => (
+                      <button
+                        key={tab}
+                        role="tab"
+                        aria-selected={resultTab === tab}
+                        onClick={() => setResultTab(tab)}
+                        className={`px-3 py-2 text-sm font-medium -mb-px border-b-2 ${resultTab === tab
+                          ? 'border-blue-600 text-blue-700'
+                          : 'border-transparent text-gray-600 hover:text-gray-900'
+                          }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+
+                  {resultTab === 'social' && (
+                    <SocialPostsPanel
+                      key={`${processingResult.article.metadata?.sourceVideo?.id}:${processingResult.article.title}`}
+                      className="bg-white p-4 rounded border"
+                      onGenerate={handleGenerateDerivatives}
+                    />
+                  )}
+
+                  {resultTab === 'article' && (
+                  <>
                   <div className="bg-white p-4 rounded border max-h-96 overflow-y-auto">
                     <h1 className="text-2xl font-bold mb-4">{processingResult.article.title}</h1>
 
@@ -469,7 +703,16 @@ function HomePage() {
                     >
                       Copy as Text
                     </Button>
+                    <Button
+                      onClick={() => setIsEditing(true)}
+                      variant="outline"
+                      className="text-sm"
+                    >
+                      Edit Article
+                    </Button>
                   </div>
+                  </>
+                  )}
                 </div>
               )}
 
@@ -494,11 +737,34 @@ function HomePage() {
                     <div className="font-medium">{processingResult.article?.metadata?.wordCount || 0}</div>
                   </div>
                 </div>
+                {processingResult.analysis?.chapters && processingResult.analysis.chapters.length > 0 && (
+                  <div className="mt-4">
+                    <h4 className="text-sm font-semibold text-gray-900 mb-1">
+                      Chapters {processingResult.analysis.chapters[0].source === 'description' ? '(from the video description)' : '(detected from the transcript)'}
+                    </h4>
+                    <pre className="text-sm text-gray-700 whitespace-pre-wrap font-sans">
+                      {ChapterDetector.formatChapterList(processingResult.analysis.chapters)}
+                    </pre>
+                  </div>
+                )}
               </div>
             </div>
           )}
         </div>
 
+        {/* Article History */}
+        <ArticleHistory
+          className="mb-8 shadow-lg"
+          entries={history.filteredEntries}
+          query={history.query}
+          onQueryChange={history.setQuery}
+          onOpen={handleOpenHistoryEntry}
+          onDelete={handleDeleteHistoryEntry}
+          activeId={historyId}
+          isLoading={history.isLoading}
+          error={history.error}
+        />
+
         {/* Instructions */}
         <div className="text-center space-y-4">
           <p className="text-sm text-gray-500">
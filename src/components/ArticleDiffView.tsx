@@ -0,0 +1,71 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { Article } from '@/types';
+import { diffArticles, SectionDiff } from '@/lib/article-diff';
+import { cn } from '@/lib/utils';
+
+interface ArticleDiffViewProps {
+  before: Article;
+  after: Article;
+  showUnchanged?: boolean;
+  className?: string;
+}
+
+const STATUS_LABELS: Record<SectionDiff['status'], string> = {
+  added: 'Added',
+  removed: 'Removed',
+  changed: 'Changed',
+  unchanged: 'Unchanged'
+};
+
+const STATUS_COLORS: Record<SectionDiff['status'], string> = {
+  added: 'bg-green-100 text-green-700',
+  removed: 'bg-red-100 text-red-700',
+  changed: 'bg-yellow-100 text-yellow-800',
+  unchanged: 'bg-gray-100 text-gray-600'
+};
+
+export function ArticleDiffView({
+  before,
+  after,
+  showUnchanged = false,
+  className
+}: ArticleDiffViewProps) {
+  const diffs = useMemo(() => diffArticles(before, after), [before, after]);
+  const visible = showUnchanged ? diffs : diffs.filter(diff => diff.status !== 'unchanged');
+
+  if (visible.length === 0) {
+    return (
+      <p className={cn("text-sm text-gray-500", className)}>
+        No differences between these revisions.
+      </p>
+    );
+  }
+
+  return (
+    <div className={cn("space-y-4", className)}>
+      {visible.map(diff => (
+        <div key={diff.key} className="p-3 border border-gray-200 rounded-md">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-sm font-semibold text-gray-900">{diff.label}</span>
+            <span className={cn("px-2 py-0.5 rounded-full text-xs font-medium", STATUS_COLORS[diff.status])}>
+              {STATUS_LABELS[diff.status]}
+            </span>
+          </div>
+          <p className="text-sm text-gray-700 whitespace-pre-wrap">
+            {diff.changes.map((change, index) => (
+              change.type === 'insert' ? (
+                <ins key={index} className="bg-green-100 text-green-800 no-underline">{change.text}</ins>
+              ) : change.type === 'delete' ? (
+                <del key={index} className="bg-red-100 text-red-800">{change.text}</del>
+              ) : (
+                <span key={index}>{change.text}</span>
+              )
+            ))}
+          </p>
+        </div>
+      ))}
+    </div>
+  );
+}
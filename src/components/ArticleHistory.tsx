@@ -0,0 +1,92 @@
+'use client';
+
+import React from 'react';
+import { Button } from './ui/button';
+import type { ArticleHistoryEntry } from '@/lib/article-history';
+import { cn } from '@/lib/utils';
+
+interface ArticleHistoryProps {
+  entries: ArticleHistoryEntry[];
+  query: string;
+  onQueryChange: (query: string) => void;
+  onOpen: (entry: ArticleHistoryEntry) => void;
+  onDelete?: (id: string) => void;
+  activeId?: string | null;
+  isLoading?: boolean;
+  error?: string | null;
+  className?: string;
+}
+
+export function ArticleHistory({
+  entries,
+  query,
+  onQueryChange,
+  onOpen,
+  onDelete,
+  activeId,
+  isLoading = false,
+  error,
+  className
+}: ArticleHistoryProps) {
+  return (
+    <div className={cn("p-6 bg-white border border-gray-200 rounded-lg", className)}>
+      <div className="flex items-center justify-between gap-4 mb-4">
+        <h4 className="text-lg font-semibold text-gray-900">Article History</h4>
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => onQueryChange(e.target.value)}
+          placeholder="Search articles..."
+          aria-label="Search article history"
+          className="w-64 px-3 py-2 text-sm text-zinc-700 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+      </div>
+
+      {error && (
+        <p className="mb-4 text-sm text-red-600">{error}</p>
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading history...</p>
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          {query ? 'No saved articles match your search.' : 'Generated articles will appear here.'}
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-100 max-h-96 overflow-y-auto">
+          {entries.map(entry => (
+            <li
+              key={entry.id}
+              className={cn(
+                "flex items-center justify-between gap-4 py-3",
+                entry.id === activeId && "bg-blue-50"
+              )}
+            >
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900 truncate">{entry.article.title}</p>
+                <p className="text-xs text-gray-500 truncate">
+                  {entry.videoMetadata.title} · {entry.videoMetadata.channelName} · {new Date(entry.updatedAt).toLocaleDateString()}
+                </p>
+              </div>
+              <div className="flex gap-2 flex-shrink-0">
+                <Button size="sm" variant="outline" onClick={() => onOpen(entry)}>
+                  Open
+                </Button>
+                {onDelete && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => onDelete(entry.id)}
+                    className="border-red-300 text-red-700 hover:bg-red-50"
+                  >
+                    Delete
+                  </Button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,12 +1,27 @@
-import React, { useState, useCallback } from 'react';
-import { Article, ArticleSection } from '@/types';
+import React, { useState, useCallback, useMemo } from 'react';
+import { Article, ArticleSection, Transcript } from '@/types';
 import { Button } from './ui/button';
 import { cn } from '@/lib/utils';
 import ExportOptions from './ExportOptions';
+import PublishOptions from './PublishOptions';
+import { ArticleRevisionHistory } from './ArticleRevisionHistory';
+import { useArticleRevisions } from '@/hooks/useArticleRevisions';
+import { AI_AUTHOR } from '@/lib/article-revisions';
+import { GroundingChecker, GroundingReport, SentenceGrounding } from '@/lib/grounding-checker';
+import { TranscriptProcessor } from '@/lib/transcript-processor';
+import { CitationLinker } from '@/lib/citation-linker';
+import { PartialArticle } from '@/lib/article-stream';
 
 interface ArticlePreviewProps {
     article: Article;
     onArticleChange: (updatedArticle: Article) => void;
+    onSaveDraft?: (article: Article) => void;
+    // Rewrites one section; shows a Regenerate action on each section when set
+    onRegenerateSection?: (sectionIndex: number, instruction: string) => Promise<ArticleSection>;
+    // Recorded as the author of edits in the version history
+    author?: string;
+    // Source transcript; when set, sentences it does not support are highlighted
+    transcript?: Transcript;
     className?: string;
 }
 
@@ -17,15 +32,46 @@ interface EditableContentProps {
     className?: string;
     multiline?: boolean;
     isHeading?: boolean;
+    unsupportedClaims?: SentenceGrounding[];
 }
 
+const describeClosestPassage = (claim: SentenceGrounding): string => {
+    if (!claim.closestExcerpt || claim.score === 0) {
+        return 'No similar passage in the transcript';
+    }
+    const timestamp = TranscriptProcessor.formatTimestamp(claim.closestExcerpt.startTime);
+    return `Closest transcript (${timestamp}): "${claim.closestExcerpt.text}"`;
+};
+
+// Wrap each unsupported sentence in a highlight; claims are in document order
+const highlightClaims = (content: string, claims: SentenceGrounding[]): React.ReactNode[] => {
+    const parts: React.ReactNode[] = [];
+    let cursor = 0;
+
+    claims.forEach((claim, index) => {
+        const start = content.indexOf(claim.sentence, cursor);
+        if (start === -1) return;
+        parts.push(content.slice(cursor, start));
+        parts.push(
+            <mark key={index} className="bg-yellow-100 rounded-sm" title={`Not supported by the transcript. ${describeClosestPassage(claim)}`}>
+                {claim.sentence}
+            </mark>
+        );
+        cursor = start + claim.sentence.length;
+    });
+
+    parts.push(content.slice(cursor));
+    return parts;
+};
+
 const EditableContent: React.FC<EditableContentProps> = ({
     content,
     onChange,
     placeholder = "Enter content...",
     className = "",
     multiline = false,
-    isHeading = false
+    isHeading = false,
+    unsupportedClaims = []
 }) => {
     const [isEditing, setIsEditing] = useState(false);
     const [editValue, setEditValue] = useState(content);
@@ -108,20 +154,131 @@ const EditableContent: React.FC<EditableContentProps> = ({
                 className
             )}
         >
-            {content || placeholder}
+            {content ? (unsupportedClaims.length > 0 ? highlightClaims(content, unsupportedClaims) : content) : placeholder}
+        </div>
+    );
+};
+interface SectionRegenerateControlProps {
+    onRegenerate: (instruction: string) => Promise<void>;
+}
+
+const SectionRegenerateControl: React.FC<SectionRegenerateControlProps> = ({ onRegenerate }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [instruction, setInstruction] = useState('');
+    const [isRegenerating, setIsRegenerating] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleRegenerate = async () => {
+        setIsRegenerating(true);
+        setError(null);
+        try {
+            await onRegenerate(instruction);
+            setIsOpen(false);
+            setInstruction('');
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to regenerate section');
+        } finally {
+            setIsRegenerating(false);
+        }
+    };
+
+    if (!isOpen) {
+        return (
+            <Button size="sm" variant="outline" onClick={() => setIsOpen(true)}>
+                Regenerate
+            </Button>
+        );
+    }
+
+    return (
+        <div className="mt-2 p-3 bg-gray-50 rounded-md">
+            <input
+                type="text"
+                value={instruction}
+                onChange={(e) => setInstruction(e.target.value)}
+                placeholder='How should this section change? e.g. "make this more concrete"'
+                aria-label="Regeneration instruction"
+                className="w-full p-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                disabled={isRegenerating}
+            />
+            {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+            <div className="flex gap-2 mt-2">
+                <Button size="sm" onClick={handleRegenerate} disabled={isRegenerating}>
+                    {isRegenerating ? 'Regenerating...' : 'Regenerate Section'}
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => setIsOpen(false)} disabled={isRegenerating}>
+                    Cancel
+                </Button>
+            </div>
         </div>
     );
 };
+
+interface GroundingSummaryProps {
+    report: GroundingReport;
+}
+
+const GroundingSummary: React.FC<GroundingSummaryProps> = ({ report }) => {
+    const [showClaims, setShowClaims] = useState(false);
+
+    return (
+        <div className="mb-6 p-4 border border-yellow-200 bg-yellow-50 rounded-lg text-sm">
+            <div className="flex justify-between items-center">
+                <span>
+                    {report.unsupported.length === 0
+                        ? 'Every checked sentence is supported by the transcript.'
+                        : `${report.unsupported.length} sentence${report.unsupported.length === 1 ? '' : 's'} not supported by the transcript`}
+                </span>
+                {report.unsupported.length > 0 && (
+                    <Button size="sm" variant="outline" onClick={() => setShowClaims(!showClaims)}>
+                        {showClaims ? 'Hide Unsupported Claims' : 'Show Unsupported Claims'}
+                    </Button>
+                )}
+            </div>
+            {showClaims && (
+                <ul className="mt-3 space-y-3">
+                    {report.unsupported.map((claim, index) => (
+                        <li key={index}>
+                            <div className="font-medium text-gray-900">{claim.sentence}</div>
+                            <div className="text-gray-600">{describeClosestPassage(claim)}</div>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
 interface EditableSectionProps {
     section: ArticleSection;
     onSectionChange: (updatedSection: ArticleSection) => void;
     level?: number;
+    location: string;
+    grounding?: GroundingReport | null;
+    transcript?: Transcript;
 }
 
+// Citations point at paragraphs by index, so edited content is cited again
+// (or loses its citations without a transcript to cite from)
+const withContent = (section: ArticleSection, content: string, transcript?: Transcript): ArticleSection => {
+    if (transcript) {
+        return CitationLinker.citeSection({ ...section, content }, transcript.segments);
+    }
+    const updated = { ...section, content };
+    delete updated.citations;
+    return updated;
+};
+
+const claimsAt = (grounding: GroundingReport | null | undefined, location: string): SentenceGrounding[] =>
+    grounding ? grounding.unsupported.filter(claim => claim.location === location) : [];
+
 const EditableSection: React.FC<EditableSectionProps> = ({
     section,
     onSectionChange,
-    level = 1
+    level = 1,
+    location,
+    grounding,
+    transcript
 }) => {
     const handleHeadingChange = useCallback((newHeading: string) => {
         onSectionChange({
@@ -131,11 +288,8 @@ const EditableSection: React.FC<EditableSectionProps> = ({
     }, [section, onSectionChange]);
 
     const handleContentChange = useCallback((newContent: string) => {
-        onSectionChange({
-            ...section,
-            content: newContent
-        });
-    }, [section, onSectionChange]);
+        onSectionChange(withContent(section, newContent, transcript));
+    }, [section, onSectionChange, transcript]);
 
     const handleSubsectionChange = useCallback((index: number, updatedSubsection: ArticleSection) => {
         const newSubsections = [...(section.subsections || [])];
@@ -190,6 +344,7 @@ const EditableSection: React.FC<EditableSectionProps> = ({
                     placeholder="Enter section content..."
                     multiline={true}
                     className="min-h-[100px]"
+                    unsupportedClaims={claimsAt(grounding, location)}
                 />
             </div>
 
@@ -201,6 +356,9 @@ const EditableSection: React.FC<EditableSectionProps> = ({
                                 section={subsection}
                                 onSectionChange={(updatedSubsection) => handleSubsectionChange(index, updatedSubsection)}
                                 level={level + 1}
+                                location={`${location}.subsections.${index}`}
+                                grounding={grounding}
+                                transcript={transcript}
                             />
                             <Button
                                 size="sm"
@@ -226,69 +384,115 @@ const EditableSection: React.FC<EditableSectionProps> = ({
 const ArticlePreview: React.FC<ArticlePreviewProps> = ({
     article,
     onArticleChange,
+    onSaveDraft,
+    onRegenerateSection,
+    author = 'You',
+    transcript,
     className
 }) => {
     const [showExportOptions, setShowExportOptions] = useState(false);
+    const [showPublishOptions, setShowPublishOptions] = useState(false);
+    const [showVersionHistory, setShowVersionHistory] = useState(false);
+    const revisions = useArticleRevisions(article, onArticleChange, author);
+    const { commit, recordPublications } = revisions;
+    // Re-checked on every edit so the highlights follow the text
+    const grounding = useMemo(
+        () => (transcript ? GroundingChecker.checkArticle(article, transcript) : null),
+        [article, transcript]
+    );
+    const groundingScore = grounding?.score ?? article.metadata.groundingScore;
     const handleTitleChange = useCallback((newTitle: string) => {
-        onArticleChange({
+        commit({
             ...article,
             title: newTitle
         });
-    }, [article, onArticleChange]);
+    }, [article, commit]);
 
     const handleIntroductionChange = useCallback((newIntroduction: string) => {
-        onArticleChange({
+        commit({
             ...article,
             introduction: newIntroduction
         });
-    }, [article, onArticleChange]);
+    }, [article, commit]);
 
     const handleConclusionChange = useCallback((newConclusion: string) => {
-        onArticleChange({
+        commit({
             ...article,
             conclusion: newConclusion
         });
-    }, [article, onArticleChange]);
+    }, [article, commit]);
 
     const handleSectionChange = useCallback((index: number, updatedSection: ArticleSection) => {
         const newSections = [...article.sections];
         newSections[index] = updatedSection;
-        onArticleChange({
+        commit({
             ...article,
             sections: newSections
         });
-    }, [article, onArticleChange]);
+    }, [article, commit]);
+
+    const regenerateSection = useCallback(async (index: number, instruction: string) => {
+        const regenerated = await onRegenerateSection!(index, instruction);
+        const newSections = [...article.sections];
+        // Subsections are not part of the rewrite, so keep them
+        newSections[index] = { ...newSections[index], ...regenerated };
+        commit({
+            ...article,
+            sections: newSections
+        }, 'regeneration', AI_AUTHOR);
+    }, [article, commit, onRegenerateSection]);
 
     const addSection = useCallback(() => {
         const newSection: ArticleSection = {
             heading: "New Section",
             content: ""
         };
-        onArticleChange({
+        commit({
             ...article,
             sections: [...article.sections, newSection]
         });
-    }, [article, onArticleChange]);
+    }, [article, commit]);
 
     const removeSection = useCallback((index: number) => {
         const newSections = [...article.sections];
         newSections.splice(index, 1);
-        onArticleChange({
+        commit({
             ...article,
             sections: newSections
         });
-    }, [article, onArticleChange]);
+    }, [article, commit]);
 
     const handleTagsChange = useCallback((newTagsString: string) => {
         const newTags = newTagsString.split(',').map(tag => tag.trim()).filter(tag => tag.length > 0);
-        onArticleChange({
+        commit({
             ...article,
             tags: newTags
         });
-    }, [article, onArticleChange]);
+    }, [article, commit]);
 
     return (
         <div className={cn("max-w-4xl mx-auto p-6 bg-white rounded-lg shadow-sm", className)}>
+            {/* Revision Toolbar */}
+            <div className="flex justify-end gap-2 mb-4">
+                <Button size="sm" variant="outline" onClick={revisions.undo} disabled={!revisions.canUndo}>
+                    Undo
+                </Button>
+                <Button size="sm" variant="outline" onClick={revisions.redo} disabled={!revisions.canRedo}>
+                    Redo
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => setShowVersionHistory(!showVersionHistory)}>
+                    {showVersionHistory ? 'Hide Version History' : `Version History (${revisions.history.revisions.length})`}
+                </Button>
+            </div>
+
+            {showVersionHistory && (
+                <ArticleRevisionHistory
+                    className="mb-6"
+                    history={revisions.history}
+                    onRestore={revisions.restore}
+                />
+            )}
+
             {/* Article Title */}
             <div className="mb-6">
                 <h1 className="text-3xl font-bold mb-2">
@@ -309,9 +513,14 @@ const ArticlePreview: React.FC<ArticlePreviewProps> = ({
                     <div>Reading Time: {article.metadata.readingTime} min</div>
                     <div>Source: {article.metadata.sourceVideo.title}</div>
                     <div>Channel: {article.metadata.sourceVideo.channelName}</div>
+                    {groundingScore !== undefined && (
+                        <div>Grounding: {Math.round(groundingScore * 100)}% of sentences supported</div>
+                    )}
                 </div>
             </div>
 
+            {grounding && <GroundingSummary report={grounding} />}
+
             {/* Article Introduction */}
             <div className="mb-8">
                 <h2 className="text-xl font-semibold mb-3">Introduction</h2>
@@ -321,6 +530,7 @@ const ArticlePreview: React.FC<ArticlePreviewProps> = ({
                     placeholder="Enter article introduction..."
                     multiline={true}
                     className="min-h-[120px]"
+                    unsupportedClaims={claimsAt(grounding, 'introduction')}
                 />
             </div>
 
@@ -338,7 +548,15 @@ const ArticlePreview: React.FC<ArticlePreviewProps> = ({
                         <EditableSection
                             section={section}
                             onSectionChange={(updatedSection) => handleSectionChange(index, updatedSection)}
+                            location={`sections.${index}`}
+                            grounding={grounding}
+                            transcript={transcript}
                         />
+                        {onRegenerateSection && (
+                            <SectionRegenerateControl
+                                onRegenerate={(instruction) => regenerateSection(index, instruction)}
+                            />
+                        )}
                         <Button
                             size="sm"
                             variant="outline"
@@ -360,6 +578,7 @@ const ArticlePreview: React.FC<ArticlePreviewProps> = ({
                     placeholder="Enter article conclusion..."
                     multiline={true}
                     className="min-h-[120px]"
+                    unsupportedClaims={claimsAt(grounding, 'conclusion')}
                 />
             </div>
 
@@ -392,7 +611,13 @@ const ArticlePreview: React.FC<ArticlePreviewProps> = ({
                 >
                     {showExportOptions ? 'Hide Export Options' : 'Export Article'}
                 </Button>
-                <Button variant="outline">
+                <Button
+                    variant="outline"
+                    onClick={() => setShowPublishOptions(!showPublishOptions)}
+                >
+                    {showPublishOptions ? 'Hide Publish Options' : 'Publish'}
+                </Button>
+                <Button variant="outline" onClick={() => onSaveDraft?.(article)}>
                     Save Draft
                 </Button>
                 <Button>
@@ -413,6 +638,81 @@ const ArticlePreview: React.FC<ArticlePreviewProps> = ({
                     />
                 </div>
             )}
+
+            {/* Publish Options */}
+            {showPublishOptions && (
+                <div className="mt-6">
+                    <PublishOptions
+                        article={article}
+                        onPublished={recordPublications}
+                    />
+                </div>
+            )}
+        </div>
+    );
+};
+
+interface StreamingArticlePreviewProps {
+    article: PartialArticle;
+    // Progress message shown above the article
+    status?: string;
+    className?: string;
+}
+
+const StreamingCursor: React.FC = () => (
+    <span className="inline-block w-2 h-4 ml-1 align-middle bg-blue-500 animate-pulse" aria-hidden="true" />
+);
+
+/**
+ * Read-only view of an article while the model is still writing it
+ */
+export const StreamingArticlePreview: React.FC<StreamingArticlePreviewProps> = ({
+    article,
+    status,
+    className
+}) => {
+    const cursorAt = (location: string) => (article.current === location ? <StreamingCursor /> : null);
+
+    return (
+        <div className={cn("max-w-4xl mx-auto p-6 bg-white rounded-lg shadow-sm", className)} aria-busy="true">
+            {status && (
+                <div className="mb-4 text-sm text-gray-500">{status}</div>
+            )}
+
+            <h1 className={cn("text-3xl font-bold mb-6", !article.title && "text-gray-400")}>
+                {article.title || 'Writing title...'}
+                {cursorAt('title')}
+            </h1>
+
+            {article.introduction && (
+                <div className="mb-8">
+                    <h2 className="text-xl font-semibold mb-3">Introduction</h2>
+                    <p className="whitespace-pre-wrap">
+                        {article.introduction}
+                        {cursorAt('introduction')}
+                    </p>
+                </div>
+            )}
+
+            {article.sections.map((section, index) => (
+                <div key={index} className="mb-6">
+                    <h3 className="text-lg font-semibold mb-2">{section.heading}</h3>
+                    <p className="whitespace-pre-wrap">
+                        {section.content}
+                        {cursorAt(`sections.${index}`)}
+                    </p>
+                </div>
+            ))}
+
+            {article.conclusion && (
+                <div className="mb-8">
+                    <h2 className="text-xl font-semibold mb-3">Conclusion</h2>
+                    <p className="whitespace-pre-wrap">
+                        {article.conclusion}
+                        {cursorAt('conclusion')}
+                    </p>
+                </div>
+            )}
         </div>
     );
 };
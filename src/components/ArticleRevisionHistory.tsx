@@ -0,0 +1,94 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Button } from './ui/button';
+import { ArticleDiffView } from './ArticleDiffView';
+import { RevisionHistory, RevisionKind, getCurrentRevision, getRevision } from '@/lib/article-revisions';
+import { cn } from '@/lib/utils';
+
+interface ArticleRevisionHistoryProps {
+  history: RevisionHistory;
+  onRestore: (id: string) => void;
+  className?: string;
+}
+
+const KIND_LABELS: Record<RevisionKind, string> = {
+  generation: 'Generated',
+  edit: 'Edited',
+  regeneration: 'Regenerated',
+  restore: 'Restored'
+};
+
+export function ArticleRevisionHistory({
+  history,
+  onRestore,
+  className
+}: ArticleRevisionHistoryProps) {
+  const current = getCurrentRevision(history);
+  // Compare the current revision with the one it was made from until the user picks others
+  const [fromId, setFromId] = useState<string | null>(null);
+  const [toId, setToId] = useState<string | null>(null);
+
+  const from = getRevision(history, fromId ?? current.parentId ?? current.id)!;
+  const to = getRevision(history, toId ?? current.id)!;
+  const newestFirst = [...history.revisions].reverse();
+
+  const revisionLabel = (id: string) => {
+    const revision = getRevision(history, id)!;
+    return `#${history.revisions.indexOf(revision) + 1} ${KIND_LABELS[revision.kind]} by ${revision.author}`;
+  };
+
+  return (
+    <div className={cn("p-4 border border-gray-200 rounded-lg bg-gray-50", className)}>
+      <h3 className="text-lg font-semibold mb-3">Version History</h3>
+
+      <ul className="divide-y divide-gray-200 mb-6 max-h-64 overflow-y-auto">
+        {newestFirst.map(revision => (
+          <li key={revision.id} className="flex items-center justify-between gap-4 py-2">
+            <div className="text-sm">
+              <span className="font-medium text-gray-900">{revisionLabel(revision.id)}</span>
+              <span className="ml-2 text-gray-500">{new Date(revision.createdAt).toLocaleString()}</span>
+              {revision.restoredFromId && (
+                <span className="ml-2 text-gray-500">(from {revisionLabel(revision.restoredFromId)})</span>
+              )}
+            </div>
+            {revision.id === history.currentId ? (
+              <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">Current</span>
+            ) : (
+              <Button size="sm" variant="outline" onClick={() => onRestore(revision.id)}>
+                Restore
+              </Button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex flex-wrap items-center gap-2 mb-4 text-sm text-gray-700">
+        <label htmlFor="revision-diff-from">Compare</label>
+        <select
+          id="revision-diff-from"
+          value={from.id}
+          onChange={(e) => setFromId(e.target.value)}
+          className="px-2 py-1 border border-gray-300 rounded-md"
+        >
+          {newestFirst.map(revision => (
+            <option key={revision.id} value={revision.id}>{revisionLabel(revision.id)}</option>
+          ))}
+        </select>
+        <label htmlFor="revision-diff-to">with</label>
+        <select
+          id="revision-diff-to"
+          value={to.id}
+          onChange={(e) => setToId(e.target.value)}
+          className="px-2 py-1 border border-gray-300 rounded-md"
+        >
+          {newestFirst.map(revision => (
+            <option key={revision.id} value={revision.id}>{revisionLabel(revision.id)}</option>
+          ))}
+        </select>
+      </div>
+
+      <ArticleDiffView before={from.article} after={to.article} />
+    </div>
+  );
+}
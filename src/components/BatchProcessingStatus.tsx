@@ -0,0 +1,154 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Article } from '@/types';
+import { Button } from './ui/button';
+import { Progress } from './ui/progress';
+import type { BatchItemStatus, BatchStatus } from '@/lib/batch-processor';
+import {
+  exportArticlesAsZip,
+  exportPublishingPackage,
+  downloadFile,
+  ExportFormat,
+  PUBLISHING_FORMATS,
+  PublishingFormat
+} from '@/lib/export-utils';
+import { cn } from '@/lib/utils';
+
+interface BatchProcessingStatusProps {
+  status: BatchStatus;
+  // Format of the articles in the ZIP archive
+  format?: Exclude<ExportFormat, 'pdf' | PublishingFormat>;
+  onSelectArticle?: (article: Article) => void;
+  className?: string;
+}
+
+const STAGE_LABELS: Record<BatchItemStatus['stage'], string> = {
+  queued: 'Queued',
+  validation: 'Validating',
+  metadata: 'Fetching metadata',
+  transcription: 'Transcribing',
+  analysis: 'Analyzing',
+  generation: 'Generating',
+  complete: 'Complete',
+  error: 'Failed',
+  cancelled: 'Cancelled'
+};
+
+// Publishing platforms take the whole batch as one import file
+const PACKAGE_LABELS: Record<PublishingFormat, string> = {
+  wordpress: 'WordPress',
+  ghost: 'Ghost',
+  medium: 'Medium'
+};
+
+const STAGE_COLORS: Partial<Record<BatchItemStatus['stage'], string>> = {
+  queued: 'bg-gray-100 text-gray-600',
+  complete: 'bg-green-100 text-green-700',
+  error: 'bg-red-100 text-red-700',
+  cancelled: 'bg-gray-100 text-gray-600'
+};
+
+export function BatchProcessingStatus({
+  status,
+  format = 'markdown',
+  onSelectArticle,
+  className
+}: BatchProcessingStatusProps) {
+  const [zipError, setZipError] = useState<string | null>(null);
+  const [packageFormat, setPackageFormat] = useState<PublishingFormat | 'zip'>('zip');
+
+  const articles = status.items
+    .map(item => item.article)
+    .filter((article): article is Article => Boolean(article));
+
+  const handleDownloadZip = () => {
+    try {
+      setZipError(null);
+      const name = status.source?.title || 'articles';
+      const result = packageFormat === 'zip'
+        ? exportArticlesAsZip(articles, { format, includeMetadata: true }, name)
+        : exportPublishingPackage(articles, { format: packageFormat, includeMetadata: true }, name);
+      downloadFile(new Blob([result.content as BlobPart], { type: result.mimeType }), result.filename, result.mimeType);
+    } catch (error) {
+      setZipError(error instanceof Error ? error.message : 'Failed to create ZIP archive');
+    }
+  };
+
+  return (
+    <div className={cn('w-full p-4 bg-white rounded-lg border space-y-4', className)}>
+      {/* Summary */}
+      <div className="flex items-center justify-between gap-4">
+        <div className="min-w-0">
+          <h4 className="text-lg font-semibold text-gray-900 truncate">
+            {status.source?.title || 'Batch'}
+          </h4>
+          <p className="text-sm text-gray-600">
+            {status.completed} of {status.total} complete
+            {status.failed > 0 && `, ${status.failed} failed`}
+          </p>
+        </div>
+        <div className="flex items-center gap-2 flex-shrink-0">
+          <select
+            value={packageFormat}
+            onChange={(e) => setPackageFormat(e.target.value as PublishingFormat | 'zip')}
+            aria-label="Download format"
+            className="px-2 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="zip">ZIP</option>
+            {PUBLISHING_FORMATS.map(publishingFormat => (
+              <option key={publishingFormat} value={publishingFormat}>{PACKAGE_LABELS[publishingFormat]}</option>
+            ))}
+          </select>
+          <Button
+            type="button"
+            variant="outline"
+            className="text-sm"
+            onClick={handleDownloadZip}
+            disabled={articles.length === 0}
+          >
+            Download {packageFormat === 'zip' ? 'ZIP' : PACKAGE_LABELS[packageFormat]} ({articles.length})
+          </Button>
+        </div>
+      </div>
+
+      <Progress value={status.progress} />
+
+      {zipError && (
+        <p className="text-sm text-red-600">{zipError}</p>
+      )}
+
+      {/* Per-video status */}
+      <ul className="divide-y border rounded-md">
+        {status.items.map(item => (
+          <li key={item.videoId} className="p-3 flex items-center gap-3" data-testid={`batch-item-${item.videoId}`}>
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium text-gray-900 truncate">{item.title}</p>
+              <p className={cn('text-xs truncate', item.error ? 'text-red-600' : 'text-gray-500')}>
+                {item.error || item.message}
+              </p>
+            </div>
+            <span
+              className={cn(
+                'px-2 py-1 rounded-full text-xs font-medium flex-shrink-0',
+                STAGE_COLORS[item.stage] || 'bg-blue-100 text-blue-700'
+              )}
+            >
+              {STAGE_LABELS[item.stage]}
+            </span>
+            {item.article && onSelectArticle && (
+              <Button
+                type="button"
+                variant="outline"
+                className="text-xs flex-shrink-0"
+                onClick={() => onSelectArticle(item.article!)}
+              >
+                View
+              </Button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -27,7 +27,7 @@ const ConfigurationOptions: React.FC<ConfigurationOptionsProps> = ({
   const [selectedTemplatePreview, setSelectedTemplatePreview] = useState<TemplatePreview | null>(null);
   const [showTemplatePreview, setShowTemplatePreview] = useState(false);
 
-  const availableTemplates = ArticleGenerator.getAvailableTemplates();
+  const availableTemplates = ArticleGenerator.getAvailableTemplates(preferences.customTemplates);
 
   // Notify parent component of configuration changes
   React.useEffect(() => {
@@ -224,7 +224,7 @@ const ConfigurationOptions: React.FC<ConfigurationOptionsProps> = ({
               onChange={(e) => updatePreference('autoSave', e.target.checked)}
               className="mr-2 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
             />
-            <span className="text-sm text-gray-700">Auto-save preferences</span>
+            <span className="text-sm text-gray-700">Auto-save generated articles</span>
           </label>
 
           <label className="flex items-center">
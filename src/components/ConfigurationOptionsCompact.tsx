@@ -24,7 +24,7 @@ const ConfigurationOptionsCompact: React.FC<ConfigurationOptionsCompactProps> =
   } = useUserPreferences();
   
   const [showAdvanced, setShowAdvanced] = useState(false);
-  const availableTemplates = ArticleGenerator.getAvailableTemplates();
+  const availableTemplates = ArticleGenerator.getAvailableTemplates(preferences.customTemplates);
 
   // Notify parent component of configuration changes
   React.useEffect(() => {
@@ -1,16 +1,49 @@
 import React, { useState } from 'react';
-import { Article } from '@/types';
+import { Article, FrontMatterField, FrontMatterFormat, SiteProfileOverrides, StaticSiteFormat } from '@/types';
 import { Button } from './ui/button';
 import { 
   exportArticle, 
   downloadFile, 
   copyToClipboard, 
   getAvailableTemplates,
+  getTemplateSource,
+  isPublishingFormat,
+  PUBLISHING_FORMATS,
+  CitationStyle,
   ExportFormat,
+  PublishStatus,
   ExportOptions as ExportOptionsType 
 } from '@/lib/export-utils';
+import { FRONT_MATTER_FIELDS, STATIC_SITE_FORMATS, isStaticSiteFormat, siteProfiles } from '@/lib/static-site-export';
+import { useUserPreferences } from '@/hooks/useUserPreferences';
 import { cn } from '@/lib/utils';
 
+const EXPORT_FORMATS: ExportFormat[] = ['markdown', 'html', 'plain', 'pdf', ...STATIC_SITE_FORMATS, ...PUBLISHING_FORMATS];
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  markdown: 'Markdown',
+  html: 'Html',
+  plain: 'Plain',
+  pdf: 'PDF',
+  hugo: 'Hugo',
+  jekyll: 'Jekyll',
+  astro: 'Astro',
+  'next-mdx': 'Next MDX',
+  wordpress: 'WordPress',
+  ghost: 'Ghost',
+  medium: 'Medium'
+};
+
+const FRONT_MATTER_LABELS: Record<FrontMatterField, string> = {
+  title: 'Title',
+  date: 'Date',
+  slug: 'Slug',
+  tags: 'Tags',
+  description: 'Description',
+  thumbnail: 'Thumbnail',
+  canonicalUrl: 'Source video URL'
+};
+
 interface ExportOptionsProps {
   article: Article;
   className?: string;
@@ -24,11 +57,21 @@ const ExportOptions: React.FC<ExportOptionsProps> = ({
 }) => {
   const [selectedFormat, setSelectedFormat] = useState<ExportFormat>('markdown');
   const [selectedTemplate, setSelectedTemplate] = useState<string>('default');
+  // Edited copy of the selected template, null while the built-in template is used
+  const [customTemplate, setCustomTemplate] = useState<string | null>(null);
   const [includeMetadata, setIncludeMetadata] = useState<boolean>(true);
+  const [citationStyle, setCitationStyle] = useState<CitationStyle>('links');
+  const [publishStatus, setPublishStatus] = useState<PublishStatus>('draft');
   const [isExporting, setIsExporting] = useState<boolean>(false);
   const [copySuccess, setCopySuccess] = useState<boolean>(false);
   const [exportPreview, setExportPreview] = useState<string>('');
   const [showPreview, setShowPreview] = useState<boolean>(false);
+  // Front matter mappings are saved per static-site generator
+  const { preferences, updatePreference } = useUserPreferences();
+  const staticSiteFormat = isStaticSiteFormat(selectedFormat) ? selectedFormat : null;
+  const publishingFormat = isPublishingFormat(selectedFormat);
+  // Rendered as HTML documents: previewed in a frame and copied as rich text
+  const isHtmlDocument = selectedFormat === 'html' || selectedFormat === 'medium';
 
   const availableTemplates = getAvailableTemplates(selectedFormat);
 
@@ -42,6 +85,7 @@ const ExportOptions: React.FC<ExportOptionsProps> = ({
 
   const handleFormatChange = (format: ExportFormat) => {
     setSelectedFormat(format);
+    setCustomTemplate(null);
     setShowPreview(false);
     setExportPreview('');
   };
@@ -50,17 +94,84 @@ const ExportOptions: React.FC<ExportOptionsProps> = ({
     const options: ExportOptionsType = {
       format: selectedFormat,
       includeMetadata,
-      template: selectedTemplate
+      template: selectedTemplate,
+      citationStyle,
+      ...(customTemplate !== null ? { customTemplate } : {}),
+      ...(staticSiteFormat && preferences.siteProfiles[staticSiteFormat]
+        ? { siteProfile: preferences.siteProfiles[staticSiteFormat] }
+        : {}),
+      ...(publishingFormat ? { publishStatus } : {})
     };
 
     return exportArticle(article, options);
   };
 
+  // Export errors (e.g. syntax errors in an edited template) are shown instead of the file size
+  let estimatedSize: number | null = null;
+  let exportError: string | null = null;
+  if (selectedFormat !== 'pdf') {
+    try {
+      estimatedSize = Math.round(new Blob([generateExport().content]).size / 1024);
+    } catch (error) {
+      exportError = error instanceof Error ? error.message : 'Failed to render the export';
+    }
+  }
+
+  const updateSiteProfile = (format: StaticSiteFormat, overrides: SiteProfileOverrides | null) => {
+    const profiles = { ...preferences.siteProfiles };
+    if (overrides) {
+      profiles[format] = overrides;
+    } else {
+      delete profiles[format];
+    }
+    updatePreference('siteProfiles', profiles);
+  };
+
+  const handleFrontMatterKeyChange = (format: StaticSiteFormat, field: FrontMatterField, key: string) => {
+    const overrides = preferences.siteProfiles[format] || {};
+    updateSiteProfile(format, { ...overrides, fields: { ...overrides.fields, [field]: key } });
+  };
+
+  const handleFrontMatterFormatChange = (format: StaticSiteFormat, frontMatterFormat: FrontMatterFormat) => {
+    updateSiteProfile(format, { ...preferences.siteProfiles[format], frontMatterFormat });
+  };
+
+  const handleToggleCustomTemplate = () => {
+    setCustomTemplate(customTemplate === null ? getTemplateSource(selectedFormat, selectedTemplate) : null);
+  };
+
+  // PDF is binary and rendered server-side by /api/export
+  const downloadPdf = async () => {
+    const response = await fetch('/api/export', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        article,
+        options: { format: 'pdf', includeMetadata }
+      }),
+    });
+
+    if (!response.ok) {
+      const result = await response.json().catch(() => ({}));
+      throw new Error(result.error || 'Failed to export PDF');
+    }
+
+    const disposition = response.headers.get('Content-Disposition') || '';
+    const filename = disposition.match(/filename="([^"]+)"/)?.[1] || 'article.pdf';
+    downloadFile(await response.blob(), filename, 'application/pdf');
+  };
+
   const handleDownload = async () => {
     setIsExporting(true);
     try {
-      const result = generateExport();
-      downloadFile(result.content, result.filename, result.mimeType);
+      if (selectedFormat === 'pdf') {
+        await downloadPdf();
+      } else {
+        const result = generateExport();
+        downloadFile(result.content, result.filename, result.mimeType);
+      }
       onExportComplete?.(selectedFormat);
     } catch (error) {
       console.error('Export failed:', error);
@@ -75,7 +186,9 @@ const ExportOptions: React.FC<ExportOptionsProps> = ({
     
     try {
       const result = generateExport();
-      const success = await copyToClipboard(result.content);
+      const success = isHtmlDocument
+        ? await copyToClipboard(result.content, result.content)
+        : await copyToClipboard(result.content);
       setCopySuccess(success);
       
       if (success) {
@@ -108,8 +221,8 @@ const ExportOptions: React.FC<ExportOptionsProps> = ({
         <label className="block text-sm font-medium text-gray-700 mb-2">
           Export Format
         </label>
-        <div className="flex gap-2">
-          {(['markdown', 'html', 'plain'] as ExportFormat[]).map((format) => (
+        <div className="flex flex-wrap gap-2">
+          {EXPORT_FORMATS.map((format) => (
             <button
               key={format}
               onClick={() => handleFormatChange(format)}
@@ -120,7 +233,7 @@ const ExportOptions: React.FC<ExportOptionsProps> = ({
                   : "bg-white text-gray-700 border-gray-300 hover:bg-gray-50"
               )}
             >
-              {format.charAt(0).toUpperCase() + format.slice(1)}
+              {FORMAT_LABELS[format]}
             </button>
           ))}
         </div>
@@ -134,7 +247,10 @@ const ExportOptions: React.FC<ExportOptionsProps> = ({
           </label>
           <select
             value={selectedTemplate}
-            onChange={(e) => setSelectedTemplate(e.target.value)}
+            onChange={(e) => {
+              setSelectedTemplate(e.target.value);
+              setCustomTemplate(null);
+            }}
             className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
           >
             {availableTemplates.map((template) => (
@@ -146,6 +262,70 @@ const ExportOptions: React.FC<ExportOptionsProps> = ({
         </div>
       )}
 
+      {/* Front Matter Mapping */}
+      {staticSiteFormat && (
+        <div className="mb-4 p-3 border border-gray-200 rounded-md">
+          <div className="flex justify-between items-center mb-2">
+            <span className="text-sm font-medium text-gray-700">Front Matter</span>
+            {preferences.siteProfiles[staticSiteFormat] && (
+              <Button onClick={() => updateSiteProfile(staticSiteFormat, null)} variant="ghost" size="sm">
+                Reset to Defaults
+              </Button>
+            )}
+          </div>
+          <label htmlFor="front-matter-format" className="block text-xs text-gray-600 mb-1">Format</label>
+          <select
+            id="front-matter-format"
+            value={preferences.siteProfiles[staticSiteFormat]?.frontMatterFormat || siteProfiles[staticSiteFormat].frontMatterFormat}
+            onChange={(e) => handleFrontMatterFormatChange(staticSiteFormat, e.target.value as FrontMatterFormat)}
+            className="w-full mb-3 px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="yaml">YAML (---)</option>
+            <option value="toml">TOML (+++)</option>
+          </select>
+          <div className="grid grid-cols-2 gap-2">
+            {FRONT_MATTER_FIELDS.map((field) => (
+              <label key={field} className="block text-xs text-gray-600">
+                {FRONT_MATTER_LABELS[field]}
+                <input
+                  type="text"
+                  value={preferences.siteProfiles[staticSiteFormat]?.fields?.[field] ?? siteProfiles[staticSiteFormat].fields[field]}
+                  onChange={(e) => handleFrontMatterKeyChange(staticSiteFormat, field, e.target.value)}
+                  placeholder="Not included"
+                  aria-label={`${FRONT_MATTER_LABELS[field]} key`}
+                  className="mt-1 w-full px-2 py-1 text-sm font-mono border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </label>
+            ))}
+          </div>
+          <p className="mt-2 text-xs text-gray-500">
+            Front matter key for each field. Leave a key empty to leave the field out.
+          </p>
+        </div>
+      )}
+
+      {selectedFormat !== 'pdf' && !publishingFormat && (
+        <div className="mb-4">
+          <Button onClick={handleToggleCustomTemplate} variant="ghost" size="sm">
+            {customTemplate === null ? 'Edit Template' : 'Use Built-in Template'}
+          </Button>
+          {customTemplate !== null && (
+            <div className="mt-2">
+              <textarea
+                value={customTemplate}
+                onChange={(e) => setCustomTemplate(e.target.value)}
+                aria-label="Template source"
+                spellCheck={false}
+                className="w-full h-64 px-3 py-2 font-mono text-xs border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                Handlebars syntax: {'{{title}}'}, {'{{#if includeMetadata}}'}, {'{{#each sections}}{{> section}}{{/each}}'}, {'{{join tags}}'}, {'{{date metadata.sourceVideo.publishDate}}'}
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Options */}
       <div className="mb-6">
         <label className="flex items-center">
@@ -157,13 +337,48 @@ const ExportOptions: React.FC<ExportOptionsProps> = ({
           />
           <span className="text-sm text-gray-700">Include metadata and source information</span>
         </label>
+
+        {publishingFormat && (
+          <div className="mt-3">
+            <label htmlFor="publish-status" className="block text-sm font-medium text-gray-700 mb-2">
+              Post Status
+            </label>
+            <select
+              id="publish-status"
+              value={publishStatus}
+              onChange={(e) => setPublishStatus(e.target.value as PublishStatus)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="draft">Draft</option>
+              <option value="published">Published</option>
+            </select>
+          </div>
+        )}
+
+        {selectedFormat !== 'plain' && selectedFormat !== 'pdf' && (
+          <div className="mt-3">
+            <label htmlFor="citation-style" className="block text-sm font-medium text-gray-700 mb-2">
+              Video Timestamp Citations
+            </label>
+            <select
+              id="citation-style"
+              value={citationStyle}
+              onChange={(e) => setCitationStyle(e.target.value as CitationStyle)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="links">Inline links</option>
+              <option value="footnotes">Footnotes</option>
+              <option value="none">None</option>
+            </select>
+          </div>
+        )}
       </div>
 
       {/* Action Buttons */}
       <div className="flex flex-wrap gap-3 mb-4">
         <Button
           onClick={handleDownload}
-          disabled={isExporting}
+          disabled={isExporting || exportError !== null}
           className="flex-1 min-w-[120px]"
         >
           {isExporting ? 'Exporting...' : 'Download'}
@@ -171,7 +386,7 @@ const ExportOptions: React.FC<ExportOptionsProps> = ({
         
         <Button
           onClick={handleCopy}
-          disabled={isExporting}
+          disabled={isExporting || selectedFormat === 'pdf' || exportError !== null}
           variant="outline"
           className="flex-1 min-w-[120px]"
         >
@@ -180,6 +395,7 @@ const ExportOptions: React.FC<ExportOptionsProps> = ({
         
         <Button
           onClick={handlePreview}
+          disabled={selectedFormat === 'pdf' || exportError !== null}
           variant="outline"
           className="flex-1 min-w-[120px]"
         >
@@ -201,7 +417,7 @@ const ExportOptions: React.FC<ExportOptionsProps> = ({
             </Button>
           </div>
           <div className="max-h-96 overflow-y-auto border border-gray-300 rounded-md">
-            {selectedFormat === 'html' ? (
+            {isHtmlDocument ? (
               <iframe
                 srcDoc={exportPreview}
                 className="w-full h-96 border-0"
@@ -220,10 +436,18 @@ const ExportOptions: React.FC<ExportOptionsProps> = ({
       <div className="mt-4 p-3 bg-gray-50 rounded-md">
         <div className="text-xs text-gray-600">
           <div>Format: <span className="font-medium">{selectedFormat.toUpperCase()}</span></div>
-          <div>Template: <span className="font-medium">{selectedTemplate}</span></div>
-          <div>Estimated file size: <span className="font-medium">
-            {Math.round(new Blob([generateExport().content]).size / 1024)} KB
-          </span></div>
+          {!publishingFormat && (
+            <div>Template: <span className="font-medium">{selectedTemplate}{customTemplate !== null && ' (edited)'}</span></div>
+          )}
+          {selectedFormat === 'pdf' ? (
+            <div>PDF is rendered on the server when you download</div>
+          ) : exportError ? (
+            <div className="text-red-600" role="alert">{exportError}</div>
+          ) : (
+            <div>Estimated file size: <span className="font-medium">
+              {estimatedSize} KB
+            </span></div>
+          )}
         </div>
       </div>
     </div>
@@ -221,7 +221,7 @@ export function ProcessingStatus({
             </Button>
           )}
           
-          {(status.stage === 'complete' || status.stage === 'error') && (
+          {(status.stage === 'complete' || status.stage === 'error' || status.stage === 'cancelled') && (
             <Button
               onClick={resetProcessing}
               variant="outline"
@@ -21,7 +21,8 @@ const STAGE_LABELS: Record<ProcessingStatusType['stage'], string> = {
   analysis: 'Analyzing content',
   generation: 'Generating article',
   complete: 'Complete',
-  error: 'Error'
+  error: 'Error',
+  cancelled: 'Cancelled'
 };
 
 export function ProcessingStatusCompact({ 
@@ -0,0 +1,163 @@
+import React, { useEffect, useState } from 'react';
+import { Article, PublishingDestination } from '@/types';
+import { PublishStatus } from '@/lib/export-utils';
+import { Button } from './ui/button';
+import { cn } from '@/lib/utils';
+
+interface DestinationInfo {
+  destination: PublishingDestination;
+  label: string;
+  configured: boolean;
+}
+
+const DESTINATION_LABELS: Record<PublishingDestination, string> = {
+  wordpress: 'WordPress',
+  ghost: 'Ghost',
+  devto: 'Dev.to',
+  webhook: 'Webhook'
+};
+
+interface PublishOptionsProps {
+  article: Article;
+  // Receives the article with the publication recorded on it
+  onPublished: (article: Article) => void;
+  className?: string;
+}
+
+/**
+ * Publishes the article through /api/publish. Destinations are configured on
+ * the server; publishing to a destination again updates the same post.
+ */
+const PublishOptions: React.FC<PublishOptionsProps> = ({
+  article,
+  onPublished,
+  className
+}) => {
+  const [destinations, setDestinations] = useState<DestinationInfo[]>([]);
+  const [destination, setDestination] = useState<PublishingDestination | ''>('');
+  const [status, setStatus] = useState<PublishStatus>('draft');
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch('/api/publish')
+      .then(response => response.json())
+      .then((data: { destinations?: DestinationInfo[] }) => {
+        if (cancelled) return;
+        const list = data.destinations || [];
+        setDestinations(list);
+        setDestination(current => current || list.find(item => item.configured)?.destination || '');
+      })
+      .catch(() => {
+        if (!cancelled) setError('Failed to load publishing destinations');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const publications = article.publications || [];
+  const existing = publications.find(record => record.destination === destination);
+
+  const handlePublish = async () => {
+    if (!destination) return;
+    setIsPublishing(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/publish', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ article, destination, status }),
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to publish article');
+      }
+      onPublished(result.article);
+    } catch (publishError) {
+      setError(publishError instanceof Error ? publishError.message : 'Failed to publish article');
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  return (
+    <div className={cn("p-6 bg-white border border-gray-200 rounded-lg shadow-sm", className)}>
+      <h3 className="text-lg font-semibold mb-4">Publish Article</h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+        <div>
+          <label htmlFor="publish-destination" className="block text-sm font-medium text-gray-700 mb-2">
+            Destination
+          </label>
+          <select
+            id="publish-destination"
+            value={destination}
+            onChange={(e) => setDestination(e.target.value as PublishingDestination)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {destinations.length === 0 && <option value="">No destinations</option>}
+            {destinations.map(item => (
+              <option key={item.destination} value={item.destination} disabled={!item.configured}>
+                {item.configured ? item.label : `${item.label} (not configured)`}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="publish-status" className="block text-sm font-medium text-gray-700 mb-2">
+            Post Status
+          </label>
+          <select
+            id="publish-status"
+            value={status}
+            onChange={(e) => setStatus(e.target.value as PublishStatus)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="draft">Draft</option>
+            <option value="published">Published</option>
+          </select>
+        </div>
+      </div>
+
+      <Button onClick={handlePublish} disabled={!destination || isPublishing}>
+        {isPublishing ? 'Publishing...' : existing ? `Update on ${DESTINATION_LABELS[existing.destination]}` : 'Publish'}
+      </Button>
+
+      {error && (
+        <p className="mt-3 text-sm text-red-600" role="alert">{error}</p>
+      )}
+
+      {publications.length > 0 && (
+        <div className="mt-4 pt-4 border-t border-gray-200">
+          <h4 className="text-sm font-medium text-gray-700 mb-2">Published To</h4>
+          <ul className="space-y-1 text-sm text-gray-600">
+            {publications.map(record => (
+              <li key={record.destination}>
+                <span className="font-medium">{DESTINATION_LABELS[record.destination]}</span>
+                {' '}({record.status === 'published' ? 'published' : 'draft'}, last updated {new Date(record.lastPublishedAt).toLocaleString()})
+                {record.url && (
+                  <>
+                    {' - '}
+                    <a href={record.url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+                      View post
+                    </a>
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PublishOptions;
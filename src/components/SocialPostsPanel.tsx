@@ -0,0 +1,107 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Button } from './ui/button';
+import { SocialDerivatives } from '@/types';
+import { SocialDerivativeGenerator, SocialDerivativesResult, countTweetCharacters } from '@/lib/social-derivatives';
+import { copyToClipboard } from '@/lib/export-utils';
+import { cn } from '@/lib/utils';
+
+interface SocialPostsPanelProps {
+  // Generates the posts for the article shown, e.g. through /api/content/derivatives
+  onGenerate: () => Promise<SocialDerivativesResult>;
+  className?: string;
+}
+
+type CopyTarget = keyof SocialDerivatives | `thread-${number}`;
+
+export function SocialPostsPanel({ onGenerate, className }: SocialPostsPanelProps) {
+  const [result, setResult] = useState<SocialDerivativesResult | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState<CopyTarget | null>(null);
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    setError(null);
+    try {
+      setResult(await onGenerate());
+    } catch (generateError) {
+      setError(generateError instanceof Error ? generateError.message : 'Failed to generate social posts');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleCopy = async (target: CopyTarget, text: string) => {
+    if (await copyToClipboard(text)) {
+      setCopied(target);
+      setTimeout(() => setCopied(current => current === target ? null : current), 2000);
+    }
+  };
+
+  const copyButton = (target: CopyTarget, text: string, label: string) => (
+    <Button variant="outline" className="text-xs px-2 py-1" onClick={() => handleCopy(target, text)} aria-label={label}>
+      {copied === target ? 'Copied!' : 'Copy'}
+    </Button>
+  );
+
+  const textBlock = (target: Exclude<keyof SocialDerivatives, 'thread'>, title: string, text: string) => (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h5 className="text-sm font-semibold text-gray-900">{title}</h5>
+        {copyButton(target, text, `Copy ${title}`)}
+      </div>
+      <p className="whitespace-pre-wrap text-sm text-gray-700 bg-gray-50 border border-gray-200 rounded p-3">{text}</p>
+    </div>
+  );
+
+  const derivatives = result?.derivatives;
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-600">
+          Posts for X, LinkedIn and your newsletter, plus show notes for the video description.
+        </p>
+        <Button onClick={handleGenerate} disabled={isGenerating} className="text-sm">
+          {isGenerating ? 'Generating...' : derivatives ? 'Regenerate' : 'Generate Social Posts'}
+        </Button>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600" role="alert">{error}</p>
+      )}
+
+      {derivatives && (
+        <div className="space-y-6">
+          {result?.generationMethod === 'template' && (
+            <p className="text-xs text-gray-500">AI generation was unavailable, so these posts were built from templates.</p>
+          )}
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h5 className="text-sm font-semibold text-gray-900">X Thread ({derivatives.thread.length} posts)</h5>
+              {copyButton('thread', derivatives.thread.join('\n\n'), 'Copy X Thread')}
+            </div>
+            <ol className="space-y-2">
+              {derivatives.thread.map((post, index) => (
+                <li key={index} className="bg-gray-50 border border-gray-200 rounded p-3">
+                  <p className="whitespace-pre-wrap text-sm text-gray-700">{post}</p>
+                  <div className="mt-2 flex items-center justify-between text-xs text-gray-500">
+                    <span>{countTweetCharacters(post)}/{SocialDerivativeGenerator.TWEET_CHARACTER_LIMIT}</span>
+                    {copyButton(`thread-${index}`, post, `Copy post ${index + 1}`)}
+                  </div>
+                </li>
+              ))}
+            </ol>
+          </div>
+
+          {textBlock('linkedInPost', 'LinkedIn Post', derivatives.linkedInPost)}
+          {textBlock('newsletterSummary', 'Newsletter Summary', derivatives.newsletterSummary)}
+          {textBlock('showNotes', 'Show Notes', derivatives.showNotes)}
+        </div>
+      )}
+    </div>
+  );
+}
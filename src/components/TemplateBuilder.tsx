@@ -0,0 +1,404 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Button } from './ui/button';
+import { ArticleTemplate, TemplateSection } from '@/types';
+import { ArticleGenerator } from '@/lib/article-generator';
+import {
+  TEMPLATE_CONTENT_TYPES,
+  TEMPLATE_LENGTHS,
+  TEMPLATE_TONES,
+  TEMPLATE_TYPES,
+  TemplateValidationError,
+  exportTemplates,
+  importTemplates
+} from '@/lib/article-templates';
+import { SchemaIssue } from '@/lib/ai-response-parser';
+import { downloadFile } from '@/lib/export-utils';
+import { cn } from '@/lib/utils';
+
+interface TemplateBuilderProps {
+  templates: ArticleTemplate[];
+  onChange: (templates: ArticleTemplate[]) => void;
+  className?: string;
+}
+
+// Form state of a section; numbers and keywords are edited as text
+interface SectionDraft {
+  heading: string;
+  contentType: TemplateSection['contentType'];
+  minLength: string;
+  maxLength: string;
+  keywords: string;
+  includeTimestamps: boolean;
+}
+
+interface TemplateDraft {
+  name: string;
+  type: ArticleTemplate['type'];
+  defaultTone: ArticleTemplate['defaultTone'];
+  estimatedLength: ArticleTemplate['estimatedLength'];
+  sections: SectionDraft[];
+}
+
+const inputClassName = 'w-full px-2 py-1 text-sm text-zinc-700 border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+function createSectionDraft(section?: TemplateSection): SectionDraft {
+  return {
+    heading: section?.heading ?? '',
+    contentType: section?.contentType ?? 'main_content',
+    minLength: section?.minLength?.toString() ?? '',
+    maxLength: section?.maxLength?.toString() ?? '',
+    keywords: section?.keywordFocus?.join(', ') ?? '',
+    includeTimestamps: section?.includeTimestamps ?? false
+  };
+}
+
+function createTemplateDraft(template?: ArticleTemplate): TemplateDraft {
+  return {
+    name: template?.name ?? '',
+    type: template?.type ?? 'general',
+    defaultTone: template?.defaultTone ?? 'professional',
+    estimatedLength: template?.estimatedLength ?? 'medium',
+    sections: template
+      ? template.structure.map(createSectionDraft)
+      : [
+        { ...createSectionDraft(), heading: 'Introduction', contentType: 'introduction' },
+        createSectionDraft(),
+        { ...createSectionDraft(), heading: 'Conclusion', contentType: 'conclusion' }
+      ]
+  };
+}
+
+function toWordCount(value: string): number | undefined {
+  return value.trim() ? Number(value) : undefined;
+}
+
+function toTemplate(draft: TemplateDraft): unknown {
+  return {
+    name: draft.name,
+    type: draft.type,
+    defaultTone: draft.defaultTone,
+    estimatedLength: draft.estimatedLength,
+    structure: draft.sections.map(section => ({
+      heading: section.heading,
+      contentType: section.contentType,
+      minLength: toWordCount(section.minLength),
+      maxLength: toWordCount(section.maxLength),
+      keywordFocus: section.keywords.split(',').map(keyword => keyword.trim()).filter(Boolean),
+      includeTimestamps: section.includeTimestamps
+    }))
+  };
+}
+
+/**
+ * Create, edit, import and export user-defined article templates.
+ * The templates are owned by the parent, usually the customTemplates preference.
+ */
+export function TemplateBuilder({ templates, onChange, className }: TemplateBuilderProps) {
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+  // Name of the template being edited, null for a new one
+  const [editingName, setEditingName] = useState<string | null>(null);
+  const [issues, setIssues] = useState<SchemaIssue[]>([]);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const openDraft = (template?: ArticleTemplate) => {
+    setDraft(createTemplateDraft(template));
+    setEditingName(template?.name ?? null);
+    setIssues([]);
+  };
+
+  const closeDraft = () => {
+    setDraft(null);
+    setEditingName(null);
+    setIssues([]);
+  };
+
+  const updateDraft = (changes: Partial<TemplateDraft>) => {
+    setDraft(current => current && { ...current, ...changes });
+  };
+
+  const updateSection = (index: number, changes: Partial<SectionDraft>) => {
+    setDraft(current => current && {
+      ...current,
+      sections: current.sections.map((section, i) => i === index ? { ...section, ...changes } : section)
+    });
+  };
+
+  const moveSection = (index: number, offset: number) => {
+    setDraft(current => {
+      if (!current) return current;
+      const sections = [...current.sections];
+      const [section] = sections.splice(index, 1);
+      sections.splice(index + offset, 0, section);
+      return { ...current, sections };
+    });
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+
+    const otherNames = templates.filter(t => t.name !== editingName).map(t => t.name);
+    const result = ArticleGenerator.validateUserTemplate(toTemplate(draft), otherNames);
+    if (!result.template) {
+      setIssues(result.issues);
+      return;
+    }
+
+    const saved = result.template;
+    onChange(editingName === null
+      ? [...templates, saved]
+      : templates.map(t => t.name === editingName ? saved : t));
+    closeDraft();
+  };
+
+  const handleDelete = (name: string) => {
+    onChange(templates.filter(t => t.name !== name));
+    if (editingName === name) closeDraft();
+  };
+
+  const handleExport = () => {
+    downloadFile(exportTemplates(templates), 'vid2blog-templates.json', 'application/json');
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const reservedNames = ArticleGenerator.getAvailableTemplates(templates).map(t => t.name);
+      const imported = importTemplates(await file.text(), reservedNames);
+      onChange([...templates, ...imported]);
+      setImportError(null);
+    } catch (error) {
+      const issueList = error instanceof TemplateValidationError
+        ? error.issues.map(issue => `${issue.path || 'template'} ${issue.message}`)
+        : [];
+      const message = error instanceof Error ? error.message : 'Failed to import templates';
+      setImportError([message, ...issueList].join('\n'));
+    }
+  };
+
+  return (
+    <div className={cn("p-6 bg-white border border-gray-200 rounded-lg", className)}>
+      <div className="flex items-center justify-between gap-4 mb-4">
+        <h4 className="text-lg font-semibold text-gray-900">Custom Templates</h4>
+        <div className="flex gap-2">
+          <label className="inline-flex items-center px-3 py-1 text-sm border border-gray-300 rounded-md cursor-pointer hover:bg-gray-50">
+            Import
+            <input
+              type="file"
+              accept="application/json,.json"
+              aria-label="Import templates"
+              onChange={handleImport}
+              className="hidden"
+            />
+          </label>
+          <Button size="sm" variant="outline" onClick={handleExport} disabled={templates.length === 0}>
+            Export
+          </Button>
+          <Button size="sm" onClick={() => openDraft()} disabled={draft !== null}>
+            New Template
+          </Button>
+        </div>
+      </div>
+
+      {importError && (
+        <p className="mb-4 text-sm text-red-600 whitespace-pre-line">{importError}</p>
+      )}
+
+      {templates.length === 0 ? (
+        <p className="text-sm text-gray-500">Templates you create or import will appear here.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 mb-4">
+          {templates.map(template => (
+            <li key={template.name} className="flex items-center justify-between gap-4 py-3">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900 truncate">{template.name}</p>
+                <p className="text-xs text-gray-500 truncate">
+                  {template.type} · {template.defaultTone} · {template.structure.map(s => s.heading).join(', ')}
+                </p>
+              </div>
+              <div className="flex gap-2 flex-shrink-0">
+                <Button size="sm" variant="outline" onClick={() => openDraft(template)}>
+                  Edit
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleDelete(template.name)}
+                  className="border-red-300 text-red-700 hover:bg-red-50"
+                >
+                  Delete
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {draft && (
+        <div className="mt-4 p-4 border border-gray-200 rounded-lg space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <label className="text-xs font-medium text-gray-600">
+              Name
+              <input
+                value={draft.name}
+                onChange={(e) => updateDraft({ name: e.target.value })}
+                className={inputClassName}
+              />
+            </label>
+            <label className="text-xs font-medium text-gray-600">
+              Type
+              <select
+                value={draft.type}
+                onChange={(e) => updateDraft({ type: e.target.value as ArticleTemplate['type'] })}
+                className={inputClassName}
+              >
+                {TEMPLATE_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+              </select>
+            </label>
+            <label className="text-xs font-medium text-gray-600">
+              Tone
+              <select
+                value={draft.defaultTone}
+                onChange={(e) => updateDraft({ defaultTone: e.target.value as ArticleTemplate['defaultTone'] })}
+                className={inputClassName}
+              >
+                {TEMPLATE_TONES.map(tone => <option key={tone} value={tone}>{tone}</option>)}
+              </select>
+            </label>
+            <label className="text-xs font-medium text-gray-600">
+              Length
+              <select
+                value={draft.estimatedLength}
+                onChange={(e) => updateDraft({ estimatedLength: e.target.value as ArticleTemplate['estimatedLength'] })}
+                className={inputClassName}
+              >
+                {TEMPLATE_LENGTHS.map(length => <option key={length} value={length}>{length}</option>)}
+              </select>
+            </label>
+          </div>
+
+          <div className="space-y-3">
+            {draft.sections.map((section, index) => (
+              <fieldset key={index} className="p-3 bg-gray-50 rounded space-y-2">
+                <legend className="sr-only">Section {index + 1}</legend>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                  <label className="text-xs font-medium text-gray-600">
+                    Heading
+                    <input
+                      value={section.heading}
+                      aria-label={`Section ${index + 1} heading`}
+                      onChange={(e) => updateSection(index, { heading: e.target.value })}
+                      className={inputClassName}
+                    />
+                  </label>
+                  <label className="text-xs font-medium text-gray-600">
+                    Content
+                    <select
+                      value={section.contentType}
+                      aria-label={`Section ${index + 1} content`}
+                      onChange={(e) => updateSection(index, { contentType: e.target.value as TemplateSection['contentType'] })}
+                      className={inputClassName}
+                    >
+                      {TEMPLATE_CONTENT_TYPES.map(type => (
+                        <option key={type} value={type}>{type.replace('_', ' ')}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="text-xs font-medium text-gray-600">
+                    Keyword focus (comma separated)
+                    <input
+                      value={section.keywords}
+                      aria-label={`Section ${index + 1} keywords`}
+                      onChange={(e) => updateSection(index, { keywords: e.target.value })}
+                      className={inputClassName}
+                    />
+                  </label>
+                </div>
+                <div className="flex flex-wrap items-end gap-3">
+                  <label className="text-xs font-medium text-gray-600">
+                    Min words
+                    <input
+                      type="number"
+                      min={1}
+                      value={section.minLength}
+                      aria-label={`Section ${index + 1} min words`}
+                      onChange={(e) => updateSection(index, { minLength: e.target.value })}
+                      className={cn(inputClassName, 'w-24')}
+                    />
+                  </label>
+                  <label className="text-xs font-medium text-gray-600">
+                    Max words
+                    <input
+                      type="number"
+                      min={1}
+                      value={section.maxLength}
+                      aria-label={`Section ${index + 1} max words`}
+                      onChange={(e) => updateSection(index, { maxLength: e.target.value })}
+                      className={cn(inputClassName, 'w-24')}
+                    />
+                  </label>
+                  <label className="flex items-center gap-1 text-xs text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={section.includeTimestamps}
+                      onChange={(e) => updateSection(index, { includeTimestamps: e.target.checked })}
+                    />
+                    Timestamps
+                  </label>
+                  <div className="flex gap-1 ml-auto">
+                    <Button size="sm" variant="ghost" onClick={() => moveSection(index, -1)} disabled={index === 0}>
+                      Up
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => moveSection(index, 1)}
+                      disabled={index === draft.sections.length - 1}
+                    >
+                      Down
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => updateDraft({ sections: draft.sections.filter((_, i) => i !== index) })}
+                    >
+                      Remove
+                    </Button>
+                  </div>
+                </div>
+              </fieldset>
+            ))}
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => updateDraft({ sections: [...draft.sections, createSectionDraft()] })}
+            >
+              Add Section
+            </Button>
+          </div>
+
+          {issues.length > 0 && (
+            <ul className="text-sm text-red-600 list-disc pl-5" role="alert">
+              {issues.map(issue => (
+                <li key={`${issue.path}-${issue.message}`}>{issue.path || 'template'} {issue.message}</li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button size="sm" variant="outline" onClick={closeDraft}>
+              Cancel
+            </Button>
+            <Button size="sm" onClick={handleSave}>
+              Save Template
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -8,18 +8,21 @@ interface TemplatePreviewProps {
     selectedTemplate?: string;
     onTemplateSelect?: (templateName: string) => void;
     showFullPreview?: boolean;
+    // User-defined templates listed after the built-in ones
+    customTemplates?: ArticleTemplate[];
 }
 
 const TemplatePreview: React.FC<TemplatePreviewProps> = ({
     className,
     selectedTemplate,
     onTemplateSelect,
-    showFullPreview = false
+    showFullPreview = false,
+    customTemplates = []
 }) => {
     const [previewTemplate, setPreviewTemplate] = useState<ArticleTemplate | null>(null);
     const [showModal, setShowModal] = useState(false);
 
-    const availableTemplates = ArticleGenerator.getAvailableTemplates();
+    const availableTemplates = ArticleGenerator.getAvailableTemplates(customTemplates);
 
     const handlePreviewClick = (template: ArticleTemplate) => {
         setPreviewTemplate(template);
@@ -0,0 +1,54 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { ArticleHistory } from '../ArticleHistory';
+import type { ArticleHistoryEntry } from '@/lib/article-history';
+import { Article, VideoMetadata } from '@/types';
+
+describe('ArticleHistory', () => {
+  const entry: ArticleHistoryEntry = {
+    id: 'entry-1',
+    article: { title: 'Saved Article' } as Article,
+    videoMetadata: { title: 'Source Video', channelName: 'Channel' } as VideoMetadata,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-02T00:00:00.000Z'
+  };
+
+  const defaultProps = {
+    entries: [entry],
+    query: '',
+    onQueryChange: jest.fn(),
+    onOpen: jest.fn(),
+    onDelete: jest.fn()
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should list saved articles with their source video', () => {
+    render(<ArticleHistory {...defaultProps} />);
+
+    expect(screen.getByText('Saved Article')).toBeInTheDocument();
+    expect(screen.getByText(/Source Video · Channel/)).toBeInTheDocument();
+  });
+
+  it('should reopen and delete entries', () => {
+    render(<ArticleHistory {...defaultProps} />);
+
+    fireEvent.click(screen.getByText('Open'));
+    fireEvent.click(screen.getByText('Delete'));
+
+    expect(defaultProps.onOpen).toHaveBeenCalledWith(entry);
+    expect(defaultProps.onDelete).toHaveBeenCalledWith('entry-1');
+  });
+
+  it('should report search changes and empty results', () => {
+    render(<ArticleHistory {...defaultProps} entries={[]} query="missing" />);
+
+    fireEvent.change(screen.getByLabelText('Search article history'), { target: { value: 'compiler' } });
+
+    expect(defaultProps.onQueryChange).toHaveBeenCalledWith('compiler');
+    expect(screen.getByText('No saved articles match your search.')).toBeInTheDocument();
+  });
+});
@@ -1,7 +1,7 @@
 import React from 'react';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import '@testing-library/jest-dom';
-import ArticlePreview from '../ArticlePreview';
+import ArticlePreview, { StreamingArticlePreview } from '../ArticlePreview';
 import { Article } from '@/types';
 
 const mockArticle: Article = {
@@ -272,4 +272,222 @@ describe('ArticlePreview', () => {
       });
     });
   });
-});
\ No newline at end of file
+
+  describe('version history', () => {
+    const ControlledPreview = () => {
+      const [article, setArticle] = React.useState(mockArticle);
+      return <ArticlePreview article={article} onArticleChange={setArticle} />;
+    };
+
+    const editTitle = (from: string, to: string) => {
+      fireEvent.click(screen.getByText(from));
+      fireEvent.change(screen.getByDisplayValue(from), { target: { value: to } });
+      fireEvent.keyDown(screen.getByDisplayValue(to), { key: 'Enter' });
+    };
+
+    it('undoes and redoes edits', () => {
+      render(<ControlledPreview />);
+
+      expect(screen.getByText('Undo')).toBeDisabled();
+      editTitle('Test Article Title', 'Edited Title');
+
+      fireEvent.click(screen.getByText('Undo'));
+      expect(screen.getByText('Test Article Title')).toBeInTheDocument();
+
+      fireEvent.click(screen.getByText('Redo'));
+      expect(screen.getByText('Edited Title')).toBeInTheDocument();
+      expect(screen.getByText('Redo')).toBeDisabled();
+    });
+
+    it('shows a diff between revisions and restores an earlier one', () => {
+      render(<ControlledPreview />);
+
+      editTitle('Test Article Title', 'Edited Title');
+      fireEvent.click(screen.getByText('Version History (2)'));
+
+      expect(screen.getByText('Changed')).toBeInTheDocument();
+      expect(screen.getByText('Test Article', { selector: 'del' })).toBeInTheDocument();
+      expect(screen.getByText('Edited', { selector: 'ins' })).toBeInTheDocument();
+
+      fireEvent.click(screen.getByText('Restore'));
+
+      expect(screen.getByText('Test Article Title')).toBeInTheDocument();
+      expect(screen.getByText('Hide Version History')).toBeInTheDocument();
+      expect(screen.getAllByText(/#3 Restored by You/).length).toBeGreaterThan(0);
+    });
+  });
+
+  describe('section regeneration', () => {
+    it('replaces a section with the regenerated one and records it as an AI revision', async () => {
+      const onRegenerateSection = jest.fn().mockResolvedValue({ heading: 'Second Section', content: 'A more concrete second section.' });
+
+      render(
+        <ArticlePreview
+          article={mockArticle}
+          onArticleChange={mockOnArticleChange}
+          onRegenerateSection={onRegenerateSection}
+        />
+      );
+
+      fireEvent.click(screen.getAllByText('Regenerate')[1]);
+      fireEvent.change(screen.getByLabelText('Regeneration instruction'), { target: { value: 'make this more concrete' } });
+      fireEvent.click(screen.getByText('Regenerate Section'));
+
+      await waitFor(() => {
+        expect(mockOnArticleChange).toHaveBeenCalledWith({
+          ...mockArticle,
+          sections: [mockArticle.sections[0], { heading: 'Second Section', content: 'A more concrete second section.' }]
+        });
+      });
+      expect(onRegenerateSection).toHaveBeenCalledWith(1, 'make this more concrete');
+
+      fireEvent.click(screen.getByText('Version History (2)'));
+      expect(screen.getAllByText(/#2 Regenerated by AI/).length).toBeGreaterThan(0);
+    });
+
+    it('shows regeneration errors and keeps the section', async () => {
+      const onRegenerateSection = jest.fn().mockRejectedValue(new Error('Transcript is required'));
+
+      render(
+        <ArticlePreview
+          article={mockArticle}
+          onArticleChange={mockOnArticleChange}
+          onRegenerateSection={onRegenerateSection}
+        />
+      );
+
+      fireEvent.click(screen.getAllByText('Regenerate')[0]);
+      fireEvent.click(screen.getByText('Regenerate Section'));
+
+      expect(await screen.findByText('Transcript is required')).toBeInTheDocument();
+      expect(mockOnArticleChange).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('grounding', () => {
+    const transcript = {
+      segments: [
+        { text: 'This is the content of the first section we discuss.', startTime: 0, endTime: 10, confidence: 1 },
+        { text: 'Then comes the content of the second section.', startTime: 65, endTime: 70, confidence: 1 }
+      ],
+      language: 'en',
+      confidence: 1,
+      duration: 70
+    };
+
+    it('highlights sentences the transcript does not support', () => {
+      render(
+        <ArticlePreview
+          article={mockArticle}
+          onArticleChange={mockOnArticleChange}
+          transcript={transcript}
+        />
+      );
+
+      const claim = screen.getByText('This is a test introduction for the article.');
+      expect(claim.tagName).toBe('MARK');
+      expect(claim).toHaveAttribute('title', expect.stringContaining('Closest transcript (0:00)'));
+      expect(screen.getByText('This is the content of the second section.').tagName).not.toBe('MARK');
+      expect(screen.getByText(/% of sentences supported/)).toBeInTheDocument();
+
+      fireEvent.click(screen.getByText('Show Unsupported Claims'));
+      expect(screen.getAllByText('This is a test introduction for the article.')).toHaveLength(2);
+    });
+
+    it('shows the stored grounding score without a transcript', () => {
+      render(
+        <ArticlePreview
+          article={{ ...mockArticle, metadata: { ...mockArticle.metadata, groundingScore: 0.85 } }}
+          onArticleChange={mockOnArticleChange}
+        />
+      );
+
+      expect(screen.getByText('Grounding: 85% of sentences supported')).toBeInTheDocument();
+      expect(screen.queryByText('Show Unsupported Claims')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('citations', () => {
+    const citedArticle: Article = {
+      ...mockArticle,
+      sections: [
+        {
+          heading: 'First Section',
+          content: 'Opening paragraph.\n\nThe content of the second section.',
+          citations: [{ paragraphIndex: 1, startTime: 65, endTime: 70 }]
+        }
+      ]
+    };
+
+    const editFirstSection = (content: string) => {
+      fireEvent.click(screen.getByText(/^Opening paragraph\./));
+      fireEvent.change(screen.getByDisplayValue(/^Opening paragraph\./), { target: { value: content } });
+      fireEvent.click(screen.getByText('Save'));
+    };
+
+    it('cites edited content again from the transcript', async () => {
+      const transcript = {
+        segments: [{ text: 'Then comes the content of the second section.', startTime: 65, endTime: 70, confidence: 1 }],
+        language: 'en',
+        confidence: 1,
+        duration: 70
+      };
+      render(<ArticlePreview article={citedArticle} onArticleChange={mockOnArticleChange} transcript={transcript} />);
+
+      editFirstSection('The content of the second section.');
+
+      await waitFor(() => {
+        expect(mockOnArticleChange).toHaveBeenCalledWith(expect.objectContaining({
+          sections: [expect.objectContaining({ citations: [{ paragraphIndex: 0, startTime: 65, endTime: 70 }] })]
+        }));
+      });
+    });
+
+    it('drops the citations of edited content without a transcript', async () => {
+      render(<ArticlePreview article={citedArticle} onArticleChange={mockOnArticleChange} />);
+
+      editFirstSection('The content of the second section.');
+
+      await waitFor(() => {
+        expect(mockOnArticleChange).toHaveBeenCalled();
+      });
+      expect(mockOnArticleChange.mock.calls[0][0].sections[0]).toEqual({
+        heading: 'First Section',
+        content: 'The content of the second section.'
+      });
+    });
+  });
+
+  describe('StreamingArticlePreview', () => {
+    it('renders the article text received so far', () => {
+      const { container } = render(
+        <StreamingArticlePreview
+          article={{
+            title: 'Streaming Title',
+            introduction: 'The introduction so far',
+            sections: [{ heading: 'Tokens', content: 'Partial sec' }],
+            conclusion: '',
+            current: 'sections.0'
+          }}
+          status="Generating blog article..."
+        />
+      );
+
+      expect(screen.getByText('Generating blog article...')).toBeInTheDocument();
+      expect(screen.getByText('Streaming Title')).toBeInTheDocument();
+      expect(screen.getByText('The introduction so far')).toBeInTheDocument();
+      expect(screen.getByText('Tokens')).toBeInTheDocument();
+      expect(screen.queryByText('Conclusion')).not.toBeInTheDocument();
+      expect(screen.queryByRole('button')).not.toBeInTheDocument();
+      // The cursor follows the section being written
+      expect(screen.getByText('Partial sec').querySelector('[aria-hidden="true"]')).not.toBeNull();
+      expect(container.querySelectorAll('.animate-pulse')).toHaveLength(1);
+    });
+
+    it('shows a placeholder until the title arrives', () => {
+      render(<StreamingArticlePreview article={{ title: '', introduction: '', sections: [], conclusion: '' }} />);
+
+      expect(screen.getByText('Writing title...')).toBeInTheDocument();
+    });
+  });
+});
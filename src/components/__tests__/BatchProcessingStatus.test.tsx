@@ -0,0 +1,97 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { BatchProcessingStatus } from '../BatchProcessingStatus';
+import { BatchStatus } from '@/lib/batch-processor';
+import { Article } from '@/types';
+import * as exportUtils from '@/lib/export-utils';
+
+jest.mock('@/lib/export-utils', () => ({
+  ...jest.requireActual('@/lib/export-utils'),
+  exportArticlesAsZip: jest.fn(),
+  exportPublishingPackage: jest.fn(),
+  downloadFile: jest.fn(),
+}));
+
+const mockExportUtils = exportUtils as jest.Mocked<typeof exportUtils>;
+
+describe('BatchProcessingStatus', () => {
+  const article = { title: 'First Article' } as Article;
+
+  const status: BatchStatus = {
+    state: 'running',
+    source: { type: 'playlist', id: 'PL1', title: 'My Playlist' },
+    total: 3,
+    completed: 1,
+    failed: 1,
+    progress: 70,
+    items: [
+      { videoId: 'a', url: 'https://www.youtube.com/watch?v=a', title: 'Video A', stage: 'complete', progress: 100, message: 'Article generated successfully!', article },
+      { videoId: 'b', url: 'https://www.youtube.com/watch?v=b', title: 'Video B', stage: 'error', progress: 100, message: 'No transcript', error: 'No transcript' },
+      { videoId: 'c', url: 'https://www.youtube.com/watch?v=c', title: 'Video C', stage: 'analysis', progress: 10, message: 'Analyzing content...' }
+    ]
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    global.URL.createObjectURL = jest.fn();
+  });
+
+  it('should show aggregate counts and each video stage', () => {
+    render(<BatchProcessingStatus status={status} />);
+
+    expect(screen.getByText('My Playlist')).toBeInTheDocument();
+    expect(screen.getByText('1 of 3 complete, 1 failed')).toBeInTheDocument();
+    expect(screen.getByTestId('batch-item-a')).toHaveTextContent('Complete');
+    expect(screen.getByTestId('batch-item-b')).toHaveTextContent('Failed');
+    expect(screen.getByTestId('batch-item-b')).toHaveTextContent('No transcript');
+    expect(screen.getByTestId('batch-item-c')).toHaveTextContent('Analyzing');
+  });
+
+  it('should download completed articles as a ZIP archive', () => {
+    mockExportUtils.exportArticlesAsZip.mockReturnValue({
+      content: new Uint8Array([0x50, 0x4b]),
+      filename: 'my-playlist.zip',
+      mimeType: 'application/zip'
+    });
+
+    render(<BatchProcessingStatus status={status} format="html" />);
+    fireEvent.click(screen.getByText('Download ZIP (1)'));
+
+    expect(mockExportUtils.exportArticlesAsZip).toHaveBeenCalledWith(
+      [article],
+      { format: 'html', includeMetadata: true },
+      'My Playlist'
+    );
+    expect(mockExportUtils.downloadFile).toHaveBeenCalledWith(expect.any(Blob), 'my-playlist.zip', 'application/zip');
+  });
+
+  it('should download the batch as one publishing platform import file', () => {
+    mockExportUtils.exportPublishingPackage.mockReturnValue({
+      content: '{}',
+      filename: 'my-playlist-ghost.json',
+      mimeType: 'application/json'
+    });
+
+    render(<BatchProcessingStatus status={status} />);
+    fireEvent.change(screen.getByLabelText('Download format'), { target: { value: 'ghost' } });
+    fireEvent.click(screen.getByText('Download Ghost (1)'));
+
+    expect(mockExportUtils.exportPublishingPackage).toHaveBeenCalledWith(
+      [article],
+      { format: 'ghost', includeMetadata: true },
+      'My Playlist'
+    );
+    expect(mockExportUtils.exportArticlesAsZip).not.toHaveBeenCalled();
+    expect(mockExportUtils.downloadFile).toHaveBeenCalledWith(expect.any(Blob), 'my-playlist-ghost.json', 'application/json');
+  });
+
+  it('should let the user open a generated article', () => {
+    const onSelectArticle = jest.fn();
+    render(<BatchProcessingStatus status={status} onSelectArticle={onSelectArticle} />);
+
+    fireEvent.click(screen.getByText('View'));
+
+    expect(onSelectArticle).toHaveBeenCalledWith(article);
+  });
+});
@@ -52,6 +52,8 @@ describe('ConfigurationOptions', () => {
     autoSave: true,
     exportFormat: 'markdown' as const,
     includeMetadata: true,
+    customTemplates: [],
+    siteProfiles: {},
   };
 
   beforeEach(() => {
@@ -146,7 +148,7 @@ describe('ConfigurationOptions', () => {
   it('should toggle auto-save preference', () => {
     render(<ConfigurationOptions />);
 
-    const autoSaveCheckbox = screen.getByLabelText('Auto-save preferences');
+    const autoSaveCheckbox = screen.getByLabelText('Auto-save generated articles');
     fireEvent.click(autoSaveCheckbox);
 
     expect(mockUpdatePreference).toHaveBeenCalledWith('autoSave', false);
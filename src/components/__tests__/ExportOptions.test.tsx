@@ -7,10 +7,12 @@ import * as exportUtils from '@/lib/export-utils';
 
 // Mock the export utilities
 jest.mock('@/lib/export-utils', () => ({
+  ...jest.requireActual('@/lib/export-utils'),
   exportArticle: jest.fn(),
   downloadFile: jest.fn(),
   copyToClipboard: jest.fn(),
   getAvailableTemplates: jest.fn(),
+  getTemplateSource: jest.fn(),
 }));
 
 const mockExportUtils = exportUtils as jest.Mocked<typeof exportUtils>;
@@ -57,6 +59,7 @@ describe('ExportOptions', () => {
 
   beforeEach(() => {
     jest.clearAllMocks();
+    localStorage.clear();
     mockExportUtils.getAvailableTemplates.mockImplementation((format) => {
       switch (format) {
         case 'markdown':
@@ -124,7 +127,8 @@ describe('ExportOptions', () => {
       expect(mockExportUtils.exportArticle).toHaveBeenCalledWith(mockArticle, {
         format: 'markdown',
         includeMetadata: true,
-        template: 'default'
+        template: 'default',
+        citationStyle: 'links'
       });
       expect(mockExportUtils.downloadFile).toHaveBeenCalledWith(
         mockExportResult.content,
@@ -145,7 +149,8 @@ describe('ExportOptions', () => {
       expect(mockExportUtils.exportArticle).toHaveBeenCalledWith(mockArticle, {
         format: 'markdown',
         includeMetadata: true,
-        template: 'default'
+        template: 'default',
+        citationStyle: 'links'
       });
       expect(mockExportUtils.copyToClipboard).toHaveBeenCalledWith(mockExportResult.content);
       expect(onExportComplete).toHaveBeenCalledWith('markdown');
@@ -155,6 +160,58 @@ describe('ExportOptions', () => {
     expect(screen.getByText('Copied!')).toBeInTheDocument();
   });
 
+  it('should copy HTML exports as rich text too', async () => {
+    render(<ExportOptions article={mockArticle} />);
+
+    fireEvent.click(screen.getByText('Html'));
+    fireEvent.click(screen.getByText('Copy to Clipboard'));
+
+    await waitFor(() => {
+      expect(mockExportUtils.copyToClipboard).toHaveBeenCalledWith(mockExportResult.content, mockExportResult.content);
+    });
+  });
+
+  it('should export static-site formats with the edited front matter mapping', async () => {
+    render(<ExportOptions article={mockArticle} />);
+
+    fireEvent.click(screen.getByText('Jekyll'));
+    expect(screen.getByLabelText('Thumbnail key')).toHaveValue('image');
+
+    fireEvent.change(screen.getByLabelText('Thumbnail key'), { target: { value: 'cover' } });
+    fireEvent.change(screen.getByLabelText('Format'), { target: { value: 'toml' } });
+    fireEvent.click(screen.getByText('Download'));
+
+    await waitFor(() => {
+      expect(mockExportUtils.exportArticle).toHaveBeenLastCalledWith(mockArticle, expect.objectContaining({
+        format: 'jekyll',
+        siteProfile: { fields: { thumbnail: 'cover' }, frontMatterFormat: 'toml' }
+      }));
+    });
+    expect(JSON.parse(localStorage.getItem('vid2blog-user-preferences') || '{}').siteProfiles).toEqual({
+      jekyll: { fields: { thumbnail: 'cover' }, frontMatterFormat: 'toml' }
+    });
+
+    fireEvent.click(screen.getByText('Reset to Defaults'));
+    expect(screen.getByLabelText('Thumbnail key')).toHaveValue('image');
+  });
+
+  it('should export publishing formats with the chosen post status', async () => {
+    render(<ExportOptions article={mockArticle} />);
+
+    fireEvent.click(screen.getByText('WordPress'));
+    expect(screen.queryByText('Edit Template')).not.toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('Post Status'), { target: { value: 'published' } });
+    fireEvent.click(screen.getByText('Download'));
+
+    await waitFor(() => {
+      expect(mockExportUtils.exportArticle).toHaveBeenLastCalledWith(mockArticle, expect.objectContaining({
+        format: 'wordpress',
+        publishStatus: 'published'
+      }));
+    });
+  });
+
   it('should handle copy failure gracefully', async () => {
     mockExportUtils.copyToClipboard.mockResolvedValue(false);
     
@@ -228,7 +285,8 @@ describe('ExportOptions', () => {
     expect(mockExportUtils.exportArticle).toHaveBeenCalledWith(mockArticle, {
       format: 'markdown',
       includeMetadata: false,
-      template: 'default'
+      template: 'default',
+      citationStyle: 'links'
     });
   });
 
@@ -243,8 +301,56 @@ describe('ExportOptions', () => {
     expect(mockExportUtils.exportArticle).toHaveBeenCalledWith(mockArticle, {
       format: 'markdown',
       includeMetadata: true,
-      template: 'blog'
+      template: 'blog',
+      citationStyle: 'links'
+    });
+  });
+
+  it('should let the user render citations as footnotes', () => {
+    render(<ExportOptions article={mockArticle} />);
+
+    fireEvent.change(screen.getByLabelText('Video Timestamp Citations'), { target: { value: 'footnotes' } });
+    fireEvent.click(screen.getByText('Download'));
+
+    expect(mockExportUtils.exportArticle).toHaveBeenCalledWith(mockArticle, expect.objectContaining({
+      citationStyle: 'footnotes'
+    }));
+
+    fireEvent.click(screen.getByText('Plain'));
+    expect(screen.queryByLabelText('Video Timestamp Citations')).not.toBeInTheDocument();
+  });
+
+  it('should export with an edited copy of the selected template', () => {
+    mockExportUtils.getTemplateSource.mockReturnValue('# {{title}}');
+    render(<ExportOptions article={mockArticle} />);
+
+    fireEvent.change(screen.getByDisplayValue('Default'), { target: { value: 'blog' } });
+    fireEvent.click(screen.getByText('Edit Template'));
+    fireEvent.change(screen.getByLabelText('Template source'), { target: { value: '## {{title}}' } });
+    fireEvent.click(screen.getByText('Download'));
+
+    expect(mockExportUtils.getTemplateSource).toHaveBeenCalledWith('markdown', 'blog');
+    expect(mockExportUtils.exportArticle).toHaveBeenLastCalledWith(mockArticle, expect.objectContaining({
+      template: 'blog',
+      customTemplate: '## {{title}}'
+    }));
+
+    fireEvent.click(screen.getByText('Use Built-in Template'));
+    expect(screen.queryByLabelText('Template source')).not.toBeInTheDocument();
+  });
+
+  it('should show template errors instead of exporting', () => {
+    mockExportUtils.getTemplateSource.mockReturnValue('# {{title}}');
+    render(<ExportOptions article={mockArticle} />);
+
+    fireEvent.click(screen.getByText('Edit Template'));
+    mockExportUtils.exportArticle.mockImplementation(() => {
+      throw new Error('Unclosed {{#if}} (line 1)');
     });
+    fireEvent.change(screen.getByLabelText('Template source'), { target: { value: '{{#if x}}' } });
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Unclosed {{#if}} (line 1)');
+    expect(screen.getByText('Download').closest('button')).toBeDisabled();
   });
 
   it('should show export information', () => {
@@ -277,6 +383,40 @@ describe('ExportOptions', () => {
     });
   });
 
+  it('should download PDFs rendered by the export API', async () => {
+    const pdfBlob = new Blob(['%PDF-1.7'], { type: 'application/pdf' });
+    const mockFetch = jest.fn().mockResolvedValue({
+      ok: true,
+      headers: { get: () => 'attachment; filename="test-article-title.pdf"' },
+      blob: async () => pdfBlob
+    });
+    global.fetch = mockFetch as unknown as typeof fetch;
+
+    const onExportComplete = jest.fn();
+    render(<ExportOptions article={mockArticle} onExportComplete={onExportComplete} />);
+
+    fireEvent.click(screen.getByText('PDF'));
+
+    expect(screen.getByText('Copy to Clipboard')).toBeDisabled();
+    expect(screen.getByText('Preview')).toBeDisabled();
+
+    fireEvent.click(screen.getByText('Download'));
+
+    await waitFor(() => {
+      expect(mockExportUtils.downloadFile).toHaveBeenCalledWith(
+        pdfBlob,
+        'test-article-title.pdf',
+        'application/pdf'
+      );
+      expect(onExportComplete).toHaveBeenCalledWith('pdf');
+    });
+
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url).toBe('/api/export');
+    expect(JSON.parse(init.body).options).toEqual({ format: 'pdf', includeMetadata: true });
+    expect(mockExportUtils.exportArticle).not.toHaveBeenCalledWith(mockArticle, expect.objectContaining({ format: 'pdf' }));
+  });
+
   it('should apply custom className', () => {
     const { container } = render(
       <ExportOptions article={mockArticle} className="custom-class" />
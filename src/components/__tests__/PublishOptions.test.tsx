@@ -0,0 +1,112 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import PublishOptions from '../PublishOptions';
+import { Article, PublicationRecord } from '@/types';
+
+describe('PublishOptions', () => {
+  const mockArticle: Article = {
+    title: 'Test Article Title',
+    introduction: 'This is a test introduction.',
+    sections: [{ heading: 'First Section', content: 'Content of the first section.' }],
+    conclusion: 'This is the conclusion.',
+    metadata: {
+      wordCount: 500,
+      readingTime: 3,
+      seoTitle: 'Test Article SEO Title',
+      metaDescription: 'Test article meta description',
+      sourceVideo: {
+        id: 'test-video-id',
+        title: 'Test Video Title',
+        description: 'Test video description',
+        duration: 600,
+        thumbnailUrl: 'https://example.com/thumb.jpg',
+        channelName: 'Test Channel',
+        publishDate: new Date('2023-01-01'),
+        viewCount: 1000
+      }
+    },
+    tags: ['test']
+  };
+
+  const publication: PublicationRecord = {
+    destination: 'ghost',
+    remoteId: '65a1b2c3d4e5f60718293a4b',
+    url: 'https://blog.example.com/test-article-title/',
+    status: 'published',
+    firstPublishedAt: '2024-05-01T10:00:00.000Z',
+    lastPublishedAt: '2024-05-01T10:00:00.000Z'
+  };
+
+  const destinations = [
+    { destination: 'wordpress', label: 'WordPress', configured: false },
+    { destination: 'ghost', label: 'Ghost', configured: true },
+    { destination: 'devto', label: 'Dev.to', configured: true },
+    { destination: 'webhook', label: 'Webhook', configured: false }
+  ];
+
+  let mockFetch: jest.Mock;
+
+  beforeEach(() => {
+    mockFetch = jest.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ destinations })
+    });
+    global.fetch = mockFetch as unknown as typeof fetch;
+  });
+
+  it('should offer the configured destinations', async () => {
+    render(<PublishOptions article={mockArticle} onPublished={jest.fn()} />);
+
+    await waitFor(() => {
+      expect(screen.getByLabelText('Destination')).toHaveValue('ghost');
+    });
+    expect(screen.getByRole('option', { name: 'WordPress (not configured)' })).toBeDisabled();
+    expect(screen.getByRole('option', { name: 'Dev.to' })).toBeEnabled();
+    expect(mockFetch).toHaveBeenCalledWith('/api/publish');
+  });
+
+  it('should publish the article and pass on the recorded publication', async () => {
+    const published = { ...mockArticle, publications: [publication] };
+    const onPublished = jest.fn();
+    render(<PublishOptions article={mockArticle} onPublished={onPublished} />);
+    await waitFor(() => expect(screen.getByLabelText('Destination')).toHaveValue('ghost'));
+
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ success: true, article: published, publication })
+    });
+    fireEvent.change(screen.getByLabelText('Post Status'), { target: { value: 'published' } });
+    fireEvent.click(screen.getByText('Publish'));
+
+    await waitFor(() => {
+      expect(onPublished).toHaveBeenCalledWith(published);
+    });
+    const [url, init] = mockFetch.mock.calls[1];
+    expect(url).toBe('/api/publish');
+    expect(JSON.parse(init.body)).toMatchObject({ destination: 'ghost', status: 'published', article: { title: 'Test Article Title' } });
+  });
+
+  it('should show earlier publications and offer to update them', async () => {
+    render(<PublishOptions article={{ ...mockArticle, publications: [publication] }} onPublished={jest.fn()} />);
+
+    expect(await screen.findByText('Update on Ghost')).toBeInTheDocument();
+    expect(screen.getByText('View post')).toHaveAttribute('href', publication.url);
+    expect(screen.getByText('Published To')).toBeInTheDocument();
+  });
+
+  it('should show publishing errors', async () => {
+    const onPublished = jest.fn();
+    render(<PublishOptions article={mockArticle} onPublished={onPublished} />);
+    await waitFor(() => expect(screen.getByLabelText('Destination')).toHaveValue('ghost'));
+
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      json: async () => ({ success: false, error: 'Ghost API error: 401 - Invalid token' })
+    });
+    fireEvent.click(screen.getByText('Publish'));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Ghost API error: 401 - Invalid token');
+    expect(onPublished).not.toHaveBeenCalled();
+  });
+});
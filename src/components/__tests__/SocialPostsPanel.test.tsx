@@ -0,0 +1,76 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { SocialPostsPanel } from '../SocialPostsPanel';
+import * as exportUtils from '@/lib/export-utils';
+import { SocialDerivativesResult } from '@/lib/social-derivatives';
+
+jest.mock('@/lib/export-utils', () => ({
+  ...jest.requireActual('@/lib/export-utils'),
+  copyToClipboard: jest.fn()
+}));
+
+const mockExportUtils = exportUtils as jest.Mocked<typeof exportUtils>;
+
+describe('SocialPostsPanel', () => {
+  const result: SocialDerivativesResult = {
+    derivatives: {
+      thread: ['Compilers are not magic. 1/2', 'Watch the video: https://www.youtube.com/watch?v=abc123 2/2'],
+      linkedInPost: 'What I learned building a compiler.',
+      newsletterSummary: 'A short tour of compilers.',
+      showNotes: 'Chapters:\n0:00 Lexing\n1:35 Parsing\n3:25 Code generation'
+    },
+    generationMethod: 'ai'
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockExportUtils.copyToClipboard.mockResolvedValue(true);
+  });
+
+  it('should show the generated posts with their character counts', async () => {
+    const onGenerate = jest.fn().mockResolvedValue(result);
+    render(<SocialPostsPanel onGenerate={onGenerate} />);
+
+    fireEvent.click(screen.getByText('Generate Social Posts'));
+
+    expect(await screen.findByText('X Thread (2 posts)')).toBeInTheDocument();
+    expect(screen.getByText('Compilers are not magic. 1/2')).toBeInTheDocument();
+    expect(screen.getByText('28/280')).toBeInTheDocument();
+    expect(screen.getByText('44/280')).toBeInTheDocument();
+    expect(screen.getByText('What I learned building a compiler.')).toBeInTheDocument();
+    expect(screen.getByText('A short tour of compilers.')).toBeInTheDocument();
+    expect(screen.getByText(/0:00 Lexing/)).toBeInTheDocument();
+    expect(screen.getByText('Regenerate')).toBeInTheDocument();
+    expect(screen.queryByText(/built from templates/)).not.toBeInTheDocument();
+  });
+
+  it('should copy single posts and the whole thread', async () => {
+    render(<SocialPostsPanel onGenerate={jest.fn().mockResolvedValue(result)} />);
+    fireEvent.click(screen.getByText('Generate Social Posts'));
+    await screen.findByText('X Thread (2 posts)');
+
+    fireEvent.click(screen.getByLabelText('Copy post 2'));
+    fireEvent.click(screen.getByLabelText('Copy X Thread'));
+
+    await waitFor(() => {
+      expect(mockExportUtils.copyToClipboard).toHaveBeenCalledWith(result.derivatives.thread[1]);
+      expect(mockExportUtils.copyToClipboard).toHaveBeenCalledWith(result.derivatives.thread.join('\n\n'));
+    });
+    expect(await screen.findAllByText('Copied!')).not.toHaveLength(0);
+  });
+
+  it('should note template-based posts', async () => {
+    render(<SocialPostsPanel onGenerate={jest.fn().mockResolvedValue({ ...result, generationMethod: 'template' })} />);
+    fireEvent.click(screen.getByText('Generate Social Posts'));
+
+    expect(await screen.findByText(/built from templates/)).toBeInTheDocument();
+  });
+
+  it('should show generation errors', async () => {
+    render(<SocialPostsPanel onGenerate={jest.fn().mockRejectedValue(new Error('Failed to generate social posts'))} />);
+    fireEvent.click(screen.getByText('Generate Social Posts'));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Failed to generate social posts');
+  });
+});
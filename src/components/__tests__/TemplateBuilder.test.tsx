@@ -0,0 +1,100 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { TemplateBuilder } from '../TemplateBuilder';
+import { ArticleTemplate } from '@/types';
+import { exportTemplates } from '@/lib/article-templates';
+
+describe('TemplateBuilder', () => {
+  const template: ArticleTemplate = {
+    name: 'Release Notes',
+    type: 'general',
+    defaultTone: 'casual',
+    estimatedLength: 'short',
+    structure: [{ heading: 'What Changed', contentType: 'key_points', keywordFocus: ['release'] }]
+  };
+
+  const jsonFile = (content: string): File => {
+    const file = new File([content], 'templates.json', { type: 'application/json' });
+    Object.defineProperty(file, 'text', { value: () => Promise.resolve(content) });
+    return file;
+  };
+
+  it('should create a template from the form', () => {
+    const onChange = jest.fn();
+    render(<TemplateBuilder templates={[]} onChange={onChange} />);
+
+    fireEvent.click(screen.getByText('New Template'));
+    fireEvent.change(screen.getByLabelText('Name'), { target: { value: 'Deep Dive' } });
+    fireEvent.change(screen.getByLabelText('Section 2 heading'), { target: { value: 'Hooks' } });
+    fireEvent.change(screen.getByLabelText('Section 2 keywords'), { target: { value: 'useState, useEffect' } });
+    fireEvent.change(screen.getByLabelText('Section 2 max words'), { target: { value: '300' } });
+    fireEvent.click(screen.getByText('Save Template'));
+
+    expect(onChange).toHaveBeenCalledWith([{
+      name: 'Deep Dive',
+      type: 'general',
+      defaultTone: 'professional',
+      estimatedLength: 'medium',
+      structure: [
+        { heading: 'Introduction', contentType: 'introduction', includeTimestamps: false },
+        { heading: 'Hooks', contentType: 'main_content', maxLength: 300, keywordFocus: ['useState', 'useEffect'], includeTimestamps: false },
+        { heading: 'Conclusion', contentType: 'conclusion', includeTimestamps: false }
+      ]
+    }]);
+    expect(screen.queryByText('Save Template')).not.toBeInTheDocument();
+  });
+
+  it('should show validation problems instead of saving', () => {
+    const onChange = jest.fn();
+    render(<TemplateBuilder templates={[template]} onChange={onChange} />);
+
+    fireEvent.click(screen.getByText('New Template'));
+    fireEvent.change(screen.getByLabelText('Name'), { target: { value: 'Tutorial Guide' } });
+    fireEvent.change(screen.getByLabelText('Section 2 heading'), { target: { value: '' } });
+    fireEvent.click(screen.getByText('Save Template'));
+
+    expect(onChange).not.toHaveBeenCalled();
+    expect(screen.getByRole('alert')).toHaveTextContent('name is already used by another template');
+    expect(screen.getByRole('alert')).toHaveTextContent('structure[1].heading must be a non-empty string');
+  });
+
+  it('should edit and delete existing templates', () => {
+    const onChange = jest.fn();
+    render(<TemplateBuilder templates={[template]} onChange={onChange} />);
+
+    fireEvent.click(screen.getByText('Edit'));
+    fireEvent.change(screen.getByLabelText('Section 1 heading'), { target: { value: 'Changes' } });
+    fireEvent.click(screen.getByText('Save Template'));
+    fireEvent.click(screen.getByText('Delete'));
+
+    expect(onChange).toHaveBeenNthCalledWith(1, [{
+      ...template,
+      structure: [{ ...template.structure[0], heading: 'Changes', includeTimestamps: false }]
+    }]);
+    expect(onChange).toHaveBeenNthCalledWith(2, []);
+  });
+
+  it('should import templates from a JSON file', async () => {
+    const onChange = jest.fn();
+    render(<TemplateBuilder templates={[]} onChange={onChange} />);
+
+    fireEvent.change(screen.getByLabelText('Import templates'), {
+      target: { files: [jsonFile(exportTemplates([template]))] }
+    });
+
+    await waitFor(() => expect(onChange).toHaveBeenCalledWith([template]));
+  });
+
+  it('should report templates that fail to import', async () => {
+    const onChange = jest.fn();
+    render(<TemplateBuilder templates={[template]} onChange={onChange} />);
+
+    fireEvent.change(screen.getByLabelText('Import templates'), {
+      target: { files: [jsonFile(JSON.stringify([template]))] }
+    });
+
+    expect(await screen.findByText(/\[0\]\.name is already used by another template/)).toBeInTheDocument();
+    expect(onChange).not.toHaveBeenCalled();
+  });
+});
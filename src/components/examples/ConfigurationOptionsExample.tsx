@@ -167,7 +167,7 @@ const ConfigurationOptionsExample: React.FC = () => {
             <h3 className="font-medium mb-2">💾 Persistence & UX</h3>
             <ul className="text-sm text-gray-600 space-y-1">
               <li>• localStorage persistence</li>
-              <li>• Auto-save preferences</li>
+              <li>• Auto-save generated articles to history</li>
               <li>• Reset to defaults</li>
               <li>• Real-time configuration updates</li>
               <li>• Compact and full view modes</li>
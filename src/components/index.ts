@@ -1,15 +1,20 @@
 // Processing Status Components
 export { ProcessingStatus } from './ProcessingStatus';
 export { ProcessingStatusCompact } from './ProcessingStatusCompact';
+export { BatchProcessingStatus } from './BatchProcessingStatus';
 
 // Article Components
 export { default as ArticlePreview } from './ArticlePreview';
 export { default as ExportOptions } from './ExportOptions';
+export { ArticleHistory } from './ArticleHistory';
+export { ArticleDiffView } from './ArticleDiffView';
+export { ArticleRevisionHistory } from './ArticleRevisionHistory';
 
 // Configuration Components
 export { default as ConfigurationOptions } from './ConfigurationOptions';
 export { default as ConfigurationOptionsCompact } from './ConfigurationOptionsCompact';
 export { default as TemplatePreview } from './TemplatePreview';
+export { TemplateBuilder } from './TemplateBuilder';
 
 // UI Components
 export { Button } from './ui/button';
@@ -22,6 +27,7 @@ export { ErrorDisplay, ErrorDisplayCompact } from './ErrorDisplay';
 // Hooks
 export { useProcessingStatus } from '../hooks/useProcessingStatus';
 export { useUserPreferences } from '../hooks/useUserPreferences';
+export { useArticleHistory } from '../hooks/useArticleHistory';
 
 // Examples
 export { ProcessingStatusExample } from './examples/ProcessingStatusExample';
@@ -197,7 +197,7 @@ describe('useProcessingPipeline', () => {
         }
       };
 
-      mockFetch.mockResolvedValueOnce(mockStreamResponse as any);
+      mockFetch.mockResolvedValueOnce(mockStreamResponse as unknown as Response);
 
       const { result } = renderHook(() => useProcessingPipeline());
 
@@ -209,6 +209,58 @@ describe('useProcessingPipeline', () => {
       expect(result.current.state.status?.stage).toBe('complete');
     });
 
+    it('should build the partial article from article-delta events', async () => {
+      let finishStream: (chunk: { done: boolean; value?: Uint8Array }) => void = () => undefined;
+      const encode = (events: object[]) => new TextEncoder().encode(
+        events.map(event => `data: ${JSON.stringify(event)}\n\n`).join('')
+      );
+      const deltaEvents = encode([
+        { type: 'article-delta', delta: { field: 'title', text: 'Stream' } },
+        { type: 'article-delta', delta: { field: 'title', text: 'ing Articles' } },
+        { type: 'article-delta', delta: { field: 'heading', sectionIndex: 0, text: 'Tokens' } }
+      ]);
+      const mockStreamResponse = {
+        ok: true,
+        body: {
+          getReader: () => ({
+            read: jest.fn()
+              // The second event is split across two chunks
+              .mockResolvedValueOnce({ done: false, value: deltaEvents.slice(0, 100) })
+              .mockResolvedValueOnce({ done: false, value: deltaEvents.slice(100) })
+              .mockImplementationOnce(() => new Promise(resolve => { finishStream = resolve; }))
+              .mockResolvedValueOnce({ done: true, value: undefined })
+          })
+        }
+      };
+
+      mockFetch.mockResolvedValueOnce(mockStreamResponse as unknown as Response);
+
+      const { result } = renderHook(() => useProcessingPipeline());
+
+      let processing: Promise<unknown> = Promise.resolve();
+      await act(async () => {
+        processing = result.current.processVideoWithProgress('https://youtube.com/watch?v=test');
+      });
+
+      expect(result.current.state.partialArticle).toEqual(expect.objectContaining({
+        title: 'Streaming Articles',
+        sections: [{ heading: 'Tokens', content: '' }]
+      }));
+
+      let finalResult: unknown;
+      await act(async () => {
+        finishStream({
+          done: false,
+          value: encode([{ type: 'result', result: { success: true, article: { title: 'Streaming Articles' }, processingTime: 10 } }])
+        });
+        finalResult = await processing;
+      });
+
+      expect(finalResult).toEqual(expect.objectContaining({ article: { title: 'Streaming Articles' } }));
+      expect(result.current.state.partialArticle).toBeNull();
+      expect(result.current.state.status?.stage).toBe('complete');
+    });
+
     it('should handle streaming errors', async () => {
       const mockStreamResponse = {
         ok: true,
@@ -292,7 +344,7 @@ describe('useProcessingPipeline', () => {
       });
 
       expect(result.current.state.isProcessing).toBe(false);
-      expect(result.current.state.status?.stage).toBe('error');
+      expect(result.current.state.status?.stage).toBe('cancelled');
       expect(result.current.state.status?.message).toBe('Processing cancelled');
     });
 
@@ -336,7 +388,7 @@ describe('useProcessingPipeline', () => {
       });
 
       expect(result.current.state.isProcessing).toBe(false);
-      expect(result.current.state.status?.stage).toBe('error');
+      expect(result.current.state.status?.stage).toBe('cancelled');
       expect(result.current.state.status?.message).toBe('Processing cancelled');
       expect(result.current.state.error).toBeNull(); // AbortError doesn't set error message
     });
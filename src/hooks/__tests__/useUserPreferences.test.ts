@@ -32,6 +32,8 @@ describe('useUserPreferences', () => {
       autoSave: true,
       exportFormat: 'markdown',
       includeMetadata: true,
+      customTemplates: [],
+      siteProfiles: {},
     });
     expect(result.current.isLoading).toBe(false);
   });
@@ -52,7 +54,41 @@ describe('useUserPreferences', () => {
 
     const { result } = renderHook(() => useUserPreferences());
 
-    expect(result.current.preferences).toEqual(storedPreferences);
+    expect(result.current.preferences).toEqual({ ...storedPreferences, customTemplates: [], siteProfiles: {} });
+  });
+
+  it('should keep valid stored custom templates and drop invalid ones', () => {
+    const template = {
+      name: 'Release Notes',
+      type: 'general',
+      defaultTone: 'casual',
+      estimatedLength: 'short',
+      structure: [{ heading: 'What Changed', contentType: 'key_points', keywordFocus: ['release'] }]
+    };
+
+    localStorageMock.getItem.mockReturnValue(JSON.stringify({
+      customTemplates: [template, { ...template, name: 'Tutorial Guide' }, { name: 'Broken' }]
+    }));
+
+    const { result } = renderHook(() => useUserPreferences());
+
+    expect(result.current.preferences.customTemplates).toEqual([template]);
+  });
+
+  it('should keep valid stored site profiles and drop invalid ones', () => {
+    localStorageMock.getItem.mockReturnValue(JSON.stringify({
+      siteProfiles: {
+        hugo: { frontMatterFormat: 'yaml', fields: { thumbnail: 'cover' } },
+        jekyll: { fields: { author: 'author' } },
+        ghost: {}
+      }
+    }));
+
+    const { result } = renderHook(() => useUserPreferences());
+
+    expect(result.current.preferences.siteProfiles).toEqual({
+      hugo: { frontMatterFormat: 'yaml', fields: { thumbnail: 'cover' } }
+    });
   });
 
   it('should merge stored preferences with defaults for missing keys', () => {
@@ -74,6 +110,8 @@ describe('useUserPreferences', () => {
       autoSave: true,
       exportFormat: 'markdown',
       includeMetadata: true,
+      customTemplates: [],
+      siteProfiles: {},
     });
   });
 
@@ -95,6 +133,8 @@ describe('useUserPreferences', () => {
       autoSave: true,
       exportFormat: 'markdown',
       includeMetadata: true,
+      customTemplates: [],
+      siteProfiles: {},
     });
     expect(consoleSpy).toHaveBeenCalledWith('Failed to load user preferences:', expect.any(Error));
 
@@ -170,6 +210,8 @@ describe('useUserPreferences', () => {
       autoSave: true,
       exportFormat: 'markdown',
       includeMetadata: true,
+      customTemplates: [],
+      siteProfiles: {},
     });
   });
 
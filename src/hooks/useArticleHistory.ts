@@ -0,0 +1,111 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Article, ContentAnalysis, GenerationOptions, VideoMetadata } from '@/types';
+import {
+  ArticleHistoryEntry,
+  ArticleHistoryStore,
+  createHistoryEntry,
+  createHistoryStore,
+  searchHistory
+} from '@/lib/article-history';
+
+export interface UseArticleHistoryReturn {
+  entries: ArticleHistoryEntry[];
+  filteredEntries: ArticleHistoryEntry[];
+  query: string;
+  setQuery: (query: string) => void;
+  isLoading: boolean;
+  error: string | null;
+  saveArticle: (
+    article: Article,
+    videoMetadata: VideoMetadata,
+    analysis?: ContentAnalysis,
+    options?: GenerationOptions
+  ) => Promise<ArticleHistoryEntry | null>;
+  updateArticle: (id: string, article: Article) => Promise<ArticleHistoryEntry | null>;
+  removeEntry: (id: string) => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Hook for browsing and saving generated articles in the article history
+ */
+export function useArticleHistory(store?: ArticleHistoryStore): UseArticleHistoryReturn {
+  const [historyStore] = useState<ArticleHistoryStore>(() => store || createHistoryStore());
+  const [entries, setEntries] = useState<ArticleHistoryEntry[]>([]);
+  const [query, setQuery] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setEntries(await historyStore.list());
+      setError(null);
+    } catch (err) {
+      console.warn('Failed to load article history:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load article history');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [historyStore]);
+
+  // Load history on mount
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Put the saved entry first, replacing an older copy of it
+  const storeEntry = useCallback(async (entry: ArticleHistoryEntry) => {
+    try {
+      await historyStore.save(entry);
+      setEntries(prev => [entry, ...prev.filter(existing => existing.id !== entry.id)]);
+      setError(null);
+      return entry;
+    } catch (err) {
+      console.error('Failed to save article to history:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save article');
+      return null;
+    }
+  }, [historyStore]);
+
+  const saveArticle = useCallback((
+    article: Article,
+    videoMetadata: VideoMetadata,
+    analysis?: ContentAnalysis,
+    options?: GenerationOptions
+  ) => {
+    return storeEntry(createHistoryEntry(article, videoMetadata, analysis, options));
+  }, [storeEntry]);
+
+  const updateArticle = useCallback(async (id: string, article: Article) => {
+    const existing = entries.find(entry => entry.id === id) || await historyStore.get(id);
+    if (!existing) {
+      return null;
+    }
+    return storeEntry({ ...existing, article, updatedAt: new Date().toISOString() });
+  }, [entries, historyStore, storeEntry]);
+
+  const removeEntry = useCallback(async (id: string) => {
+    try {
+      await historyStore.delete(id);
+      setEntries(prev => prev.filter(entry => entry.id !== id));
+    } catch (err) {
+      console.error('Failed to delete article from history:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete article');
+    }
+  }, [historyStore]);
+
+  const filteredEntries = useMemo(() => searchHistory(entries, query), [entries, query]);
+
+  return {
+    entries,
+    filteredEntries,
+    query,
+    setQuery,
+    isLoading,
+    error,
+    saveArticle,
+    updateArticle,
+    removeEntry,
+    refresh
+  };
+}
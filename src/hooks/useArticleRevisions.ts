@@ -0,0 +1,82 @@
+import { useState, useCallback } from 'react';
+import { Article } from '@/types';
+import {
+  AI_AUTHOR,
+  RevisionHistory,
+  RevisionKind,
+  canRedo,
+  canUndo,
+  createRevisionHistory,
+  getCurrentRevision,
+  recordRevision,
+  redoRevision,
+  restoreRevision,
+  setPublications,
+  undoRevision
+} from '@/lib/article-revisions';
+
+export interface UseArticleRevisionsReturn {
+  history: RevisionHistory;
+  commit: (article: Article, kind?: RevisionKind, revisionAuthor?: string) => void;
+  // Takes the publication records of a published article without adding a revision
+  recordPublications: (published: Article) => void;
+  undo: () => void;
+  redo: () => void;
+  restore: (id: string) => void;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+/**
+ * Hook that records every change to a controlled article as a revision.
+ * Articles passed in from outside (e.g. a regenerated draft) are recorded as AI revisions.
+ */
+export function useArticleRevisions(
+  article: Article,
+  onArticleChange: (article: Article) => void,
+  author: string
+): UseArticleRevisionsReturn {
+  const [history, setHistory] = useState<RevisionHistory>(() => createRevisionHistory(article));
+  const [syncedArticle, setSyncedArticle] = useState(article);
+
+  // Adjust during render rather than in an effect so the new revision shows up immediately
+  if (article !== syncedArticle) {
+    setSyncedArticle(article);
+    if (article !== getCurrentRevision(history).article) {
+      setHistory(recordRevision(history, article, AI_AUTHOR, 'regeneration'));
+    }
+  }
+
+  const commit = useCallback((next: Article, kind: RevisionKind = 'edit', revisionAuthor: string = author) => {
+    setHistory(recordRevision(history, next, revisionAuthor, kind));
+    onArticleChange(next);
+  }, [history, author, onArticleChange]);
+
+  const recordPublications = useCallback((published: Article) => {
+    const next = setPublications(history, published.publications || []);
+    setHistory(next);
+    onArticleChange(getCurrentRevision(next).article);
+  }, [history, onArticleChange]);
+
+  // Undo, redo and restore move the history, then hand the resulting article to the parent
+  const apply = useCallback((next: RevisionHistory) => {
+    if (next === history) return;
+    setHistory(next);
+    onArticleChange(getCurrentRevision(next).article);
+  }, [history, onArticleChange]);
+
+  const undo = useCallback(() => apply(undoRevision(history)), [apply, history]);
+  const redo = useCallback(() => apply(redoRevision(history)), [apply, history]);
+  const restore = useCallback((id: string) => apply(restoreRevision(history, id, author)), [apply, history, author]);
+
+  return {
+    history,
+    commit,
+    recordPublications,
+    undo,
+    redo,
+    restore,
+    canUndo: canUndo(history),
+    canRedo: canRedo(history)
+  };
+}
@@ -0,0 +1,127 @@
+import { useState, useCallback, useRef } from 'react';
+import { GenerationOptions } from '@/types';
+import { ProcessingError, normalizeError } from '@/lib/error-handling';
+import type { BatchStatus } from '@/lib/batch-processor';
+
+export interface BatchProcessingState {
+  isProcessing: boolean;
+  status: BatchStatus | null;
+  error: ProcessingError | null;
+}
+
+export interface BatchRequestOptions {
+  maxVideos?: number;
+  concurrency?: number;
+}
+
+export interface UseBatchProcessingReturn {
+  state: BatchProcessingState;
+  // Resolves with the final batch status, or null if the batch failed or was cancelled
+  processBatch: (url: string, options?: GenerationOptions, batchOptions?: BatchRequestOptions) => Promise<BatchStatus | null>;
+  cancel: () => void;
+  reset: () => void;
+}
+
+/**
+ * Hook for processing a playlist or channel through the streaming batch API
+ */
+export function useBatchProcessing(): UseBatchProcessingReturn {
+  const [state, setState] = useState<BatchProcessingState>({
+    isProcessing: false,
+    status: null,
+    error: null
+  });
+
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const processBatch = useCallback(async (
+    url: string,
+    options?: GenerationOptions,
+    batchOptions: BatchRequestOptions = {}
+  ): Promise<BatchStatus | null> => {
+    setState({ isProcessing: true, status: null, error: null });
+    let finalStatus: BatchStatus | null = null;
+
+    try {
+      abortControllerRef.current = new AbortController();
+
+      const response = await fetch('/api/batch', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ url, options, ...batchOptions }),
+        signal: abortControllerRef.current.signal
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to start batch processing');
+      }
+
+      const reader = response.body?.getReader();
+      if (!reader) {
+        throw new Error('Failed to create stream reader');
+      }
+
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        // Batch status events can be large, so they may span several chunks
+        buffer += decoder.decode(value, { stream: true });
+        const events = buffer.split('\n\n');
+        buffer = events.pop() || '';
+
+        for (const event of events) {
+          if (!event.startsWith('data: ')) continue;
+
+          const data = JSON.parse(event.slice(6));
+          if (data.type === 'progress') {
+            setState(prev => ({ ...prev, status: data.status }));
+          } else if (data.type === 'result') {
+            finalStatus = data.status;
+            setState({ isProcessing: false, status: data.status, error: null });
+          } else if (data.type === 'error') {
+            throw new Error(data.error);
+          }
+        }
+      }
+
+      setState(prev => ({ ...prev, isProcessing: false }));
+      return finalStatus;
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        setState(prev => ({ ...prev, isProcessing: false }));
+        return null;
+      }
+
+      setState(prev => ({ ...prev, isProcessing: false, error: normalizeError(error) }));
+      return null;
+    } finally {
+      abortControllerRef.current = null;
+    }
+  }, []);
+
+  /**
+   * Stop the batch; closing the stream cancels the videos still running on the server
+   */
+  const cancel = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  const reset = useCallback(() => {
+    abortControllerRef.current?.abort();
+    setState({ isProcessing: false, status: null, error: null });
+  }, []);
+
+  return {
+    state,
+    processBatch,
+    cancel,
+    reset
+  };
+}
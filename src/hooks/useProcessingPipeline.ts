@@ -8,6 +8,7 @@ import {
   Article
 } from '@/types';
 import { ProcessingError, normalizeError } from '@/lib/error-handling';
+import { PartialArticle, applyArticleDelta, createPartialArticle } from '@/lib/article-stream';
 import { useRetryMechanism } from './useRetryMechanism';
 
 export interface ProcessingPipelineState {
@@ -15,6 +16,8 @@ export interface ProcessingPipelineState {
   status: ProcessingStatus | null;
   result: ProcessingPipelineResult | null;
   error: ProcessingError | null;
+  // Article text received so far while the streaming endpoint generates it
+  partialArticle?: PartialArticle | null;
 }
 
 export interface ProcessingPipelineResult {
@@ -28,7 +31,8 @@ export interface ProcessingPipelineResult {
 export interface UseProcessingPipelineReturn {
   state: ProcessingPipelineState;
   processVideo: (url: string, options?: GenerationOptions) => Promise<void>;
-  processVideoWithProgress: (url: string, options?: GenerationOptions) => Promise<void>;
+  // Resolves with the result, or null when processing failed or was cancelled
+  processVideoWithProgress: (url: string, options?: GenerationOptions) => Promise<ProcessingPipelineResult | null>;
   retry: () => Promise<void>;
   reset: () => void;
   cancel: () => void;
@@ -113,7 +117,7 @@ export function useProcessingPipeline(): UseProcessingPipelineReturn {
         setState(prev => ({
           ...prev,
           isProcessing: false,
-          status: { stage: 'error', progress: 0, message: 'Processing cancelled' }
+          status: { stage: 'cancelled', progress: 0, message: 'Processing cancelled' }
         }));
       } else {
         const processingError = normalizeError(error);
@@ -130,13 +134,14 @@ export function useProcessingPipeline(): UseProcessingPipelineReturn {
   /**
    * Process video using the streaming API endpoint (with real-time progress updates)
    */
-  const processVideoWithProgress = useCallback(async (url: string, options?: GenerationOptions) => {
+  const processVideoWithProgress = useCallback(async (url: string, options?: GenerationOptions): Promise<ProcessingPipelineResult | null> => {
     // Reset state
     setState({
       isProcessing: true,
       status: { stage: 'validation', progress: 0, message: 'Starting processing...' },
       result: null,
-      error: null
+      error: null,
+      partialArticle: null
     });
 
     try {
@@ -144,13 +149,17 @@ export function useProcessingPipeline(): UseProcessingPipelineReturn {
       const eventSource = new EventSource('/api/process/stream');
       eventSourceRef.current = eventSource;
 
+      // Aborting closes the stream, which cancels the pipeline on the server
+      abortControllerRef.current = new AbortController();
+
       // Send the processing request
       const response = await fetch('/api/process/stream', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ url, options })
+        body: JSON.stringify({ url, options }),
+        signal: abortControllerRef.current.signal
       });
 
       if (!response.ok) {
@@ -165,64 +174,101 @@ export function useProcessingPipeline(): UseProcessingPipelineReturn {
         throw new Error('Failed to create stream reader');
       }
 
+      // Events can be split across chunks, so keep the incomplete last line
+      let buffer = '';
+
       // Read the stream
       while (true) {
         const { done, value } = await reader.read();
         
         if (done) break;
 
-        const chunk = decoder.decode(value);
-        const lines = chunk.split('\n');
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
 
         for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            try {
-              const data = JSON.parse(line.slice(6));
-              
-              if (data.type === 'progress') {
-                setState(prev => ({
-                  ...prev,
-                  status: data.status
-                }));
-              } else if (data.type === 'result') {
-                const result = data.result;
-                
-                if (result.success) {
-                  setState({
-                    isProcessing: false,
-                    status: { stage: 'complete', progress: 100, message: 'Processing completed successfully!' },
-                    result: {
-                      videoMetadata: result.videoMetadata,
-                      transcript: result.transcript,
-                      analysis: result.analysis,
-                      article: result.article,
-                      processingTime: result.processingTime
-                    },
-                    error: null
-                  });
-                } else {
-                  throw new Error(result.error || 'Processing failed');
-                }
-                break;
-              } else if (data.type === 'error') {
-                throw new Error(data.error);
-              }
-            } catch (parseError) {
-              console.warn('Failed to parse SSE data:', parseError);
+          if (!line.startsWith('data: ')) continue;
+
+          let data;
+          try {
+            data = JSON.parse(line.slice(6));
+          } catch (parseError) {
+            console.warn('Failed to parse SSE data:', parseError);
+            continue;
+          }
+
+          if (data.type === 'progress') {
+            setState(prev => ({
+              ...prev,
+              status: data.status
+            }));
+          } else if (data.type === 'article-delta') {
+            setState(prev => ({
+              ...prev,
+              partialArticle: applyArticleDelta(prev.partialArticle ?? createPartialArticle(), data.delta)
+            }));
+          } else if (data.type === 'result') {
+            const result = data.result;
+            
+            if (result.success) {
+              const pipelineResult: ProcessingPipelineResult = {
+                videoMetadata: result.videoMetadata,
+                transcript: result.transcript,
+                analysis: result.analysis,
+                article: result.article,
+                processingTime: result.processingTime
+              };
+              setState({
+                isProcessing: false,
+                status: { stage: 'complete', progress: 100, message: 'Processing completed successfully!' },
+                result: pipelineResult,
+                error: null,
+                partialArticle: null
+              });
+              return pipelineResult;
+            } else if (result.cancelled) {
+              setState(prev => ({
+                ...prev,
+                isProcessing: false,
+                status: { stage: 'cancelled', progress: 0, message: 'Processing cancelled' },
+                partialArticle: null
+              }));
+              return null;
+            } else {
+              throw new Error(result.error || 'Processing failed');
             }
+          } else if (data.type === 'error') {
+            throw new Error(data.error);
           }
         }
       }
 
+      throw new Error('Processing stream ended without a result');
+
     } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        setState(prev => ({
+          ...prev,
+          isProcessing: false,
+          status: { stage: 'cancelled', progress: 0, message: 'Processing cancelled' },
+          partialArticle: null
+        }));
+        return null;
+      }
+
       const processingError = normalizeError(error);
       setState({
         isProcessing: false,
         status: { stage: 'error', progress: 0, message: processingError.details.userMessage },
         result: null,
-        error: processingError
+        error: processingError,
+        partialArticle: null
       });
+      return null;
     } finally {
+      abortControllerRef.current = null;
+
       // Clean up event source
       if (eventSourceRef.current) {
         eventSourceRef.current.close();
@@ -252,7 +298,8 @@ export function useProcessingPipeline(): UseProcessingPipelineReturn {
       isProcessing: false,
       status: null,
       result: null,
-      error: null
+      error: null,
+      partialArticle: null
     });
     lastRequestRef.current = null;
   }, []);
@@ -276,7 +323,8 @@ export function useProcessingPipeline(): UseProcessingPipelineReturn {
     setState(prev => ({
       ...prev,
       isProcessing: false,
-      status: { stage: 'error', progress: 0, message: 'Processing cancelled' }
+      status: { stage: 'cancelled', progress: 0, message: 'Processing cancelled' },
+      partialArticle: null
     }));
   }, []);
 
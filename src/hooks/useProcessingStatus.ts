@@ -2,7 +2,7 @@
 
 import { useState, useCallback, useRef } from 'react';
 import { ProcessingStatus } from '@/types';
-import { ProcessingError, normalizeError } from '@/lib/error-handling';
+import { ProcessingError, isAbortError, normalizeError } from '@/lib/error-handling';
 
 interface ProcessingResult {
   metadata?: any;
@@ -208,6 +208,11 @@ export function useProcessingStatus(options: UseProcessingStatusOptions = {}) {
       onComplete?.(processingResult);
 
     } catch (error) {
+      // cancelProcessing has already reported the cancellation
+      if (isAbortError(error)) {
+        return;
+      }
+
       const processingError = normalizeError(error);
       
       updateStatus({
@@ -230,7 +235,7 @@ export function useProcessingStatus(options: UseProcessingStatusOptions = {}) {
     }
     setIsProcessing(false);
     updateStatus({
-      stage: 'error',
+      stage: 'cancelled',
       progress: 0,
       message: 'Processing cancelled by user'
     });
@@ -1,5 +1,8 @@
 import { useState, useEffect, useCallback } from 'react';
 import { UserPreferences, ConfigurationOptions } from '@/types';
+import { ArticleGenerator } from '@/lib/article-generator';
+import { sanitizeTemplates } from '@/lib/article-templates';
+import { sanitizeSiteProfiles } from '@/lib/static-site-export';
 
 const DEFAULT_PREFERENCES: UserPreferences = {
   articleLength: 'medium',
@@ -10,6 +13,8 @@ const DEFAULT_PREFERENCES: UserPreferences = {
   autoSave: true,
   exportFormat: 'markdown',
   includeMetadata: true,
+  customTemplates: [],
+  siteProfiles: {},
 };
 
 const STORAGE_KEY = 'vid2blog-user-preferences';
@@ -28,7 +33,16 @@ export function useUserPreferences() {
       if (stored) {
         const parsedPreferences = JSON.parse(stored) as UserPreferences;
         // Merge with defaults to handle new preference keys
-        setPreferences({ ...DEFAULT_PREFERENCES, ...parsedPreferences });
+        setPreferences({
+          ...DEFAULT_PREFERENCES,
+          ...parsedPreferences,
+          // Drop stored templates that are no longer valid
+          customTemplates: sanitizeTemplates(
+            parsedPreferences.customTemplates,
+            ArticleGenerator.getAvailableTemplates().map(template => template.name)
+          ),
+          siteProfiles: sanitizeSiteProfiles(parsedPreferences.siteProfiles)
+        });
       }
     } catch (error) {
       console.warn('Failed to load user preferences:', error);
@@ -0,0 +1,272 @@
+import { AIArticleGenerator } from '../ai-article-generator';
+import { LLMProviderRegistry, EchoProvider, LLMCompletionRequest } from '../llm-providers';
+import { ContentAnalysis, VideoMetadata, Transcript } from '@/types';
+
+describe('AIArticleGenerator', () => {
+  const mockVideoMetadata: VideoMetadata = {
+    id: 'test-video-id',
+    title: 'Building Web Apps',
+    description: 'A video about web apps',
+    duration: 600,
+    thumbnailUrl: 'https://example.com/thumb.jpg',
+    channelName: 'Dev Channel',
+    publishDate: new Date('2024-01-01'),
+    viewCount: 1000
+  };
+
+  const mockTranscript: Transcript = {
+    segments: [
+      { text: 'Today we build a web application with React.', startTime: 0, endTime: 5, confidence: 1 },
+      { text: 'We start by setting up the project structure.', startTime: 5, endTime: 10, confidence: 1 }
+    ],
+    language: 'en',
+    confidence: 1,
+    duration: 10
+  };
+
+  const mockAnalysis: ContentAnalysis = {
+    topics: [{ name: 'React', relevance: 0.8, timeRanges: [{ start: 0, end: 10 }] }],
+    keyPoints: [{ text: 'Set up the project structure first', importance: 0.9, timestamp: 5, category: 'Process' }],
+    summary: 'Building a web application with React.',
+    suggestedStructure: [],
+    sentiment: 'positive'
+  };
+
+  const articleJson = JSON.stringify({
+    title: 'Fixture Title',
+    introduction: 'Fixture introduction',
+    sections: [{ heading: 'Fixture Section', content: 'Fixture content' }],
+    conclusion: 'Fixture conclusion',
+    tags: ['fixture']
+  });
+
+  let consoleLogSpy: jest.SpyInstance;
+  let consoleErrorSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    LLMProviderRegistry.reset();
+    consoleLogSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleLogSpy.mockRestore();
+    consoleErrorSpy.mockRestore();
+  });
+
+  describe('provider selection', () => {
+    it('should generate an article through the selected provider', async () => {
+      LLMProviderRegistry.register(new EchoProvider(articleJson));
+
+      const article = await AIArticleGenerator.generateArticle(
+        mockAnalysis,
+        mockVideoMetadata,
+        mockTranscript,
+        { length: 'short', tone: 'professional', format: 'markdown', provider: 'echo' }
+      );
+
+      expect(article.title).toBe('Fixture Title');
+      expect(article.sections[0].heading).toBe('Fixture Section');
+      expect(article.tags).toEqual(['fixture']);
+      expect(article.metadata.sourceVideo).toBe(mockVideoMetadata);
+    });
+
+    it('should check the generated article against the transcript', async () => {
+      LLMProviderRegistry.register(new EchoProvider(JSON.stringify({
+        title: 'Fixture Title',
+        introduction: 'Today we build a web application with React.',
+        sections: [{ heading: 'Setup', content: 'The project structure was invented by Facebook engineers in 2011.' }],
+        conclusion: 'Fixture conclusion',
+        tags: []
+      })));
+
+      const article = await AIArticleGenerator.generateArticle(
+        mockAnalysis,
+        mockVideoMetadata,
+        mockTranscript,
+        { length: 'short', tone: 'professional', format: 'markdown', provider: 'echo' }
+      );
+
+      expect(article.metadata.groundingScore).toBe(0.5);
+      expect(article.sections[0].citations).toEqual([{ paragraphIndex: 0, startTime: 5, endTime: 10 }]);
+    });
+
+    it('should pass model, temperature and max tokens through to the provider', async () => {
+      const requests: LLMCompletionRequest[] = [];
+      LLMProviderRegistry.register(new EchoProvider(request => {
+        requests.push(request);
+        return articleJson;
+      }));
+
+      await AIArticleGenerator.generateArticle(
+        mockAnalysis,
+        mockVideoMetadata,
+        mockTranscript,
+        {
+          length: 'long',
+          tone: 'casual',
+          format: 'markdown',
+          provider: 'echo',
+          model: 'custom-model',
+          temperature: 0.1,
+          maxTokens: 321
+        }
+      );
+
+      expect(requests).toHaveLength(1);
+      expect(requests[0]).toEqual(expect.objectContaining({
+        model: 'custom-model',
+        temperature: 0.1,
+        maxTokens: 321
+      }));
+      expect(requests[0].prompt).toContain('Building Web Apps');
+    });
+
+    it('should derive max tokens from article length when not specified', async () => {
+      const requests: LLMCompletionRequest[] = [];
+      LLMProviderRegistry.register(new EchoProvider(request => {
+        requests.push(request);
+        return articleJson;
+      }));
+
+      await AIArticleGenerator.generateArticle(
+        mockAnalysis,
+        mockVideoMetadata,
+        mockTranscript,
+        { length: 'long', tone: 'professional', format: 'markdown', provider: 'echo' }
+      );
+
+      expect(requests[0].maxTokens).toBe(1500);
+      expect(requests[0].model).toBe('echo-fixture');
+    });
+
+    it('should fall back to template generation for an unknown provider', async () => {
+      const article = await AIArticleGenerator.generateArticle(
+        mockAnalysis,
+        mockVideoMetadata,
+        mockTranscript,
+        { length: 'short', tone: 'professional', format: 'markdown', provider: 'does-not-exist' }
+      );
+
+      expect(article.title).toBeTruthy();
+      expect(article.tags).toContain('video-summary');
+    });
+  });
+
+  describe('template instructions', () => {
+    it('should describe the sections of a user template in the prompt', async () => {
+      const requests: LLMCompletionRequest[] = [];
+      LLMProviderRegistry.register(new EchoProvider(request => {
+        requests.push(request);
+        return articleJson;
+      }));
+
+      await AIArticleGenerator.generateArticle(
+        mockAnalysis,
+        mockVideoMetadata,
+        mockTranscript,
+        {
+          length: 'short',
+          tone: 'professional',
+          format: 'markdown',
+          provider: 'echo',
+          customTemplate: 'Project Setup',
+          userTemplates: [{
+            name: 'Project Setup',
+            type: 'tutorial',
+            defaultTone: 'technical',
+            estimatedLength: 'short',
+            structure: [
+              { heading: 'Getting Started', contentType: 'introduction', maxLength: 80 },
+              { heading: 'Folder Layout', contentType: 'custom', minLength: 50, maxLength: 200, keywordFocus: ['structure'], includeTimestamps: true }
+            ]
+          }]
+        }
+      );
+
+      expect(requests[0].prompt).toContain('Follow the "Project Setup" template');
+      expect(requests[0].prompt).toContain('1. "Getting Started" (introduction; at most 80 words)');
+      expect(requests[0].prompt).toContain('2. "Folder Layout" (custom; 50-200 words; focus on structure; mention video timestamps)');
+    });
+
+    it('should leave the prompt unchanged without a known template', () => {
+      expect(AIArticleGenerator.getTemplateInstructions({ length: 'short', tone: 'casual', format: 'markdown' })).toBe('');
+      expect(AIArticleGenerator.getTemplateInstructions({
+        length: 'short', tone: 'casual', format: 'markdown', customTemplate: 'Missing'
+      })).toBe('');
+    });
+  });
+
+  describe('response repair', () => {
+    const options = { length: 'short' as const, tone: 'professional' as const, format: 'markdown' as const, provider: 'echo' };
+
+    it('should repair malformed JSON and report the repairs', async () => {
+      LLMProviderRegistry.register(new EchoProvider(
+        "Here is your article:\n```json\n{'title': 'Fixture Title', 'introduction': 'Intro', 'sections': [{'heading': 'A', 'content': 'B'},], 'conclusion': 'Done'}\n```"
+      ));
+
+      const { article, telemetry } = await AIArticleGenerator.generateArticleWithTelemetry(
+        mockAnalysis, mockVideoMetadata, mockTranscript, options
+      );
+
+      expect(article.title).toBe('Fixture Title');
+      expect(article.sections).toEqual([expect.objectContaining({ heading: 'A', content: 'B' })]);
+      expect(telemetry).toEqual({
+        repairs: ['code_fence', 'single_quotes', 'trailing_commas'],
+        repromptedFields: [],
+        fallback: false
+      });
+    });
+
+    it('should ask the model again for fields missing from a truncated response', async () => {
+      const prompts: string[] = [];
+      LLMProviderRegistry.register(new EchoProvider(request => {
+        prompts.push(request.prompt);
+        return prompts.length === 1
+          ? '{"title": "Fixture Title", "introduction": "Intro", "sections": [{"heading": "A", "content": "B"}], "conclu'
+          : '{"conclusion": "A proper ending", "tags": ["ignored"]}';
+      }));
+
+      const { article, telemetry } = await AIArticleGenerator.generateArticleWithTelemetry(
+        mockAnalysis, mockVideoMetadata, mockTranscript, options
+      );
+
+      expect(article.conclusion).toBe('A proper ending');
+      expect(article.title).toBe('Fixture Title');
+      // Only the missing fields are taken from the follow-up answer
+      expect(article.tags).not.toContain('ignored');
+      expect(telemetry).toEqual({ repairs: ['truncated'], repromptedFields: ['conclusion'], fallback: false });
+      expect(prompts[1]).toContain('missing or invalid: conclusion');
+      expect(prompts[1]).toContain('"title":"Fixture Title"');
+    });
+
+    it('should record the fallback when the follow-up answer is unusable too', async () => {
+      LLMProviderRegistry.register(new EchoProvider('I cannot write JSON today.'));
+
+      const { article, telemetry } = await AIArticleGenerator.generateArticleWithTelemetry(
+        mockAnalysis, mockVideoMetadata, mockTranscript, options
+      );
+
+      expect(article.tags).toContain('video-summary');
+      expect(telemetry.fallback).toBe(true);
+      expect(telemetry.repromptedFields).toEqual(['title', 'introduction', 'sections', 'conclusion']);
+      expect(telemetry.fallbackReason).toContain('Missing required fields');
+    });
+  });
+
+  describe('testConnection', () => {
+    it('should report success when the provider answers', async () => {
+      LLMProviderRegistry.register(new EchoProvider('Connection successful'));
+
+      await expect(AIArticleGenerator.testConnection('echo')).resolves.toBe(true);
+    });
+
+    it('should report failure when the provider throws', async () => {
+      LLMProviderRegistry.register(new EchoProvider(() => {
+        throw new Error('boom');
+      }));
+
+      await expect(AIArticleGenerator.testConnection('echo')).resolves.toBe(false);
+    });
+  });
+});
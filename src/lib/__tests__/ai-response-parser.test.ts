@@ -0,0 +1,99 @@
+import { AIResponseParseError, parseJsonResponse, validateArticleJson } from '../ai-response-parser';
+
+describe('parseJsonResponse', () => {
+  it('should parse clean JSON without repairs', () => {
+    expect(parseJsonResponse('{"title": "A"}')).toEqual({ value: { title: 'A' }, repairs: [] });
+  });
+
+  it('should strip code fences and surrounding prose', () => {
+    const result = parseJsonResponse('Sure! Here it is:\n```json\n{"title": "A"}\n```\nLet me know if you need changes.');
+
+    expect(result.value).toEqual({ title: 'A' });
+    expect(result.repairs).toEqual(['code_fence']);
+    expect(parseJsonResponse('Result: {"title": "A"} Hope that helps!').repairs).toEqual(['surrounding_text']);
+  });
+
+  it('should keep code fences inside string values', () => {
+    const article = {
+      title: 'Rust Basics',
+      sections: [{ heading: 'Hello', content: 'Example:\n```rust\nfn main() {}\n```\nThat is it.' }],
+      conclusion: 'Done'
+    };
+    const json = JSON.stringify(article, null, 2);
+
+    expect(parseJsonResponse(json)).toEqual({ value: article, repairs: [] });
+    expect(parseJsonResponse('```json\n' + json + '\n```')).toEqual({ value: article, repairs: ['code_fence'] });
+    expect(parseJsonResponse('Here you go:\n```\n' + json + '\n```\nEnjoy!')).toEqual({ value: article, repairs: ['code_fence'] });
+  });
+
+  it('should convert single-quoted strings', () => {
+    const result = parseJsonResponse(`{'title': 'Say "hi"', "intro": "It's fine", 'escaped': 'don\\'t'}`);
+
+    expect(result.value).toEqual({ title: 'Say "hi"', intro: "It's fine", escaped: "don't" });
+    expect(result.repairs).toEqual(['single_quotes']);
+  });
+
+  it('should remove trailing commas outside strings', () => {
+    const result = parseJsonResponse('{"tags": ["a", "b",], "note": "x,]",}');
+
+    expect(result.value).toEqual({ tags: ['a', 'b'], note: 'x,]' });
+    expect(result.repairs).toEqual(['trailing_commas']);
+  });
+
+  it('should close truncated output and keep a partial last string', () => {
+    const result = parseJsonResponse('{"title": "A", "sections": [{"heading": "H", "content": "Some text that was cu');
+
+    expect(result.value).toEqual({ title: 'A', sections: [{ heading: 'H', content: 'Some text that was cu' }] });
+    expect(result.repairs).toEqual(['truncated']);
+  });
+
+  it('should drop an element cut off before its value', () => {
+    expect(parseJsonResponse('{"title": "A", "tags": ["x", "y"], "conclusion":').value).toEqual({ title: 'A', tags: ['x', 'y'] });
+    expect(parseJsonResponse('{"title": "A", "conclu').value).toEqual({ title: 'A' });
+  });
+
+  it('should throw when there is no JSON to recover', () => {
+    expect(() => parseJsonResponse('I cannot help with that.')).toThrow(AIResponseParseError);
+    expect(() => parseJsonResponse('{"title": "A" "intro": "B"}')).toThrow('could not be repaired');
+  });
+});
+
+describe('validateArticleJson', () => {
+  const valid = {
+    title: 'Title',
+    introduction: 'Intro',
+    sections: [{ heading: 'H', content: 'C', subsections: [{ heading: 'H2', content: 'C2' }], extra: true }],
+    conclusion: 'End',
+    tags: ['a']
+  };
+
+  it('should accept a complete article and drop unknown properties', () => {
+    const result = validateArticleJson(valid);
+
+    expect(result.valid).toBe(true);
+    expect(result.draft?.sections).toEqual([{ heading: 'H', content: 'C', subsections: [{ heading: 'H2', content: 'C2' }] }]);
+  });
+
+  it('should report missing and invalid fields with paths', () => {
+    const result = validateArticleJson({
+      title: 'Title',
+      introduction: '',
+      sections: [{ heading: 'H' }],
+      tags: 'a, b'
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.invalidFields).toEqual(['introduction', 'sections', 'conclusion', 'tags']);
+    expect(result.issues).toContainEqual({ path: 'sections[0].content', message: 'must be a non-empty string' });
+    expect(result.validFields).toEqual({ title: 'Title' });
+  });
+
+  it('should treat tags as optional and require at least one section', () => {
+    const { tags, ...withoutTags } = valid;
+
+    expect(tags).toBeDefined();
+    expect(validateArticleJson(withoutTags).valid).toBe(true);
+    expect(validateArticleJson({ ...valid, sections: [] }).invalidFields).toEqual(['sections']);
+    expect(validateArticleJson(['not', 'an', 'object']).valid).toBe(false);
+  });
+});
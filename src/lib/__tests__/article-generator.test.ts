@@ -4,7 +4,8 @@ import {
   VideoMetadata, 
   Transcript, 
   GenerationOptions,
-  Article 
+  Article,
+  ArticleTemplate
 } from '@/types';
 
 describe('ArticleGenerator', () => {
@@ -207,6 +208,48 @@ describe('ArticleGenerator', () => {
       expect(article.introduction).toBeTruthy();
       expect(article.conclusion).toBeTruthy();
     });
+
+    it('should list the description links under resources mentioned and use its hashtags', () => {
+      const article = ArticleGenerator.generateArticle(
+        mockAnalysis,
+        {
+          ...mockVideoMetadata,
+          description: 'React docs: https://react.dev\nFollow me: https://twitter.com/techtutorials\n#reactjs'
+        },
+        mockTranscript
+      );
+
+      expect(article.sections[article.sections.length - 1]).toEqual({
+        heading: 'Resources mentioned',
+        content: '- [React docs](https://react.dev)'
+      });
+      expect(article.tags[0]).toBe('reactjs');
+    });
+
+    it('should give each chapter its own subsection once', () => {
+      const article = ArticleGenerator.generateArticle(
+        {
+          ...mockAnalysis,
+          chapters: [
+            { title: 'Setup', start: 0, end: 60, source: 'description' },
+            { title: 'Components', start: 60, end: 120, source: 'description' },
+            { title: 'State', start: 120, end: 1800, source: 'description' }
+          ]
+        },
+        mockVideoMetadata,
+        mockTranscript,
+        { length: 'long', tone: 'professional', format: 'plain', includeTimestamps: true }
+      );
+
+      const subsectionHeadings = article.sections.flatMap(section =>
+        (section.subsections || []).map(subsection => subsection.heading)
+      );
+      expect(subsectionHeadings).toEqual(['Setup', 'Components', 'State']);
+      article.sections.forEach(section => {
+        expect(section.content).not.toContain('##');
+        expect(section.content).not.toContain('*Discussed at');
+      });
+    });
   });
 
   describe('template selection', () => {
@@ -279,6 +322,59 @@ describe('ArticleGenerator', () => {
     });
   });
 
+  describe('user templates', () => {
+    const releaseNotes: ArticleTemplate = {
+      name: 'Release Notes',
+      type: 'general',
+      defaultTone: 'professional',
+      estimatedLength: 'short',
+      structure: [
+        { heading: 'Introduction', contentType: 'introduction' },
+        { heading: 'State Handling', contentType: 'custom', keywordFocus: ['useState'] },
+        { heading: 'Highlights', contentType: 'key_points', keywordFocus: ['setup'] },
+        { heading: 'Conclusion', contentType: 'conclusion' }
+      ]
+    };
+
+    it('should generate sections from a user template named in customTemplate', () => {
+      const article = ArticleGenerator.generateArticle(mockAnalysis, mockVideoMetadata, mockTranscript, {
+        length: 'short',
+        tone: 'professional',
+        format: 'markdown',
+        customTemplate: 'release notes',
+        userTemplates: [releaseNotes]
+      });
+
+      expect(article.sections.map(s => s.heading)).toEqual(['State Handling', 'Highlights']);
+      expect(article.sections[0].content).toContain('useState hook');
+      expect(article.sections[0].content).not.toContain('Node.js');
+      expect(article.sections[1].content.indexOf('Development environment'))
+        .toBeLessThan(article.sections[1].content.indexOf('reusable pieces'));
+    });
+
+    it('should list valid user templates after the built-in ones', () => {
+      const templates = ArticleGenerator.getAvailableTemplates([
+        releaseNotes,
+        { ...releaseNotes, name: 'General Article' },
+        { ...releaseNotes, structure: [] }
+      ]);
+
+      expect(templates.slice(-1)).toEqual([releaseNotes]);
+      expect(templates.filter(t => t.name === 'General Article')).toHaveLength(1);
+      expect(ArticleGenerator.getTemplate('Release Notes', [releaseNotes])).toEqual(releaseNotes);
+      expect(ArticleGenerator.getTemplate('Release Notes')).toBeNull();
+    });
+
+    it('should reject user templates reusing a built-in or existing name', () => {
+      expect(ArticleGenerator.validateUserTemplate({ ...releaseNotes, name: 'tutorial guide' }).issues)
+        .toEqual([{ path: 'name', message: 'is already used by another template' }]);
+      expect(ArticleGenerator.validateUserTemplate(releaseNotes, ['Release Notes']).valid).toBe(false);
+      expect(ArticleGenerator.validateUserTemplate(releaseNotes).valid).toBe(true);
+      expect(ArticleGenerator.isBuiltInTemplate('Tutorial Guide')).toBe(true);
+      expect(ArticleGenerator.isBuiltInTemplate('Release Notes')).toBe(false);
+    });
+  });
+
   describe('content formatting', () => {
     it('should format timestamps correctly', () => {
       const options: GenerationOptions = {
@@ -0,0 +1,142 @@
+/**
+ * @jest-environment node
+ */
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { ArticleHistoryEntry, HttpHistoryStore, createHistoryEntry, searchHistory } from '../article-history';
+import { FileHistoryStore } from '../history-store';
+import { Article, ContentAnalysis, Topic, VideoMetadata } from '@/types';
+
+describe('article history', () => {
+  const videoMetadata = {
+    id: 'abc',
+    title: 'Building a Compiler',
+    channelName: 'Code Channel'
+  } as VideoMetadata;
+
+  const article = (title: string, tags: string[] = []): Article => ({
+    title,
+    introduction: 'An introduction.',
+    sections: [{ heading: 'Parsing', content: 'Tokens become trees.' }],
+    conclusion: 'The end.',
+    tags,
+    metadata: { wordCount: 10, readingTime: 1, seoTitle: title, metaDescription: '', sourceVideo: videoMetadata }
+  });
+
+  const topic = (name: string): Topic => ({ name, relevance: 0.8, timeRanges: [{ start: 0, end: 60 }] });
+
+  const analysis = (topics: Topic[]): ContentAnalysis => ({
+    topics,
+    keyPoints: [],
+    summary: '',
+    suggestedStructure: [],
+    sentiment: 'neutral'
+  });
+
+  const entry = (id: string, title: string, updatedAt: string, tags: string[] = [], topics: Topic[] = []): ArticleHistoryEntry => ({
+    id,
+    article: article(title, tags),
+    videoMetadata,
+    analysis: analysis(topics),
+    createdAt: updatedAt,
+    updatedAt
+  });
+
+  describe('createHistoryEntry', () => {
+    it('should keep the article with its source video, analysis and options', () => {
+      const compilers = analysis([topic('compilers')]);
+      const created = createHistoryEntry(article('A'), videoMetadata, compilers, { length: 'short', tone: 'casual', format: 'markdown' });
+
+      expect(created.id).toMatch(/^[a-zA-Z0-9-]+$/);
+      expect(created).toMatchObject({ videoMetadata, analysis: compilers, options: { length: 'short' } });
+      expect(created.createdAt).toBe(created.updatedAt);
+    });
+  });
+
+  describe('searchHistory', () => {
+    const entries = [
+      entry('a', 'Writing a Lexer', '2024-01-01T00:00:00Z', ['rust'], [topic('tokenization')]),
+      entry('b', 'Type Checking Basics', '2024-01-02T00:00:00Z', ['typescript'], [topic('type inference')])
+    ];
+
+    it('should match titles, tags and source video case-insensitively', () => {
+      expect(searchHistory(entries, 'lexer').map(e => e.id)).toEqual(['a']);
+      expect(searchHistory(entries, 'TypeScript').map(e => e.id)).toEqual(['b']);
+      expect(searchHistory(entries, 'code channel')).toHaveLength(2);
+    });
+
+    it('should match the topics of the content analysis', () => {
+      expect(searchHistory(entries, 'tokenization').map(e => e.id)).toEqual(['a']);
+      expect(searchHistory(entries, 'inference').map(e => e.id)).toEqual(['b']);
+      expect(searchHistory(entries, 'object')).toEqual([]);
+    });
+
+    it('should require every word of the query to match', () => {
+      expect(searchHistory(entries, 'lexer typescript')).toEqual([]);
+      expect(searchHistory(entries, '  ')).toBe(entries);
+    });
+  });
+
+  describe('FileHistoryStore', () => {
+    let directory: string;
+    let store: FileHistoryStore;
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'history-'));
+      store = new FileHistoryStore(directory);
+    });
+
+    afterEach(async () => {
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('should save, list most recently updated first and delete entries', async () => {
+      await store.save(entry('old', 'Old', '2024-01-01T00:00:00Z'));
+      await store.save(entry('new', 'New', '2024-02-01T00:00:00Z'));
+
+      expect((await store.list()).map(e => e.id)).toEqual(['new', 'old']);
+      expect((await store.get('old'))?.article.title).toBe('Old');
+
+      await store.delete('old');
+      expect(await store.get('old')).toBeNull();
+    });
+
+    it('should ignore unsafe ids', async () => {
+      expect(await store.get('../secrets')).toBeNull();
+      await expect(store.save(entry('../escape', 'Bad', '2024-01-01T00:00:00Z'))).rejects.toThrow('Invalid history entry id');
+      expect(await new FileHistoryStore(path.join(directory, 'missing')).list()).toEqual([]);
+    });
+  });
+
+  describe('HttpHistoryStore', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should save entries through the history API', async () => {
+      global.fetch = jest.fn().mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ success: true, data: {} })
+      });
+      const saved = entry('entry-1', 'Saved', '2024-01-01T00:00:00Z');
+
+      await new HttpHistoryStore('http://localhost:3000').save(saved);
+
+      expect(global.fetch).toHaveBeenCalledWith('http://localhost:3000/api/history/entry-1', expect.objectContaining({
+        method: 'PUT',
+        body: JSON.stringify(saved)
+      }));
+    });
+
+    it('should return null for unknown entries and throw API errors', async () => {
+      global.fetch = jest.fn()
+        .mockResolvedValueOnce({ ok: false, status: 404, json: () => Promise.resolve({ success: false, error: 'Article not found' }) })
+        .mockResolvedValueOnce({ ok: false, status: 500, json: () => Promise.resolve({ success: false, error: 'Disk full' }) });
+      const store = new HttpHistoryStore();
+
+      expect(await store.get('missing')).toBeNull();
+      await expect(store.list()).rejects.toThrow('Disk full');
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import {
+  canRedo,
+  canUndo,
+  createRevisionHistory,
+  getCurrentRevision,
+  recordRevision,
+  redoRevision,
+  restoreRevision,
+  setPublications,
+  undoRevision
+} from '../article-revisions';
+import { diffArticles, diffText } from '../article-diff';
+import { Article } from '@/types';
+
+describe('article revisions', () => {
+  const article = (title: string, sections: Article['sections'] = []): Article => ({
+    title,
+    introduction: 'Intro',
+    sections,
+    conclusion: 'Outro',
+    tags: ['one'],
+    metadata: {} as Article['metadata']
+  });
+
+  describe('history', () => {
+    it('should start with the generated article by the AI', () => {
+      const history = createRevisionHistory(article('Draft'));
+      const current = getCurrentRevision(history);
+
+      expect(current).toMatchObject({ id: 'rev-1', author: 'AI', kind: 'generation' });
+      expect(canUndo(history)).toBe(false);
+      expect(canRedo(history)).toBe(false);
+    });
+
+    it('should undo and redo edits without dropping revisions', () => {
+      let history = createRevisionHistory(article('Draft'));
+      history = recordRevision(history, article('Edit 1'), 'You');
+      history = recordRevision(history, article('Edit 2'), 'You');
+
+      history = undoRevision(undoRevision(history));
+      expect(getCurrentRevision(history).article.title).toBe('Draft');
+      expect(undoRevision(history)).toBe(history);
+
+      history = redoRevision(history);
+      expect(getCurrentRevision(history).article.title).toBe('Edit 1');
+      expect(history.revisions).toHaveLength(3);
+    });
+
+    it('should clear redo when a new edit is made after undo', () => {
+      let history = createRevisionHistory(article('Draft'));
+      history = recordRevision(history, article('Edit 1'), 'You');
+      history = recordRevision(undoRevision(history), article('Edit 2'), 'You');
+
+      expect(canRedo(history)).toBe(false);
+      expect(getCurrentRevision(history)).toMatchObject({ id: 'rev-3', parentId: 'rev-1' });
+
+      // Undo follows the revision an edit was made from, not the order revisions were recorded in
+      expect(getCurrentRevision(undoRevision(history)).id).toBe('rev-1');
+    });
+
+    it('should restore an earlier revision as a new revision that can be undone', () => {
+      let history = createRevisionHistory(article('Draft'));
+      history = recordRevision(history, article('Edit'), 'You');
+      history = restoreRevision(history, 'rev-1', 'You');
+
+      expect(getCurrentRevision(history)).toMatchObject({ kind: 'restore', restoredFromId: 'rev-1', author: 'You' });
+      expect(getCurrentRevision(history).article.title).toBe('Draft');
+      expect(getCurrentRevision(undoRevision(history)).article.title).toBe('Edit');
+      expect(restoreRevision(history, 'missing', 'You')).toBe(history);
+    });
+
+    it('should keep publication records across undo, redo and restore', () => {
+      const publication = {
+        destination: 'ghost' as const,
+        remoteId: 'post-1',
+        status: 'draft' as const,
+        firstPublishedAt: '2024-05-01T10:00:00.000Z',
+        lastPublishedAt: '2024-05-01T10:00:00.000Z'
+      };
+      let history = recordRevision(createRevisionHistory(article('Draft')), article('Edit 1'), 'You');
+      history = setPublications(history, [publication]);
+
+      expect(history.revisions).toHaveLength(2);
+      expect(getCurrentRevision(undoRevision(history)).article.publications).toEqual([publication]);
+      expect(getCurrentRevision(redoRevision(undoRevision(history))).article.publications).toEqual([publication]);
+      expect(getCurrentRevision(restoreRevision(history, 'rev-1', 'You')).article.publications).toEqual([publication]);
+    });
+  });
+
+  describe('diff', () => {
+    it('should diff text word by word', () => {
+      expect(diffText('the quick fox', 'the slow fox')).toEqual([
+        { type: 'equal', text: 'the ' },
+        { type: 'delete', text: 'quick' },
+        { type: 'insert', text: 'slow' },
+        { type: 'equal', text: ' fox' }
+      ]);
+      expect(diffText('', '')).toEqual([]);
+    });
+
+    it('should match sections by heading', () => {
+      const before = article('Title', [
+        { heading: 'Setup', content: 'Install it.' },
+        { heading: 'Usage', content: 'Run it.' }
+      ]);
+      const after = article('Title', [
+        { heading: 'Overview', content: 'What it is.' },
+        { heading: 'Setup', content: 'Install it.' },
+        { heading: 'Usage', content: 'Run it often.' }
+      ]);
+
+      const diffs = diffArticles(before, after);
+      const byLabel = Object.fromEntries(diffs.map(diff => [diff.label, diff.status]));
+
+      expect(byLabel).toEqual({
+        Title: 'unchanged',
+        Introduction: 'unchanged',
+        Overview: 'added',
+        Setup: 'unchanged',
+        Usage: 'changed',
+        Conclusion: 'unchanged',
+        Tags: 'unchanged'
+      });
+    });
+
+    it('should treat a renamed section as changed and report removed sections', () => {
+      const before = article('Title', [
+        { heading: 'Intro', content: 'Hello.' },
+        { heading: 'Old Name', content: 'Body.' },
+        { heading: 'Extra', content: 'Gone.' }
+      ]);
+      const after = article('Title', [
+        { heading: 'Intro', content: 'Hello.' },
+        { heading: 'New Name', content: 'Body.' }
+      ]);
+
+      const sections = diffArticles(before, after).slice(2, -2);
+
+      expect(sections.map(diff => [diff.label, diff.status])).toEqual([
+        ['Intro', 'unchanged'],
+        ['New Name', 'changed'],
+        ['Extra', 'removed']
+      ]);
+      expect(sections[1].changes).toContainEqual({ type: 'delete', text: 'Old' });
+    });
+  });
+});
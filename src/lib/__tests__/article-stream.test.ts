@@ -0,0 +1,91 @@
+import { ArticleStreamParser, applyArticleDelta, createPartialArticle, ArticleDelta } from '../article-stream';
+
+describe('article-stream', () => {
+  const response = JSON.stringify({
+    title: 'Building a Compiler',
+    introduction: 'Compilers turn source code into machine code.',
+    sections: [
+      { heading: 'Lexing', content: 'The lexer splits the source into tokens.' },
+      { heading: 'Parsing', content: 'The parser "builds" a syntax tree.' }
+    ],
+    conclusion: 'That is the whole pipeline.',
+    tags: ['compilers']
+  }, null, 2);
+
+  const streamInPieces = (text: string, size: number): { parser: ArticleStreamParser; deltas: ArticleDelta[] } => {
+    const parser = new ArticleStreamParser();
+    const deltas: ArticleDelta[] = [];
+    for (let i = 0; i < text.length; i += size) {
+      deltas.push(...parser.push(text.slice(i, i + size)));
+    }
+    deltas.push(...parser.flush());
+    return { parser, deltas };
+  };
+
+  describe('ArticleStreamParser', () => {
+    it('should rebuild the article text from deltas', () => {
+      const { parser, deltas } = streamInPieces(response, 5);
+
+      const rebuilt = deltas.reduce(applyArticleDelta, createPartialArticle());
+      expect(rebuilt).toEqual(parser.getArticle());
+      expect(rebuilt).toMatchObject({
+        title: 'Building a Compiler',
+        introduction: 'Compilers turn source code into machine code.',
+        sections: [
+          { heading: 'Lexing', content: 'The lexer splits the source into tokens.' },
+          { heading: 'Parsing', content: 'The parser "builds" a syntax tree.' }
+        ],
+        conclusion: 'That is the whole pipeline.'
+      });
+    });
+
+    it('should report partial field text before the field is complete', () => {
+      const parser = new ArticleStreamParser();
+      const cut = response.indexOf('source code');
+
+      const deltas = [...parser.push(response.slice(0, cut)), ...parser.flush()];
+
+      expect(deltas).toContainEqual({ field: 'title', text: 'Building a Compiler' });
+      expect(parser.getArticle().introduction).toBe('Compilers turn');
+      expect(parser.getArticle().current).toBe('introduction');
+    });
+
+    it('should only parse after enough new text has arrived', () => {
+      const parser = new ArticleStreamParser();
+
+      expect(parser.push('{"title": "Short')).toEqual([]);
+      expect(parser.flush()).toEqual([{ field: 'title', text: 'Short' }]);
+    });
+
+    it('should ignore text before the JSON and in code fences', () => {
+      const { parser } = streamInPieces('Here is your article:\n```json\n' + response + '\n```', 7);
+
+      expect(parser.getArticle().title).toBe('Building a Compiler');
+      expect(parser.getArticle().sections).toHaveLength(2);
+    });
+
+    it('should not emit anything for a response without JSON', () => {
+      const { deltas } = streamInPieces('I am sorry, I cannot help with that request.', 10);
+
+      expect(deltas).toEqual([]);
+    });
+  });
+
+  describe('applyArticleDelta', () => {
+    it('should append text and create sections as they are reached', () => {
+      const article = [
+        { field: 'title', text: 'Hello' },
+        { field: 'title', text: ' World' },
+        { field: 'content', sectionIndex: 1, text: 'Second' }
+      ].reduce((partial, delta) => applyArticleDelta(partial, delta as ArticleDelta), createPartialArticle());
+
+      expect(article).toEqual({
+        title: 'Hello World',
+        introduction: '',
+        sections: [{ heading: '', content: '' }, { heading: '', content: 'Second' }],
+        conclusion: '',
+        current: 'sections.1'
+      });
+    });
+  });
+});
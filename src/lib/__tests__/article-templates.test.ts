@@ -0,0 +1,119 @@
+import {
+  TemplateValidationError,
+  exportTemplates,
+  importTemplates,
+  matchesKeywordFocus,
+  sanitizeTemplates,
+  validateArticleTemplate
+} from '../article-templates';
+import { ArticleTemplate } from '@/types';
+
+describe('article-templates', () => {
+  const template: ArticleTemplate = {
+    name: 'Release Notes',
+    type: 'general',
+    defaultTone: 'casual',
+    estimatedLength: 'short',
+    structure: [
+      { heading: 'What Changed', contentType: 'key_points', minLength: 50, maxLength: 200, keywordFocus: ['release'] },
+      { heading: 'Wrap Up', contentType: 'conclusion' }
+    ]
+  };
+
+  describe('validateArticleTemplate', () => {
+    it('should accept a valid template and trim its text', () => {
+      const result = validateArticleTemplate({
+        ...template,
+        name: '  Release Notes ',
+        structure: [{ heading: ' What Changed ', contentType: 'custom', keywordFocus: [' release ', ''] }]
+      });
+
+      expect(result.valid).toBe(true);
+      expect(result.template?.name).toBe('Release Notes');
+      expect(result.template?.structure).toEqual([
+        { heading: 'What Changed', contentType: 'custom', keywordFocus: ['release'] }
+      ]);
+    });
+
+    it('should report every problem with its path', () => {
+      const result = validateArticleTemplate({
+        name: '',
+        type: 'vlog',
+        defaultTone: 'professional',
+        estimatedLength: 'medium',
+        structure: [{ heading: 'Body', contentType: 'main_content', minLength: 300, maxLength: 100, keywordFocus: 'react' }]
+      });
+
+      expect(result.valid).toBe(false);
+      expect(result.issues.map(issue => issue.path)).toEqual([
+        'name',
+        'type',
+        'structure[0].maxLength',
+        'structure[0].keywordFocus'
+      ]);
+    });
+
+    it('should reject reserved names ignoring case', () => {
+      const result = validateArticleTemplate(template, ['release notes']);
+
+      expect(result.issues).toEqual([{ path: 'name', message: 'is already used by another template' }]);
+    });
+
+    it('should require at least one section', () => {
+      expect(validateArticleTemplate({ ...template, structure: [] }).issues).toEqual([
+        { path: 'structure', message: 'must contain at least one section' }
+      ]);
+    });
+  });
+
+  describe('sanitizeTemplates', () => {
+    it('should drop invalid templates and repeated names', () => {
+      const templates = sanitizeTemplates([template, { ...template, name: 'RELEASE NOTES' }, { name: 'Broken' }, 'text']);
+
+      expect(templates).toEqual([template]);
+    });
+
+    it('should return an empty list for anything but an array', () => {
+      expect(sanitizeTemplates(undefined)).toEqual([]);
+    });
+  });
+
+  describe('importTemplates', () => {
+    it('should read back exported templates', () => {
+      expect(importTemplates(exportTemplates([template]))).toEqual([template]);
+    });
+
+    it('should accept a bare array or a single template', () => {
+      expect(importTemplates(JSON.stringify([template]))).toEqual([template]);
+      expect(importTemplates(JSON.stringify(template))).toEqual([template]);
+    });
+
+    it('should list the problems of invalid templates', () => {
+      const json = JSON.stringify({ version: 1, templates: [template, { ...template, name: 'Tutorial Guide', type: 'vlog' }] });
+
+      try {
+        importTemplates(json, ['Tutorial Guide']);
+        fail('expected importTemplates to throw');
+      } catch (error) {
+        expect(error).toBeInstanceOf(TemplateValidationError);
+        expect((error as TemplateValidationError).issues.map(issue => issue.path)).toEqual([
+          'templates[1].name',
+          'templates[1].type'
+        ]);
+      }
+    });
+
+    it('should reject invalid JSON and empty files', () => {
+      expect(() => importTemplates('{not json')).toThrow('Template file is not valid JSON');
+      expect(() => importTemplates('[]')).toThrow('Template file contains no templates');
+    });
+  });
+
+  describe('matchesKeywordFocus', () => {
+    it('should match any keyword ignoring case', () => {
+      expect(matchesKeywordFocus('The new RELEASE ships today', ['deploy', 'release'])).toBe(true);
+      expect(matchesKeywordFocus('Nothing relevant', ['release'])).toBe(false);
+      expect(matchesKeywordFocus('Anything', [])).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import { BatchProcessor, BatchStatus } from '../batch-processor';
+import { ProcessingPipeline, PipelineOptions, PipelineResult } from '../processing-pipeline';
+import { Article } from '@/types';
+
+describe('BatchProcessor', () => {
+  const mockArticle = (title: string) => ({ title } as Article);
+
+  /**
+   * Creates pipelines whose results resolve when the test releases them
+   */
+  const createControlledPipelines = () => {
+    const pending: Array<{ url: string; resolve: (result: PipelineResult) => void; options?: PipelineOptions }> = [];
+    const factory = () => ({
+      processVideo: (url: string, options?: PipelineOptions) =>
+        new Promise<PipelineResult>(resolve => pending.push({ url, resolve, options }))
+    } as unknown as ProcessingPipeline);
+    return { pending, factory };
+  };
+
+  const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+  it('should never run more pipelines than the concurrency limit', async () => {
+    const { pending, factory } = createControlledPipelines();
+    const processor = new BatchProcessor('', factory);
+
+    const done = processor.processBatch(
+      [{ id: 'a' }, { id: 'b' }, { id: 'c' }],
+      { concurrency: 2 }
+    );
+
+    await flush();
+    expect(pending.map(p => p.url)).toEqual([
+      'https://www.youtube.com/watch?v=a',
+      'https://www.youtube.com/watch?v=b'
+    ]);
+
+    pending[0].resolve({ success: true, article: mockArticle('A'), processingTime: 5 });
+    await flush();
+    expect(pending).toHaveLength(3);
+
+    pending[1].resolve({ success: true, article: mockArticle('B'), processingTime: 5 });
+    pending[2].resolve({ success: true, article: mockArticle('C'), processingTime: 5 });
+
+    const status = await done;
+    expect(status.state).toBe('complete');
+    expect(status.completed).toBe(3);
+    expect(status.items.map(item => item.article?.title)).toEqual(['A', 'B', 'C']);
+  });
+
+  it('should record failures per video without stopping the batch', async () => {
+    const processor = new BatchProcessor('', () => ({
+      processVideo: async (url: string) => {
+        if (url.endsWith('bad')) {
+          return { success: false, error: 'No transcript available', processingTime: 1 };
+        }
+        if (url.endsWith('throws')) {
+          throw new Error('Network down');
+        }
+        return { success: true, article: mockArticle('Good'), processingTime: 1 };
+      }
+    } as unknown as ProcessingPipeline));
+
+    const status = await processor.processBatch([{ id: 'good' }, { id: 'bad' }, { id: 'throws' }]);
+
+    expect(status.completed).toBe(1);
+    expect(status.failed).toBe(2);
+    expect(status.progress).toBe(100);
+    expect(status.items.map(item => [item.stage, item.error])).toEqual([
+      ['complete', undefined],
+      ['error', 'No transcript available'],
+      ['error', 'Network down']
+    ]);
+  });
+
+  it('should report per-video progress through onUpdate snapshots', async () => {
+    const { pending, factory } = createControlledPipelines();
+    const processor = new BatchProcessor('', factory);
+    const updates: BatchStatus[] = [];
+
+    const done = processor.processBatch(
+      [{ id: 'a', title: 'Video A' }, { id: 'b', title: 'Video B' }],
+      { concurrency: 1, onUpdate: status => updates.push(status) },
+      { type: 'playlist', id: 'PL1', title: 'Playlist' }
+    );
+
+    await flush();
+    expect(updates[0].items.map(item => item.stage)).toEqual(['queued', 'queued']);
+    expect(updates[0].source?.title).toBe('Playlist');
+
+    pending[0].options?.onProgress?.({ stage: 'transcription', progress: 40, message: 'Extracting transcript...' });
+    const latest = updates[updates.length - 1];
+    expect(latest.items[0]).toMatchObject({ title: 'Video A', stage: 'transcription', progress: 40 });
+    expect(latest.progress).toBe(20);
+
+    pending[0].resolve({ success: true, article: mockArticle('A'), processingTime: 1 });
+    await flush();
+    pending[1].resolve({ success: true, article: mockArticle('B'), processingTime: 1 });
+    await done;
+
+    // Snapshots must not change after they have been emitted
+    expect(latest.items[0].stage).toBe('transcription');
+    expect(updates[updates.length - 1].state).toBe('complete');
+  });
+
+  it('should clamp concurrency to the supported range', async () => {
+    const { pending, factory } = createControlledPipelines();
+    const processor = new BatchProcessor('', factory);
+
+    processor.processBatch(
+      Array.from({ length: 8 }, (_, i) => ({ id: `v${i}` })),
+      { concurrency: 20 }
+    );
+
+    await flush();
+    expect(pending).toHaveLength(BatchProcessor.MAX_CONCURRENCY);
+  });
+
+  it('should stop starting videos once the signal is aborted', async () => {
+    const { pending, factory } = createControlledPipelines();
+    const processor = new BatchProcessor('', factory);
+    const controller = new AbortController();
+
+    const done = processor.processBatch(
+      [{ id: 'a' }, { id: 'b' }, { id: 'c' }],
+      { concurrency: 1, signal: controller.signal }
+    );
+
+    await flush();
+    expect(pending[0].options?.signal).toBe(controller.signal);
+
+    controller.abort();
+    pending[0].resolve({ success: false, cancelled: true, error: 'Processing cancelled', processingTime: 1 });
+    const status = await done;
+
+    expect(pending).toHaveLength(1);
+    expect(status.state).toBe('cancelled');
+    expect(status.failed).toBe(0);
+    expect(status.items.map(item => item.stage)).toEqual(['cancelled', 'cancelled', 'cancelled']);
+  });
+});
@@ -0,0 +1,172 @@
+import { CaptionParser, CaptionParseError } from '../caption-parser';
+import { TranscriptService } from '../transcript-service';
+
+describe('CaptionParser', () => {
+  const srt = `1
+00:00:01,000 --> 00:00:04,500
+Welcome to the <i>tutorial</i>.
+
+2
+00:00:05,000 --> 00:00:08,250
+Today we cover
+two topics &amp; more.
+
+3
+01:02:03,004 --> 01:02:05,000
+Late in the video.
+`;
+
+  const vtt = `WEBVTT
+Kind: captions
+Language: en
+
+NOTE This is a comment
+spanning two lines
+
+STYLE
+::cue { color: yellow }
+
+intro
+00:01.000 --> 00:04.500 align:start position:10%
+<v Alice>Hello and welcome.</v>
+
+00:00:05.000 --> 00:00:08.000
+<c.highlight>Second</c> cue
+`;
+
+  const sbv = `0:00:01.000,0:00:04.500
+First caption line
+
+0:00:05.000,0:00:08.000
+Second caption
+on two lines
+`;
+
+  const ttml = `<?xml version="1.0" encoding="UTF-8"?>
+<tt xmlns="http://www.w3.org/ns/ttml" xmlns:ttp="http://www.w3.org/ns/ttml#parameter" xml:lang="de" ttp:tickRate="10000000">
+  <body>
+    <div>
+      <p begin="00:00:01.000" end="00:00:04.500">Guten <span>Tag</span></p>
+      <p begin="5s" dur="3s">Zweite<br/>Zeile</p>
+      <p begin="90000000t" end="100000000t" ttm:agent="speaker1">Ticks</p>
+    </div>
+  </body>
+</tt>`;
+
+  describe('parse', () => {
+    it('should parse SRT files', () => {
+      const transcript = CaptionParser.parse(srt, { format: 'srt' });
+
+      expect(transcript.segments).toEqual([
+        { text: 'Welcome to the tutorial.', startTime: 1, endTime: 4.5, confidence: 1.0, speaker: undefined },
+        { text: 'Today we cover two topics & more.', startTime: 5, endTime: 8.25, confidence: 1.0, speaker: undefined },
+        { text: 'Late in the video.', startTime: 3723.004, endTime: 3725, confidence: 1.0, speaker: undefined }
+      ]);
+      expect(transcript.duration).toBe(3725);
+      expect(transcript.language).toBe('en');
+      expect(transcript.confidence).toBe(1.0);
+    });
+
+    it('should parse WebVTT files with cue settings, ids, notes and voice spans', () => {
+      const transcript = CaptionParser.parse(vtt, { format: 'vtt' });
+
+      expect(transcript.segments).toHaveLength(2);
+      expect(transcript.segments[0]).toEqual(expect.objectContaining({
+        text: 'Hello and welcome.',
+        startTime: 1,
+        endTime: 4.5,
+        speaker: 'Alice'
+      }));
+      expect(transcript.segments[1].text).toBe('Second cue');
+    });
+
+    it('should parse SBV files', () => {
+      const transcript = CaptionParser.parse(sbv, { format: 'sbv' });
+
+      expect(transcript.segments.map(s => s.text)).toEqual(['First caption line', 'Second caption on two lines']);
+      expect(transcript.segments[1].startTime).toBe(5);
+      expect(transcript.segments[1].endTime).toBe(8);
+    });
+
+    it('should parse TTML clock, offset and tick times', () => {
+      const transcript = CaptionParser.parse(ttml, { format: 'ttml' });
+
+      expect(transcript.language).toBe('de');
+      expect(transcript.segments.map(s => [s.text, s.startTime, s.endTime])).toEqual([
+        ['Guten Tag', 1, 4.5],
+        ['Zweite Zeile', 5, 8],
+        ['Ticks', 9, 10]
+      ]);
+      expect(transcript.segments[2].speaker).toBe('speaker1');
+    });
+
+    it('should prefer an explicit language over the detected one', () => {
+      expect(CaptionParser.parse(ttml, { language: 'fr' }).language).toBe('fr');
+    });
+
+    it('should handle Windows line endings and a byte order mark', () => {
+      const transcript = CaptionParser.parse('\uFEFF' + srt.replace(/\n/g, '\r\n'));
+
+      expect(transcript.segments).toHaveLength(3);
+    });
+
+    it('should throw CaptionParseError with the line number for invalid cues', () => {
+      const broken = `1
+00:00:01,000 --> 00:00:02,000
+Fine
+
+2
+not a timing line
+Text`;
+
+      try {
+        CaptionParser.parse(broken, { format: 'srt' });
+        fail('Expected parse to throw');
+      } catch (error) {
+        expect(error).toBeInstanceOf(CaptionParseError);
+        expect((error as CaptionParseError).line).toBe(5);
+        expect((error as CaptionParseError).format).toBe('srt');
+      }
+    });
+
+    it('should reject invalid timestamps', () => {
+      expect(() => CaptionParser.parse('1\n00:00:xx,000 --> 00:00:02,000\nText', { format: 'srt' }))
+        .toThrow('Invalid SRT timestamp "00:00:xx.000"');
+    });
+
+    it('should reject empty files and files without captions', () => {
+      expect(() => CaptionParser.parse('   ')).toThrow('Caption file is empty');
+      expect(() => CaptionParser.parse('WEBVTT\n\nNOTE nothing here\n')).toThrow('No captions found in VTT file');
+    });
+
+    it('should reject undetectable content', () => {
+      expect(() => CaptionParser.parse('just some text')).toThrow(CaptionParseError);
+    });
+  });
+
+  describe('detectFormat', () => {
+    it('should detect the format from the filename', () => {
+      expect(CaptionParser.detectFormat('', 'talk.SRT')).toBe('srt');
+      expect(CaptionParser.detectFormat('', 'talk.vtt')).toBe('vtt');
+      expect(CaptionParser.detectFormat('', 'talk.sbv')).toBe('sbv');
+      expect(CaptionParser.detectFormat('', 'talk.dfxp')).toBe('ttml');
+    });
+
+    it('should detect the format from the content', () => {
+      expect(CaptionParser.detectFormat(srt)).toBe('srt');
+      expect(CaptionParser.detectFormat(vtt)).toBe('vtt');
+      expect(CaptionParser.detectFormat(sbv)).toBe('sbv');
+      expect(CaptionParser.detectFormat(ttml)).toBe('ttml');
+      expect(CaptionParser.detectFormat('plain text')).toBeNull();
+    });
+  });
+
+  describe('TranscriptService.parseCaptionFile', () => {
+    it('should produce a transcript from an uploaded caption file', () => {
+      const transcript = TranscriptService.parseCaptionFile(sbv, { filename: 'captions.sbv', language: 'en' });
+
+      expect(transcript.segments).toHaveLength(2);
+      expect(transcript.language).toBe('en');
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { ChapterDetector } from '../chapter-detector';
+import { Transcript } from '@/types';
+
+describe('ChapterDetector', () => {
+  const topicSentences = [
+    [
+      'The lexer reads characters and emits tokens',
+      'Every token has a kind like identifier or keyword',
+      'The scanner skips whitespace and comments between tokens',
+      'Lexer errors report the character that was unexpected'
+    ],
+    [
+      'The parser consumes tokens and builds a syntax tree',
+      'Grammar rules decide which syntax tree nodes appear',
+      'Recursive descent parsing follows the grammar closely',
+      'Parser errors point at the syntax that broke a rule'
+    ],
+    [
+      'The code generator walks the tree and emits assembly',
+      'Register allocation assigns variables to machine registers',
+      'Assembly instructions are optimized before linking',
+      'Generated machine code finally runs on the processor'
+    ]
+  ];
+
+  // Three two-minute parts with their own vocabulary, one segment every five seconds
+  const createTranscript = (): Transcript => {
+    const segments = topicSentences.flatMap((sentences, topic) =>
+      Array.from({ length: 24 }, (_, index) => ({
+        text: `${sentences[index % sentences.length]}.`,
+        startTime: topic * 120 + index * 5,
+        endTime: topic * 120 + index * 5 + 5,
+        confidence: 0.9
+      }))
+    );
+
+    return { segments, language: 'en', confidence: 0.9, duration: 360 };
+  };
+
+  describe('parseDescriptionChapters', () => {
+    it('should parse the chapter list in common formats', () => {
+      const description = [
+        'In this video we build a compiler from scratch.',
+        '',
+        '0:00 Intro',
+        '(1:35) - Parsing the tokens',
+        '[3:25] Code generation',
+        'Wrap-up: 1:02:03',
+        '',
+        'Follow me for more!'
+      ].join('\n');
+
+      expect(ChapterDetector.parseDescriptionChapters(description, 4000)).toEqual([
+        { title: 'Intro', start: 0, end: 95, source: 'description' },
+        { title: 'Parsing the tokens', start: 95, end: 205, source: 'description' },
+        { title: 'Code generation', start: 205, end: 3723, source: 'description' },
+        { title: 'Wrap-up', start: 3723, end: 4000, source: 'description' }
+      ]);
+    });
+
+    it('should start the list at 0:00 and end it at the first line without a timestamp', () => {
+      const description = 'Sponsored segment at 2:10\n0:00 Intro\n0:30 Lexing\n1:00 Parsing\nLinks:\n5:00 Not a chapter';
+
+      expect(ChapterDetector.parseDescriptionChapters(description, 360).map(chapter => chapter.title))
+        .toEqual(['Intro', 'Lexing', 'Parsing']);
+    });
+
+    it('should reject lists YouTube would not show', () => {
+      expect(ChapterDetector.parseDescriptionChapters('0:00 Intro\n1:00 Parsing', 360)).toEqual([]);
+      expect(ChapterDetector.parseDescriptionChapters('0:00 Intro\n0:05 Lexing\n1:00 Parsing', 360)).toEqual([]);
+      expect(ChapterDetector.parseDescriptionChapters('0:00 Intro\n1:00 Lexing\n2:00 Parsing', 90)).toEqual([]);
+      expect(ChapterDetector.parseDescriptionChapters('0:10 Intro\n1:00 Lexing\n2:00 Parsing', 360)).toEqual([]);
+    });
+  });
+
+  describe('detectChapters', () => {
+    it('should find the topic shifts and title chapters by their words', () => {
+      const chapters = ChapterDetector.detectChapters(createTranscript());
+
+      expect(chapters.map(chapter => [chapter.start, chapter.end])).toEqual([[0, 120], [120, 240], [240, 360]]);
+      expect(chapters.every(chapter => chapter.source === 'transcript')).toBe(true);
+      expect(chapters[0].title).toMatch(/lexer|token|character/i);
+      expect(chapters[1].title).toMatch(/parser|syntax|grammar/i);
+      expect(chapters[2].title).toMatch(/assembly|machine|register/i);
+    });
+
+    it('should respect the minimum chapter duration and chapter limit', () => {
+      expect(ChapterDetector.detectChapters(createTranscript(), { minChapterDuration: 130 })).toEqual([]);
+      expect(ChapterDetector.detectChapters(createTranscript(), { maxChapters: 2 }).map(chapter => chapter.start)).toEqual([0, 240]);
+    });
+
+    it('should return no chapters without a topic shift', () => {
+      const transcript = createTranscript();
+      const oneTopic = { ...transcript, segments: transcript.segments.map((segment, index) => ({ ...segment, text: topicSentences[0][index % 4] })) };
+
+      expect(ChapterDetector.detectChapters(oneTopic)).toEqual([]);
+      expect(ChapterDetector.detectChapters({ ...transcript, segments: transcript.segments.slice(0, 10) })).toEqual([]);
+    });
+  });
+
+  describe('identifyChapters', () => {
+    it('should prefer the chapters in the description', () => {
+      const chapters = ChapterDetector.identifyChapters(createTranscript(), '0:00 Welcome\n1:00 Tokens\n4:00 Output');
+
+      expect(chapters.map(chapter => chapter.title)).toEqual(['Welcome', 'Tokens', 'Output']);
+      expect(chapters[2].end).toBe(360);
+    });
+
+    it('should detect chapters when the description has none', () => {
+      expect(ChapterDetector.identifyChapters(createTranscript(), 'Just a video').map(chapter => chapter.start)).toEqual([0, 120, 240]);
+    });
+  });
+
+  describe('formatChapterList', () => {
+    it('should write one line per chapter', () => {
+      expect(ChapterDetector.formatChapterList([
+        { start: 0, title: 'Intro' },
+        { start: 95, title: 'Parsing' },
+        { start: 3723, title: 'Wrap-up' }
+      ])).toBe('0:00 Intro\n1:35 Parsing\n1:02:03 Wrap-up');
+    });
+  });
+});
@@ -0,0 +1,268 @@
+import { ChunkedArticleGenerator, ChunkProgress } from '../chunked-article-generator';
+import { AIArticleGenerator } from '../ai-article-generator';
+import { LLMProviderRegistry, EchoProvider, LLMCompletionRequest } from '../llm-providers';
+import { ContentAnalysis, VideoMetadata, Transcript, TranscriptSegment } from '@/types';
+
+describe('ChunkedArticleGenerator', () => {
+  const mockVideoMetadata: VideoMetadata = {
+    id: 'long-video-id',
+    title: 'Three Hour Conference',
+    description: 'A long conference recording',
+    duration: 10800,
+    thumbnailUrl: 'https://example.com/thumb.jpg',
+    channelName: 'Conf Channel',
+    publishDate: new Date('2024-01-01'),
+    viewCount: 5000
+  };
+
+  const mockAnalysis: ContentAnalysis = {
+    topics: [{ name: 'Conference', relevance: 0.9, timeRanges: [{ start: 0, end: 10800 }] }],
+    keyPoints: [{ text: 'Important keynote announcement', importance: 0.9, timestamp: 60, category: 'Announcement' }],
+    summary: 'A long conference.',
+    suggestedStructure: [],
+    sentiment: 'positive'
+  };
+
+  // 200 segments of 40 words each, 30 seconds apart (~8000 words)
+  const createLongTranscript = (segmentCount = 200): Transcript => {
+    const segments: TranscriptSegment[] = [];
+    for (let i = 0; i < segmentCount; i++) {
+      segments.push({
+        text: `Segment ${i} discusses the conference topic in detail. `.repeat(5).trim(),
+        startTime: i * 30,
+        endTime: i * 30 + 28,
+        confidence: 1
+      });
+    }
+    return { segments, language: 'en', confidence: 1, duration: segmentCount * 30 };
+  };
+
+  const articleJson = JSON.stringify({
+    title: 'Composed Title',
+    introduction: 'Composed introduction',
+    sections: [{ heading: 'Part One', content: 'Composed content' }],
+    conclusion: 'Composed conclusion',
+    tags: ['conference']
+  });
+
+  const options = {
+    length: 'medium' as const,
+    tone: 'professional' as const,
+    format: 'markdown' as const,
+    provider: 'echo',
+    generationMode: 'chunked' as const,
+    contextTokenBudget: 2048
+  };
+
+  let consoleLogSpy: jest.SpyInstance;
+  let consoleWarnSpy: jest.SpyInstance;
+  let consoleErrorSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    LLMProviderRegistry.reset();
+    consoleLogSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleLogSpy.mockRestore();
+    consoleWarnSpy.mockRestore();
+    consoleErrorSpy.mockRestore();
+  });
+
+  describe('planChunks', () => {
+    it('should split a long transcript into ordered chunks within the budget', () => {
+      const transcript = createLongTranscript();
+      const chunks = ChunkedArticleGenerator.planChunks(transcript, options);
+
+      expect(chunks.length).toBeGreaterThan(1);
+      chunks.forEach((chunk, i) => {
+        expect(chunk.index).toBe(i);
+        expect(chunk.wordCount).toBeLessThanOrEqual(1000);
+        if (i > 0) {
+          expect(chunk.startTime).toBeGreaterThanOrEqual(chunks[i - 1].endTime);
+        }
+      });
+
+      const totalSegments = chunks.reduce((sum, chunk) => sum + chunk.segments.length, 0);
+      expect(totalSegments).toBeGreaterThan(0);
+      expect(chunks[0].startTime).toBe(0);
+      expect(chunks[chunks.length - 1].endTime).toBe(transcript.segments[199].endTime);
+    });
+
+    it('should produce fewer chunks for a larger context budget', () => {
+      const transcript = createLongTranscript();
+      const small = ChunkedArticleGenerator.planChunks(transcript, { ...options, contextTokenBudget: 2048 });
+      const large = ChunkedArticleGenerator.planChunks(transcript, { ...options, contextTokenBudget: 16384 });
+
+      expect(large.length).toBeLessThan(small.length);
+    });
+
+    it('should keep a short transcript in a single chunk', () => {
+      const chunks = ChunkedArticleGenerator.planChunks(createLongTranscript(3), options);
+
+      expect(chunks).toHaveLength(1);
+    });
+
+    it('should leave out the segments said during sponsor messages', () => {
+      const transcript = createLongTranscript(10);
+      const chunks = ChunkedArticleGenerator.planChunks(
+        transcript,
+        options,
+        'This video is sponsored by Brilliant (1:00 - 2:00)'
+      );
+
+      const text = chunks.flatMap(chunk => chunk.segments.map(segment => segment.text)).join(' ');
+      expect(text).toContain('Segment 1 ');
+      expect(text).not.toContain('Segment 2 ');
+      expect(text).not.toContain('Segment 3 ');
+      expect(text).toContain('Segment 4 ');
+    });
+  });
+
+  describe('generateArticle', () => {
+    it('should summarize every chunk and compose the article from the summaries', async () => {
+      const requests: LLMCompletionRequest[] = [];
+      LLMProviderRegistry.register(new EchoProvider(request => {
+        requests.push(request);
+        if (request.prompt.startsWith('You are summarizing part')) {
+          return JSON.stringify({
+            summary: `Summary ${requests.length}`,
+            keyPoints: [{ text: 'A point', timestamp: '0:30' }]
+          });
+        }
+        return articleJson;
+      }));
+
+      const transcript = createLongTranscript();
+      const chunks = ChunkedArticleGenerator.planChunks(transcript, options);
+      const progress: ChunkProgress[] = [];
+
+      const article = await ChunkedArticleGenerator.generateArticle(
+        mockAnalysis,
+        mockVideoMetadata,
+        transcript,
+        options,
+        update => progress.push(update)
+      );
+
+      expect(article.title).toBe('Composed Title');
+
+      const summarizePrompts = requests.filter(r => r.prompt.startsWith('You are summarizing part'));
+      expect(summarizePrompts).toHaveLength(chunks.length);
+      expect(summarizePrompts[0].prompt).toContain(`part 1 of ${chunks.length}`);
+
+      const composePrompt = requests[requests.length - 1].prompt;
+      expect(composePrompt).toContain('Create a blog article about: Three Hour Conference');
+      expect(composePrompt).toContain('Summary 1');
+
+      const summarizeUpdates = progress.filter(p => p.phase === 'summarize');
+      expect(summarizeUpdates.map(p => p.completed)).toEqual(chunks.map((_, i) => i + 1));
+      expect(progress[progress.length - 1].phase).toBe('compose');
+    });
+
+    it('should fall back to extractive summaries when chunk summarization fails', async () => {
+      LLMProviderRegistry.register(new EchoProvider(request => {
+        if (request.prompt.startsWith('You are summarizing part')) {
+          return 'not json';
+        }
+        return articleJson;
+      }));
+
+      const transcript = createLongTranscript(20);
+      const chunks = ChunkedArticleGenerator.planChunks(transcript, options);
+      const summaries = await Promise.all(
+        chunks.map(chunk => ChunkedArticleGenerator.summarizeChunk(chunk, chunks.length, mockVideoMetadata, options))
+      );
+
+      summaries.forEach(summary => {
+        expect(summary.method).toBe('extractive');
+        expect(summary.summary.length).toBeGreaterThan(0);
+      });
+    });
+
+    it('should clamp key point timestamps into the chunk span', async () => {
+      LLMProviderRegistry.register(new EchoProvider(JSON.stringify({
+        summary: 'Summary',
+        keyPoints: [{ text: 'Too late', timestamp: '9:59:59' }, { text: 'Bad', timestamp: 'soon' }]
+      })));
+
+      const [chunk] = ChunkedArticleGenerator.planChunks(createLongTranscript(3), options);
+      const summary = await ChunkedArticleGenerator.summarizeChunk(chunk, 1, mockVideoMetadata, options);
+
+      expect(summary.method).toBe('ai');
+      expect(summary.keyPoints[0].timestamp).toBe(chunk.endTime);
+      expect(summary.keyPoints[1].timestamp).toBe(chunk.startTime);
+    });
+
+    it('should be used by AIArticleGenerator in chunked mode', async () => {
+      const prompts: string[] = [];
+      LLMProviderRegistry.register(new EchoProvider(request => {
+        prompts.push(request.prompt);
+        return request.prompt.startsWith('You are summarizing part')
+          ? JSON.stringify({ summary: 'Part summary', keyPoints: [] })
+          : articleJson;
+      }));
+
+      const article = await AIArticleGenerator.generateArticle(
+        mockAnalysis,
+        mockVideoMetadata,
+        createLongTranscript(),
+        options
+      );
+
+      expect(article.title).toBe('Composed Title');
+      expect(prompts.length).toBeGreaterThan(2);
+    });
+  });
+
+  describe('composeArticle', () => {
+    it('should condense summaries that exceed the context budget', async () => {
+      const prompts: string[] = [];
+      LLMProviderRegistry.register(new EchoProvider(request => {
+        prompts.push(request.prompt);
+        return request.prompt.startsWith('The following are consecutive part summaries')
+          ? JSON.stringify({ summary: 'Condensed', keyPoints: [] })
+          : articleJson;
+      }));
+
+      const summaries = Array.from({ length: 40 }, (_, i) => ({
+        index: i,
+        startTime: i * 300,
+        endTime: i * 300 + 299,
+        summary: 'A fairly long summary sentence about this part of the conference. '.repeat(6),
+        keyPoints: [],
+        method: 'ai' as const
+      }));
+
+      const article = await ChunkedArticleGenerator.composeArticle(
+        summaries,
+        mockAnalysis,
+        mockVideoMetadata,
+        createLongTranscript(10),
+        { ...options, maxTokens: 500 }
+      );
+
+      expect(article.title).toBe('Composed Title');
+      expect(prompts.some(p => p.startsWith('The following are consecutive part summaries'))).toBe(true);
+      expect(ChunkedArticleGenerator.estimateTokens(prompts[prompts.length - 1])).toBeLessThan(2048);
+    });
+
+    it('should fall back to the template article when composition fails', async () => {
+      LLMProviderRegistry.register(new EchoProvider(() => {
+        throw new Error('provider down');
+      }));
+
+      const article = await ChunkedArticleGenerator.composeArticle(
+        [{ index: 0, startTime: 0, endTime: 60, summary: 'Summary', keyPoints: [], method: 'ai' }],
+        mockAnalysis,
+        mockVideoMetadata,
+        createLongTranscript(3),
+        options
+      );
+
+      expect(article.tags).toContain('video-summary');
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { CitationLinker } from '../citation-linker';
+import { Article, Transcript } from '@/types';
+
+describe('CitationLinker', () => {
+  const transcript: Transcript = {
+    segments: [
+      { text: 'Welcome back to the channel everyone.', startTime: 0, endTime: 5, confidence: 1 },
+      { text: 'Sourdough needs a lively starter fed with flour and water.', startTime: 5, endTime: 20, confidence: 1 },
+      { text: 'Feed the starter twice a day until it doubles.', startTime: 20, endTime: 35, confidence: 1 },
+      { text: 'Shaping the dough builds surface tension for the oven.', startTime: 95, endTime: 110, confidence: 1 },
+      { text: 'Bake the loaves in a preheated dutch oven.', startTime: 110, endTime: 125, confidence: 1 }
+    ],
+    language: 'en',
+    confidence: 1,
+    duration: 125
+  };
+
+  const article = {
+    title: 'Sourdough at Home',
+    introduction: 'Intro',
+    sections: [
+      {
+        heading: 'The Starter',
+        content: 'A lively starter is fed with flour and water.\n\nFeeding the starter twice daily makes it double.',
+        subsections: [{ heading: 'Baking', content: 'Bake the shaped loaves in a preheated dutch oven.' }]
+      },
+      { heading: 'Wrap Up', content: 'Thanks for reading!' }
+    ],
+    conclusion: 'Outro',
+    tags: [],
+    metadata: { sourceVideo: { id: 'abc' } }
+  } as unknown as Article;
+
+  it('should cite the segments each paragraph draws from, in video order', () => {
+    const cited = CitationLinker.attachCitations(article, transcript);
+
+    expect(cited.sections[0].citations).toEqual([
+      { paragraphIndex: 0, startTime: 5, endTime: 20 },
+      { paragraphIndex: 1, startTime: 20, endTime: 35 }
+    ]);
+    expect(cited.sections[0].subsections?.[0].citations).toEqual([
+      { paragraphIndex: 0, startTime: 110, endTime: 125 }
+    ]);
+    expect(cited.sections[1].citations).toEqual([]);
+  });
+
+  it('should not change the section text', () => {
+    const cited = CitationLinker.attachCitations(article, transcript);
+
+    expect(cited.sections[0].content).toBe(article.sections[0].content);
+    expect(article.sections[0].citations).toBeUndefined();
+  });
+
+  it('should keep at most a few of the best matches per paragraph', () => {
+    const repeated = Array.from({ length: 6 }, (_, i) => ({
+      text: i === 4 ? 'starter flour water starter' : 'starter flour',
+      startTime: i * 10,
+      endTime: i * 10 + 10,
+      confidence: 1
+    }));
+
+    const sources = CitationLinker.findSources('The starter needs flour and water.', repeated);
+
+    expect(sources).toHaveLength(CitationLinker.MAX_CITATIONS_PER_PARAGRAPH);
+    expect(sources.map(segment => segment.startTime)).toEqual([0, 10, 40]);
+  });
+
+  it('should split paragraphs on blank lines', () => {
+    expect(CitationLinker.splitParagraphs('One\n\n\nTwo\n  \nThree\nstill three')).toEqual(['One', 'Two', 'Three\nstill three']);
+  });
+
+  it('should build timestamped video links', () => {
+    expect(CitationLinker.getTimestampUrl('dQw4w9WgXcQ', 123.9)).toBe('https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=123s');
+  });
+});
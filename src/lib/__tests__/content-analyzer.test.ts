@@ -38,6 +38,44 @@ describe('ContentAnalyzer', () => {
       expect(['positive', 'neutral', 'negative']).toContain(analysis.sentiment);
     });
 
+    it('should use the chapters from the video description to structure the article', () => {
+      const transcript = createTestTranscript([
+        { text: 'Welcome to this tutorial about machine learning algorithms', startTime: 0, endTime: 20 },
+        { text: 'Machine learning is a powerful technology for data analysis', startTime: 20, endTime: 40 },
+        { text: 'Today we will discuss neural networks and deep learning', startTime: 40, endTime: 60 },
+        { text: 'Neural networks are fundamental to modern artificial intelligence', startTime: 60, endTime: 80 }
+      ]);
+
+      const analysis = ContentAnalyzer.analyzeContent(transcript, {
+        videoDescription: 'Chapters:\n0:00 Intro\n0:20 Machine learning\n0:40 Neural networks'
+      });
+
+      expect(analysis.chapters).toEqual([
+        { title: 'Intro', start: 0, end: 20, source: 'description' },
+        { title: 'Machine learning', start: 20, end: 40, source: 'description' },
+        { title: 'Neural networks', start: 40, end: 80, source: 'description' }
+      ]);
+      expect(analysis.suggestedStructure.map(section => section.heading))
+        .toEqual(['Introduction', 'Intro', 'Machine learning', 'Neural networks', 'Conclusion']);
+    });
+
+    it('should leave sponsor segments marked in the description out of the analysis', () => {
+      const transcript = createTestTranscript([
+        { text: 'Welcome to this tutorial about machine learning algorithms', startTime: 0, endTime: 20 },
+        { text: 'Machine learning is a powerful technology for data analysis', startTime: 20, endTime: 40 },
+        { text: 'Get your discount on premium virtual private network subscriptions today', startTime: 40, endTime: 60 },
+        { text: 'Neural networks are fundamental to modern artificial intelligence', startTime: 60, endTime: 80 }
+      ]);
+
+      const analysis = ContentAnalyzer.analyzeContent(transcript, {
+        videoDescription: '0:00 Intro\n0:20 Machine learning\n0:40 Sponsor: NordVPN\n1:00 Neural networks'
+      });
+
+      expect(analysis.chapters?.map(chapter => chapter.title)).toEqual(['Intro', 'Machine learning', 'Neural networks']);
+      expect(analysis.keyPoints.some(point => point.text.includes('discount'))).toBe(false);
+      expect(analysis.summary).not.toContain('discount');
+    });
+
     it('should identify relevant topics from technical content', () => {
       const transcript = createTestTranscript([
         { text: 'Machine learning algorithms are essential for data science', startTime: 0, endTime: 5 },
@@ -0,0 +1,139 @@
+import { DescriptionParser } from '../description-parser';
+import { Article, Transcript } from '@/types';
+
+describe('DescriptionParser', () => {
+  const description = [
+    'We build a tiny compiler from scratch. #compilers #Rust',
+    '',
+    'This video is sponsored by Brilliant. Get 20% off at https://brilliant.org/compilers (2:10 - 3:05)',
+    'Use code COMPILER at checkout.',
+    '',
+    'Resources:',
+    'https://craftinginterpreters.com',
+    '▶ Source code: https://github.com/example/tiny-compiler.',
+    'LLVM (https://en.wikipedia.org/wiki/LLVM_(software)) and the spec https://example.com/spec',
+    '',
+    '0:00 Intro',
+    '1:00 Lexing',
+    '2:10 Sponsor: Brilliant',
+    '3:05 Parsing',
+    '',
+    'Follow me: https://twitter.com/example | https://www.youtube.com/@example?sub_confirmation=1',
+    'More videos: https://www.youtube.com/watch?v=abc123',
+    '#compilers #1'
+  ].join('\n');
+
+  describe('parse', () => {
+    it('should extract chapters, links, hashtags and sponsor blocks', () => {
+      const info = DescriptionParser.parse(description, 400);
+
+      expect(info.chapters.map(chapter => [chapter.title, chapter.start, chapter.end])).toEqual([
+        ['Intro', 0, 60],
+        ['Lexing', 60, 130],
+        ['Sponsor: Brilliant', 130, 185],
+        ['Parsing', 185, 400]
+      ]);
+      expect(info.hashtags).toEqual(['compilers', 'Rust']);
+      expect(info.links).toEqual([
+        { url: 'https://brilliant.org/compilers', label: 'This video is sponsored by Brilliant. Get 20% off at', kind: 'sponsor' },
+        { url: 'https://craftinginterpreters.com', label: 'craftinginterpreters.com', kind: 'resource' },
+        { url: 'https://github.com/example/tiny-compiler', label: 'Source code', kind: 'resource' },
+        { url: 'https://en.wikipedia.org/wiki/LLVM_(software)', label: 'LLVM', kind: 'resource' },
+        { url: 'https://example.com/spec', label: 'and the spec', kind: 'resource' },
+        { url: 'https://twitter.com/example', label: 'Follow me', kind: 'social' },
+        { url: 'https://www.youtube.com/@example?sub_confirmation=1', label: 'youtube.com', kind: 'social' },
+        { url: 'https://www.youtube.com/watch?v=abc123', label: 'More videos', kind: 'resource' }
+      ]);
+      expect(info.sponsorBlocks).toEqual([
+        {
+          text: 'This video is sponsored by Brilliant. Get 20% off at https://brilliant.org/compilers (2:10 - 3:05)\nUse code COMPILER at checkout.',
+          sponsor: 'Brilliant',
+          start: 130,
+          end: 185
+        },
+        { text: 'Sponsor: Brilliant', sponsor: 'Brilliant', start: 130, end: 185 }
+      ]);
+    });
+
+    it('should recognize other sponsor phrasings', () => {
+      const info = DescriptionParser.parse([
+        'Thanks to NordVPN for sponsoring this video! Get 60% off at https://nordvpn.com/foo',
+        '',
+        'This episode is brought to you by Notion: https://notion.so/promo'
+      ].join('\n'));
+
+      expect(info.links.map(link => link.kind)).toEqual(['sponsor', 'sponsor']);
+      expect(info.sponsorBlocks.map(block => block.sponsor)).toEqual(['NordVPN', 'Notion']);
+      expect(DescriptionParser.isSponsorChapter({ title: 'Sponsoring partner' })).toBe(true);
+    });
+
+    it('should return empty lists for a description without any of them', () => {
+      expect(DescriptionParser.parse('Just a video about compilers.')).toEqual({
+        chapters: [],
+        links: [],
+        hashtags: [],
+        sponsorBlocks: []
+      });
+      expect(DescriptionParser.parse().links).toEqual([]);
+    });
+  });
+
+  describe('excludeSponsorSegments', () => {
+    it('should drop the segments said during a sponsor message', () => {
+      const transcript: Transcript = {
+        segments: [0, 120, 140, 170, 200].map(startTime => ({ text: `At ${startTime}`, startTime, endTime: startTime + 10, confidence: 1 })),
+        language: 'en',
+        confidence: 1,
+        duration: 400
+      };
+
+      const content = DescriptionParser.excludeSponsorSegments(transcript, DescriptionParser.parse(description, 400));
+
+      expect(content.segments.map(segment => segment.startTime)).toEqual([0, 120, 200]);
+      expect(DescriptionParser.excludeSponsorSegments(transcript, DescriptionParser.parse(''))).toBe(transcript);
+    });
+  });
+
+  describe('addResourcesSection', () => {
+    const article = {
+      title: 'Building a Compiler',
+      introduction: 'Compilers look like magic.',
+      sections: [{ heading: 'Lexing', content: 'The lexer turns characters into tokens.' }],
+      conclusion: 'Happy hacking!',
+      tags: [],
+      metadata: {}
+    } as unknown as Article;
+
+    it('should list the resource links', () => {
+      const { sections } = DescriptionParser.addResourcesSection(article, description);
+
+      expect(sections).toHaveLength(2);
+      expect(sections[1]).toEqual({
+        heading: 'Resources mentioned',
+        content: [
+          '- [craftinginterpreters.com](https://craftinginterpreters.com)',
+          '- [Source code](https://github.com/example/tiny-compiler)',
+          '- [LLVM](https://en.wikipedia.org/wiki/LLVM_(software))',
+          '- [and the spec](https://example.com/spec)',
+          '- [More videos](https://www.youtube.com/watch?v=abc123)'
+        ].join('\n')
+      });
+    });
+
+    it('should list the resource links in the requested format', () => {
+      const resources = 'Docs & guides: https://example.com/docs?a=1&b=2';
+
+      expect(DescriptionParser.addResourcesSection(article, resources, 'plain').sections[1].content)
+        .toBe('- Docs & guides: https://example.com/docs?a=1&b=2');
+      expect(DescriptionParser.addResourcesSection(article, resources, 'html').sections[1].content)
+        .toBe('<ul>\n<li><a href="https://example.com/docs?a&#x3D;1&amp;b&#x3D;2">Docs &amp; guides</a></li>\n</ul>');
+    });
+
+    it('should leave the article alone without resources or with the section already there', () => {
+      expect(DescriptionParser.addResourcesSection(article, 'Follow me: https://twitter.com/example')).toBe(article);
+
+      const withResources = DescriptionParser.addResourcesSection(article, description);
+      expect(DescriptionParser.addResourcesSection(withResources, description)).toBe(withResources);
+    });
+  });
+});
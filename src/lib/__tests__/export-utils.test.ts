@@ -2,6 +2,10 @@ import {
   exportArticle, 
   copyToClipboard, 
   getAvailableTemplates,
+  exportArticlesAsZip,
+  exportPublishingPackage,
+  getTemplateSource,
+  renderArticleBody,
   ExportFormat 
 } from '../export-utils';
 import { Article, VideoMetadata, ArticleMetadata } from '@/types';
@@ -128,6 +132,102 @@ describe('Export Utils', () => {
       expect(minimalResult.content).not.toContain('*This article was generated from');
     });
 
+    it('should render a custom template with the format partials and helpers', () => {
+      const result = exportArticle(mockArticle, {
+        format: 'markdown',
+        customTemplate: '---\nslug: {{slug title}}\ndate: {{date metadata.sourceVideo.publishDate}}\ntags: [{{join tags}}]\n---\n{{#each sections}}\n{{> section}}\n{{/each}}'
+      });
+
+      expect(result.content).toBe(
+        '---\nslug: test-article-title\ndate: 2023-01-01\ntags: [test, article, export]\n---\n' +
+        '## First Section\n\nContent of the first section.\n\n### Subsection 1.1\n\nContent of subsection 1.1\n\n' +
+        '## Second Section\n\nContent of the second section.\n\n'
+      );
+    });
+
+    it('should escape article text in HTML exports', () => {
+      const result = exportArticle({
+        ...mockArticle,
+        title: 'Tips & <Tricks>',
+        sections: [{ heading: 'A "quoted" heading', content: '<script>alert(1)</script>' }]
+      }, { format: 'html' });
+
+      expect(result.content).toContain('<h1>Tips &amp; &lt;Tricks&gt;</h1>');
+      expect(result.content).toContain('<h2>A &quot;quoted&quot; heading</h2>');
+      expect(result.content).not.toContain('<script>');
+      expect(result.content).not.toContain('alert(1)');
+    });
+
+    it('should convert markdown in HTML section content and strip unsafe markup', () => {
+      const result = exportArticle({
+        ...mockArticle,
+        sections: [{
+          heading: 'Steps',
+          content: 'Use **hooks** and `useState<T>`.\n\n- [Docs](https://react.dev)\n- [Bad](javascript:alert(1))\n\n<img src="x" onerror="alert(1)"><em>kept</em>'
+        }]
+      }, { format: 'html' });
+
+      expect(result.content).toContain('<p>Use <strong>hooks</strong> and <code>useState&lt;T&gt;</code>.</p>');
+      expect(result.content).toContain('<ul><li><a href="https://react.dev">Docs</a></li><li>Bad</li></ul>');
+      expect(result.content).toContain('<p><img src="x"><em>kept</em></p>');
+      expect(result.content).not.toContain('onerror');
+      expect(result.content).not.toContain('javascript:');
+    });
+
+    it('should fall back to the default template for unknown template names', () => {
+      expect(exportArticle(mockArticle, { format: 'plain', template: 'missing' }).content)
+        .toBe(exportArticle(mockArticle, { format: 'plain' }).content);
+    });
+
+    describe('static-site formats', () => {
+      beforeEach(() => {
+        jest.useFakeTimers({ now: new Date('2024-03-05T14:07:09Z') });
+      });
+
+      afterEach(() => {
+        jest.useRealTimers();
+      });
+
+      it('should start with front matter and leave the title out of the body', () => {
+        const result = exportArticle(mockArticle, { format: 'jekyll' });
+
+        expect(result.content.startsWith('---\ntitle: "Test Article Title"\ndate: 2024-03-05T14:07:09Z\n')).toBe(true);
+        expect(result.content).toContain('description: "Test article meta description"\n');
+        expect(result.content).toContain('layout: "post"\n---\n\nThis is a test introduction for the article.\n\n## First Section');
+        expect(result.content).not.toContain('# Test Article Title');
+        expect(result.filename).toBe('2024-03-05-test-article-title.md');
+        expect(result.mimeType).toBe('text/markdown');
+      });
+
+      it('should use TOML front matter for Hugo', () => {
+        const result = exportArticle(mockArticle, { format: 'hugo' });
+
+        expect(result.content).toMatch(/^\+\+\+\ntitle = "Test Article Title"\n[\s\S]*\ndraft = false\n\+\+\+\n/);
+        expect(result.filename).toBe('test-article-title.md');
+      });
+
+      it('should apply the site profile overrides', () => {
+        const result = exportArticle(mockArticle, {
+          format: 'astro',
+          siteProfile: { fields: { date: 'publishedAt', thumbnail: '' }, extra: { draft: true } }
+        });
+
+        expect(result.content).toContain('publishedAt: 2024-03-05T14:07:09Z\n');
+        expect(result.content).not.toContain('heroImage');
+        expect(result.content).toContain('draft: true\n---');
+      });
+
+      it('should escape MDX expressions in Next MDX exports', () => {
+        const result = exportArticle({
+          ...mockArticle,
+          sections: [{ heading: 'Props <T>', content: 'Pass {value} to `useState<T>()`.' }]
+        }, { format: 'next-mdx' });
+
+        expect(result.content).toContain('## Props \\<T>\n\nPass \\{value\\} to `useState<T>()`.');
+        expect(result.filename).toBe('test-article-title.mdx');
+      });
+    });
+
     it('should handle articles with no subsections', () => {
       const simpleArticle: Article = {
         ...mockArticle,
@@ -145,6 +245,53 @@ describe('Export Utils', () => {
       expect(result.content).toContain('Simple content without subsections.');
     });
 
+    describe('citations', () => {
+      const citedArticle: Article = {
+        ...mockArticle,
+        sections: [
+          {
+            heading: 'Cited Section',
+            content: 'First paragraph.\n\nSecond paragraph.',
+            citations: [
+              { paragraphIndex: 0, startTime: 83, endTime: 90 },
+              { paragraphIndex: 1, startTime: 83, endTime: 90 },
+              { paragraphIndex: 1, startTime: 125.6, endTime: 130 }
+            ]
+          }
+        ]
+      };
+
+      it('should render citations as timestamped video links by default', () => {
+        const markdown = exportArticle(citedArticle, { format: 'markdown' }).content;
+        const html = exportArticle(citedArticle, { format: 'html' }).content;
+
+        expect(markdown).toContain('First paragraph. ([1:23](https://www.youtube.com/watch?v=test-video-id&t=83s))');
+        expect(markdown).toContain('Second paragraph. ([1:23](https://www.youtube.com/watch?v=test-video-id&t=83s), [2:05](https://www.youtube.com/watch?v=test-video-id&t=125s))');
+        expect(html).toContain('<a href="https://www.youtube.com/watch?v=test-video-id&amp;t=83s">1:23</a>');
+      });
+
+      it('should render citations as footnotes', () => {
+        const markdown = exportArticle(citedArticle, { format: 'markdown', citationStyle: 'footnotes' }).content;
+        const html = exportArticle(citedArticle, { format: 'html', citationStyle: 'footnotes' }).content;
+
+        expect(markdown).toContain('First paragraph.[^1]');
+        expect(markdown).toContain('Second paragraph.[^1][^2]');
+        expect(markdown).toMatch(/\[\^1\]: \[1:23\]\(https:\/\/www\.youtube\.com\/watch\?v=test-video-id&t=83s\)\n\[\^2\]: \[2:05\]/);
+        expect(markdown.trim().endsWith('[2:05](https://www.youtube.com/watch?v=test-video-id&t=125s)')).toBe(true);
+        expect(html).toContain('Second paragraph.<sup class="citation"><a href="#citation-1">[1]</a></sup><sup class="citation"><a href="#citation-2">[2]</a></sup>');
+        expect(html).toContain('<li id="citation-2"><a href="https://www.youtube.com/watch?v=test-video-id&amp;t=125s">2:05</a></li>');
+      });
+
+      it('should leave the text untouched when citations are disabled', () => {
+        const markdown = exportArticle(citedArticle, { format: 'markdown', citationStyle: 'none' }).content;
+        const plain = exportArticle(citedArticle, { format: 'plain' }).content;
+
+        expect(markdown).toContain('First paragraph.\n\nSecond paragraph.\n\n');
+        expect(markdown).not.toContain('youtube.com/watch?v=test-video-id&t=');
+        expect(plain).not.toContain('youtube.com/watch?v=test-video-id&t=');
+      });
+    });
+
     it('should sanitize filename properly', () => {
       const articleWithSpecialChars: Article = {
         ...mockArticle,
@@ -158,8 +305,152 @@ describe('Export Utils', () => {
 
     it('should throw error for unsupported format', () => {
       expect(() => {
-        exportArticle(mockArticle, { format: 'pdf' as ExportFormat });
-      }).toThrow('Unsupported export format: pdf');
+        exportArticle(mockArticle, { format: 'docx' as ExportFormat });
+      }).toThrow('Unsupported export format: docx');
+    });
+
+    it('should direct PDF exports to the server-side renderer', () => {
+      expect(() => {
+        exportArticle(mockArticle, { format: 'pdf' });
+      }).toThrow('PDF export is rendered on the server');
+    });
+  });
+
+  describe('exportPublishingPackage', () => {
+    const secondArticle: Article = {
+      ...mockArticle,
+      title: 'Second ]]> Article',
+      tags: ['Export', 'wordpress'],
+      metadata: { ...mockArticleMetadata, sourceVideo: { ...mockVideoMetadata, thumbnailUrl: '' } }
+    };
+
+    beforeEach(() => {
+      jest.useFakeTimers({ now: new Date('2024-03-05T14:07:09Z') });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should write a WordPress WXR file with tags, excerpt, status and featured image', () => {
+      const result = exportPublishingPackage([mockArticle, secondArticle], { format: 'wordpress' }, 'My Playlist');
+      const xml = result.content as string;
+
+      expect(result.filename).toBe('my-playlist-wordpress.xml');
+      expect(result.mimeType).toBe('application/xml');
+      expect(xml).toContain('<wp:wxr_version>1.2</wp:wxr_version>');
+      expect(xml.match(/<wp:tag>/g)).toHaveLength(4);
+      expect(xml).toContain('<title>Test Article Title</title>');
+      expect(xml).toContain('<excerpt:encoded><![CDATA[Test article meta description]]></excerpt:encoded>');
+      expect(xml).toContain('<wp:post_date>2024-03-05 14:07:09</wp:post_date>');
+      expect(xml).toContain('<wp:status>draft</wp:status>');
+      expect(xml).toContain('<category domain="post_tag" nicename="export"><![CDATA[export]]></category>');
+      expect(xml).toContain('<wp:meta_key>_thumbnail_id</wp:meta_key>\n        <wp:meta_value>2</wp:meta_value>');
+      expect(xml).toContain('<wp:attachment_url>https://example.com/thumb.jpg</wp:attachment_url>');
+      expect(xml).toContain('<title>Second ]]&gt; Article</title>');
+      expect(xml.match(/<wp:post_type>attachment<\/wp:post_type>/g)).toHaveLength(1);
+      expect(xml).toContain('<content:encoded><![CDATA[<p>This is a test introduction for the article.</p>');
+    });
+
+    it('should split CDATA terminators in post fields', () => {
+      const xml = exportArticle({
+        ...mockArticle,
+        metadata: { ...mockArticleMetadata, metaDescription: 'Arrays like a[b[0]]> explained' }
+      }, { format: 'wordpress', publishStatus: 'published' }).content;
+
+      expect(xml).toContain('<excerpt:encoded><![CDATA[Arrays like a[b[0]]]]><![CDATA[> explained]]></excerpt:encoded>');
+      expect(xml).toContain('<wp:status>publish</wp:status>');
+    });
+
+    it('should write a Ghost import file with shared tags', () => {
+      const result = exportPublishingPackage([mockArticle, secondArticle], {
+        format: 'ghost',
+        publishStatus: 'published'
+      }, 'My Playlist');
+      const { meta, data } = JSON.parse(result.content as string).db[0];
+
+      expect(result.filename).toBe('my-playlist-ghost.json');
+      expect(meta.exported_on).toBe(Date.parse('2024-03-05T14:07:09Z'));
+      expect(data.posts[0]).toMatchObject({
+        id: 1,
+        title: 'Test Article Title',
+        slug: 'test-article-title',
+        custom_excerpt: 'Test article meta description',
+        feature_image: 'https://example.com/thumb.jpg',
+        status: 'published',
+        published_at: '2024-03-05T14:07:09.000Z'
+      });
+      expect(data.posts[1].feature_image).toBeNull();
+      expect(data.tags.map((tag: { slug: string }) => tag.slug)).toEqual(['test', 'article', 'export', 'wordpress']);
+      expect(data.posts_tags.filter((link: { post_id: number }) => link.post_id === 2)).toEqual([
+        { post_id: 2, tag_id: 3, sort_order: 0 },
+        { post_id: 2, tag_id: 4, sort_order: 1 }
+      ]);
+    });
+
+    it('should shorten excerpts longer than Ghost allows', () => {
+      const longArticle = { ...mockArticle, metadata: { ...mockArticleMetadata, metaDescription: 'word '.repeat(80) } };
+      const post = JSON.parse(exportArticle(longArticle, { format: 'ghost' }).content).db[0].data.posts[0];
+
+      expect(post.custom_excerpt.length).toBeLessThanOrEqual(300);
+      expect(post.custom_excerpt.endsWith('word…')).toBe(true);
+      expect(post.status).toBe('draft');
+      expect(post.published_at).toBeNull();
+    });
+
+    it('should write Medium HTML with one article per post', () => {
+      const result = exportPublishingPackage([mockArticle, { ...secondArticle, title: '<b>Second</b>' }], { format: 'medium' });
+      const html = result.content as string;
+
+      expect(result.filename).toBe('articles-medium.html');
+      expect(html.match(/<article>/g)).toHaveLength(2);
+      expect(html).toContain('<h1>Test Article Title</h1>\n<p><em>Test article meta description</em></p>\n<figure><img src="https://example.com/thumb.jpg" alt="Test Article Title"></figure>');
+      expect(html).toContain('<h1>&lt;b&gt;Second&lt;/b&gt;</h1>');
+      expect(html).toContain('<meta name="keywords" content="test, article, export, wordpress">');
+      expect(html).toContain('<meta name="status" content="draft">');
+    });
+
+    it('should reject other formats and empty batches', () => {
+      expect(() => exportPublishingPackage([mockArticle], { format: 'markdown' })).toThrow('Not a publishing format: markdown');
+      expect(() => exportPublishingPackage([], { format: 'ghost' })).toThrow('No articles to export');
+      expect(() => exportArticlesAsZip([mockArticle], { format: 'ghost' })).toThrow('bundle a batch into one file');
+      expect(() => getTemplateSource('medium')).toThrow('have no template');
+    });
+  });
+
+  describe('renderArticleBody', () => {
+    it('should keep the indentation of code blocks', () => {
+      const article: Article = {
+        ...mockArticle,
+        sections: [{ heading: 'Code', content: '```\nfunction f() {\n    return 1;\n}\n```' }]
+      };
+
+      expect(renderArticleBody(article, 'html')).toContain('<h2>Code</h2>\n<pre><code>function f() {\n    return 1;\n}');
+      expect(renderArticleBody(article, 'markdown')).toContain('function f() {\n    return 1;\n}');
+    });
+  });
+
+  describe('exportArticlesAsZip', () => {
+    it('should bundle articles with an index into a ZIP archive', () => {
+      const result = exportArticlesAsZip(
+        [mockArticle, { ...mockArticle, title: 'Test Article Title' }],
+        { format: 'markdown' },
+        'My Playlist'
+      );
+
+      expect(result.filename).toBe('my-playlist.zip');
+      expect(result.mimeType).toBe('application/zip');
+      expect(Array.from(result.content.subarray(0, 4))).toEqual([0x50, 0x4b, 0x03, 0x04]);
+      const text = new TextDecoder().decode(result.content);
+      expect(text).toContain('index.md');
+      expect(text).toContain('1-test-article-title.md');
+      expect(text).toContain('2-test-article-title.md');
+      expect(text).toContain('# My Playlist');
+    });
+
+    it('should reject PDF and empty batches', () => {
+      expect(() => exportArticlesAsZip([mockArticle], { format: 'pdf' })).toThrow('cannot be bundled into a ZIP archive');
+      expect(() => exportArticlesAsZip([], { format: 'markdown' })).toThrow('No articles to export');
     });
   });
 
@@ -181,6 +472,28 @@ describe('Export Utils', () => {
       expect(result).toBe(true);
     });
 
+    it('should copy sanitized HTML as rich text alongside the plain content', async () => {
+      const OriginalBlob = global.Blob;
+      class MockBlob {
+        constructor(public parts: string[], public options: BlobPropertyBag) {}
+      }
+      const mockWrite = jest.fn(() => Promise.resolve());
+      Object.assign(navigator, { clipboard: { write: mockWrite, writeText: jest.fn() } });
+      Object.assign(window, { isSecureContext: true });
+      Object.assign(global, { Blob: MockBlob, ClipboardItem: jest.fn((items: Record<string, MockBlob>) => items) });
+
+      try {
+        const result = await copyToClipboard('<p>Article</p>', '<p onclick="steal()">Article</p><script>alert(1)</script>');
+        const [[[item]]] = mockWrite.mock.calls as unknown as Array<[Array<Record<string, MockBlob>>]>;
+
+        expect(result).toBe(true);
+        expect(item['text/html'].parts).toEqual(['<p>Article</p>']);
+        expect(item['text/plain'].parts).toEqual(['<p>Article</p>']);
+      } finally {
+        Object.assign(global, { Blob: OriginalBlob, ClipboardItem: undefined });
+      }
+    });
+
     it('should fallback to execCommand when clipboard API is not available', async () => {
       Object.assign(navigator, { clipboard: undefined });
       const mockExecCommand = jest.fn(() => true);
@@ -241,8 +554,12 @@ describe('Export Utils', () => {
       expect(templates).toEqual(['default']);
     });
 
+    it('should return the default template for PDF', () => {
+      expect(getAvailableTemplates('pdf')).toEqual(['default']);
+    });
+
     it('should return empty array for unsupported format', () => {
-      const templates = getAvailableTemplates('pdf' as ExportFormat);
+      const templates = getAvailableTemplates('docx' as ExportFormat);
       expect(templates).toEqual([]);
     });
   });
@@ -0,0 +1,80 @@
+import { GroundingChecker } from '../grounding-checker';
+import { Article, Transcript } from '@/types';
+
+describe('GroundingChecker', () => {
+  const transcript: Transcript = {
+    segments: [
+      { text: 'Today we are building a weather dashboard', startTime: 0, endTime: 4, confidence: 1 },
+      { text: 'with React and the OpenWeather API.', startTime: 4, endTime: 8, confidence: 1 },
+      { text: 'First install the dependencies with npm.', startTime: 30, endTime: 35, confidence: 1 },
+      { text: 'The free API tier allows sixty requests per minute.', startTime: 60, endTime: 66, confidence: 1 },
+      { text: 'Cache responses so the dashboard stays fast.', startTime: 90, endTime: 95, confidence: 1 }
+    ],
+    language: 'en',
+    confidence: 1,
+    duration: 95
+  };
+
+  const article = {
+    title: 'Weather Dashboard',
+    introduction: 'We are building a weather dashboard with React and the OpenWeather API. Let us begin.',
+    sections: [
+      {
+        heading: 'Limits',
+        content: 'The free API tier allows sixty requests per minute.\n\nThe paid tier was launched in 2019 by a Finnish startup.',
+        subsections: [{ heading: 'Caching', content: 'Cache the responses so your dashboard stays fast.' }]
+      }
+    ],
+    conclusion: 'Quantum tunnelling explains migratory bird navigation.',
+    tags: [],
+    metadata: { sourceVideo: { id: 'abc' } }
+  } as unknown as Article;
+
+  it('should flag sentences with no supporting transcript passage', () => {
+    const report = GroundingChecker.checkArticle(article, transcript);
+
+    expect(report.unsupported.map(claim => claim.sentence)).toEqual([
+      'The paid tier was launched in 2019 by a Finnish startup.',
+      'Quantum tunnelling explains migratory bird navigation.'
+    ]);
+    expect(report.unsupported.map(claim => claim.location)).toEqual(['sections.0', 'conclusion']);
+  });
+
+  it('should match sentences that span caption segments and locate subsections', () => {
+    const report = GroundingChecker.checkArticle(article, transcript);
+    const intro = report.sentences.find(sentence => sentence.location === 'introduction');
+    const caching = report.sentences.find(sentence => sentence.location === 'sections.0.subsections.0');
+
+    expect(intro).toMatchObject({ supported: true, closestExcerpt: { startTime: 0 } });
+    expect(intro?.closestExcerpt?.text).toContain('OpenWeather API');
+    expect(caching?.supported).toBe(true);
+  });
+
+  it('should point unsupported claims at the closest transcript excerpt', () => {
+    const report = GroundingChecker.checkArticle(article, transcript);
+
+    expect(report.unsupported[0].closestExcerpt?.text).toContain('The free API tier allows sixty requests per minute.');
+    expect(report.unsupported[0].score).toBeLessThan(GroundingChecker.SUPPORT_THRESHOLD);
+  });
+
+  it('should skip sentences too short to carry a claim', () => {
+    const report = GroundingChecker.checkArticle(article, transcript);
+
+    expect(report.sentences.map(sentence => sentence.sentence)).not.toContain('Let us begin.');
+  });
+
+  it('should score the article and record it in the metadata', () => {
+    const report = GroundingChecker.checkArticle(article, transcript);
+    const annotated = GroundingChecker.annotate(article, transcript);
+
+    expect(report.sentences).toHaveLength(5);
+    expect(report.score).toBe(0.6);
+    expect(annotated.metadata.groundingScore).toBe(0.6);
+    expect(annotated.metadata.sourceVideo).toBe(article.metadata.sourceVideo);
+  });
+
+  it('should split text into verbatim sentences', () => {
+    expect(GroundingChecker.splitSentences('It costs $3.50 a month. Really?\n- A list item\n\nDone!'))
+      .toEqual(['It costs $3.50 a month.', 'Really?', '- A list item', 'Done!']);
+  });
+});
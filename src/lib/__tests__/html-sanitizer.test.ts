@@ -0,0 +1,110 @@
+import { decodeHtmlEntities, escapeHtml, isSafeUrl, markdownToHtml, renderSafeHtml, sanitizeHtml } from '../html-sanitizer';
+
+describe('html-sanitizer', () => {
+  describe('escapeHtml', () => {
+    it('should escape markup and attribute characters', () => {
+      expect(escapeHtml('<a href="x?a=1&b=2">`')).toBe('&lt;a href&#x3D;&quot;x?a&#x3D;1&amp;b&#x3D;2&quot;&gt;&#x60;');
+    });
+  });
+
+  describe('decodeHtmlEntities', () => {
+    it('should decode named and numeric references', () => {
+      expect(decodeHtmlEntities('&lt;&#106;&#x61;&amp;&unknown;')).toBe('<ja&&unknown;');
+    });
+  });
+
+  describe('isSafeUrl', () => {
+    it('should allow web, mail and relative URLs', () => {
+      expect(isSafeUrl('https://example.com')).toBe(true);
+      expect(isSafeUrl('mailto:team@example.com')).toBe(true);
+      expect(isSafeUrl('#citation-1')).toBe(true);
+      expect(isSafeUrl('/posts/1')).toBe(true);
+    });
+
+    it('should reject script and data URLs, including obfuscated ones', () => {
+      expect(isSafeUrl('javascript:alert(1)')).toBe(false);
+      expect(isSafeUrl(' JaVa\tScRiPt:alert(1)')).toBe(false);
+      expect(isSafeUrl('&#106;avascript:alert(1)')).toBe(false);
+      expect(isSafeUrl('data:text/html,<script>')).toBe(false);
+    });
+  });
+
+  describe('sanitizeHtml', () => {
+    it('should keep allowed tags and attributes', () => {
+      const html = '<p class="lead">Hi <a href="https://example.com" title="Site" target="_blank">there</a></p>';
+
+      expect(sanitizeHtml(html)).toBe('<p class="lead">Hi <a href="https://example.com" title="Site">there</a></p>');
+    });
+
+    it('should remove scripts, styles and event handlers', () => {
+      const html = '<div onclick="steal()">Text<script>alert("x")</script><style>p{}</style></div><iframe src="https://evil.test"></iframe>';
+
+      expect(sanitizeHtml(html)).toBe('<div>Text</div>');
+    });
+
+    it('should unwrap unknown tags and drop comments', () => {
+      expect(sanitizeHtml('<section><custom-tag>Body</custom-tag></section><!-- note -->')).toBe('Body');
+    });
+
+    it('should drop unsafe URLs and malformed ids', () => {
+      const html = '<a href="javascript:alert(1)" id="1 bad">x</a><img src="data:image/png;base64,AA" alt="pic">';
+
+      expect(sanitizeHtml(html)).toBe('<a>x</a><img alt="pic">');
+    });
+
+    it('should escape stray markup characters and keep existing entities', () => {
+      expect(sanitizeHtml('5 < 6 && 7 > 3 &amp; done')).toBe('5 &lt; 6 &amp;&amp; 7 &gt; 3 &amp; done');
+    });
+
+    it('should close unclosed tags and ignore stray closing tags', () => {
+      expect(sanitizeHtml('<ul><li><strong>One</li></em></ul><p>Two')).toBe('<ul><li><strong>One</strong></li></ul><p>Two</p>');
+    });
+
+    it('should keep only the body of full documents', () => {
+      const html = '<!DOCTYPE html><html><head><title>T</title><style>body{}</style></head><body><h1>Title</h1></body></html>';
+
+      expect(sanitizeHtml(html)).toBe('<h1>Title</h1>');
+    });
+  });
+
+  describe('markdownToHtml', () => {
+    it('should convert paragraphs, headings and inline formatting', () => {
+      const markdown = '### Setup\n\nRun **npm install** with _care_ and *speed*,\nthen read [the docs](https://docs.example.com "Docs").';
+
+      expect(markdownToHtml(markdown)).toBe(
+        '<h3>Setup</h3>\n' +
+        '<p>Run <strong>npm install</strong> with <em>care</em> and <em>speed</em>,<br>\n' +
+        'then read <a href="https://docs.example.com" title="Docs">the docs</a>.</p>'
+      );
+    });
+
+    it('should convert lists and block quotes', () => {
+      expect(markdownToHtml('- one\n- two\n  continued')).toBe('<ul><li>one</li><li>two\ncontinued</li></ul>');
+      expect(markdownToHtml('3. three\n4. four')).toBe('<ol start="3"><li>three</li><li>four</li></ol>');
+      expect(markdownToHtml('> quoted **text**')).toBe('<blockquote><p>quoted <strong>text</strong></p></blockquote>');
+    });
+
+    it('should escape code and leave its content unformatted', () => {
+      expect(markdownToHtml('Call `a*b*c<T>` now')).toBe('<p>Call <code>a*b*c&lt;T&gt;</code> now</p>');
+      expect(markdownToHtml('```ts\nconst x = <div>**y**</div>;\n```')).toBe(
+        '<pre><code>const x &#x3D; &lt;div&gt;**y**&lt;/div&gt;;</code></pre>'
+      );
+    });
+
+    it('should not treat underscores inside words as emphasis', () => {
+      expect(markdownToHtml('use snake_case_names')).toBe('<p>use snake_case_names</p>');
+    });
+
+    it('should keep the text of links with unsafe URLs', () => {
+      expect(markdownToHtml('[click](javascript:alert(1))')).toBe('<p>click</p>');
+    });
+  });
+
+  describe('renderSafeHtml', () => {
+    it('should convert markdown and sanitize embedded HTML', () => {
+      const text = 'A **bold** claim <img src=x onerror=alert(1)>\n\n<script>document.cookie</script>- item';
+
+      expect(renderSafeHtml(text)).toBe('<p>A <strong>bold</strong> claim <img src="x"></p>\n<p>- item</p>');
+    });
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * @jest-environment node
+ */
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { JobQueue, JobQueueError } from '../job-queue';
+import { FileJobStore, ProcessingJob } from '../job-store';
+import { ProcessingPipeline, PipelineOptions, PipelineResult } from '../processing-pipeline';
+import { Article, Transcript, VideoMetadata } from '@/types';
+
+describe('JobQueue', () => {
+  let directory: string;
+  let store: FileJobStore;
+
+  const videoMetadata = { id: 'abc', title: 'Video' } as VideoMetadata;
+  const transcript: Transcript = { segments: [], language: 'en', confidence: 1, duration: 0 };
+  const article = { title: 'Article' } as Article;
+
+  /**
+   * Pipeline stub that reports progress and checkpoints, then returns the given result
+   */
+  const pipelineReturning = (
+    result: PipelineResult | ((options: PipelineOptions) => Promise<PipelineResult>)
+  ) => {
+    const calls: PipelineOptions[] = [];
+    const createPipeline = () => ({
+      processVideo: async (url: string, options: PipelineOptions) => {
+        calls.push(options);
+        if (typeof result === 'function') {
+          return result(options);
+        }
+        options.onProgress?.({ stage: 'metadata', progress: 20, message: 'Video metadata extracted successfully' });
+        options.onCheckpoint?.({ videoMetadata });
+        return result;
+      }
+    } as unknown as ProcessingPipeline);
+    return { calls, createPipeline };
+  };
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'jobs-'));
+    store = new FileJobStore(directory);
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should run a job in the background and persist its result', async () => {
+    const { createPipeline } = pipelineReturning({ success: true, article, processingTime: 10 });
+    const queue = new JobQueue(store, { createPipeline });
+
+    const created = await queue.createJob({ url: 'https://youtu.be/abc', baseUrl: 'http://localhost:3000' });
+    expect(created.state).toBe('queued');
+
+    await queue.onIdle();
+
+    const saved = await store.get(created.id);
+    expect(saved).toMatchObject({
+      state: 'completed',
+      status: { stage: 'complete', progress: 100 },
+      result: { success: true, article },
+      checkpoint: { videoMetadata },
+      attempts: 1
+    });
+  });
+
+  it('should record failures and allow retrying from the saved checkpoint', async () => {
+    let attempt = 0;
+    const { calls, createPipeline } = pipelineReturning(async (options) => {
+      attempt++;
+      if (attempt === 1) {
+        options.onCheckpoint?.({ videoMetadata, transcript });
+        return { success: false, error: 'AI service unavailable', processingTime: 5 };
+      }
+      return { success: true, article, processingTime: 5 };
+    });
+    const queue = new JobQueue(store, { createPipeline });
+
+    const { id } = await queue.createJob({ url: 'https://youtu.be/abc', baseUrl: '' });
+    await queue.onIdle();
+    expect(await queue.getJob(id)).toMatchObject({ state: 'failed', error: 'AI service unavailable' });
+
+    await queue.retryJob(id);
+    await queue.onIdle();
+
+    expect(calls[1].checkpoint).toEqual({ videoMetadata, transcript });
+    const job = await queue.getJob(id);
+    expect(job).toMatchObject({ state: 'completed', attempts: 2 });
+    expect(job?.error).toBeUndefined();
+  });
+
+  it('should cancel queued jobs before they start', async () => {
+    let release: () => void = () => undefined;
+    const { calls, createPipeline } = pipelineReturning(() => new Promise(resolve => {
+      release = () => resolve({ success: true, article, processingTime: 1 });
+    }));
+    const queue = new JobQueue(store, { createPipeline, concurrency: 1 });
+
+    const first = await queue.createJob({ url: 'https://youtu.be/one', baseUrl: '' });
+    const second = await queue.createJob({ url: 'https://youtu.be/two', baseUrl: '' });
+
+    const cancelled = await queue.cancelJob(second.id);
+    expect(cancelled.state).toBe('cancelled');
+
+    release();
+    await queue.onIdle();
+
+    expect(calls).toHaveLength(1);
+    expect((await store.get(first.id))?.state).toBe('completed');
+    expect((await store.get(second.id))?.state).toBe('cancelled');
+  });
+
+  it('should abort a running job and discard its result when cancelled', async () => {
+    let release: () => void = () => undefined;
+    const { calls, createPipeline } = pipelineReturning(() => new Promise(resolve => {
+      release = () => resolve({ success: true, article, processingTime: 1 });
+    }));
+    const queue = new JobQueue(store, { createPipeline });
+
+    const { id } = await queue.createJob({ url: 'https://youtu.be/abc', baseUrl: '' });
+    // The pipeline starts once the running state has been written to disk
+    while (calls.length === 0) {
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+    expect(calls[0].signal?.aborted).toBe(false);
+
+    await queue.cancelJob(id);
+    expect(calls[0].signal?.aborted).toBe(true);
+
+    await expect(queue.retryJob(id)).rejects.toThrow('still stopping');
+
+    release();
+    await queue.onIdle();
+
+    const saved = await store.get(id);
+    expect(saved?.state).toBe('cancelled');
+    expect(saved?.status.stage).toBe('cancelled');
+    expect(saved?.result).toBeUndefined();
+  });
+
+  it('should reject invalid state transitions', async () => {
+    const { createPipeline } = pipelineReturning({ success: true, article, processingTime: 1 });
+    const queue = new JobQueue(store, { createPipeline });
+
+    const { id } = await queue.createJob({ url: 'https://youtu.be/abc', baseUrl: '' });
+    await queue.onIdle();
+
+    await expect(queue.cancelJob(id)).rejects.toMatchObject({ statusCode: 409 });
+    await expect(queue.retryJob(id)).rejects.toThrow('Cannot retry a job that is completed');
+    await expect(queue.cancelJob('missing')).rejects.toBeInstanceOf(JobQueueError);
+  });
+
+  it('should resume interrupted jobs from their last checkpoint after a restart', async () => {
+    const interrupted: ProcessingJob = {
+      id: 'interrupted-job',
+      url: 'https://youtu.be/abc',
+      state: 'running',
+      status: { stage: 'analysis', progress: 55, message: 'Analyzing video content...' },
+      baseUrl: 'http://localhost:3000',
+      checkpoint: { videoMetadata, transcript },
+      attempts: 1,
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-01T00:00:00.000Z'
+    };
+    await store.save(interrupted);
+
+    const { calls, createPipeline } = pipelineReturning({ success: true, article, processingTime: 1 });
+    const queue = new JobQueue(store, { createPipeline });
+
+    expect(await queue.resume()).toBe(1);
+    await queue.onIdle();
+
+    expect(calls[0].checkpoint).toEqual({ videoMetadata, transcript });
+    expect(await store.get('interrupted-job')).toMatchObject({ state: 'completed', attempts: 2 });
+  });
+
+  describe('FileJobStore', () => {
+    it('should list jobs newest first and ignore unsafe ids', async () => {
+      const base = {
+        url: 'u', state: 'queued' as const, status: { stage: 'validation' as const, progress: 0, message: '' },
+        baseUrl: '', checkpoint: {}, attempts: 0, updatedAt: ''
+      };
+      await store.save({ ...base, id: 'old', createdAt: '2024-01-01T00:00:00.000Z' });
+      await store.save({ ...base, id: 'new', createdAt: '2024-02-01T00:00:00.000Z' });
+
+      expect((await store.list()).map(job => job.id)).toEqual(['new', 'old']);
+      expect(await store.get('../old')).toBeNull();
+      expect(await new FileJobStore(path.join(directory, 'missing')).list()).toEqual([]);
+    });
+  });
+});
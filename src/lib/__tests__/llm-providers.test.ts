@@ -0,0 +1,247 @@
+/**
+ * @jest-environment node
+ */
+import {
+  LLMProviderRegistry,
+  LLMProviderError,
+  OpenAICompatibleProvider,
+  OpenRouterProvider,
+  OllamaProvider,
+  EchoProvider
+} from '../llm-providers';
+
+// Mock fetch globally
+global.fetch = jest.fn();
+
+describe('LLM providers', () => {
+  const mockFetch = fetch as jest.Mock;
+
+  // A response whose body arrives in the given pieces, split mid-line on purpose
+  const streamResponse = (pieces: string[]) => {
+    const encoder = new TextEncoder();
+    return new Response(new ReadableStream({
+      start(controller) {
+        pieces.forEach(piece => controller.enqueue(encoder.encode(piece)));
+        controller.close();
+      }
+    }));
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    LLMProviderRegistry.reset();
+  });
+
+  describe('OpenAICompatibleProvider', () => {
+    it('should post a chat completion request and return the message content', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ choices: [{ message: { content: 'Hello from the model' } }] })
+      });
+
+      const provider = new OpenAICompatibleProvider({
+        baseUrl: 'http://localhost:8000/v1/',
+        apiKey: 'secret',
+        defaultModel: 'local-model'
+      });
+
+      const result = await provider.complete({ prompt: 'Hi', temperature: 0.2, maxTokens: 50 });
+
+      expect(result).toBe('Hello from the model');
+      expect(mockFetch).toHaveBeenCalledWith(
+        'http://localhost:8000/v1/chat/completions',
+        expect.objectContaining({ method: 'POST' })
+      );
+
+      const [, init] = mockFetch.mock.calls[0];
+      const body = JSON.parse(init.body);
+      expect(init.headers.Authorization).toBe('Bearer secret');
+      expect(body).toEqual(expect.objectContaining({
+        model: 'local-model',
+        temperature: 0.2,
+        max_tokens: 50,
+        messages: [{ role: 'user', content: 'Hi' }]
+      }));
+    });
+
+    it('should throw an LLMProviderError with status on HTTP errors', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 429,
+        text: async () => JSON.stringify({ error: { message: 'Rate limited' } })
+      });
+
+      const provider = new OpenAICompatibleProvider({
+        baseUrl: 'http://localhost:8000/v1',
+        defaultModel: 'local-model'
+      });
+
+      await expect(provider.complete({ prompt: 'Hi' })).rejects.toMatchObject({
+        name: 'LLMProviderError',
+        status: 429,
+        message: expect.stringContaining('Rate limited')
+      });
+    });
+
+    it('should stream tokens when onToken is set', async () => {
+      mockFetch.mockResolvedValueOnce(streamResponse([
+        'data: {"choices":[{"delta":{"role":"assistant"}}]}\n\n',
+        'data: {"choices":[{"delta":{"content":"Hel"}}]}\n\ndata: {"choi',
+        'ces":[{"delta":{"content":"lo"}}]}\n\n',
+        ': keep-alive\n\n',
+        'data: [DONE]\n\n'
+      ]));
+      const tokens: string[] = [];
+
+      const provider = new OpenAICompatibleProvider({ baseUrl: 'http://localhost:8000/v1', defaultModel: 'local-model' });
+      const result = await provider.complete({ prompt: 'Hi', onToken: token => tokens.push(token) });
+
+      expect(result).toBe('Hello');
+      expect(tokens).toEqual(['Hel', 'lo']);
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body).stream).toBe(true);
+    });
+
+    it('should throw errors sent inside the stream', async () => {
+      mockFetch.mockResolvedValueOnce(streamResponse([
+        'data: {"choices":[{"delta":{"content":"Hel"}}]}\n\n',
+        'data: {"error":{"message":"Model overloaded"}}\n\n'
+      ]));
+
+      const provider = new OpenAICompatibleProvider({ baseUrl: 'http://localhost:8000/v1', defaultModel: 'local-model' });
+
+      await expect(provider.complete({ prompt: 'Hi', onToken: () => undefined }))
+        .rejects.toThrow('Model overloaded');
+    });
+
+    it('should reject when no base URL is configured', async () => {
+      const provider = new OpenAICompatibleProvider({ baseUrl: '', defaultModel: 'x' });
+
+      expect(provider.isConfigured()).toBe(false);
+      await expect(provider.complete({ prompt: 'Hi' })).rejects.toBeInstanceOf(LLMProviderError);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('OpenRouterProvider', () => {
+    it('should require an API key', async () => {
+      const provider = new OpenRouterProvider('');
+
+      await expect(provider.complete({ prompt: 'Hi' })).rejects.toThrow('OpenRouter API key not configured');
+    });
+
+    it('should call the OpenRouter endpoint with the default free model', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ choices: [{ message: { content: 'ok' } }] })
+      });
+
+      const provider = new OpenRouterProvider('key');
+      await provider.complete({ prompt: 'Hi' });
+
+      const [url, init] = mockFetch.mock.calls[0];
+      expect(url).toBe('https://openrouter.ai/api/v1/chat/completions');
+      expect(JSON.parse(init.body).model).toBe(OpenRouterProvider.DEFAULT_MODEL);
+      expect(init.headers['X-Title']).toBe('Vid2Blog Article Generator');
+    });
+  });
+
+  describe('OllamaProvider', () => {
+    it('should use the native chat API with non-streaming output', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ message: { role: 'assistant', content: 'ollama says hi' } })
+      });
+
+      const provider = new OllamaProvider('http://ollama:11434', 'mistral');
+      const result = await provider.complete({ prompt: 'Hi', maxTokens: 200 });
+
+      expect(result).toBe('ollama says hi');
+      const [url, init] = mockFetch.mock.calls[0];
+      const body = JSON.parse(init.body);
+      expect(url).toBe('http://ollama:11434/api/chat');
+      expect(body.model).toBe('mistral');
+      expect(body.stream).toBe(false);
+      expect(body.options.num_predict).toBe(200);
+    });
+
+    it('should stream newline-delimited chunks when onToken is set', async () => {
+      mockFetch.mockResolvedValueOnce(streamResponse([
+        '{"message":{"role":"assistant","content":"ollama"}}\n{"message":{"role":"assis',
+        'tant","content":" says hi"}}\n',
+        '{"message":{"role":"assistant","content":""},"done":true}'
+      ]));
+      const tokens: string[] = [];
+
+      const provider = new OllamaProvider('http://ollama:11434', 'mistral');
+      const result = await provider.complete({ prompt: 'Hi', onToken: token => tokens.push(token) });
+
+      expect(result).toBe('ollama says hi');
+      expect(tokens).toEqual(['ollama', ' says hi']);
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body).stream).toBe(true);
+    });
+  });
+
+  describe('EchoProvider', () => {
+    it('should build a deterministic article JSON from the prompt without network access', async () => {
+      const provider = new EchoProvider();
+      const result = await provider.complete({ prompt: 'Create a blog article about: Testing\n\nMore text' });
+      const parsed = JSON.parse(result);
+
+      expect(parsed.title).toBe('Testing');
+      expect(parsed.sections).toHaveLength(1);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should return a configured fixture', async () => {
+      const fixed = new EchoProvider('fixed response');
+      const computed = new EchoProvider(request => `echo: ${request.prompt}`);
+
+      expect(await fixed.complete({ prompt: 'anything' })).toBe('fixed response');
+      expect(await computed.complete({ prompt: 'abc' })).toBe('echo: abc');
+    });
+
+    it('should pass the response to onToken in pieces', async () => {
+      const fixture = 'x'.repeat(EchoProvider.STREAM_CHUNK_SIZE * 2 + 3);
+      const tokens: string[] = [];
+
+      const result = await new EchoProvider(fixture).complete({ prompt: 'anything', onToken: token => tokens.push(token) });
+
+      expect(result).toBe(fixture);
+      expect(tokens).toHaveLength(3);
+      expect(tokens.join('')).toBe(fixture);
+    });
+  });
+
+  describe('LLMProviderRegistry', () => {
+    it('should register the built-in providers', () => {
+      const names = LLMProviderRegistry.list().map(p => p.name);
+
+      expect(names).toEqual(expect.arrayContaining(['openrouter', 'openai-compatible', 'ollama', 'echo']));
+    });
+
+    it('should resolve providers case-insensitively and default to OpenRouter', () => {
+      expect(LLMProviderRegistry.get('ECHO').name).toBe('echo');
+      expect(LLMProviderRegistry.get().name).toBe('openrouter');
+    });
+
+    it('should throw for unknown providers', () => {
+      expect(LLMProviderRegistry.has('nope')).toBe(false);
+      expect(() => LLMProviderRegistry.get('nope')).toThrow('Unknown LLM provider: nope');
+    });
+
+    it('should allow registering and replacing providers', () => {
+      LLMProviderRegistry.register(new EchoProvider('custom'));
+      LLMProviderRegistry.register(new OpenAICompatibleProvider({
+        name: 'my-server',
+        baseUrl: 'http://my-server/v1',
+        defaultModel: 'm'
+      }));
+
+      expect(LLMProviderRegistry.has('my-server')).toBe(true);
+      expect(LLMProviderRegistry.has('openrouter')).toBe(true);
+
+      LLMProviderRegistry.unregister('my-server');
+      expect(LLMProviderRegistry.has('my-server')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * @jest-environment node
+ */
+import { PDFDocument } from 'pdf-lib';
+import { renderArticlePdf, exportArticleToPdf, fetchThumbnail, getThumbnailUrl } from '../pdf-export';
+import { Article } from '@/types';
+
+// 1x1 transparent PNG
+const PNG_THUMBNAIL = Uint8Array.from(Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==',
+  'base64'
+));
+
+describe('pdf-export', () => {
+  const mockArticle: Article = {
+    title: 'Café Guide: Brewing “Perfect” Coffee',
+    introduction: 'An introduction to brewing coffee at home.',
+    sections: [
+      {
+        heading: 'Equipment',
+        content: 'You need a grinder and a kettle.\n\nA scale helps with consistency.',
+        subsections: [
+          { heading: 'Grinders', content: 'Burr grinders produce an even grind. 日本語 text is replaced.' }
+        ]
+      }
+    ],
+    conclusion: 'Enjoy your coffee.',
+    metadata: {
+      wordCount: 40,
+      readingTime: 1,
+      seoTitle: 'Coffee Guide',
+      metaDescription: 'How to brew coffee',
+      sourceVideo: {
+        id: 'coffee123',
+        title: 'Coffee Video',
+        description: 'A coffee video',
+        duration: 600,
+        thumbnailUrl: 'https://example.com/thumb.png',
+        channelName: 'Coffee Channel',
+        publishDate: new Date('2024-01-01'),
+        viewCount: 100
+      }
+    },
+    tags: ['coffee', 'brewing', 'guide']
+  };
+
+  const originalFetch = global.fetch;
+  let consoleWarnSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    global.fetch = jest.fn();
+    consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    consoleWarnSpy.mockRestore();
+  });
+
+  describe('renderArticlePdf', () => {
+    it('should produce a valid PDF with document metadata', async () => {
+      const bytes = await renderArticlePdf(mockArticle, { thumbnail: null });
+
+      expect(Buffer.from(bytes.slice(0, 5)).toString()).toBe('%PDF-');
+
+      const doc = await PDFDocument.load(bytes);
+      expect(doc.getPageCount()).toBe(1);
+      expect(doc.getTitle()).toBe(mockArticle.title);
+      expect(doc.getAuthor()).toBe('Coffee Channel');
+      expect(doc.getKeywords()).toBe('coffee brewing guide');
+    });
+
+    it('should flow long articles onto multiple pages', async () => {
+      const longArticle: Article = {
+        ...mockArticle,
+        sections: Array.from({ length: 12 }, (_, i) => ({
+          heading: `Section ${i + 1}`,
+          content: 'This paragraph is repeated to fill the page with text. '.repeat(30)
+        }))
+      };
+
+      const doc = await PDFDocument.load(await renderArticlePdf(longArticle, { thumbnail: null }));
+
+      expect(doc.getPageCount()).toBeGreaterThan(2);
+    });
+
+    it('should use the requested page size', async () => {
+      const doc = await PDFDocument.load(
+        await renderArticlePdf(mockArticle, { thumbnail: null, pageSize: 'letter' })
+      );
+
+      expect(doc.getPage(0).getSize()).toEqual({ width: 612, height: 792 });
+    });
+
+    it('should embed the thumbnail image', async () => {
+      const withImage = await renderArticlePdf(mockArticle, { thumbnail: PNG_THUMBNAIL });
+      const withoutImage = await renderArticlePdf(mockArticle, { thumbnail: null });
+
+      expect(Buffer.from(withImage).toString('latin1')).toContain('/Subtype /Image');
+      expect(Buffer.from(withoutImage).toString('latin1')).not.toContain('/Subtype /Image');
+    });
+
+    it('should fetch the thumbnail by video id when not provided', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        arrayBuffer: async () => PNG_THUMBNAIL.buffer
+      });
+
+      const bytes = await renderArticlePdf(mockArticle);
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        'https://i.ytimg.com/vi/coffee123/hqdefault.jpg',
+        expect.objectContaining({ redirect: 'error' })
+      );
+      expect(Buffer.from(bytes).toString('latin1')).toContain('/Subtype /Image');
+    });
+
+    it('should skip the thumbnail when disabled', async () => {
+      await renderArticlePdf(mockArticle, { includeThumbnail: false });
+
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should ignore thumbnails in unsupported formats', async () => {
+      const bytes = await renderArticlePdf(mockArticle, { thumbnail: Uint8Array.from([1, 2, 3, 4]) });
+
+      expect(Buffer.from(bytes).toString('latin1')).not.toContain('/Subtype /Image');
+    });
+  });
+
+  describe('exportArticleToPdf', () => {
+    it('should return PDF content with a sanitized filename', async () => {
+      const result = await exportArticleToPdf(mockArticle, { thumbnail: null });
+
+      expect(result.mimeType).toBe('application/pdf');
+      expect(result.filename).toBe('caf-guide-brewing-perfect-coffee.pdf');
+      expect(result.content.byteLength).toBeGreaterThan(0);
+    });
+  });
+
+  describe('fetchThumbnail', () => {
+    it('should return null for failed requests', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({ ok: false, status: 404 });
+
+      await expect(fetchThumbnail('https://i.ytimg.com/vi/missing/hqdefault.jpg')).resolves.toBeNull();
+    });
+
+    it('should return null on network errors', async () => {
+      (global.fetch as jest.Mock).mockRejectedValueOnce(new Error('offline'));
+
+      await expect(fetchThumbnail('https://i.ytimg.com/vi/coffee123/hqdefault.jpg')).resolves.toBeNull();
+    });
+
+    it('should return null without a URL', async () => {
+      await expect(fetchThumbnail(undefined)).resolves.toBeNull();
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should only fetch from YouTube image hosts over https', async () => {
+      await expect(fetchThumbnail('http://169.254.169.254/latest/meta-data/')).resolves.toBeNull();
+      await expect(fetchThumbnail('https://example.com/thumb.png')).resolves.toBeNull();
+      await expect(fetchThumbnail('http://i.ytimg.com/vi/coffee123/hqdefault.jpg')).resolves.toBeNull();
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should return null for images over the size limit', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        headers: new Headers({ 'content-length': String(50 * 1024 * 1024) }),
+        arrayBuffer: async () => PNG_THUMBNAIL.buffer
+      });
+      await expect(fetchThumbnail('https://i.ytimg.com/vi/coffee123/hqdefault.jpg')).resolves.toBeNull();
+
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        arrayBuffer: async () => new ArrayBuffer(3 * 1024 * 1024)
+      });
+      await expect(fetchThumbnail('https://i.ytimg.com/vi/coffee123/hqdefault.jpg')).resolves.toBeNull();
+    });
+  });
+
+  describe('getThumbnailUrl', () => {
+    it('should build the YouTube thumbnail URL from the video id', () => {
+      expect(getThumbnailUrl('dQw4w9WgXcQ')).toBe('https://i.ytimg.com/vi/dQw4w9WgXcQ/hqdefault.jpg');
+      expect(getThumbnailUrl('../../evil')).toBeUndefined();
+      expect(getThumbnailUrl(undefined)).toBeUndefined();
+    });
+  });
+});
@@ -1,4 +1,5 @@
 import { ProcessingPipeline } from '../processing-pipeline';
+import { StageCache, MemoryCacheBackend } from '../stage-cache';
 import { VideoMetadata, Transcript, ContentAnalysis, Article, ProcessingStatus } from '@/types';
 
 // Mock fetch globally
@@ -297,6 +298,279 @@ describe('ProcessingPipeline', () => {
         expect(progressValues[i]).toBeGreaterThanOrEqual(progressValues[i - 1]);
       }
     });
+    it('should skip transcript extraction when a transcript is supplied', async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ success: true, metadata: mockVideoMetadata })
+        } as Response)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ success: true, analysis: mockAnalysis })
+        } as Response)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ success: true, article: mockArticle })
+        } as Response);
+
+      const result = await pipeline.processWithTranscript('https://youtube.com/watch?v=test', mockTranscript, {
+        onProgress: (status) => progressUpdates.push(status)
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.transcript).toEqual(mockTranscript);
+      expect(mockFetch.mock.calls.map(call => call[0])).toEqual([
+        '/api/youtube/metadata',
+        '/api/content/analyze',
+        '/api/content/generate'
+      ]);
+      expect(progressUpdates.map(update => update.message)).toContain('Using uploaded transcript...');
+    });
+
+    it('should report checkpoints and skip stages already in a checkpoint', async () => {
+      const checkpoints: unknown[] = [];
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ success: true, analysis: mockAnalysis })
+        } as Response)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ success: true, article: mockArticle })
+        } as Response);
+
+      const result = await pipeline.processVideo('https://youtube.com/watch?v=test', {
+        checkpoint: { videoMetadata: mockVideoMetadata, transcript: mockTranscript },
+        onCheckpoint: (checkpoint) => checkpoints.push(checkpoint)
+      });
+
+      expect(result.success).toBe(true);
+      expect(mockFetch.mock.calls.map(call => call[0])).toEqual([
+        '/api/content/analyze',
+        '/api/content/generate'
+      ]);
+      expect(checkpoints).toEqual([
+        { videoMetadata: mockVideoMetadata, transcript: mockTranscript, analysis: mockAnalysis }
+      ]);
+    });
+
+    it('should summarize chunks before composing in chunked mode', async () => {
+      const chunkSummary = {
+        index: 0,
+        startTime: 0,
+        endTime: 10,
+        summary: 'Chunk summary',
+        keyPoints: [],
+        method: 'ai'
+      };
+
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ success: true, metadata: mockVideoMetadata })
+        } as Response)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ success: true, data: mockTranscript })
+        } as Response)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ success: true, analysis: mockAnalysis })
+        } as Response)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ success: true, summary: chunkSummary })
+        } as Response)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ success: true, article: mockArticle })
+        } as Response);
+
+      const result = await pipeline.processVideo('https://youtube.com/watch?v=test', {
+        generationOptions: {
+          length: 'medium',
+          tone: 'professional',
+          format: 'markdown',
+          generationMode: 'chunked'
+        },
+        onProgress: (status) => progressUpdates.push(status)
+      });
+
+      expect(result.success).toBe(true);
+      expect(mockFetch.mock.calls[3][0]).toBe('/api/content/summarize-chunk');
+      expect(mockFetch.mock.calls[4][0]).toBe('/api/content/generate');
+
+      const generateBody = JSON.parse(mockFetch.mock.calls[4][1]?.body as string);
+      expect(generateBody.chunkSummaries).toEqual([chunkSummary]);
+
+      const messages = progressUpdates.map(update => update.message);
+      expect(messages).toContain('Summarizing chunk 1 of 1 (0:00–0:02)...');
+    });
+
+    it('should fail the generation stage when a chunk cannot be summarized', async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ success: true, metadata: mockVideoMetadata })
+        } as Response)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ success: true, data: mockTranscript })
+        } as Response)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ success: true, analysis: mockAnalysis })
+        } as Response)
+        .mockResolvedValueOnce({
+          ok: false,
+          json: async () => ({ success: false, error: 'Chunk failed' })
+        } as Response);
+
+      const result = await pipeline.processVideo('https://youtube.com/watch?v=test', {
+        generationOptions: {
+          length: 'medium',
+          tone: 'professional',
+          format: 'markdown',
+          generationMode: 'chunked'
+        }
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Chunk failed');
+      expect(mockFetch).toHaveBeenCalledTimes(4);
+    });
+  });
+
+  describe('stage cache', () => {
+    const url = 'https://www.youtube.com/watch?v=dQw4w9WgXcQ';
+
+    const mockAllStages = () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ success: true, metadata: mockVideoMetadata })
+        } as Response)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ success: true, data: mockTranscript })
+        } as Response)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ success: true, analysis: mockAnalysis })
+        } as Response)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ success: true, article: mockArticle })
+        } as Response);
+    };
+
+    it('should reuse cached stage results when a video is reprocessed', async () => {
+      const cachedPipeline = new ProcessingPipeline('', new StageCache(new MemoryCacheBackend()));
+      mockAllStages();
+
+      const first = await cachedPipeline.processVideo(url);
+      const second = await cachedPipeline.processVideo(url);
+
+      expect(mockFetch).toHaveBeenCalledTimes(4);
+      expect(first.cacheHits).toEqual({ metadata: false, transcription: false, analysis: false, generation: false });
+      expect(second.cacheHits).toEqual({ metadata: true, transcription: true, analysis: true, generation: true });
+      expect(second.article).toEqual(mockArticle);
+    });
+
+    it('should regenerate the article when generation options change', async () => {
+      const cachedPipeline = new ProcessingPipeline('', new StageCache(new MemoryCacheBackend()));
+      mockAllStages();
+      await cachedPipeline.processVideo(url);
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ success: true, article: mockArticle })
+      } as Response);
+      const result = await cachedPipeline.processVideo(url, {
+        generationOptions: { length: 'short', tone: 'casual', format: 'markdown' }
+      });
+
+      expect(result.cacheHits).toEqual({ metadata: true, transcription: true, analysis: true, generation: false });
+      expect(mockFetch.mock.calls[4][0]).toBe('/api/content/generate');
+    });
+
+    it('should bypass the cache when forced and not cache failures', async () => {
+      const cachedPipeline = new ProcessingPipeline('', new StageCache(new MemoryCacheBackend()));
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        json: async () => ({ error: 'Quota exceeded' })
+      } as Response);
+      await cachedPipeline.processVideo(url);
+
+      mockAllStages();
+      await cachedPipeline.processVideo(url);
+      mockAllStages();
+      const forced = await cachedPipeline.processVideo(url, { force: true });
+
+      expect(mockFetch).toHaveBeenCalledTimes(9);
+      expect(forced.cacheHits).toEqual({ metadata: false, transcription: false, analysis: false, generation: false });
+    });
+  });
+
+  describe('cancellation', () => {
+    it('should abort the in-flight request and report a cancelled result', async () => {
+      const controller = new AbortController();
+      mockFetch.mockImplementationOnce((_input, init) => new Promise((_resolve, reject) => {
+        init?.signal?.addEventListener('abort', () => {
+          const error = new Error('The operation was aborted');
+          error.name = 'AbortError';
+          reject(error);
+        });
+      }));
+
+      const processing = pipeline.processVideo('https://youtube.com/watch?v=test', {
+        signal: controller.signal,
+        onProgress: (status) => progressUpdates.push(status)
+      });
+      controller.abort();
+      const result = await processing;
+
+      expect(result).toMatchObject({ success: false, cancelled: true, error: 'Processing cancelled' });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(mockFetch.mock.calls[0][1]?.signal).toBe(controller.signal);
+      expect(progressUpdates[progressUpdates.length - 1].stage).toBe('cancelled');
+    });
+
+    it('should not start any stage when the signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      const result = await pipeline.processVideo('https://youtube.com/watch?v=test', {
+        signal: controller.signal
+      });
+
+      expect(result.cancelled).toBe(true);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should keep completed stage results when cancelled between stages', async () => {
+      const controller = new AbortController();
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ success: true, metadata: mockVideoMetadata })
+        } as Response)
+        .mockImplementationOnce(async () => {
+          controller.abort();
+          return {
+            ok: true,
+            json: async () => ({ success: true, data: mockTranscript })
+          } as Response;
+        });
+
+      const result = await pipeline.processVideo('https://youtube.com/watch?v=test', {
+        signal: controller.signal
+      });
+
+      expect(result.cancelled).toBe(true);
+      expect(result.videoMetadata).toEqual(mockVideoMetadata);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
   });
 
   describe('error handling', () => {
@@ -319,9 +593,10 @@ describe('ProcessingPipeline', () => {
         json: async () => ({ success: true, metadata: mockVideoMetadata })
       } as Response);
 
-      // Override the private method to throw an error
-      const originalExtractTranscript = (pipeline as any).extractTranscript;
-      (pipeline as any).extractTranscript = jest.fn().mockRejectedValue(new Error('Unexpected error'));
+      // Override the stage executor's method to throw an error
+      const executor = (pipeline as any).executor;
+      const originalExtractTranscript = executor.extractTranscript;
+      executor.extractTranscript = jest.fn().mockRejectedValue(new Error('Unexpected error'));
 
       const result = await pipeline.processVideo('https://youtube.com/watch?v=test');
 
@@ -329,7 +604,7 @@ describe('ProcessingPipeline', () => {
       expect(result.error).toBe('Unexpected error');
 
       // Restore original method
-      (pipeline as any).extractTranscript = originalExtractTranscript;
+      executor.extractTranscript = originalExtractTranscript;
     });
   });
 });
\ No newline at end of file
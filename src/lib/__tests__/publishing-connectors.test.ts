@@ -0,0 +1,262 @@
+/**
+ * @jest-environment node
+ */
+import {
+  DevToConnector,
+  GhostConnector,
+  PublishingConnectorRegistry,
+  PublishingError,
+  WebhookConnector,
+  WordPressConnector,
+  createGhostToken,
+  publishArticle
+} from '../publishing-connectors';
+import { MOCK_PUBLISHING_CREDENTIALS, MockPublishingServer, startMockPublishingServer } from '../publishing-mock-server';
+import {
+  createRevisionHistory,
+  getCurrentRevision,
+  recordRevision,
+  setPublications,
+  undoRevision
+} from '../article-revisions';
+import { Article } from '@/types';
+
+describe('publishing-connectors', () => {
+  let server: MockPublishingServer;
+
+  const article: Article = {
+    title: 'Sourdough Basics',
+    introduction: 'Bake your first loaf.',
+    sections: [{ heading: 'Starter', content: 'Feed it **daily**.' }],
+    conclusion: 'Enjoy the bread.',
+    metadata: {
+      wordCount: 100,
+      readingTime: 1,
+      seoTitle: 'Sourdough Basics',
+      metaDescription: 'A beginner guide to sourdough.',
+      sourceVideo: {
+        id: 'bread123',
+        title: 'Sourdough video',
+        description: '',
+        duration: 60,
+        thumbnailUrl: 'https://img.youtube.com/vi/bread123/hqdefault.jpg',
+        channelName: 'Bakery',
+        publishDate: new Date('2024-01-01'),
+        viewCount: 10
+      }
+    },
+    tags: ['Baking', 'Bread & Pastry']
+  };
+
+  const connectors = () => ({
+    wordpress: new WordPressConnector({ siteUrl: server.url, ...MOCK_PUBLISHING_CREDENTIALS.wordpress }),
+    ghost: new GhostConnector({ adminUrl: `${server.url}/`, ...MOCK_PUBLISHING_CREDENTIALS.ghost }),
+    devto: new DevToConnector({ baseUrl: server.url, ...MOCK_PUBLISHING_CREDENTIALS.devto }),
+    webhook: new WebhookConnector({ url: `${server.url}/webhook`, ...MOCK_PUBLISHING_CREDENTIALS.webhook })
+  });
+
+  beforeEach(async () => {
+    server = await startMockPublishingServer();
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  describe('publishArticle', () => {
+    it.each(['wordpress', 'ghost', 'devto', 'webhook'] as const)('should update the same %s post when republishing', async destination => {
+      const connector = connectors()[destination];
+      const first = await publishArticle(article, connector, 'draft', new Date('2024-05-01T10:00:00Z'));
+      const edited = { ...first.article, title: 'Sourdough Basics, Revised' };
+      const second = await publishArticle(edited, connector, 'published', new Date('2024-05-02T10:00:00Z'));
+
+      expect(first.publication).toMatchObject({ destination, status: 'draft', firstPublishedAt: '2024-05-01T10:00:00.000Z' });
+      expect(second.publication).toMatchObject({
+        destination,
+        remoteId: first.publication.remoteId,
+        status: 'published',
+        firstPublishedAt: '2024-05-01T10:00:00.000Z',
+        lastPublishedAt: '2024-05-02T10:00:00.000Z'
+      });
+      expect(second.publication.url).toMatch(/^http:\/\/127\.0\.0\.1:\d+\//);
+      expect(second.article.publications).toEqual([second.publication]);
+      expect(server.posts).toHaveLength(1);
+      expect(server.posts[0].data.title).toBe('Sourdough Basics, Revised');
+    });
+
+    it('should keep the records of other destinations', async () => {
+      const { wordpress, devto } = connectors();
+      const first = await publishArticle(article, wordpress, 'draft');
+      const second = await publishArticle(first.article, devto, 'draft');
+
+      expect(second.article.publications?.map(record => record.destination)).toEqual(['wordpress', 'devto']);
+      expect(article.publications).toBeUndefined();
+    });
+
+    it('should update the same post when publishing after an undo', async () => {
+      const { wordpress } = connectors();
+      let history = recordRevision(createRevisionHistory(article), { ...article, title: 'Sourdough Basics, Edited' }, 'You');
+
+      const first = await publishArticle(getCurrentRevision(history).article, wordpress, 'draft');
+      history = undoRevision(setPublications(history, first.article.publications || []));
+      const second = await publishArticle(getCurrentRevision(history).article, wordpress, 'draft');
+
+      expect(second.publication.remoteId).toBe(first.publication.remoteId);
+      expect(server.posts).toHaveLength(1);
+      expect(server.posts[0].data.title).toBe('Sourdough Basics');
+    });
+
+    it('should create a new post when the recorded one was deleted', async () => {
+      const { wordpress } = connectors();
+      const first = await publishArticle(article, wordpress, 'draft');
+      server.posts.splice(0);
+
+      const second = await publishArticle(first.article, wordpress, 'draft', new Date('2024-06-01T00:00:00Z'));
+
+      expect(second.publication.remoteId).not.toBe(first.publication.remoteId);
+      expect(second.publication.firstPublishedAt).toBe('2024-06-01T00:00:00.000Z');
+      expect(second.article.publications).toHaveLength(1);
+    });
+  });
+
+  describe('WordPressConnector', () => {
+    it('should send the post with its excerpt, status and tags', async () => {
+      await connectors().wordpress.publish(article, { status: 'published' });
+
+      expect(server.posts[0].data).toMatchObject({
+        title: 'Sourdough Basics',
+        excerpt: 'A beginner guide to sourdough.',
+        slug: 'sourdough-basics',
+        status: 'publish',
+        tags: [1, 2]
+      });
+      expect(server.posts[0].data.content).toContain('<p>Feed it <strong>daily</strong>.</p>');
+      expect(server.posts[0].data.content).not.toContain('<h1>');
+    });
+
+    it('should reuse existing tags', async () => {
+      const { wordpress } = connectors();
+      await wordpress.publish(article, { status: 'draft' });
+      await wordpress.publish({ ...article, tags: ['baking'] }, { status: 'draft' });
+
+      expect(server.posts[1].data.tags).toEqual([1]);
+      expect(server.requests.filter(request => request.path.endsWith('/tags') && request.method === 'POST')).toHaveLength(2);
+    });
+
+    it('should report rejected credentials', async () => {
+      const connector = new WordPressConnector({ siteUrl: server.url, username: 'editor', applicationPassword: 'wrong' });
+
+      await expect(connector.publish(article, { status: 'draft' })).rejects.toMatchObject({
+        name: 'PublishingError',
+        destination: 'wordpress',
+        status: 401,
+        message: 'WordPress API error: 401 - You are not currently logged in.'
+      });
+    });
+  });
+
+  describe('GhostConnector', () => {
+    it('should sign a short-lived admin token', () => {
+      const token = createGhostToken('abc:00ff', Date.UTC(2024, 0, 1));
+      const [header, payload] = token.split('.').slice(0, 2).map(part => JSON.parse(Buffer.from(part, 'base64url').toString()));
+
+      expect(header).toEqual({ alg: 'HS256', typ: 'JWT', kid: 'abc' });
+      expect(payload).toEqual({ iat: 1704067200, exp: 1704067500, aud: '/admin/' });
+      expect(() => createGhostToken('no-secret')).toThrow(PublishingError);
+    });
+
+    it('should send the post as HTML with tags, excerpt and feature image', async () => {
+      await connectors().ghost.publish(article, { status: 'draft' });
+
+      expect(server.requests[0].path).toBe('/ghost/api/admin/posts/');
+      expect(server.posts[0].data).toMatchObject({
+        title: 'Sourdough Basics',
+        custom_excerpt: 'A beginner guide to sourdough.',
+        feature_image: 'https://img.youtube.com/vi/bread123/hqdefault.jpg',
+        tags: [{ name: 'Baking' }, { name: 'Bread & Pastry' }],
+        status: 'draft'
+      });
+    });
+
+    it('should report update conflicts', async () => {
+      const { ghost } = connectors();
+      const { remoteId } = await ghost.publish(article, { status: 'draft' });
+      const existing = { destination: 'ghost' as const, remoteId, status: 'draft' as const, firstPublishedAt: '', lastPublishedAt: '' };
+      const fetchSpy = jest.spyOn(global, 'fetch');
+      // Another editor saves the post between reading and updating it
+      fetchSpy.mockImplementationOnce(async (...args) => {
+        const response = await fetch(...args);
+        server.posts[0].updatedAt = new Date(0).toISOString();
+        return response;
+      });
+
+      await expect(ghost.publish(article, { status: 'draft', existing })).rejects.toMatchObject({ status: 409 });
+      fetchSpy.mockRestore();
+    });
+  });
+
+  describe('DevToConnector', () => {
+    it('should send markdown with at most four alphanumeric tags', async () => {
+      await connectors().devto.publish({ ...article, tags: ['Baking', 'bread-making', 'baking', 'Food', 'DIY', 'Kitchen'] }, { status: 'draft' });
+
+      expect(server.posts[0].data).toMatchObject({
+        title: 'Sourdough Basics',
+        description: 'A beginner guide to sourdough.',
+        tags: ['baking', 'breadmaking', 'food', 'diy'],
+        published: false
+      });
+      expect(server.posts[0].data.body_markdown).toBe(
+        'Bake your first loaf.\n\n## Starter\n\nFeed it **daily**.\n\n## Conclusion\n\nEnjoy the bread.'
+      );
+    });
+  });
+
+  describe('WebhookConnector', () => {
+    it('should sign the payload and use a stable idempotency key', async () => {
+      const { webhook } = connectors();
+      const first = await webhook.publish(article, { status: 'published' });
+      await webhook.publish(article, { status: 'published' });
+      const [request] = server.requests;
+
+      expect(server.posts).toHaveLength(1);
+      expect(request.headers['idempotency-key']).toBe(first.remoteId);
+      expect(request.headers['x-vid2blog-signature']).toMatch(/^sha256=[0-9a-f]{64}$/);
+      expect(request.body).toMatchObject({ event: 'article.published', id: first.remoteId, status: 'published' });
+      expect((request.body as { article: { html: string } }).article.html).toContain('<h2>Starter</h2>');
+    });
+
+    it('should reject payloads signed with another secret', async () => {
+      const webhook = new WebhookConnector({ url: `${server.url}/webhook`, secret: 'other' });
+
+      await expect(webhook.publish(article, { status: 'draft' })).rejects.toThrow('Webhook API error: 401 - Invalid signature');
+    });
+  });
+
+  describe('PublishingConnectorRegistry', () => {
+    const env = process.env;
+
+    afterEach(() => {
+      process.env = env;
+      PublishingConnectorRegistry.reset();
+    });
+
+    it('should configure the connectors from the environment', async () => {
+      process.env = {
+        ...env,
+        DEVTO_API_KEY: MOCK_PUBLISHING_CREDENTIALS.devto.apiKey,
+        DEVTO_BASE_URL: server.url,
+        PUBLISH_WEBHOOK_URL: ''
+      };
+      PublishingConnectorRegistry.reset();
+
+      expect(PublishingConnectorRegistry.list()).toEqual(expect.arrayContaining([
+        { destination: 'devto', label: 'Dev.to', configured: true },
+        { destination: 'webhook', label: 'Webhook', configured: false }
+      ]));
+      await expect(PublishingConnectorRegistry.get('devto').publish(article, { status: 'draft' })).resolves.toMatchObject({ status: 'draft' });
+      await expect(PublishingConnectorRegistry.get('webhook').publish(article, { status: 'draft' }))
+        .rejects.toThrow('Webhook publishing is not configured');
+      expect(() => PublishingConnectorRegistry.get('medium')).toThrow('Unknown publishing destination: medium');
+    });
+  });
+});
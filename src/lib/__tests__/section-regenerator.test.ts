@@ -0,0 +1,109 @@
+import { SectionRegenerator } from '../section-regenerator';
+import { AIArticleGenerator } from '../ai-article-generator';
+import { ArticleGenerator } from '../article-generator';
+import { Article, ContentAnalysis, Transcript } from '@/types';
+
+describe('SectionRegenerator', () => {
+  const transcript: Transcript = {
+    segments: [
+      { text: 'First we install the compiler toolchain on the machine.', startTime: 0, endTime: 30, confidence: 1 },
+      { text: 'The installer asks a few questions about the target platform.', startTime: 30, endTime: 60, confidence: 1 },
+      { text: 'Next the parser turns the token stream into a syntax tree.', startTime: 60, endTime: 90, confidence: 1 },
+      { text: 'Every parser error points at the exact line and column.', startTime: 90, endTime: 120, confidence: 1 }
+    ],
+    language: 'en',
+    confidence: 1,
+    duration: 120
+  };
+
+  const article = {
+    title: 'Building a Compiler',
+    introduction: 'Intro',
+    sections: [
+      { heading: 'Getting Set Up', content: 'Install things.' },
+      { heading: 'Parser Basics', content: 'Parse things.', subsections: [{ heading: 'Errors', content: 'Report them.' }] }
+    ],
+    conclusion: 'Outro',
+    tags: [],
+    metadata: { sourceVideo: { id: 'abc' } }
+  } as unknown as Article;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('getSectionTimeRange', () => {
+    it('should use the time ranges of topics named in the heading', () => {
+      const analysis = {
+        topics: [
+          { name: 'parser design', relevance: 1, timeRanges: [{ start: 55, end: 95 }, { start: 100, end: 115 }] },
+          { name: 'installation', relevance: 1, timeRanges: [{ start: 0, end: 60 }] }
+        ]
+      } as ContentAnalysis;
+
+      expect(SectionRegenerator.getSectionTimeRange(article, 1, transcript, analysis)).toEqual({ start: 55, end: 115 });
+    });
+
+    it('should fall back to the section position in the article', () => {
+      expect(SectionRegenerator.getSectionTimeRange(article, 0, transcript)).toEqual({ start: 0, end: 60 });
+      expect(SectionRegenerator.getSectionTimeRange(article, 1, transcript)).toEqual({ start: 60, end: 120 });
+    });
+  });
+
+  it('should only pass the transcript for the section time range to the AI', async () => {
+    const ai = jest.spyOn(AIArticleGenerator, 'callLLM')
+      .mockResolvedValue('{"heading": "Parser Basics", "content": "The parser builds a syntax tree."}');
+
+    const result = await SectionRegenerator.regenerateSection(article, 1, 'make this more concrete', transcript);
+
+    expect(result).toEqual({
+      section: {
+        heading: 'Parser Basics',
+        content: 'The parser builds a syntax tree.',
+        citations: [{ paragraphIndex: 0, startTime: 60, endTime: 90 }]
+      },
+      generationMethod: 'ai',
+      timeRange: { start: 60, end: 120 }
+    });
+
+    const prompt = ai.mock.calls[0][0];
+    expect(prompt).toContain('make this more concrete');
+    expect(prompt).toContain('[1:00] Next the parser turns the token stream into a syntax tree.');
+    expect(prompt).not.toContain('install the compiler');
+  });
+
+  it('should fall back to template content built from relevant segments', async () => {
+    jest.spyOn(AIArticleGenerator, 'callLLM').mockRejectedValue(new Error('No provider configured'));
+    const findRelevantSegments = jest.spyOn(ArticleGenerator, 'findRelevantSegments');
+
+    const result = await SectionRegenerator.regenerateSection(article, 1, 'shorter', transcript);
+
+    expect(result.generationMethod).toBe('template');
+    expect(result.section.heading).toBe('Parser Basics');
+    expect(result.section.content).toContain('parser turns the token stream');
+    expect(result.section.content).not.toContain('install');
+    expect(findRelevantSegments).toHaveBeenCalledWith({ name: 'Parser Basics', timeRanges: [{ start: 60, end: 120 }] }, transcript);
+  });
+
+  it('should not fall back to a template when aborted', async () => {
+    const controller = new AbortController();
+    jest.spyOn(AIArticleGenerator, 'callLLM').mockImplementation(async () => {
+      controller.abort();
+      throw new DOMException('The operation was aborted', 'AbortError');
+    });
+    const template = jest.spyOn(ArticleGenerator, 'regenerateSection');
+
+    await expect(SectionRegenerator.regenerateSection(article, 0, '', transcript, undefined, undefined, controller.signal))
+      .rejects.toMatchObject({ name: 'AbortError' });
+    expect(template).not.toHaveBeenCalled();
+  });
+
+  it('should reject section indexes outside the article', async () => {
+    await expect(SectionRegenerator.regenerateSection(article, 2, '', transcript)).rejects.toThrow(RangeError);
+  });
+});
@@ -0,0 +1,209 @@
+import { SocialDerivativeGenerator, countTweetCharacters } from '../social-derivatives';
+import { AIArticleGenerator } from '../ai-article-generator';
+import { Article, ContentAnalysis } from '@/types';
+
+describe('SocialDerivativeGenerator', () => {
+  const article = {
+    title: 'Building a Compiler',
+    introduction: 'Compilers look like magic. This guide shows the **three** stages every compiler has.',
+    sections: [
+      { heading: 'Lexing', content: 'The lexer turns characters into tokens. It skips whitespace.' },
+      { heading: 'Parsing', content: 'The parser builds a syntax tree from the tokens.' }
+    ],
+    conclusion: 'Start small and grow the language. Happy hacking!',
+    tags: ['compilers', 'programming languages'],
+    metadata: {
+      metaDescription: 'A walkthrough of the stages of a compiler.',
+      sourceVideo: { id: 'abc123' }
+    }
+  } as unknown as Article;
+
+  const analysis = {
+    topics: [
+      { name: 'parsing', relevance: 0.8, timeRanges: [{ start: 95, end: 200 }] },
+      { name: 'lexing', relevance: 0.9, timeRanges: [{ start: 12, end: 90 }, { start: 300, end: 320 }] },
+      { name: 'code generation', relevance: 0.7, timeRanges: [{ start: 205, end: 280 }] },
+      { name: 'testing', relevance: 0.2, timeRanges: [{ start: 208, end: 215 }] }
+    ],
+    keyPoints: [
+      { text: 'every compiler has a front end and a back end', importance: 0.9, timestamp: 30, category: 'main' },
+      { text: 'Error messages matter as much as speed', importance: 0.4, timestamp: 250, category: 'tip' },
+      { text: 'Parsers can be written by hand', importance: 0.7, timestamp: 100, category: 'main' }
+    ],
+    summary: 'How a compiler turns source code into a program.',
+    suggestedStructure: [],
+    sentiment: 'positive'
+  } as ContentAnalysis;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('countTweetCharacters', () => {
+    it('should count URLs as 23 characters and wide characters twice', () => {
+      expect(countTweetCharacters('abc')).toBe(3);
+      expect(countTweetCharacters('see https://www.youtube.com/watch?v=abc123abc123')).toBe(27);
+      expect(countTweetCharacters('日本🚀')).toBe(6);
+    });
+  });
+
+  describe('fitThread', () => {
+    it('should split long posts and number every post within the limit', () => {
+      const long = Array.from({ length: 12 }, (_, i) => `Sentence number ${i + 1} is here.`).join(' ');
+      const thread = SocialDerivativeGenerator.fitThread(['Short opener', long], 100);
+
+      expect(thread.length).toBeGreaterThan(2);
+      thread.forEach((post, index) => {
+        expect(countTweetCharacters(post)).toBeLessThanOrEqual(100);
+        expect(post.endsWith(` ${index + 1}/${thread.length}`)).toBe(true);
+      });
+      expect(thread[1].startsWith('Sentence number 1 is here.')).toBe(true);
+    });
+
+    it('should leave a single post unnumbered', () => {
+      expect(SocialDerivativeGenerator.fitThread(['Just one'])).toEqual(['Just one']);
+    });
+
+    it('should continue words that are over the limit on their own in the next posts', () => {
+      const thread = SocialDerivativeGenerator.fitThread(['x'.repeat(300)]);
+
+      expect(thread).toHaveLength(2);
+      thread.forEach(post => expect(countTweetCharacters(post)).toBeLessThanOrEqual(280));
+      expect(thread.map(post => post.replace(/ \d\/\d$/, '')).join('')).toBe('x'.repeat(300));
+    });
+
+    it('should split text without spaces by its weighted length', () => {
+      const japanese = '動画の内容を要約します。'.repeat(25);
+      const thread = SocialDerivativeGenerator.fitThread([japanese]);
+
+      expect(thread.length).toBeGreaterThanOrEqual(3);
+      thread.forEach(post => expect(countTweetCharacters(post)).toBeLessThanOrEqual(280));
+      expect(thread.map(post => post.replace(/ \d\/\d$/, '')).join('')).toBe(japanese);
+    });
+  });
+
+  describe('generateFromTemplates', () => {
+    it('should build a thread from the key points in video order', () => {
+      const { thread } = SocialDerivativeGenerator.generateFromTemplates(article, analysis);
+
+      expect(thread).toEqual([
+        'Building a Compiler\n\nCompilers look like magic. 1/5',
+        'Every compiler has a front end and a back end 2/5',
+        'Parsers can be written by hand 3/5',
+        'Error messages matter as much as speed 4/5',
+        'Start small and grow the language.\n\nWatch the full video: https://www.youtube.com/watch?v=abc123\n\n#Compilers #ProgrammingLanguages 5/5'
+      ]);
+    });
+
+    it('should write a LinkedIn post with takeaways and hashtags', () => {
+      const { linkedInPost } = SocialDerivativeGenerator.generateFromTemplates(article, analysis);
+
+      expect(linkedInPost).toBe(
+        'Building a Compiler\n\n' +
+        'Compilers look like magic. This guide shows the three stages every compiler has.\n\n' +
+        'Key takeaways:\n- Every compiler has a front end and a back end\n- Parsers can be written by hand\n- Error messages matter as much as speed\n\n' +
+        'Start small and grow the language.\n\n' +
+        'Watch the full video: https://www.youtube.com/watch?v=abc123\n\n' +
+        '#Compilers #ProgrammingLanguages'
+      );
+    });
+
+    it('should keep the newsletter summary short', () => {
+      const { newsletterSummary } = SocialDerivativeGenerator.generateFromTemplates(article, analysis);
+
+      expect(newsletterSummary).toBe('A walkthrough of the stages of a compiler. The key takeaway: Every compiler has a front end and a back end.');
+    });
+
+    it('should write show notes with chapters from the topics', () => {
+      const { showNotes } = SocialDerivativeGenerator.generateFromTemplates(article, analysis);
+
+      expect(showNotes).toBe(
+        'How a compiler turns source code into a program.\n\n' +
+        'Chapters:\n0:00 Lexing\n1:35 Parsing\n3:25 Code generation\n\n' +
+        'Key points:\n- Every compiler has a front end and a back end\n- Parsers can be written by hand\n- Error messages matter as much as speed\n\n' +
+        '#Compilers #ProgrammingLanguages'
+      );
+    });
+
+    it('should use the sections when there is no analysis', () => {
+      const derivatives = SocialDerivativeGenerator.generateFromTemplates(article);
+
+      expect(derivatives.thread[1]).toBe('The lexer turns characters into tokens. 2/4');
+      expect(derivatives.showNotes).not.toContain('Chapters:');
+    });
+  });
+
+  describe('getChapters', () => {
+    it('should prefer the analysis chapters', () => {
+      const withChapters: ContentAnalysis = {
+        ...analysis,
+        chapters: [
+          { title: 'Intro', start: 0, end: 60, source: 'description' },
+          { title: 'Front end', start: 60, end: 180, source: 'description' },
+          { title: 'Back end', start: 180, end: 330, source: 'description' }
+        ]
+      };
+
+      expect(SocialDerivativeGenerator.getChapters(article, withChapters)).toEqual([
+        { start: 0, title: 'Intro' },
+        { start: 60, title: 'Front end' },
+        { start: 180, title: 'Back end' }
+      ]);
+    });
+
+    it('should fall back to the key points and require three chapters', () => {
+      const fewTopics = { ...analysis, topics: analysis.topics.slice(0, 1) };
+
+      expect(SocialDerivativeGenerator.getChapters(article, fewTopics).map(chapter => chapter.start)).toEqual([0, 100, 250]);
+      expect(SocialDerivativeGenerator.getChapters(article, { ...fewTopics, keyPoints: analysis.keyPoints.slice(0, 2) })).toEqual([]);
+    });
+  });
+
+  describe('generate', () => {
+    it('should use the AI posts and fit the thread to the limit', async () => {
+      const ai = jest.spyOn(AIArticleGenerator, 'callLLM').mockResolvedValue(JSON.stringify({
+        thread: ['Hook post 1/2', `${'Long sentence here. '.repeat(20)}`.trim()],
+        linkedInPost: 'LinkedIn text',
+        newsletterSummary: 'Newsletter text'
+      }));
+
+      const result = await SocialDerivativeGenerator.generate(article, analysis);
+
+      expect(result.generationMethod).toBe('ai');
+      expect(result.derivatives.thread[0]).toBe(`Hook post 1/${result.derivatives.thread.length}`);
+      result.derivatives.thread.forEach(post => expect(countTweetCharacters(post)).toBeLessThanOrEqual(280));
+      expect(result.derivatives.linkedInPost).toBe('LinkedIn text');
+      expect(result.derivatives.showNotes).toContain('0:00 Lexing');
+      expect(ai.mock.calls[0][0]).toContain('- Every compiler has a front end and a back end');
+    });
+
+    it('should fall back to templates when the AI response is incomplete', async () => {
+      jest.spyOn(AIArticleGenerator, 'callLLM').mockResolvedValue('{"thread": [], "linkedInPost": "x"}');
+
+      const result = await SocialDerivativeGenerator.generate(article, analysis);
+
+      expect(result.generationMethod).toBe('template');
+      expect(result.derivatives).toEqual(SocialDerivativeGenerator.generateFromTemplates(article, analysis));
+      expect(console.warn).toHaveBeenCalledWith(
+        'AI derivative generation failed, falling back to templates:',
+        new Error('Missing required fields in AI response: thread, newsletterSummary')
+      );
+    });
+
+    it('should not fall back when aborted', async () => {
+      const controller = new AbortController();
+      jest.spyOn(AIArticleGenerator, 'callLLM').mockImplementation(async () => {
+        controller.abort();
+        throw new Error('aborted');
+      });
+
+      await expect(SocialDerivativeGenerator.generate(article, analysis, undefined, controller.signal))
+        .rejects.toMatchObject({ name: 'AbortError' });
+    });
+  });
+});
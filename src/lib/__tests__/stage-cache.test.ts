@@ -0,0 +1,96 @@
+/**
+ * @jest-environment node
+ */
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { StageCache, MemoryCacheBackend, DiskCacheBackend, CacheBackend, hashKey } from '../stage-cache';
+
+describe('StageCache', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should store and return values per stage', async () => {
+    const cache = new StageCache(new MemoryCacheBackend());
+
+    await cache.set('metadata', 'abc', { title: 'Video' });
+
+    expect(await cache.get('metadata', 'abc')).toEqual({ title: 'Video' });
+    expect(await cache.get('transcription', 'abc')).toBeUndefined();
+  });
+
+  it('should expire entries after the stage TTL', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+    const cache = new StageCache(new MemoryCacheBackend(), { metadata: 60 });
+
+    await cache.set('metadata', 'abc', 'value');
+
+    now.mockReturnValue(1_000_000 + 59_000);
+    expect(await cache.get('metadata', 'abc')).toBe('value');
+
+    now.mockReturnValue(1_000_000 + 60_000);
+    expect(await cache.get('metadata', 'abc')).toBeUndefined();
+  });
+
+  it('should treat backend failures as cache misses', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const failing: CacheBackend = {
+      get: jest.fn().mockRejectedValue(new Error('disk full')),
+      set: jest.fn().mockRejectedValue(new Error('disk full')),
+      delete: jest.fn(),
+      clear: jest.fn()
+    };
+    const cache = new StageCache(failing);
+
+    await expect(cache.set('analysis', 'abc', {})).resolves.toBeUndefined();
+    expect(await cache.get('analysis', 'abc')).toBeUndefined();
+  });
+
+  describe('MemoryCacheBackend', () => {
+    it('should evict the oldest entries beyond its capacity', async () => {
+      const backend = new MemoryCacheBackend(2);
+      const record = { value: 1, expiresAt: Infinity };
+
+      await backend.set('a', record);
+      await backend.set('b', record);
+      await backend.set('c', record);
+
+      expect(await backend.get('a')).toBeNull();
+      expect(await backend.get('c')).toEqual(record);
+    });
+  });
+
+  describe('DiskCacheBackend', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'stage-cache-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('should persist records across instances', async () => {
+      await new StageCache(new DiskCacheBackend(directory)).set('transcription', 'abc:youtube', { segments: [] });
+
+      const cache = new StageCache(new DiskCacheBackend(directory));
+      expect(await cache.get('transcription', 'abc:youtube')).toEqual({ segments: [] });
+
+      await cache.clear();
+      expect(await cache.get('transcription', 'abc:youtube')).toBeUndefined();
+    });
+  });
+
+  describe('hashKey', () => {
+    it('should ignore object key order and undefined values', () => {
+      expect(hashKey({ a: 1, b: [1, 2], c: undefined })).toBe(hashKey({ b: [1, 2], a: 1 }));
+    });
+
+    it('should distinguish different values', () => {
+      expect(hashKey({ tone: 'casual' })).not.toBe(hashKey({ tone: 'technical' }));
+      expect(hashKey('abc')).toMatch(/^[0-9a-f]{14}$/);
+    });
+  });
+});
@@ -0,0 +1,213 @@
+import { DirectStageExecutor, HttpStageExecutor } from '../stage-executor';
+import { ProcessingPipeline } from '../processing-pipeline';
+import { MemoryCacheBackend, StageCache } from '../stage-cache';
+import { YouTubeApiService } from '../youtube-api';
+import { TranscriptService } from '../transcript-service';
+import { AIArticleGenerator, createGenerationTelemetry } from '../ai-article-generator';
+import { ArticleGenerator } from '../article-generator';
+import { createProcessingError, ErrorType } from '../error-handling';
+import { ArticleDelta, applyArticleDelta, createPartialArticle } from '../article-stream';
+import { Article, Transcript, VideoMetadata } from '@/types';
+
+jest.mock('youtube-transcript');
+
+describe('DirectStageExecutor', () => {
+  const url = 'https://www.youtube.com/watch?v=dQw4w9WgXcQ';
+
+  const metadata: VideoMetadata = {
+    id: 'dQw4w9WgXcQ',
+    title: 'Test Video',
+    description: 'A test video',
+    duration: 600,
+    thumbnailUrl: 'https://example.com/thumb.jpg',
+    channelName: 'Test Channel',
+    publishDate: new Date('2024-01-01T00:00:00Z'),
+    viewCount: 100
+  };
+
+  const transcript: Transcript = {
+    segments: [
+      { text: 'Welcome to this tutorial about testing pipelines in process.', startTime: 0, endTime: 5, confidence: 1 },
+      { text: 'Calling services directly avoids an HTTP round trip per stage.', startTime: 5, endTime: 10, confidence: 1 }
+    ],
+    language: 'en',
+    confidence: 1,
+    duration: 10
+  };
+
+  beforeEach(() => {
+    global.fetch = jest.fn();
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should run the whole pipeline without any HTTP calls', async () => {
+    jest.spyOn(YouTubeApiService.prototype, 'getVideoMetadata').mockResolvedValue(metadata);
+    jest.spyOn(TranscriptService, 'extractTranscript').mockResolvedValue(transcript);
+    jest.spyOn(AIArticleGenerator, 'generateArticleWithTelemetry').mockResolvedValue({
+      article: { title: 'AI Article' } as Article,
+      telemetry: createGenerationTelemetry()
+    });
+
+    const pipeline = new ProcessingPipeline(new DirectStageExecutor('test-key'));
+    const result = await pipeline.processVideo(url);
+
+    expect(result.success).toBe(true);
+    expect(result.videoMetadata).toEqual(metadata);
+    expect(result.analysis?.topics).toBeDefined();
+    expect(result.article?.title).toBe('AI Article');
+    expect(result.telemetry?.fallback).toBe(false);
+    expect(TranscriptService.extractTranscript).toHaveBeenCalledWith('dQw4w9WgXcQ', { lang: 'en', country: 'US' });
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('should report a missing API key like the metadata route', async () => {
+    const result = await new DirectStageExecutor('').extractMetadata(url);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe(createProcessingError(ErrorType.API_KEY_INVALID).details.userMessage);
+  });
+
+  it('should reject videos outside the duration limits', async () => {
+    jest.spyOn(YouTubeApiService.prototype, 'getVideoMetadata')
+      .mockResolvedValue({ ...metadata, duration: 4 * 60 * 60 });
+
+    const result = await new DirectStageExecutor('test-key').extractMetadata(url);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe(createProcessingError(ErrorType.VIDEO_TOO_LONG).details.userMessage);
+  });
+
+  it('should map transcript errors to user-facing messages', async () => {
+    jest.spyOn(TranscriptService, 'extractTranscript')
+      .mockRejectedValue(new Error('Transcript is disabled on this video'));
+
+    const result = await new DirectStageExecutor('test-key').extractTranscript(url);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe(createProcessingError(ErrorType.NO_TRANSCRIPT).details.userMessage);
+  });
+
+  it('should fall back to template generation when AI generation fails', async () => {
+    jest.spyOn(AIArticleGenerator, 'generateArticleWithTelemetry').mockRejectedValue(new Error('No provider configured'));
+    const template = jest.spyOn(ArticleGenerator, 'generateArticle')
+      .mockReturnValue({ title: 'Template Article' } as Article);
+
+    const executor = new DirectStageExecutor('test-key');
+    const analysis = (await executor.analyzeContent(transcript)).data!;
+    const result = await executor.generateArticle(analysis, metadata, transcript);
+
+    expect(result.success).toBe(true);
+    expect(result.data?.title).toBe('Template Article');
+    expect(result.telemetry).toEqual(expect.objectContaining({ fallback: true, fallbackReason: 'No provider configured' }));
+    expect(template).toHaveBeenCalledWith(analysis, metadata, transcript, expect.objectContaining({ length: 'medium' }));
+  });
+
+  it('should not fall back to a template when generation is aborted', async () => {
+    const controller = new AbortController();
+    jest.spyOn(AIArticleGenerator, 'generateArticleWithTelemetry').mockImplementation(async () => {
+      controller.abort();
+      throw new DOMException('The operation was aborted', 'AbortError');
+    });
+    const template = jest.spyOn(ArticleGenerator, 'generateArticle');
+
+    const executor = new DirectStageExecutor('test-key');
+    const analysis = (await executor.analyzeContent(transcript)).data!;
+    const result = await executor.generateArticle(analysis, metadata, transcript, undefined, undefined, controller.signal);
+
+    expect(result.success).toBe(false);
+    expect(template).not.toHaveBeenCalled();
+  });
+
+  it('should stream the article text while the LLM writes it', async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(YouTubeApiService.prototype, 'getVideoMetadata').mockResolvedValue(metadata);
+    jest.spyOn(TranscriptService, 'extractTranscript').mockResolvedValue(transcript);
+    const deltas: ArticleDelta[] = [];
+
+    const pipeline = new ProcessingPipeline(new DirectStageExecutor('test-key'));
+    const result = await pipeline.processVideo(url, {
+      generationOptions: { length: 'short', tone: 'casual', format: 'markdown', provider: 'echo' },
+      onArticleDelta: delta => deltas.push(delta)
+    });
+
+    const streamed = deltas.reduce(applyArticleDelta, createPartialArticle());
+    expect(result.success).toBe(true);
+    expect(streamed.title).toBe(result.article?.title);
+    expect(streamed.introduction).toBe(result.article?.introduction);
+    expect(streamed.sections[0].heading).toBe('Overview');
+  });
+
+  it('should not cache template fallback articles', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    jest.spyOn(YouTubeApiService.prototype, 'getVideoMetadata').mockResolvedValue(metadata);
+    jest.spyOn(TranscriptService, 'extractTranscript').mockResolvedValue(transcript);
+    const generate = jest.spyOn(AIArticleGenerator, 'generateArticleWithTelemetry')
+      .mockResolvedValueOnce({
+        article: { title: 'Template Article' } as Article,
+        telemetry: AIArticleGenerator.recordFallback(createGenerationTelemetry(), new Error('Provider unavailable'))
+      })
+      .mockResolvedValueOnce({ article: { title: 'AI Article' } as Article, telemetry: createGenerationTelemetry() });
+
+    const pipeline = new ProcessingPipeline(new DirectStageExecutor('test-key'), new StageCache(new MemoryCacheBackend()));
+    const first = await pipeline.processVideo(url);
+    const second = await pipeline.processVideo(url);
+    const third = await pipeline.processVideo(url);
+
+    expect(first.telemetry?.fallback).toBe(true);
+    expect(second.cacheHits?.generation).toBe(false);
+    expect(second.article?.title).toBe('AI Article');
+    expect(third.cacheHits?.generation).toBe(true);
+    expect(third.article?.title).toBe('AI Article');
+    expect(generate).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject unknown LLM providers', async () => {
+    const executor = new DirectStageExecutor('test-key');
+    const analysis = (await executor.analyzeContent(transcript)).data!;
+
+    const result = await executor.generateArticle(analysis, metadata, transcript, {
+      length: 'short',
+      tone: 'casual',
+      format: 'markdown',
+      includeTimestamps: false,
+      provider: 'does-not-exist'
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Unknown LLM provider');
+  });
+});
+
+describe('HttpStageExecutor', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should call the API route under the base URL', async () => {
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({ success: true, analysis: { topics: ['testing'] } })
+    });
+
+    const result = await new HttpStageExecutor('http://localhost:3000')
+      .analyzeContent({ segments: [], language: 'en', confidence: 1, duration: 0 });
+
+    expect(global.fetch).toHaveBeenCalledWith('http://localhost:3000/api/content/analyze', expect.objectContaining({ method: 'POST' }));
+    expect(result).toMatchObject({ success: true, data: { topics: ['testing'] } });
+  });
+
+  it('should return the route error message on failure', async () => {
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: false,
+      json: () => Promise.resolve({ error: 'Invalid YouTube URL' })
+    });
+
+    const result = await new HttpStageExecutor().extractMetadata('not-a-url');
+
+    expect(result).toMatchObject({ success: false, error: 'Invalid YouTube URL' });
+  });
+});
@@ -0,0 +1,139 @@
+import {
+  SiteProfileError,
+  createStaticSiteFilename,
+  escapeMdx,
+  getFrontMatterEntries,
+  resolveSiteProfile,
+  sanitizeSiteProfiles,
+  serializeFrontMatter,
+  siteProfiles
+} from '../static-site-export';
+import { Article } from '@/types';
+
+describe('static-site-export', () => {
+  const date = new Date('2024-03-05T14:07:09.123Z');
+
+  const article: Article = {
+    title: 'Crème Brûlée: "A How-To"',
+    introduction: 'Intro.',
+    sections: [],
+    conclusion: 'Done.',
+    metadata: {
+      wordCount: 100,
+      readingTime: 1,
+      seoTitle: 'Crème Brûlée',
+      metaDescription: 'Learn to make crème brûlée.',
+      sourceVideo: {
+        id: 'abc123',
+        title: 'Dessert video',
+        description: '',
+        duration: 60,
+        thumbnailUrl: 'https://img.youtube.com/vi/abc123/hqdefault.jpg',
+        channelName: 'Kitchen',
+        publishDate: new Date('2024-01-01'),
+        viewCount: 10
+      }
+    },
+    tags: ['dessert', 'french']
+  };
+
+  describe('getFrontMatterEntries', () => {
+    it('should map the article fields to the profile keys', () => {
+      expect(getFrontMatterEntries(article, siteProfiles.astro, date)).toEqual([
+        ['title', 'Crème Brûlée: "A How-To"'],
+        ['pubDate', date],
+        ['slug', 'creme-brulee-a-how-to'],
+        ['tags', ['dessert', 'french']],
+        ['description', 'Learn to make crème brûlée.'],
+        ['heroImage', 'https://img.youtube.com/vi/abc123/hqdefault.jpg'],
+        ['canonicalURL', 'https://www.youtube.com/watch?v=abc123']
+      ]);
+    });
+
+    it('should leave out unmapped fields and empty values and add the extra entries', () => {
+      const profile = resolveSiteProfile('jekyll', { fields: { slug: '', tags: 'categories' } });
+      const entries = getFrontMatterEntries({
+        ...article,
+        metadata: { ...article.metadata, metaDescription: '', sourceVideo: { ...article.metadata.sourceVideo, thumbnailUrl: '' } }
+      }, profile, date);
+
+      expect(entries.map(([key]) => key)).toEqual(['title', 'date', 'categories', 'canonical_url', 'layout']);
+    });
+  });
+
+  describe('serializeFrontMatter', () => {
+    const entries = getFrontMatterEntries(article, siteProfiles.hugo, date);
+
+    it('should write TOML between +++ delimiters', () => {
+      expect(serializeFrontMatter(entries, 'toml')).toBe(
+        '+++\n' +
+        'title = "Crème Brûlée: \\"A How-To\\""\n' +
+        'date = 2024-03-05T14:07:09Z\n' +
+        'slug = "creme-brulee-a-how-to"\n' +
+        'tags = ["dessert", "french"]\n' +
+        'description = "Learn to make crème brûlée."\n' +
+        'thumbnail = "https://img.youtube.com/vi/abc123/hqdefault.jpg"\n' +
+        'canonicalURL = "https://www.youtube.com/watch?v=abc123"\n' +
+        'draft = false\n' +
+        '+++\n'
+      );
+    });
+
+    it('should write YAML between --- delimiters', () => {
+      expect(serializeFrontMatter([...entries.slice(0, 4), ['og:type', 'article'], ['aliases', []]], 'yaml')).toBe(
+        '---\n' +
+        'title: "Crème Brûlée: \\"A How-To\\""\n' +
+        'date: 2024-03-05T14:07:09Z\n' +
+        'slug: "creme-brulee-a-how-to"\n' +
+        'tags:\n  - "dessert"\n  - "french"\n' +
+        '"og:type": "article"\n' +
+        'aliases: []\n' +
+        '---\n'
+      );
+    });
+  });
+
+  describe('resolveSiteProfile', () => {
+    it('should apply overrides over the generator defaults', () => {
+      const profile = resolveSiteProfile('hugo', { frontMatterFormat: 'yaml', fields: { thumbnail: ' cover ' }, extra: { weight: 2 } });
+
+      expect(profile.frontMatterFormat).toBe('yaml');
+      expect(profile.fields.thumbnail).toBe('cover');
+      expect(profile.fields.title).toBe('title');
+      expect(profile.extra).toEqual({ draft: false, weight: 2 });
+    });
+
+    it('should reject invalid profiles', () => {
+      expect(() => resolveSiteProfile('hugo', { frontMatterFormat: 'json' as 'yaml' })).toThrow(SiteProfileError);
+      expect(() => resolveSiteProfile('hugo', { fields: { author: 'author' } as never })).toThrow('Unknown front matter field: author');
+      expect(() => resolveSiteProfile('hugo', { extra: { nested: {} as never } })).toThrow('Front matter value for nested');
+      expect(() => resolveSiteProfile('jekyll', { fields: { slug: 'title' } })).toThrow('Front matter key "title" is used more than once');
+    });
+  });
+
+  describe('sanitizeSiteProfiles', () => {
+    it('should keep only valid profiles of known generators', () => {
+      expect(sanitizeSiteProfiles({
+        astro: { fields: { date: 'publishedAt' } },
+        hugo: { fields: { date: 'draft' } },
+        ghost: {}
+      })).toEqual({ astro: { fields: { date: 'publishedAt' } } });
+      expect(sanitizeSiteProfiles('profiles')).toEqual({});
+    });
+  });
+
+  describe('escapeMdx', () => {
+    it('should escape expressions and JSX outside code', () => {
+      expect(escapeMdx('Use {props} in <Component> with `a < b` and\n```\n{x}\n```'))
+        .toBe('Use \\{props\\} in \\<Component> with `a < b` and\n```\n{x}\n```');
+    });
+  });
+
+  describe('createStaticSiteFilename', () => {
+    it('should use the slug, the profile extension and the date for Jekyll posts', () => {
+      expect(createStaticSiteFilename(article.title, 'next-mdx', siteProfiles['next-mdx'], date)).toBe('creme-brulee-a-how-to.mdx');
+      expect(createStaticSiteFilename(article.title, 'jekyll', siteProfiles.jekyll, date)).toBe('2024-03-05-creme-brulee-a-how-to.md');
+      expect(createStaticSiteFilename('???', 'hugo', siteProfiles.hugo, date)).toBe('article.md');
+    });
+  });
+});
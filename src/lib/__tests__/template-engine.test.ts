@@ -0,0 +1,127 @@
+import { SafeString, TemplateError, compileTemplate, defaultHelpers, renderTemplate } from '../template-engine';
+
+describe('template-engine', () => {
+  describe('renderTemplate', () => {
+    it('should substitute nested paths and drop missing values', () => {
+      const output = renderTemplate('{{title}} by {{video.channel}}{{missing.value}}', {
+        title: 'Compilers',
+        video: { channel: 'Dev' }
+      });
+
+      expect(output).toBe('Compilers by Dev');
+    });
+
+    it('should render if, else and unless blocks', () => {
+      const template = '{{#if draft}}Draft{{else}}Published{{/if}}|{{#unless tags}}no tags{{/unless}}';
+
+      expect(renderTemplate(template, { draft: true, tags: [] })).toBe('Draft|no tags');
+      expect(renderTemplate(template, { draft: false, tags: ['a'] })).toBe('Published|');
+    });
+
+    it('should render nested each blocks with data variables and parent access', () => {
+      const template = '{{#each sections}}{{@index}}:{{heading}}[{{#each items}}{{this}}{{#unless @last}},{{/unless}}{{/each}}]({{../title}}){{/each}}';
+      const output = renderTemplate(template, {
+        title: 'T',
+        sections: [{ heading: 'A', items: [1, 2] }, { heading: 'B', items: [3] }]
+      });
+
+      expect(output).toBe('0:A[1,2](T)1:B[3](T)');
+    });
+
+    it('should render the else branch of each for empty lists and iterate objects', () => {
+      expect(renderTemplate('{{#each items}}x{{else}}none{{/each}}', { items: [] })).toBe('none');
+      expect(renderTemplate('{{#each counts}}{{@key}}={{this}};{{/each}}', { counts: { a: 1, b: 2 } })).toBe('a=1;b=2;');
+    });
+
+    it('should switch context with with and reach the root with @root', () => {
+      const output = renderTemplate('{{#with video}}{{title}} / {{@root.name}}{{/with}}', {
+        name: 'Root',
+        video: { title: 'Video' }
+      });
+
+      expect(output).toBe('Video / Root');
+    });
+
+    it('should remove lines that only hold block tags', () => {
+      const template = 'Start\n{{#each items}}\n  - {{this}}\n{{/each}}\n  {{#if hidden}}\nHidden\n  {{/if}}\nEnd\n';
+
+      expect(renderTemplate(template, { items: ['a', 'b'], hidden: false })).toBe('Start\n  - a\n  - b\nEnd\n');
+    });
+
+    it('should render recursive partials', () => {
+      const partials = { node: '{{name}}{{#if children}}({{#each children}}{{> node}}{{/each}}){{/if}}' };
+      const output = renderTemplate('{{> node tree}}', {
+        tree: { name: 'a', children: [{ name: 'b', children: [{ name: 'c' }] }, { name: 'd' }] }
+      }, { partials });
+
+      expect(output).toBe('a(b(c)d)');
+    });
+
+    it('should escape HTML in double-stash tags only', () => {
+      const data = { text: '<b>"Tom" & \'Jerry\'</b>', safe: new SafeString('<i>ok</i>') };
+      const output = renderTemplate('{{text}}|{{{text}}}|{{& text}}|{{safe}}', data, { escape: 'html' });
+
+      expect(output).toBe('&lt;b&gt;&quot;Tom&quot; &amp; &#x27;Jerry&#x27;&lt;/b&gt;|<b>"Tom" & \'Jerry\'</b>|<b>"Tom" & \'Jerry\'</b>|<i>ok</i>');
+      expect(renderTemplate('{{text}}', data)).toBe(data.text);
+    });
+
+    it('should ignore comments', () => {
+      expect(renderTemplate('a{{! note }}b{{!-- {{title}} --}}c', {})).toBe('abc');
+    });
+
+    it('should not look up inherited properties', () => {
+      expect(renderTemplate('{{constructor}}{{title.length}}', { title: 'abc' })).toBe('3');
+    });
+
+    it('should call custom helpers with evaluated arguments', () => {
+      const output = renderTemplate('{{shout title "!"}}', { title: 'hi' }, {
+        helpers: { shout: (value, suffix) => `${String(value).toUpperCase()}${suffix}` }
+      });
+
+      expect(output).toBe('HI!');
+    });
+  });
+
+  describe('errors', () => {
+    it('should report unclosed and mismatched blocks with their line', () => {
+      expect(() => compileTemplate('a\n{{#if x}}\nb')).toThrow(new TemplateError('Unclosed {{#if}}', 2));
+      expect(() => compileTemplate('{{#if x}}\n{{/each}}')).toThrow('{{#if}} from line 1 closed by {{/each}} (line 2)');
+      expect(() => compileTemplate('{{else}}')).toThrow('Unexpected {{else}}');
+      expect(() => compileTemplate('{{title')).toThrow('Unclosed tag');
+    });
+
+    it('should report unknown helpers and partials when rendering', () => {
+      expect(() => renderTemplate('{{shout title}}', {})).toThrow('Unknown helper "shout"');
+      expect(() => renderTemplate('{{> missing}}', {})).toThrow('Unknown partial "missing"');
+      expect(() => renderTemplate('{{#repeat 3}}x{{/repeat}}', {})).toThrow('Unknown block helper "repeat"');
+    });
+
+    it('should stop partials that never end', () => {
+      expect(() => renderTemplate('{{> loop}}', {}, { partials: { loop: '{{> loop}}' } })).toThrow('nested more than');
+    });
+  });
+
+  describe('helpers', () => {
+    it('should format dates in UTC', () => {
+      const data = { published: '2024-03-05T14:07:09Z' };
+
+      expect(renderTemplate('{{date published}}', data)).toBe('2024-03-05');
+      expect(renderTemplate('{{date published "DD.MM.YYYY HH:mm:ss"}}', data)).toBe('05.03.2024 14:07:09');
+      expect(defaultHelpers.date('not a date')).toBe('');
+    });
+
+    it('should create slugs', () => {
+      expect(renderTemplate('{{slug title}}', { title: 'Crème Brûlée: A How-To Guide!' })).toBe('creme-brulee-a-how-to-guide');
+    });
+
+    it('should join lists', () => {
+      expect(renderTemplate('{{join tags}}|{{join tags " #"}}', { tags: ['a', 'b'] })).toBe('a, b|a #b');
+      expect(defaultHelpers.join('not a list')).toBe('');
+    });
+
+    it('should format video timestamps', () => {
+      expect(renderTemplate('{{timestamp start}} {{timestamp long}}', { start: 83.6, long: 3725 })).toBe('1:23 1:02:05');
+      expect(defaultHelpers.timestamp(undefined)).toBe('');
+    });
+  });
+});
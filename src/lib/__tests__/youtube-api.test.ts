@@ -56,7 +56,8 @@ describe('YouTubeApiService', () => {
       });
 
       expect(fetch).toHaveBeenCalledWith(
-        `https://www.googleapis.com/youtube/v3/videos?part=snippet,statistics,contentDetails&id=dQw4w9WgXcQ&key=${mockApiKey}`
+        `https://www.googleapis.com/youtube/v3/videos?part=snippet,statistics,contentDetails&id=dQw4w9WgXcQ&key=${mockApiKey}`,
+        { signal: undefined }
       );
     });
 
@@ -190,4 +191,91 @@ describe('YouTubeApiService', () => {
       expect(result.reason).toBeDefined();
     });
   });
-});
\ No newline at end of file
+
+  describe('getPlaylistVideos', () => {
+    const playlistItem = (videoId: string, position: number, published = true) => ({
+      snippet: { title: `Video ${videoId}`, position, thumbnails: { default: { url: `https://example.com/${videoId}.jpg` } } },
+      contentDetails: { videoId, ...(published ? { videoPublishedAt: '2024-01-01T00:00:00Z' } : {}) }
+    });
+
+    it('should follow pagination and skip private or deleted videos', async () => {
+      (fetch as jest.Mock)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ items: [playlistItem('a', 0), playlistItem('gone', 1, false)], nextPageToken: 'page2' })
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ items: [playlistItem('b', 2)] })
+        });
+
+      const videos = await service.getPlaylistVideos('PL123');
+
+      expect(videos.map(video => [video.id, video.position])).toEqual([['a', 0], ['b', 2]]);
+      expect((fetch as jest.Mock).mock.calls[1][0]).toContain('pageToken=page2');
+      expect((fetch as jest.Mock).mock.calls[0][0]).toContain('playlistId=PL123');
+    });
+
+    it('should stop at maxVideos', async () => {
+      (fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ items: [playlistItem('a', 0), playlistItem('b', 1)], nextPageToken: 'page2' })
+      });
+
+      const videos = await service.getPlaylistVideos('PL123', 1);
+
+      expect(videos).toHaveLength(1);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should surface API errors as YouTubeApiError', async () => {
+      (fetch as jest.Mock).mockResolvedValueOnce({
+        ok: false,
+        status: 403,
+        json: async () => ({ error: { code: 403, message: 'Quota exceeded' } })
+      });
+
+      await expect(service.getPlaylistVideos('PL123')).rejects.toMatchObject({
+        name: 'YouTubeApiError',
+        code: 403,
+        message: 'Quota exceeded'
+      });
+    });
+  });
+
+  describe('getCollectionVideos', () => {
+    it('should enumerate a channel through its uploads playlist', async () => {
+      (fetch as jest.Mock)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({
+            items: [{
+              id: 'UC123',
+              snippet: { title: 'Test Channel' },
+              contentDetails: { relatedPlaylists: { uploads: 'UU123' } }
+            }]
+          })
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({
+            items: [{ snippet: { title: 'Upload', position: 0 }, contentDetails: { videoId: 'v1', videoPublishedAt: '2024-01-01T00:00:00Z' } }]
+          })
+        });
+
+      const result = await service.getCollectionVideos({ type: 'channel', handle: 'test' });
+
+      expect((fetch as jest.Mock).mock.calls[0][0]).toContain('forHandle=test');
+      expect((fetch as jest.Mock).mock.calls[1][0]).toContain('playlistId=UU123');
+      expect(result.info).toEqual({ type: 'channel', id: 'UC123', title: 'Test Channel', channelName: 'Test Channel' });
+      expect(result.videos.map(video => video.id)).toEqual(['v1']);
+    });
+
+    it('should throw when the playlist does not exist', async () => {
+      (fetch as jest.Mock).mockResolvedValueOnce({ ok: true, json: async () => ({ items: [] }) });
+
+      await expect(service.getCollectionVideos({ type: 'playlist', playlistId: 'PLmissing' }))
+        .rejects.toThrow('Playlist not found');
+    });
+  });
+});
@@ -2,7 +2,8 @@ import {
   extractVideoId, 
   validateYouTubeUrl, 
   formatDuration, 
-  parseIsoDuration 
+  parseIsoDuration,
+  parseYouTubeCollectionUrl
 } from '../youtube-utils';
 
 describe('YouTube Utils', () => {
@@ -169,4 +170,32 @@ describe('YouTube Utils', () => {
       expect(parseIsoDuration('P1D')).toBe(0); // Days not supported
     });
   });
-});
\ No newline at end of file
+
+  describe('parseYouTubeCollectionUrl', () => {
+    it('should parse playlist URLs', () => {
+      expect(parseYouTubeCollectionUrl('https://www.youtube.com/playlist?list=PLrAXtmErZgOeiKm4sgNOknGvNjby9efdf'))
+        .toEqual({ type: 'playlist', playlistId: 'PLrAXtmErZgOeiKm4sgNOknGvNjby9efdf' });
+    });
+
+    it('should parse channel URLs', () => {
+      expect(parseYouTubeCollectionUrl('https://www.youtube.com/@GoogleDevelopers'))
+        .toEqual({ type: 'channel', handle: 'GoogleDevelopers' });
+      expect(parseYouTubeCollectionUrl('https://www.youtube.com/@GoogleDevelopers/videos'))
+        .toEqual({ type: 'channel', handle: 'GoogleDevelopers' });
+      expect(parseYouTubeCollectionUrl('https://youtube.com/channel/UC_x5XG1OV2P6uZZ5FSM9Ttw'))
+        .toEqual({ type: 'channel', channelId: 'UC_x5XG1OV2P6uZZ5FSM9Ttw' });
+      expect(parseYouTubeCollectionUrl('https://www.youtube.com/user/GoogleDevelopers'))
+        .toEqual({ type: 'channel', username: 'GoogleDevelopers' });
+      expect(parseYouTubeCollectionUrl('https://www.youtube.com/c/GoogleDevelopers'))
+        .toEqual({ type: 'channel', handle: 'GoogleDevelopers' });
+    });
+
+    it('should return null for single videos and other URLs', () => {
+      expect(parseYouTubeCollectionUrl('https://www.youtube.com/watch?v=dQw4w9WgXcQ&list=PL123')).toBeNull();
+      expect(parseYouTubeCollectionUrl('https://youtu.be/dQw4w9WgXcQ')).toBeNull();
+      expect(parseYouTubeCollectionUrl('https://www.youtube.com/playlist')).toBeNull();
+      expect(parseYouTubeCollectionUrl('https://vimeo.com/@someone')).toBeNull();
+      expect(parseYouTubeCollectionUrl('not a url')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,47 @@
+import { createZip, crc32 } from '../zip-writer';
+
+describe('zip-writer', () => {
+  const readUint32 = (bytes: Uint8Array, offset: number) =>
+    new DataView(bytes.buffer, bytes.byteOffset).getUint32(offset, true);
+  const readUint16 = (bytes: Uint8Array, offset: number) =>
+    new DataView(bytes.buffer, bytes.byteOffset).getUint16(offset, true);
+
+  describe('crc32', () => {
+    it('should match the standard CRC-32 check value', () => {
+      expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+      expect(crc32(new Uint8Array(0))).toBe(0);
+    });
+  });
+
+  describe('createZip', () => {
+    it('should write local headers, file data and a central directory', () => {
+      const zip = createZip([
+        { name: 'a.md', content: '# A' },
+        { name: 'b.txt', content: new Uint8Array([1, 2, 3]) }
+      ]);
+
+      // First local file header
+      expect(readUint32(zip, 0)).toBe(0x04034b50);
+      expect(readUint16(zip, 26)).toBe(4);
+      expect(new TextDecoder().decode(zip.subarray(30, 34))).toBe('a.md');
+      expect(new TextDecoder().decode(zip.subarray(34, 37))).toBe('# A');
+      expect(readUint32(zip, 14)).toBe(crc32(new TextEncoder().encode('# A')));
+
+      // End of central directory record
+      const end = zip.length - 22;
+      expect(readUint32(zip, end)).toBe(0x06054b50);
+      expect(readUint16(zip, end + 10)).toBe(2);
+
+      const centralOffset = readUint32(zip, end + 16);
+      expect(readUint32(zip, centralOffset)).toBe(0x02014b50);
+      expect(centralOffset).toBe(30 + 4 + 3 + 30 + 5 + 3);
+    });
+
+    it('should encode file names as UTF-8', () => {
+      const zip = createZip([{ name: 'café.md', content: '' }]);
+
+      expect(readUint16(zip, 6) & 0x0800).toBe(0x0800);
+      expect(readUint16(zip, 26)).toBe(new TextEncoder().encode('café.md').length);
+    });
+  });
+});
@@ -5,17 +5,68 @@ import {
   ArticleSection, 
   GenerationOptions, 
   VideoMetadata,
-  Transcript 
+  Transcript,
+  TranscriptSegment
 } from '@/types';
+import { LLMProviderRegistry, TokenCallback } from './llm-providers';
+import { TranscriptProcessor } from './transcript-processor';
+import { throwIfAborted } from './error-handling';
+import { CitationLinker } from './citation-linker';
+import { GroundingChecker } from './grounding-checker';
+import { ArticleGenerator } from './article-generator';
+import { ChapterDetector } from './chapter-detector';
+import { DescriptionParser } from './description-parser';
+import {
+  AIResponseParseError,
+  ArticleDraft,
+  ArticleDraftField,
+  ArticleSectionDraft,
+  JsonRepair,
+  parseJsonResponse,
+  validateArticleJson
+} from './ai-response-parser';
 
 /**
- * AI-powered article generator using OpenRouter API
+ * How an article was produced: which repairs its JSON needed, which fields
+ * had to be requested again and whether the template fallback was used
+ */
+export interface GenerationTelemetry {
+  repairs: JsonRepair[];
+  repromptedFields: ArticleDraftField[];
+  fallback: boolean;
+  fallbackReason?: string;
+}
+
+export interface ArticleGenerationResult {
+  article: Article;
+  telemetry: GenerationTelemetry;
+}
+
+export function createGenerationTelemetry(): GenerationTelemetry {
+  return { repairs: [], repromptedFields: [], fallback: false };
+}
+
+/**
+ * AI-powered article generator backed by a pluggable LLM provider
+ * (OpenRouter by default, see LLMProviderRegistry)
  */
 export class AIArticleGenerator {
-  private static readonly OPENROUTER_BASE_URL = 'https://openrouter.ai/api/v1';
-  
+  static readonly ARTICLE_JSON_FORMAT = `Please respond with ONLY a JSON object in this exact format:
+{
+  "title": "Your article title here",
+  "introduction": "Introduction paragraph",
+  "sections": [
+    {"heading": "Section 1", "content": "Content for section 1"},
+    {"heading": "Section 2", "content": "Content for section 2"}
+  ],
+  "conclusion": "Conclusion paragraph",
+  "tags": ["tag1", "tag2", "tag3"]
+}`;
+
   /**
-   * Generate article using AI
+   * Generate article using AI. Aborting the signal cancels the LLM request
+   * and rejects with an AbortError instead of falling back to a template.
+   * onToken receives the article response as the provider streams it.
    */
   static async generateArticle(
     analysis: ContentAnalysis,
@@ -25,26 +76,80 @@ export class AIArticleGenerator {
       length: 'medium',
       tone: 'professional',
       format: 'markdown'
-    }
+    },
+    signal?: AbortSignal,
+    onToken?: TokenCallback
   ): Promise<Article> {
+    const { article } = await this.generateArticleWithTelemetry(analysis, videoMetadata, transcript, options, signal, onToken);
+    return article;
+  }
+
+  /**
+   * Same as generateArticle, also reporting how the response was repaired
+   * and whether the template fallback was used
+   */
+  static async generateArticleWithTelemetry(
+    analysis: ContentAnalysis,
+    videoMetadata: VideoMetadata,
+    transcript: Transcript,
+    options: GenerationOptions = {
+      length: 'medium',
+      tone: 'professional',
+      format: 'markdown'
+    },
+    signal?: AbortSignal,
+    onToken?: TokenCallback
+  ): Promise<ArticleGenerationResult> {
+    if (options.generationMode === 'chunked') {
+      // Long transcripts: summarize chunks first, then compose (map-reduce)
+      const { ChunkedArticleGenerator } = await import('./chunked-article-generator');
+      return ChunkedArticleGenerator.generateArticleWithTelemetry(analysis, videoMetadata, transcript, options, undefined, signal, onToken);
+    }
+
+    const telemetry = createGenerationTelemetry();
+
     try {
       // Prepare the prompt for AI generation
       const prompt = this.createPrompt(analysis, videoMetadata, transcript, options);
       
-      // Call OpenRouter API
-      const aiResponse = await this.callOpenRouterAPI(prompt, options);
+      // Call the selected LLM provider
+      const aiResponse = await this.callLLM(prompt, options, signal, onToken);
       
-      // Parse AI response into article structure
-      const article = this.parseAIResponse(aiResponse, videoMetadata, analysis);
+      // Parse AI response into article structure, asking again for missing fields
+      const article = await this.completeArticleResponse(aiResponse, prompt, videoMetadata, analysis, options, telemetry, signal);
       
-      return article;
+      return {
+        article: DescriptionParser.addResourcesSection(this.verifyArticle(article, transcript), videoMetadata.description, options.format),
+        telemetry
+      };
     } catch (error) {
+      throwIfAborted(signal);
       console.error('AI article generation failed:', error);
       // Fallback to template-based generation
-      return this.generateFallbackArticle(analysis, videoMetadata, transcript, options);
+      return {
+        article: await this.generateFallbackArticle(analysis, videoMetadata, transcript, options),
+        telemetry: this.recordFallback(telemetry, error)
+      };
     }
   }
 
+  /**
+   * Mark telemetry as having fallen back to the template generator
+   */
+  static recordFallback(telemetry: GenerationTelemetry, error: unknown): GenerationTelemetry {
+    telemetry.fallback = true;
+    telemetry.fallbackReason = error instanceof Error ? error.message : String(error);
+    return telemetry;
+  }
+
+  /**
+   * Post-generation pass: link paragraphs to the transcript and score how well
+   * the article's sentences are supported by it
+   */
+  static verifyArticle(article: Article, transcript: Transcript): Article {
+    return GroundingChecker.annotate(CitationLinker.attachCitations(article, transcript), transcript);
+  }
+
   /**
    * Create a comprehensive prompt for AI article generation
    */
@@ -64,6 +169,40 @@ export class AIArticleGenerator {
       .map(topic => topic.name)
       .join(', ');
 
+    return `Create a blog article about: ${videoMetadata.title}
+
+Video Summary: ${analysis.summary}
+
+Main Topics: ${topics}
+
+Key Points:
+${keyPoints}
+${this.getChapterInstructions(analysis)}
+Instructions: ${this.getWritingInstructions(options)}
+${this.getTemplateInstructions(options)}
+${this.ARTICLE_JSON_FORMAT}`;
+  }
+
+  /**
+   * The video's chapters, for the article to follow, or an empty string when
+   * the analysis has none
+   */
+  static getChapterInstructions(analysis: ContentAnalysis): string {
+    const chapters = analysis.chapters || [];
+    if (chapters.length < 2) return '';
+
+    return `
+Video Chapters:
+${ChapterDetector.formatChapterList(chapters)}
+
+Structure the sections along these chapters, in this order.
+`;
+  }
+
+  /**
+   * Length and tone instructions shared by all article prompts
+   */
+  static getWritingInstructions(options: GenerationOptions): string {
     const lengthInstruction = {
       'short': 'Write a concise article (300-500 words)',
       'medium': 'Write a comprehensive article (600-1000 words)', 
@@ -76,108 +215,76 @@ export class AIArticleGenerator {
       'technical': 'Use precise, technical language appropriate for expert audiences'
     }[options.tone];
 
-    return `Create a blog article about: ${videoMetadata.title}
-
-Video Summary: ${analysis.summary}
-
-Main Topics: ${topics}
-
-Key Points:
-${keyPoints}
-
-Instructions: ${lengthInstruction}. ${toneInstruction}.
-
-Please respond with ONLY a JSON object in this exact format:
-{
-  "title": "Your article title here",
-  "introduction": "Introduction paragraph",
-  "sections": [
-    {"heading": "Section 1", "content": "Content for section 1"},
-    {"heading": "Section 2", "content": "Content for section 2"}
-  ],
-  "conclusion": "Conclusion paragraph",
-  "tags": ["tag1", "tag2", "tag3"]
-}`;
+    return `${lengthInstruction}. ${toneInstruction}.`;
   }
 
   /**
-   * Call OpenRouter API for article generation
+   * Section structure of the requested template (built-in or user-defined),
+   * or an empty string when no template was requested or it is unknown
    */
-  private static async callOpenRouterAPI(prompt: string, options: GenerationOptions): Promise<string> {
-    const apiKey = process.env.OPENROUTER_API_KEY;
-    
-    if (!apiKey) {
-      console.error('OpenRouter API key not found in environment variables');
-      throw new Error('OpenRouter API key not configured');
-    }
-
-    // Use a free model from OpenRouter
-    const model = 'meta-llama/llama-3.2-3b-instruct:free';
+  static getTemplateInstructions(options: GenerationOptions): string {
+    const template = options.customTemplate
+      ? ArticleGenerator.getTemplate(options.customTemplate, options.userTemplates)
+      : null;
+    if (!template) return '';
+
+    const sections = template.structure.map((section, index) => {
+      const details: string[] = [section.contentType.replace('_', ' ')];
+      if (section.minLength && section.maxLength) {
+        details.push(`${section.minLength}-${section.maxLength} words`);
+      } else if (section.minLength) {
+        details.push(`at least ${section.minLength} words`);
+      } else if (section.maxLength) {
+        details.push(`at most ${section.maxLength} words`);
+      }
+      if (section.keywordFocus?.length) {
+        details.push(`focus on ${section.keywordFocus.join(', ')}`);
+      }
+      if (section.includeTimestamps) {
+        details.push('mention video timestamps');
+      }
+      return `${index + 1}. "${section.heading}" (${details.join('; ')})`;
+    });
 
-    console.log('🚀 Calling OpenRouter API with model:', model);
+    return `
+Follow the "${template.name}" template, in this order. Write introduction and conclusion parts into the introduction and conclusion fields and the other parts as sections with these headings:
+${sections.join('\n')}
+`;
+  }
 
-    const requestBody = {
+  /**
+   * Call the configured LLM provider for article generation
+   */
+  static async callLLM(
+    prompt: string,
+    options: GenerationOptions,
+    signal?: AbortSignal,
+    onToken?: TokenCallback
+  ): Promise<string> {
+    const provider = LLMProviderRegistry.get(options.provider);
+    const model = options.model || provider.defaultModel;
+    const maxTokens = options.maxTokens ??
+      (options.length === 'long' ? 1500 : options.length === 'medium' ? 1000 : 800);
+    const temperature = options.temperature ?? 0.7;
+
+    console.log(`🚀 Calling ${provider.name} provider with model:`, model);
+    console.log('📤 Request preview:', {
       model,
-      messages: [
-        {
-          role: 'user',
-          content: prompt
-        }
-      ],
-      max_tokens: options.length === 'long' ? 1500 : options.length === 'medium' ? 1000 : 800,
-      temperature: 0.7,
-      top_p: 0.9
-    };
-
-    console.log('📤 Request body preview:', {
-      model: requestBody.model,
-      max_tokens: requestBody.max_tokens,
-      temperature: requestBody.temperature,
+      max_tokens: maxTokens,
+      temperature,
       prompt_length: prompt.length
     });
 
-    const response = await fetch(`${this.OPENROUTER_BASE_URL}/chat/completions`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-        'HTTP-Referer': process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000',
-        'X-Title': 'Vid2Blog Article Generator'
-      },
-      body: JSON.stringify(requestBody)
-    });
-
-    console.log('📥 OpenRouter response status:', response.status);
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('❌ OpenRouter API error response:', errorText);
-      
-      let errorData;
-      try {
-        errorData = JSON.parse(errorText);
-      } catch {
-        errorData = { message: errorText };
-      }
-      
-      throw new Error(`OpenRouter API error: ${response.status} - ${errorData.error?.message || errorData.message || 'Unknown error'}`);
-    }
-
-    const data = await response.json();
-    console.log('✅ OpenRouter response received');
-    console.log('Response structure:', {
-      id: data.id,
-      model: data.model,
-      choices_count: data.choices?.length || 0,
-      usage: data.usage
+    const content = await provider.complete({
+      prompt,
+      model,
+      maxTokens,
+      temperature,
+      topP: 0.9,
+      signal,
+      onToken
     });
-    
-    if (!data.choices || !data.choices[0] || !data.choices[0].message) {
-      console.error('❌ Invalid OpenRouter response structure:', data);
-      throw new Error('Invalid response from OpenRouter API');
-    }
 
-    const content = data.choices[0].message.content;
     console.log('✅ AI content generated');
     console.log('Content length:', content.length);
     console.log('Content preview:', content.substring(0, 100) + '...');
@@ -186,86 +293,199 @@ Please respond with ONLY a JSON object in this exact format:
   }
 
   /**
-   * Parse AI response into article structure
+   * Parse AI response into article structure. Malformed JSON is repaired where
+   * possible; a response that does not match the article schema is rejected.
    */
-  private static parseAIResponse(
+  static parseAIResponse(
     aiResponse: string,
     videoMetadata: VideoMetadata,
     analysis: ContentAnalysis
   ): Article {
     try {
-      console.log('🔍 Parsing AI response...');
-      console.log('Raw AI response length:', aiResponse.length);
-      console.log('Raw AI response preview:', aiResponse.substring(0, 200) + '...');
-      
-      // Try to extract JSON from the response
-      const jsonMatch = aiResponse.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        console.error('❌ No JSON found in AI response. Full response:', aiResponse);
-        throw new Error('No JSON found in AI response');
+      const { value } = parseJsonResponse(aiResponse);
+      const validation = validateArticleJson(value);
+
+      if (!validation.draft) {
+        throw new AIResponseParseError(`Missing required fields in AI response: ${validation.invalidFields.join(', ')}`);
       }
 
-      console.log('✅ JSON found, length:', jsonMatch[0].length);
-      console.log('JSON preview:', jsonMatch[0].substring(0, 100) + '...');
-      
-      const parsedResponse = JSON.parse(jsonMatch[0]);
-      console.log('✅ JSON parsed successfully');
-      console.log('Parsed response keys:', Object.keys(parsedResponse));
-      
-      // Validate required fields
-      const requiredFields = ['title', 'introduction', 'sections', 'conclusion'];
-      const missingFields = requiredFields.filter(field => !parsedResponse[field]);
-      
-      if (missingFields.length > 0) {
-        console.error('❌ Missing required fields:', missingFields);
-        console.error('Available fields:', Object.keys(parsedResponse));
-        console.error('Parsed response:', parsedResponse);
-        throw new Error(`Missing required fields in AI response: ${missingFields.join(', ')}`);
+      return this.buildArticle(validation.draft, videoMetadata, analysis);
+    } catch (error) {
+      console.error('❌ Failed to parse AI response:', error);
+      throw new Error(`Failed to parse AI-generated article: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Parse an article response, repairing malformed JSON. Fields that are still
+   * missing or invalid are requested from the model once more, in a follow-up
+   * prompt that repeats the original one. Repairs and re-prompts are recorded in telemetry.
+   */
+  static async completeArticleResponse(
+    aiResponse: string,
+    prompt: string,
+    videoMetadata: VideoMetadata,
+    analysis: ContentAnalysis,
+    options: GenerationOptions,
+    telemetry: GenerationTelemetry,
+    signal?: AbortSignal
+  ): Promise<Article> {
+    const first = this.parseDraft(aiResponse, telemetry);
+    let validation = validateArticleJson(first);
+
+    if (!validation.draft) {
+      const missing = validation.invalidFields;
+      console.warn('⚠️ AI response is missing fields, asking the model again:', validation.issues);
+      telemetry.repromptedFields.push(...missing);
+
+      const followUp = await this.callLLM(this.createMissingFieldsPrompt(prompt, validation.validFields, missing), options, signal);
+      const supplied = this.parseDraft(followUp, telemetry);
+      const suppliedFields = typeof supplied === 'object' && supplied !== null ? supplied as Record<string, unknown> : {};
+
+      const merged: Record<string, unknown> = { ...validation.validFields };
+      for (const field of missing) {
+        merged[field] = suppliedFields[field];
       }
-      
-      console.log('✅ All required fields present');
-
-      // Generate metadata
-      const metadata = this.generateMetadata(
-        parsedResponse.title,
-        parsedResponse.sections,
-        parsedResponse.introduction,
-        parsedResponse.conclusion,
-        videoMetadata
-      );
+      validation = validateArticleJson(merged);
+    }
 
-      const article = {
-        title: parsedResponse.title,
-        introduction: parsedResponse.introduction,
-        sections: parsedResponse.sections.map((section: any) => ({
-          heading: section.heading,
-          content: section.content
-        })),
-        conclusion: parsedResponse.conclusion,
-        metadata,
-        tags: parsedResponse.tags || this.generateFallbackTags(analysis, videoMetadata)
-      };
+    if (!validation.draft) {
+      throw new AIResponseParseError(
+        `Missing required fields in AI response: ${validation.invalidFields.join(', ')}`,
+        telemetry.repairs
+      );
+    }
 
-      console.log('✅ Article structure created successfully');
-      console.log('Article title:', article.title);
-      console.log('Article sections count:', article.sections.length);
-      console.log('Article tags count:', article.tags.length);
-      
-      return article;
+    return this.buildArticle(validation.draft, videoMetadata, analysis);
+  }
 
+  /**
+   * Parse a response into an untyped value, or undefined when no JSON can be recovered
+   */
+  private static parseDraft(aiResponse: string, telemetry: GenerationTelemetry): unknown {
+    try {
+      const { value, repairs } = parseJsonResponse(aiResponse);
+      telemetry.repairs.push(...repairs.filter(repair => !telemetry.repairs.includes(repair)));
+      return value;
     } catch (error) {
-      console.error('❌ Failed to parse AI response:', error);
-      console.error('Error type:', error instanceof Error ? error.constructor.name : typeof error);
-      console.error('Error message:', error instanceof Error ? error.message : String(error));
-      console.error('AI response was:', aiResponse);
-      throw new Error(`Failed to parse AI-generated article: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      if (!(error instanceof AIResponseParseError)) throw error;
+      telemetry.repairs.push(...error.repairs.filter(repair => !telemetry.repairs.includes(repair)));
+      console.warn('⚠️ Could not parse AI response:', error.message);
+      return undefined;
     }
   }
 
+  /**
+   * Follow-up prompt asking only for the fields the first response lacked
+   */
+  private static createMissingFieldsPrompt(
+    prompt: string,
+    validFields: Partial<ArticleDraft>,
+    missing: ArticleDraftField[]
+  ): string {
+    const received = Object.keys(validFields).length > 0
+      ? `\n\nThese fields from your previous answer were usable:\n${JSON.stringify(validFields)}`
+      : '';
+
+    return `${prompt}
+
+Your previous answer could not be used because these fields were missing or invalid: ${missing.join(', ')}.${received}
+
+Respond with ONLY a JSON object containing these fields: ${missing.join(', ')}. Sections are objects with "heading" and "content" strings.`;
+  }
+
+  /**
+   * Build the article from a validated draft, deriving metadata and missing tags
+   */
+  private static buildArticle(draft: ArticleDraft, videoMetadata: VideoMetadata, analysis: ContentAnalysis): Article {
+    const toSections = (sections: ArticleSectionDraft[]): ArticleSection[] => sections.map(section => ({
+      heading: section.heading,
+      content: section.content,
+      ...(section.subsections?.length ? { subsections: toSections(section.subsections) } : {})
+    }));
+    const sections = toSections(draft.sections);
+
+    return {
+      title: draft.title,
+      introduction: draft.introduction,
+      sections,
+      conclusion: draft.conclusion,
+      metadata: this.generateMetadata(draft.title, sections, draft.introduction, draft.conclusion, videoMetadata),
+      tags: draft.tags && draft.tags.length > 0 ? draft.tags : this.generateFallbackTags(analysis, videoMetadata)
+    };
+  }
+
+  static readonly SECTION_JSON_FORMAT = `Please respond with ONLY a JSON object in this exact format:
+{"heading": "Section heading", "content": "Rewritten section content"}`;
+
+  /**
+   * Rewrite one section of an article following a free-text instruction.
+   * Unlike generateArticle this does not fall back to templates; the caller decides.
+   */
+  static async regenerateSection(
+    article: Article,
+    sectionIndex: number,
+    instruction: string,
+    segments: TranscriptSegment[],
+    options: GenerationOptions,
+    signal?: AbortSignal
+  ): Promise<ArticleSection> {
+    const section = article.sections[sectionIndex];
+    const prompt = this.createSectionPrompt(article, sectionIndex, instruction, segments, options);
+    const aiResponse = await this.callLLM(prompt, { ...options, maxTokens: options.maxTokens ?? 600 }, signal);
+
+    const { value } = parseJsonResponse(aiResponse);
+    const parsed = (typeof value === 'object' && value !== null ? value : {}) as Record<string, unknown>;
+    if (typeof parsed.content !== 'string' || !parsed.content.trim()) {
+      throw new Error('Missing required fields in AI response: content');
+    }
+
+    return {
+      heading: typeof parsed.heading === 'string' && parsed.heading.trim() ? parsed.heading : section.heading,
+      content: parsed.content
+    };
+  }
+
+  /**
+   * Focused prompt for rewriting a single section from its part of the transcript
+   */
+  private static createSectionPrompt(
+    article: Article,
+    sectionIndex: number,
+    instruction: string,
+    segments: TranscriptSegment[],
+    options: GenerationOptions
+  ): string {
+    const section = article.sections[sectionIndex];
+    const outline = article.sections
+      .map((other, index) => `${index === sectionIndex ? '*' : '-'} ${other.heading}`)
+      .join('\n');
+    const excerpt = segments
+      .map(segment => `[${TranscriptProcessor.formatTimestamp(segment.startTime)}] ${segment.text}`)
+      .join('\n');
+
+    return `You are revising one section of the blog article "${article.title}".
+
+Article outline (the section to rewrite is marked with *):
+${outline}
+
+Current section:
+## ${section.heading}
+${section.content}
+
+Transcript of the part of the video this section covers:
+${excerpt || '(no transcript available for this part)'}
+
+Rewrite only this section. ${instruction.trim()}
+Base every statement on the transcript above and do not repeat what the other sections cover. Use a ${options.tone} tone and keep the content in ${options.format}.
+
+${this.SECTION_JSON_FORMAT}`;
+  }
+
   /**
    * Generate fallback article using template-based approach
    */
-  private static async generateFallbackArticle(
+  static async generateFallbackArticle(
     analysis: ContentAnalysis,
     videoMetadata: VideoMetadata,
     transcript: Transcript,
@@ -324,6 +544,9 @@ Please respond with ONLY a JSON object in this exact format:
   ): string[] {
     const tags: string[] = [];
 
+    // Add the creator's hashtags
+    tags.push(...DescriptionParser.parse(videoMetadata.description).hashtags.map(tag => tag.toLowerCase()));
+
     // Add topic-based tags
     analysis.topics.slice(0, 5).forEach(topic => {
       tags.push(topic.name.toLowerCase());
@@ -346,17 +569,17 @@ Please respond with ONLY a JSON object in this exact format:
   }
 
   /**
-   * Test OpenRouter API connection
+   * Test the connection to an LLM provider (default provider if omitted)
    */
-  static async testConnection(): Promise<boolean> {
+  static async testConnection(provider?: string): Promise<boolean> {
     try {
-      const response = await this.callOpenRouterAPI(
+      const response = await this.callLLM(
         'Test message: Please respond with "Connection successful"',
-        { length: 'short', tone: 'professional', format: 'markdown' }
+        { length: 'short', tone: 'professional', format: 'markdown', provider }
       );
       return response.toLowerCase().includes('connection') || response.toLowerCase().includes('successful');
     } catch (error) {
-      console.error('OpenRouter connection test failed:', error);
+      console.error('LLM provider connection test failed:', error);
       return false;
     }
   }
@@ -0,0 +1,424 @@
+/**
+ * Tolerant JSON parsing and strict schema validation for LLM responses.
+ * Small models wrap JSON in prose or code fences, leave trailing commas,
+ * use single quotes or stop mid-object when they run out of tokens.
+ */
+
+export type JsonRepair =
+  | 'code_fence'
+  | 'surrounding_text'
+  | 'single_quotes'
+  | 'trailing_commas'
+  | 'truncated';
+
+export interface JsonParseResult {
+  value: unknown;
+  repairs: JsonRepair[];
+}
+
+export class AIResponseParseError extends Error {
+  repairs: JsonRepair[];
+
+  constructor(message: string, repairs: JsonRepair[] = []) {
+    super(message);
+    this.name = 'AIResponseParseError';
+    this.repairs = repairs;
+  }
+}
+
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+export interface ArticleSectionDraft {
+  heading: string;
+  content: string;
+  subsections?: ArticleSectionDraft[];
+}
+
+/**
+ * The article fields an LLM is asked to produce; metadata is derived afterwards
+ */
+export interface ArticleDraft {
+  title: string;
+  introduction: string;
+  sections: ArticleSectionDraft[];
+  conclusion: string;
+  tags?: string[];
+}
+
+export type ArticleDraftField = keyof ArticleDraft;
+
+export const ARTICLE_DRAFT_FIELDS: ArticleDraftField[] = ['title', 'introduction', 'sections', 'conclusion', 'tags'];
+
+export interface ArticleValidationResult {
+  valid: boolean;
+  draft?: ArticleDraft;
+  // Top-level fields that are missing or invalid
+  invalidFields: ArticleDraftField[];
+  issues: SchemaIssue[];
+  // Fields that passed validation, usable when asking the model for the rest
+  validFields: Partial<ArticleDraft>;
+}
+
+function tryParse(text: string): { ok: true; value: unknown } | { ok: false } {
+  try {
+    return { ok: true, value: JSON.parse(text) };
+  } catch {
+    return { ok: false };
+  }
+}
+
+/**
+ * Rewrite single-quoted strings as double-quoted ones, leaving apostrophes
+ * inside double-quoted strings alone
+ */
+function convertSingleQuotes(text: string): string {
+  let result = '';
+  let quote: '"' | "'" | null = null;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quote === null) {
+      if (char === '"' || char === "'") {
+        quote = char;
+        result += '"';
+      } else {
+        result += char;
+      }
+      continue;
+    }
+
+    if (char === '\\') {
+      const next = text[i + 1];
+      // \' is not a valid JSON escape
+      result += quote === "'" && next === "'" ? "'" : char + (next ?? '');
+      i++;
+    } else if (char === quote) {
+      quote = null;
+      result += '"';
+    } else if (char === '"' && quote === "'") {
+      result += '\\"';
+    } else {
+      result += char;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Remove commas directly before a closing bracket or brace, outside strings
+ */
+function removeTrailingCommas(text: string): string {
+  let result = '';
+  let inString = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      result += char;
+      if (char === '\\') {
+        result += text[i + 1] ?? '';
+        i++;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === ',' && /^\s*[}\]]/.test(text.slice(i + 1))) {
+      continue;
+    }
+    result += char;
+  }
+
+  return result;
+}
+
+interface ScanState {
+  inString: boolean;
+  openers: string[];
+  // Position of the last comma outside strings, where an incomplete element can be cut off
+  lastComma: number;
+}
+
+function scan(text: string): ScanState {
+  const openers: string[] = [];
+  let inString = false;
+  let lastComma = -1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      openers.push(char);
+    } else if (char === '}' || char === ']') {
+      openers.pop();
+    } else if (char === ',') {
+      lastComma = i;
+    }
+  }
+
+  return { inString, openers, lastComma };
+}
+
+/**
+ * Close a JSON document cut off mid-way. A partial last string is kept;
+ * an element that cannot be completed is dropped back to the previous comma.
+ */
+function closeTruncated(text: string): unknown | undefined {
+  let candidate = text;
+
+  for (let attempt = 0; attempt < 100 && candidate.length > 0; attempt++) {
+    const { inString, openers, lastComma } = scan(candidate);
+    const closers = openers.reverse().map(opener => (opener === '{' ? '}' : ']')).join('');
+    const closed = removeTrailingCommas(
+      (candidate + (inString ? '"' : '')).replace(/[\s,:]+$/, '') + closers
+    );
+
+    const parsed = tryParse(closed);
+    if (parsed.ok) return parsed.value;
+    if (lastComma === -1) return undefined;
+    candidate = candidate.slice(0, lastComma);
+  }
+
+  return undefined;
+}
+
+/**
+ * Index of the brace closing the object that starts at position 0, or -1 when it is never closed
+ */
+function findObjectEnd(text: string): number {
+  let depth = 0;
+  let inString = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      depth++;
+    } else if (char === '}' || char === ']') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Index of the first code fence at the start of a line and outside any
+ * JSON string, from position `from`; -1 when there is none. Fences inside
+ * string values (code samples in section content) are skipped.
+ */
+function findFence(text: string, from: number): number {
+  let inString = false;
+
+  for (let i = from; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '`' && (i === 0 || text[i - 1] === '\n') && text.startsWith('```', i)) {
+      return i;
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * The text inside the code fence wrapping a response, or null when it has none.
+ * An unclosed fence runs to the end of the response.
+ */
+function stripCodeFence(text: string): string | null {
+  const open = findFence(text, 0);
+  if (open === -1) return null;
+
+  const lineEnd = text.indexOf('\n', open);
+  if (lineEnd === -1) return text.slice(open + 3).replace(/^json/i, '').trim();
+
+  const close = findFence(text, lineEnd + 1);
+  return text.slice(lineEnd + 1, close === -1 ? text.length : close).trim();
+}
+
+/**
+ * Parse the JSON object in an LLM response, repairing common mistakes.
+ * Throws AIResponseParseError when no object can be recovered.
+ */
+export function parseJsonResponse(response: string): JsonParseResult {
+  const repairs: JsonRepair[] = [];
+  let text = response.trim();
+
+  const clean = tryParse(text);
+  if (clean.ok) {
+    return { value: clean.value, repairs };
+  }
+
+  const fenced = stripCodeFence(text);
+  if (fenced !== null) {
+    repairs.push('code_fence');
+    text = fenced;
+  }
+
+  const start = text.indexOf('{');
+  if (start === -1) {
+    throw new AIResponseParseError('No JSON found in AI response', repairs);
+  }
+
+  let body = text.slice(start);
+  let hasSurroundingText = start > 0;
+
+  const attempt = (): JsonParseResult | null => {
+    const end = findObjectEnd(body);
+    if (end !== -1 && end < body.length - 1) hasSurroundingText = true;
+    const parsed = tryParse(end === -1 ? body : body.slice(0, end + 1));
+    if (!parsed.ok) return null;
+    return {
+      value: parsed.value,
+      repairs: hasSurroundingText ? [...repairs, 'surrounding_text'] : repairs
+    };
+  };
+
+  let result = attempt();
+  if (result) return result;
+
+  const fixes: Array<[JsonRepair, (text: string) => string]> = [
+    ['single_quotes', convertSingleQuotes],
+    ['trailing_commas', removeTrailingCommas]
+  ];
+  for (const [repair, fix] of fixes) {
+    const fixed = fix(body);
+    if (fixed === body) continue;
+    repairs.push(repair);
+    body = fixed;
+    result = attempt();
+    if (result) return result;
+  }
+
+  if (findObjectEnd(body) === -1) {
+    const recovered = closeTruncated(body);
+    if (recovered !== undefined) {
+      repairs.push('truncated');
+      return { value: recovered, repairs: hasSurroundingText ? [...repairs, 'surrounding_text'] : repairs };
+    }
+  }
+
+  throw new AIResponseParseError('AI response contains malformed JSON that could not be repaired', repairs);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+function validateSections(value: unknown, path: string, issues: SchemaIssue[]): value is ArticleSectionDraft[] {
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: 'must be an array' });
+    return false;
+  }
+  if (path === 'sections' && value.length === 0) {
+    issues.push({ path, message: 'must contain at least one section' });
+    return false;
+  }
+
+  const before = issues.length;
+  value.forEach((section, index) => {
+    const sectionPath = `${path}[${index}]`;
+    if (typeof section !== 'object' || section === null) {
+      issues.push({ path: sectionPath, message: 'must be an object' });
+      return;
+    }
+    const { heading, content, subsections } = section as Record<string, unknown>;
+    if (!isNonEmptyString(heading)) issues.push({ path: `${sectionPath}.heading`, message: 'must be a non-empty string' });
+    if (!isNonEmptyString(content)) issues.push({ path: `${sectionPath}.content`, message: 'must be a non-empty string' });
+    if (subsections !== undefined) validateSections(subsections, `${sectionPath}.subsections`, issues);
+  });
+
+  return issues.length === before;
+}
+
+function toSectionDrafts(sections: ArticleSectionDraft[]): ArticleSectionDraft[] {
+  return sections.map(section => ({
+    heading: section.heading,
+    content: section.content,
+    ...(section.subsections ? { subsections: toSectionDrafts(section.subsections) } : {})
+  }));
+}
+
+/**
+ * Strictly validate a parsed LLM response against the article schema
+ */
+export function validateArticleJson(value: unknown): ArticleValidationResult {
+  const issues: SchemaIssue[] = [];
+  const invalidFields: ArticleDraftField[] = [];
+  const validFields: Partial<ArticleDraft> = {};
+
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return {
+      valid: false,
+      invalidFields: ARTICLE_DRAFT_FIELDS.filter(field => field !== 'tags'),
+      issues: [{ path: '', message: 'must be a JSON object' }],
+      validFields
+    };
+  }
+
+  const record = value as Record<string, unknown>;
+
+  const validateText = (field: 'title' | 'introduction' | 'conclusion') => {
+    if (isNonEmptyString(record[field])) {
+      validFields[field] = record[field] as string;
+    } else {
+      invalidFields.push(field);
+      issues.push({ path: field, message: record[field] === undefined ? 'is required' : 'must be a non-empty string' });
+    }
+  };
+
+  validateText('title');
+  validateText('introduction');
+
+  if (record.sections === undefined) {
+    invalidFields.push('sections');
+    issues.push({ path: 'sections', message: 'is required' });
+  } else if (validateSections(record.sections, 'sections', issues)) {
+    validFields.sections = toSectionDrafts(record.sections);
+  } else {
+    invalidFields.push('sections');
+  }
+
+  validateText('conclusion');
+
+  // Tags are optional; they are generated from the analysis when absent
+  if (record.tags !== undefined) {
+    if (Array.isArray(record.tags) && record.tags.every(tag => typeof tag === 'string')) {
+      validFields.tags = record.tags;
+    } else {
+      invalidFields.push('tags');
+      issues.push({ path: 'tags', message: 'must be an array of strings' });
+    }
+  }
+
+  const valid = invalidFields.length === 0;
+  return {
+    valid,
+    draft: valid ? (validFields as ArticleDraft) : undefined,
+    invalidFields,
+    issues,
+    validFields
+  };
+}
@@ -0,0 +1,175 @@
+import { Article, ArticleSection } from '@/types';
+
+export interface TextChange {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+export interface SectionDiff {
+  key: string;
+  label: string;
+  status: 'added' | 'removed' | 'changed' | 'unchanged';
+  before?: string;
+  after?: string;
+  changes: TextChange[];
+}
+
+// Above this many LCS cells a part is shown as fully replaced instead of diffed word by word
+const MAX_DIFF_CELLS = 250_000;
+
+/**
+ * Longest common subsequence alignment of two token lists.
+ * Returns the matched index pairs in order.
+ */
+function alignTokens<T>(before: T[], after: T[], equals: (a: T, b: T) => boolean): Array<[number, number]> {
+  const rows = before.length + 1;
+  const columns = after.length + 1;
+  const lengths = new Uint32Array(rows * columns);
+
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i * columns + j] = equals(before[i], after[j])
+        ? lengths[(i + 1) * columns + j + 1] + 1
+        : Math.max(lengths[(i + 1) * columns + j], lengths[i * columns + j + 1]);
+    }
+  }
+
+  const pairs: Array<[number, number]> = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (equals(before[i], after[j])) {
+      pairs.push([i, j]);
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * columns + j] >= lengths[i * columns + j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+}
+
+function pushChange(changes: TextChange[], type: TextChange['type'], text: string): void {
+  if (!text) return;
+  const last = changes[changes.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    changes.push({ type, text });
+  }
+}
+
+/**
+ * Word-level diff of two strings. Whitespace is kept so the parts join back into the original texts.
+ */
+export function diffText(before: string, after: string): TextChange[] {
+  if (before === after) {
+    return before ? [{ type: 'equal', text: before }] : [];
+  }
+
+  const beforeTokens = before.split(/(\s+)/).filter(token => token.length > 0);
+  const afterTokens = after.split(/(\s+)/).filter(token => token.length > 0);
+  const changes: TextChange[] = [];
+
+  if (beforeTokens.length * afterTokens.length > MAX_DIFF_CELLS) {
+    pushChange(changes, 'delete', before);
+    pushChange(changes, 'insert', after);
+    return changes;
+  }
+
+  let i = 0;
+  let j = 0;
+  for (const [matchedBefore, matchedAfter] of alignTokens(beforeTokens, afterTokens, (a, b) => a === b)) {
+    pushChange(changes, 'delete', beforeTokens.slice(i, matchedBefore).join(''));
+    pushChange(changes, 'insert', afterTokens.slice(j, matchedAfter).join(''));
+    pushChange(changes, 'equal', beforeTokens[matchedBefore]);
+    i = matchedBefore + 1;
+    j = matchedAfter + 1;
+  }
+  pushChange(changes, 'delete', beforeTokens.slice(i).join(''));
+  pushChange(changes, 'insert', afterTokens.slice(j).join(''));
+
+  return changes;
+}
+
+function sectionText(section: ArticleSection): string {
+  return [
+    section.heading,
+    section.content,
+    ...(section.subsections || []).map(sectionText)
+  ].filter(part => part).join('\n\n');
+}
+
+function diffPart(key: string, label: string, before?: string, after?: string): SectionDiff {
+  let status: SectionDiff['status'];
+  if (before === undefined) {
+    status = 'added';
+  } else if (after === undefined) {
+    status = 'removed';
+  } else {
+    status = before === after ? 'unchanged' : 'changed';
+  }
+
+  return { key, label, status, before, after, changes: diffText(before ?? '', after ?? '') };
+}
+
+function normalizeHeading(heading: string): string {
+  return heading.trim().toLowerCase();
+}
+
+/**
+ * Compare sections, matching them by heading so reordering or inserting a
+ * section does not show every following section as changed
+ */
+function diffSections(before: ArticleSection[], after: ArticleSection[]): SectionDiff[] {
+  const diffs: SectionDiff[] = [];
+  const pairs = alignTokens(before, after, (a, b) => normalizeHeading(a.heading) === normalizeHeading(b.heading));
+
+  const addGap = (beforeStart: number, beforeEnd: number, afterStart: number, afterEnd: number) => {
+    // Unmatched sections in the same position are treated as edited, e.g. a renamed heading
+    const paired = Math.min(beforeEnd - beforeStart, afterEnd - afterStart);
+    for (let k = 0; k < paired; k++) {
+      const previous = before[beforeStart + k];
+      const next = after[afterStart + k];
+      diffs.push(diffPart(`section-${afterStart + k}`, next.heading || previous.heading, sectionText(previous), sectionText(next)));
+    }
+    for (let k = beforeStart + paired; k < beforeEnd; k++) {
+      diffs.push(diffPart(`removed-section-${k}`, before[k].heading, sectionText(before[k]), undefined));
+    }
+    for (let k = afterStart + paired; k < afterEnd; k++) {
+      diffs.push(diffPart(`section-${k}`, after[k].heading, undefined, sectionText(after[k])));
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  for (const [matchedBefore, matchedAfter] of pairs) {
+    addGap(i, matchedBefore, j, matchedAfter);
+    diffs.push(diffPart(
+      `section-${matchedAfter}`,
+      after[matchedAfter].heading,
+      sectionText(before[matchedBefore]),
+      sectionText(after[matchedAfter])
+    ));
+    i = matchedBefore + 1;
+    j = matchedAfter + 1;
+  }
+  addGap(i, before.length, j, after.length);
+
+  return diffs;
+}
+
+/**
+ * Section-aware diff between two versions of an article
+ */
+export function diffArticles(before: Article, after: Article): SectionDiff[] {
+  return [
+    diffPart('title', 'Title', before.title, after.title),
+    diffPart('introduction', 'Introduction', before.introduction, after.introduction),
+    ...diffSections(before.sections, after.sections),
+    diffPart('conclusion', 'Conclusion', before.conclusion, after.conclusion),
+    diffPart('tags', 'Tags', before.tags.join(', '), after.tags.join(', '))
+  ];
+}
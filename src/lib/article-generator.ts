@@ -5,31 +5,24 @@ import {
   ArticleSection, 
   GenerationOptions, 
   VideoMetadata,
-  Transcript 
+  Transcript,
+  TranscriptSegment,
+  TimeRange,
+  Topic,
+  ArticleTemplate,
+  TemplateSection,
+  Chapter
 } from '@/types';
+import { CitationLinker } from './citation-linker';
+import { DescriptionParser } from './description-parser';
+import {
+  TemplateValidationResult,
+  matchesKeywordFocus,
+  sanitizeTemplates,
+  validateArticleTemplate
+} from './article-templates';
 
-/**
- * Article template interface for different content types
- */
-export interface ArticleTemplate {
-  name: string;
-  type: 'tutorial' | 'interview' | 'presentation' | 'discussion' | 'review' | 'general';
-  structure: TemplateSection[];
-  defaultTone: 'professional' | 'casual' | 'technical';
-  estimatedLength: 'short' | 'medium' | 'long';
-}
-
-/**
- * Template section configuration
- */
-export interface TemplateSection {
-  heading: string;
-  contentType: 'introduction' | 'main_content' | 'key_points' | 'summary' | 'conclusion' | 'custom';
-  minLength?: number; // minimum words
-  maxLength?: number; // maximum words
-  includeTimestamps?: boolean;
-  keywordFocus?: string[]; // focus on specific keywords
-}
+export type { ArticleTemplate, TemplateSection } from '@/types';
 
 /**
  * Service for generating blog articles from analyzed content
@@ -217,8 +210,10 @@ export class ArticleGenerator {
     // Select appropriate template
     const template = this.selectTemplate(analysis, options);
     
-    // Generate article sections based on template
-    const sections = this.generateSections(analysis, transcript, template, options);
+    // Generate article sections based on template, leaving out sponsor segments
+    const description = DescriptionParser.parse(videoMetadata.description, transcript.duration);
+    const content = DescriptionParser.excludeSponsorSegments(transcript, description);
+    const sections = this.generateSections(analysis, content, template, options);
     
     // Generate title
     const title = this.generateTitle(videoMetadata, analysis, options);
@@ -233,14 +228,15 @@ export class ArticleGenerator {
     // Generate tags
     const tags = this.generateTags(analysis, videoMetadata);
 
-    return {
+    // Link the resources listed in the video description
+    return DescriptionParser.addResourcesSection(CitationLinker.attachCitations({
       title,
       introduction,
       sections,
       conclusion,
       metadata,
       tags
-    };
+    }, transcript), videoMetadata.description, options.format);
   }
 
   /**
@@ -250,11 +246,9 @@ export class ArticleGenerator {
     analysis: ContentAnalysis,
     options: GenerationOptions
   ): ArticleTemplate {
-    // If custom template is provided, try to find it
+    // If custom template is provided, try to find it among built-in and user templates
     if (options.customTemplate) {
-      const customTemplate = this.PREDEFINED_TEMPLATES.find(
-        t => t.name.toLowerCase() === options.customTemplate?.toLowerCase()
-      );
+      const customTemplate = this.getTemplate(options.customTemplate, options.userTemplates);
       if (customTemplate) return customTemplate;
     }
 
@@ -303,6 +297,12 @@ export class ArticleGenerator {
   ): ArticleSection[] {
     const sections: ArticleSection[] = [];
 
+    // Chapters are shared out among the main content sections in video order
+    const chapters = analysis.chapters || [];
+    const mainSectionCount = template.structure.filter(section => section.contentType === 'main_content').length;
+    const chapterGroups = chapters.length > 1 ? this.groupChapters(chapters, mainSectionCount) : [];
+    let mainSectionIndex = 0;
+
     for (const templateSection of template.structure) {
       // Skip introduction and conclusion as they're handled separately
       if (templateSection.contentType === 'introduction' || 
@@ -310,12 +310,14 @@ export class ArticleGenerator {
         continue;
       }
 
-      const section = this.generateSection(
-        templateSection,
-        analysis,
-        transcript,
-        options
-      );
+      const section = templateSection.contentType === 'main_content' && chapterGroups.length > 0
+        ? this.generateChapterSection(templateSection, chapterGroups[mainSectionIndex++] || [], transcript, options)
+        : this.generateSection(
+          templateSection,
+          analysis,
+          transcript,
+          options
+        );
       
       if (section) {
         sections.push(section);
@@ -360,6 +362,53 @@ export class ArticleGenerator {
     };
   }
 
+  /**
+   * Split chapters into consecutive groups, one per main content section
+   */
+  private static groupChapters(chapters: Chapter[], groupCount: number): Chapter[][] {
+    const groups: Chapter[][] = [];
+    const count = Math.max(1, Math.min(groupCount, chapters.length));
+    for (let i = 0; i < count; i++) {
+      groups.push(chapters.slice(Math.round((i * chapters.length) / count), Math.round(((i + 1) * chapters.length) / count)));
+    }
+    return groups;
+  }
+
+  /**
+   * Main content section with one subsection per chapter
+   */
+  private static generateChapterSection(
+    templateSection: TemplateSection,
+    chapters: Chapter[],
+    transcript: Transcript,
+    options: GenerationOptions
+  ): ArticleSection | null {
+    const subsections: ArticleSection[] = [];
+
+    for (const chapter of chapters) {
+      const chapterSegments = transcript.segments.filter(segment =>
+        segment.startTime >= chapter.start && segment.startTime < chapter.end
+      );
+      let content = this.createTopicContent(chapterSegments, templateSection, options);
+      if (!content.trim()) continue;
+
+      if (templateSection.includeTimestamps) {
+        content += `\n\nDiscussed at ${this.formatTimestamp(chapter.start)}.`;
+      }
+      subsections.push({ heading: chapter.title, content: this.formatContent(content, options) });
+    }
+
+    if (subsections.length === 0) {
+      return null;
+    }
+
+    return {
+      heading: templateSection.heading,
+      content: '',
+      subsections
+    };
+  }
+
   /**
    * Generate main content section
    */
@@ -371,9 +420,11 @@ export class ArticleGenerator {
   ): string {
     const paragraphs: string[] = [];
 
-    // Group topics by relevance and create paragraphs
+    // Group topics by relevance and create paragraphs, topics the section focuses on first
+    const keywords = templateSection.keywordFocus;
     const sortedTopics = analysis.topics
       .sort((a, b) => b.relevance - a.relevance)
+      .sort((a, b) => Number(matchesKeywordFocus(b.name, keywords)) - Number(matchesKeywordFocus(a.name, keywords)))
       .slice(0, 5); // Limit to top 5 topics
 
     for (const topic of sortedTopics) {
@@ -403,11 +454,11 @@ export class ArticleGenerator {
   /**
    * Find transcript segments relevant to a topic
    */
-  private static findRelevantSegments(
-    topic: any,
+  static findRelevantSegments(
+    topic: Pick<Topic, 'name' | 'timeRanges'>,
     transcript: Transcript
-  ): any[] {
-    const relevantSegments: any[] = [];
+  ): TranscriptSegment[] {
+    const relevantSegments: TranscriptSegment[] = [];
     const topicKeywords = topic.name.toLowerCase().split(' ');
 
     for (const timeRange of topic.timeRanges) {
@@ -428,6 +479,38 @@ export class ArticleGenerator {
     return relevantSegments;
   }
 
+  /**
+   * Rebuild one section from the transcript segments in its time range.
+   * Templates cannot follow free-text instructions, so only the content is refreshed.
+   */
+  static regenerateSection(
+    section: ArticleSection,
+    timeRange: TimeRange,
+    transcript: Transcript,
+    options: GenerationOptions
+  ): ArticleSection {
+    let segments = this.findRelevantSegments({ name: section.heading, timeRanges: [timeRange] }, transcript);
+
+    // Headings rarely repeat the speaker's words, so fall back to everything said in the range
+    if (segments.length === 0) {
+      segments = transcript.segments.filter(segment =>
+        segment.startTime >= timeRange.start && segment.startTime < timeRange.end
+      );
+    }
+
+    const templateSection: TemplateSection = {
+      heading: section.heading,
+      contentType: 'main_content',
+      maxLength: { short: 100, medium: 200, long: 300 }[options.length]
+    };
+    const content = this.createTopicContent(segments, templateSection, options);
+
+    return {
+      heading: section.heading,
+      content: content ? this.formatContent(content, options) : section.content
+    };
+  }
+
   /**
    * Create content from transcript segments
    */
@@ -472,8 +555,13 @@ export class ArticleGenerator {
     templateSection: TemplateSection,
     options: GenerationOptions
   ): string {
+    const keywords = templateSection.keywordFocus;
     const keyPoints = analysis.keyPoints
       .sort((a, b) => b.importance - a.importance)
+      .sort((a, b) =>
+        Number(matchesKeywordFocus(`${b.category} ${b.text}`, keywords)) -
+        Number(matchesKeywordFocus(`${a.category} ${a.text}`, keywords))
+      )
       .slice(0, 8); // Limit to top 8 key points
 
     if (keyPoints.length === 0) {
@@ -522,6 +610,15 @@ export class ArticleGenerator {
     templateSection: TemplateSection,
     options: GenerationOptions
   ): string {
+    // Sections with a keyword focus are built from what was said about those keywords
+    if (templateSection.keywordFocus?.length) {
+      const segments = transcript.segments.filter(segment =>
+        matchesKeywordFocus(segment.text, templateSection.keywordFocus)
+      );
+      const content = this.createTopicContent(segments, templateSection, options);
+      if (content) return content;
+    }
+
     // Fallback to summary content for custom sections
     return this.generateSummaryContent(analysis, templateSection, options);
   }
@@ -620,7 +717,7 @@ export class ArticleGenerator {
     const allText = [
       title,
       introduction,
-      ...sections.map(s => s.heading + ' ' + s.content),
+      ...sections.map(s => [s.heading, s.content, ...(s.subsections || []).map(sub => sub.heading + ' ' + sub.content)].join(' ')),
       conclusion
     ].join(' ');
     
@@ -653,6 +750,9 @@ export class ArticleGenerator {
   ): string[] {
     const tags: string[] = [];
 
+    // Add the creator's hashtags
+    tags.push(...DescriptionParser.parse(videoMetadata.description).hashtags.map(tag => tag.toLowerCase()));
+
     // Add topic-based tags
     analysis.topics.slice(0, 5).forEach(topic => {
       tags.push(topic.name.toLowerCase());
@@ -739,18 +839,35 @@ export class ArticleGenerator {
   }
 
   /**
-   * Get available templates
+   * Get available templates: the built-in ones followed by the valid user templates
    */
-  static getAvailableTemplates(): ArticleTemplate[] {
-    return [...this.PREDEFINED_TEMPLATES];
+  static getAvailableTemplates(userTemplates: ArticleTemplate[] = []): ArticleTemplate[] {
+    return [
+      ...this.PREDEFINED_TEMPLATES,
+      ...sanitizeTemplates(userTemplates, this.PREDEFINED_TEMPLATES.map(t => t.name))
+    ];
   }
 
   /**
-   * Get template by name
+   * Get template by name, looking at built-in and user templates
    */
-  static getTemplate(name: string): ArticleTemplate | null {
-    return this.PREDEFINED_TEMPLATES.find(
+  static getTemplate(name: string, userTemplates: ArticleTemplate[] = []): ArticleTemplate | null {
+    return this.getAvailableTemplates(userTemplates).find(
       t => t.name.toLowerCase() === name.toLowerCase()
     ) || null;
   }
+
+  /**
+   * Check whether a name belongs to a built-in template
+   */
+  static isBuiltInTemplate(name: string): boolean {
+    return this.PREDEFINED_TEMPLATES.some(t => t.name.toLowerCase() === name.toLowerCase());
+  }
+
+  /**
+   * Validate a user template; its name may not repeat a built-in template or one of otherNames
+   */
+  static validateUserTemplate(value: unknown, otherNames: string[] = []): TemplateValidationResult {
+    return validateArticleTemplate(value, [...this.PREDEFINED_TEMPLATES.map(t => t.name), ...otherNames]);
+  }
 }
\ No newline at end of file
@@ -0,0 +1,202 @@
+import { Article, ContentAnalysis, GenerationOptions, VideoMetadata } from '@/types';
+
+/**
+ * A generated article saved together with what it was generated from
+ */
+export interface ArticleHistoryEntry {
+  id: string;
+  article: Article;
+  videoMetadata: VideoMetadata;
+  analysis?: ContentAnalysis;
+  options?: GenerationOptions;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Persistence for article history
+ */
+export interface ArticleHistoryStore {
+  get(id: string): Promise<ArticleHistoryEntry | null>;
+  save(entry: ArticleHistoryEntry): Promise<void>;
+  list(): Promise<ArticleHistoryEntry[]>;
+  delete(id: string): Promise<void>;
+}
+
+export const HISTORY_ID_PATTERN = /^[a-zA-Z0-9-]+$/;
+
+/**
+ * Create a new history entry for a freshly generated article
+ */
+export function createHistoryEntry(
+  article: Article,
+  videoMetadata: VideoMetadata,
+  analysis?: ContentAnalysis,
+  options?: GenerationOptions
+): ArticleHistoryEntry {
+  const now = new Date().toISOString();
+  return {
+    id: crypto.randomUUID(),
+    article,
+    videoMetadata,
+    analysis,
+    options,
+    createdAt: now,
+    updatedAt: now
+  };
+}
+
+/**
+ * Filter entries whose article or source video matches every word of the query
+ */
+export function searchHistory(entries: ArticleHistoryEntry[], query: string): ArticleHistoryEntry[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(term => term.length > 0);
+  if (terms.length === 0) {
+    return entries;
+  }
+
+  return entries.filter(entry => {
+    const haystack = [
+      entry.article.title,
+      entry.article.introduction,
+      ...entry.article.tags,
+      ...entry.article.sections.map(section => section.heading),
+      entry.videoMetadata.title,
+      entry.videoMetadata.channelName,
+      ...(entry.analysis?.topics || []).map(topic => topic.name)
+    ].join('\n').toLowerCase();
+
+    return terms.every(term => haystack.includes(term));
+  });
+}
+
+function sortNewestFirst(entries: ArticleHistoryEntry[]): ArticleHistoryEntry[] {
+  return entries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+const DATABASE_NAME = 'vid2blog';
+const DATABASE_VERSION = 1;
+const STORE_NAME = 'article-history';
+
+/**
+ * Stores entries in the browser's IndexedDB
+ */
+export class IndexedDBHistoryStore implements ArticleHistoryStore {
+  private database: Promise<IDBDatabase> | null = null;
+
+  async get(id: string): Promise<ArticleHistoryEntry | null> {
+    const entry = await this.request<ArticleHistoryEntry | undefined>('readonly', store => store.get(id));
+    return entry ?? null;
+  }
+
+  async save(entry: ArticleHistoryEntry): Promise<void> {
+    await this.request('readwrite', store => store.put(entry));
+  }
+
+  async list(): Promise<ArticleHistoryEntry[]> {
+    return sortNewestFirst(await this.request<ArticleHistoryEntry[]>('readonly', store => store.getAll()));
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(id));
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB is not available'));
+          return;
+        }
+
+        const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+
+      // Allow a later call to retry after a failed open
+      this.database.catch(() => {
+        this.database = null;
+      });
+    }
+    return this.database;
+  }
+
+  private async request<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const database = await this.open();
+
+    return new Promise((resolve, reject) => {
+      const transaction = database.transaction(STORE_NAME, mode);
+      const request = operation(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result as T);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+}
+
+/**
+ * Stores entries on the server through /api/history
+ */
+export class HttpHistoryStore implements ArticleHistoryStore {
+  private baseUrl: string;
+
+  constructor(baseUrl: string = '') {
+    this.baseUrl = baseUrl;
+  }
+
+  async get(id: string): Promise<ArticleHistoryEntry | null> {
+    const response = await fetch(`${this.baseUrl}/api/history/${encodeURIComponent(id)}`);
+    if (response.status === 404) {
+      return null;
+    }
+    return (await this.parse(response, 'Failed to load article')) as ArticleHistoryEntry;
+  }
+
+  async save(entry: ArticleHistoryEntry): Promise<void> {
+    const response = await fetch(`${this.baseUrl}/api/history/${encodeURIComponent(entry.id)}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(entry)
+    });
+    await this.parse(response, 'Failed to save article');
+  }
+
+  async list(): Promise<ArticleHistoryEntry[]> {
+    const response = await fetch(`${this.baseUrl}/api/history`);
+    return (await this.parse(response, 'Failed to load article history')) as ArticleHistoryEntry[];
+  }
+
+  async delete(id: string): Promise<void> {
+    const response = await fetch(`${this.baseUrl}/api/history/${encodeURIComponent(id)}`, {
+      method: 'DELETE'
+    });
+    await this.parse(response, 'Failed to delete article');
+  }
+
+  private async parse(response: Response, failureMessage: string): Promise<unknown> {
+    const result = await response.json();
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || failureMessage);
+    }
+    return result.data;
+  }
+}
+
+/**
+ * History store used by the UI. Set NEXT_PUBLIC_HISTORY_STORE=server to keep
+ * history on the server instead of in the browser.
+ */
+export function createHistoryStore(): ArticleHistoryStore {
+  return process.env.NEXT_PUBLIC_HISTORY_STORE === 'server'
+    ? new HttpHistoryStore()
+    : new IndexedDBHistoryStore();
+}
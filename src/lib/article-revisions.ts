@@ -0,0 +1,146 @@
+import { Article, PublicationRecord } from '@/types';
+
+export type RevisionKind = 'generation' | 'edit' | 'regeneration' | 'restore';
+
+/**
+ * One saved state of an article
+ */
+export interface ArticleRevision {
+  id: string;
+  article: Article;
+  author: string;
+  kind: RevisionKind;
+  createdAt: string;
+  // Revision this one was made from; undo returns to it
+  parentId?: string;
+  // For restores, the revision whose content was brought back
+  restoredFromId?: string;
+}
+
+/**
+ * Every revision of an article plus the undo/redo position.
+ * Revisions are never dropped, so undone edits stay available to compare and restore.
+ */
+export interface RevisionHistory {
+  revisions: ArticleRevision[]; // oldest first
+  currentId: string;
+  redoIds: string[]; // most recently undone last
+}
+
+export const AI_AUTHOR = 'AI';
+
+function createRevision(
+  history: RevisionHistory | null,
+  article: Article,
+  author: string,
+  kind: RevisionKind
+): ArticleRevision {
+  return {
+    id: `rev-${(history?.revisions.length ?? 0) + 1}`,
+    article,
+    author,
+    kind,
+    createdAt: new Date().toISOString(),
+    parentId: history?.currentId
+  };
+}
+
+/**
+ * Start a history with the article as it was generated
+ */
+export function createRevisionHistory(
+  article: Article,
+  author: string = AI_AUTHOR,
+  kind: RevisionKind = 'generation'
+): RevisionHistory {
+  const revision = createRevision(null, article, author, kind);
+  return { revisions: [revision], currentId: revision.id, redoIds: [] };
+}
+
+export function getRevision(history: RevisionHistory, id: string): ArticleRevision | undefined {
+  return history.revisions.find(revision => revision.id === id);
+}
+
+export function getCurrentRevision(history: RevisionHistory): ArticleRevision {
+  return getRevision(history, history.currentId)!;
+}
+
+/**
+ * Record a new state on top of the current revision. Clears the redo stack.
+ */
+export function recordRevision(
+  history: RevisionHistory,
+  article: Article,
+  author: string,
+  kind: RevisionKind = 'edit'
+): RevisionHistory {
+  const revision = createRevision(history, article, author, kind);
+  return {
+    revisions: [...history.revisions, revision],
+    currentId: revision.id,
+    redoIds: []
+  };
+}
+
+export function canUndo(history: RevisionHistory): boolean {
+  return getCurrentRevision(history).parentId !== undefined;
+}
+
+export function canRedo(history: RevisionHistory): boolean {
+  return history.redoIds.length > 0;
+}
+
+/**
+ * Step back to the revision the current one was made from
+ */
+export function undoRevision(history: RevisionHistory): RevisionHistory {
+  const parentId = getCurrentRevision(history).parentId;
+  if (!parentId) {
+    return history;
+  }
+  return { ...history, currentId: parentId, redoIds: [...history.redoIds, history.currentId] };
+}
+
+/**
+ * Reapply the most recently undone revision
+ */
+export function redoRevision(history: RevisionHistory): RevisionHistory {
+  if (history.redoIds.length === 0) {
+    return history;
+  }
+  return {
+    ...history,
+    currentId: history.redoIds[history.redoIds.length - 1],
+    redoIds: history.redoIds.slice(0, -1)
+  };
+}
+
+/**
+ * Record where the article is published on every revision. Publications
+ * describe remote posts rather than content, so undo, redo and restore keep
+ * them and publishing again updates the same posts.
+ */
+export function setPublications(history: RevisionHistory, publications: PublicationRecord[]): RevisionHistory {
+  return {
+    ...history,
+    revisions: history.revisions.map(revision => ({
+      ...revision,
+      article: { ...revision.article, publications }
+    }))
+  };
+}
+
+/**
+ * Bring back an earlier revision as a new revision, so the restore itself can be undone
+ */
+export function restoreRevision(history: RevisionHistory, id: string, author: string): RevisionHistory {
+  const target = getRevision(history, id);
+  if (!target || id === history.currentId) {
+    return history;
+  }
+
+  const restored = recordRevision(history, target.article, author, 'restore');
+  const revisions = [...restored.revisions];
+  revisions[revisions.length - 1] = { ...revisions[revisions.length - 1], restoredFromId: id };
+  return { ...restored, revisions };
+}
@@ -0,0 +1,128 @@
+import { parseJsonResponse } from './ai-response-parser';
+
+/**
+ * An article as far as the model has written it. Fields not reached yet are empty.
+ */
+export interface PartialArticle {
+  title: string;
+  introduction: string;
+  sections: Array<{ heading: string; content: string }>;
+  conclusion: string;
+  // Where the latest text was added: 'title', 'introduction', 'sections.0' or 'conclusion'
+  current?: string;
+}
+
+/**
+ * Text appended to one field of a partial article
+ */
+export type ArticleDelta =
+  | { field: 'title' | 'introduction' | 'conclusion'; text: string }
+  | { field: 'heading' | 'content'; sectionIndex: number; text: string };
+
+export function createPartialArticle(): PartialArticle {
+  return { title: '', introduction: '', sections: [], conclusion: '' };
+}
+
+/**
+ * Return the partial article with the delta's text appended
+ */
+export function applyArticleDelta(article: PartialArticle, delta: ArticleDelta): PartialArticle {
+  if (delta.field === 'heading' || delta.field === 'content') {
+    const sections = [...article.sections];
+    while (sections.length <= delta.sectionIndex) {
+      sections.push({ heading: '', content: '' });
+    }
+    const section = sections[delta.sectionIndex];
+    sections[delta.sectionIndex] = { ...section, [delta.field]: section[delta.field] + delta.text };
+    return { ...article, sections, current: `sections.${delta.sectionIndex}` };
+  }
+
+  return { ...article, [delta.field]: article[delta.field] + delta.text, current: delta.field };
+}
+
+/**
+ * The text `next` adds to `previous`, or '' when it does not extend it. A value
+ * recovered from a cut-off response can briefly lose its tail (e.g. mid-escape),
+ * so anything that is not a strict extension waits for the next parse.
+ */
+function extension(previous: string, next: unknown): string {
+  if (typeof next !== 'string' || next.length <= previous.length || !next.startsWith(previous)) {
+    return '';
+  }
+  return next.slice(previous.length);
+}
+
+/**
+ * Turns the tokens of a streamed article response into deltas of its title,
+ * introduction, section and conclusion text. The JSON received so far is
+ * closed with the truncation repair of parseJsonResponse and compared with
+ * what was already reported.
+ */
+export class ArticleStreamParser {
+  // New characters to collect before parsing again; parsing re-reads the whole response
+  static readonly PARSE_INTERVAL = 32;
+
+  private response = '';
+  private parsedLength = 0;
+  private article = createPartialArticle();
+
+  /**
+   * Add a token and return the deltas it completes
+   */
+  push(token: string): ArticleDelta[] {
+    this.response += token;
+    if (this.response.length - this.parsedLength < ArticleStreamParser.PARSE_INTERVAL) {
+      return [];
+    }
+    return this.flush();
+  }
+
+  /**
+   * Parse everything received so far, e.g. once the stream has ended
+   */
+  flush(): ArticleDelta[] {
+    this.parsedLength = this.response.length;
+
+    let value: unknown;
+    try {
+      value = parseJsonResponse(this.response).value;
+    } catch {
+      return [];
+    }
+    if (typeof value !== 'object' || value === null) return [];
+
+    const record = value as Record<string, unknown>;
+    const deltas: ArticleDelta[] = [];
+
+    const addText = (field: 'title' | 'introduction' | 'conclusion') => {
+      const text = extension(this.article[field], record[field]);
+      if (text) deltas.push({ field, text });
+    };
+
+    addText('title');
+    addText('introduction');
+
+    if (Array.isArray(record.sections)) {
+      record.sections.forEach((section, sectionIndex) => {
+        if (typeof section !== 'object' || section === null) return;
+        const known = this.article.sections[sectionIndex] ?? { heading: '', content: '' };
+        for (const field of ['heading', 'content'] as const) {
+          const text = extension(known[field], (section as Record<string, unknown>)[field]);
+          if (text) deltas.push({ field, sectionIndex, text });
+        }
+      });
+    }
+
+    addText('conclusion');
+
+    this.article = deltas.reduce(applyArticleDelta, this.article);
+    return deltas;
+  }
+
+  /**
+   * The article as reported through the deltas so far
+   */
+  getArticle(): PartialArticle {
+    return this.article;
+  }
+}
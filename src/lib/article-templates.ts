@@ -0,0 +1,218 @@
+/**
+ * Validation, import and export of user-defined article templates.
+ * Built-in templates live in ArticleGenerator; user templates are stored
+ * with the user preferences and sent along in GenerationOptions.userTemplates.
+ */
+import { ArticleTemplate, TemplateSection } from '@/types';
+import { SchemaIssue } from './ai-response-parser';
+
+export const TEMPLATE_TYPES: ArticleTemplate['type'][] = ['tutorial', 'interview', 'presentation', 'discussion', 'review', 'general'];
+export const TEMPLATE_TONES: ArticleTemplate['defaultTone'][] = ['professional', 'casual', 'technical'];
+export const TEMPLATE_LENGTHS: ArticleTemplate['estimatedLength'][] = ['short', 'medium', 'long'];
+export const TEMPLATE_CONTENT_TYPES: TemplateSection['contentType'][] = [
+  'introduction', 'main_content', 'key_points', 'summary', 'conclusion', 'custom'
+];
+
+export const MAX_TEMPLATE_NAME_LENGTH = 80;
+export const MAX_TEMPLATE_SECTIONS = 20;
+export const MAX_SECTION_WORDS = 5000;
+
+// Version of the file written by exportTemplates
+const EXPORT_VERSION = 1;
+
+export class TemplateValidationError extends Error {
+  issues: SchemaIssue[];
+
+  constructor(message: string, issues: SchemaIssue[] = []) {
+    super(message);
+    this.name = 'TemplateValidationError';
+    this.issues = issues;
+  }
+}
+
+export interface TemplateValidationResult {
+  valid: boolean;
+  // Trimmed copy of the template, set when it is valid
+  template?: ArticleTemplate;
+  issues: SchemaIssue[];
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+function isWordCount(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0 && value <= MAX_SECTION_WORDS;
+}
+
+function validateSection(value: unknown, path: string, issues: SchemaIssue[]): TemplateSection | null {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    issues.push({ path, message: 'must be an object' });
+    return null;
+  }
+
+  const before = issues.length;
+  const { heading, contentType, minLength, maxLength, includeTimestamps, keywordFocus } = value as Record<string, unknown>;
+
+  if (!isNonEmptyString(heading)) {
+    issues.push({ path: `${path}.heading`, message: 'must be a non-empty string' });
+  }
+  if (!TEMPLATE_CONTENT_TYPES.includes(contentType as TemplateSection['contentType'])) {
+    issues.push({ path: `${path}.contentType`, message: `must be one of ${TEMPLATE_CONTENT_TYPES.join(', ')}` });
+  }
+  for (const [field, length] of [['minLength', minLength], ['maxLength', maxLength]] as const) {
+    if (length !== undefined && !isWordCount(length)) {
+      issues.push({ path: `${path}.${field}`, message: `must be a whole number of words between 1 and ${MAX_SECTION_WORDS}` });
+    }
+  }
+  if (isWordCount(minLength) && isWordCount(maxLength) && minLength > maxLength) {
+    issues.push({ path: `${path}.maxLength`, message: 'must not be less than minLength' });
+  }
+  if (includeTimestamps !== undefined && typeof includeTimestamps !== 'boolean') {
+    issues.push({ path: `${path}.includeTimestamps`, message: 'must be a boolean' });
+  }
+  if (keywordFocus !== undefined && (!Array.isArray(keywordFocus) || !keywordFocus.every(keyword => typeof keyword === 'string'))) {
+    issues.push({ path: `${path}.keywordFocus`, message: 'must be an array of strings' });
+  }
+
+  if (issues.length > before) return null;
+
+  const keywords = ((keywordFocus as string[] | undefined) ?? []).map(keyword => keyword.trim()).filter(Boolean);
+  return {
+    heading: (heading as string).trim(),
+    contentType: contentType as TemplateSection['contentType'],
+    ...(minLength !== undefined ? { minLength: minLength as number } : {}),
+    ...(maxLength !== undefined ? { maxLength: maxLength as number } : {}),
+    ...(includeTimestamps !== undefined ? { includeTimestamps: includeTimestamps as boolean } : {}),
+    ...(keywords.length > 0 ? { keywordFocus: keywords } : {})
+  };
+}
+
+/**
+ * Validate a user-defined template. Names in reservedNames (the built-in
+ * templates, or other user templates) are rejected, ignoring case.
+ */
+export function validateArticleTemplate(value: unknown, reservedNames: string[] = []): TemplateValidationResult {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { valid: false, issues: [{ path: '', message: 'must be an object' }] };
+  }
+
+  const issues: SchemaIssue[] = [];
+  const { name, type, defaultTone, estimatedLength, structure } = value as Record<string, unknown>;
+
+  if (!isNonEmptyString(name)) {
+    issues.push({ path: 'name', message: 'must be a non-empty string' });
+  } else if (name.trim().length > MAX_TEMPLATE_NAME_LENGTH) {
+    issues.push({ path: 'name', message: `must be at most ${MAX_TEMPLATE_NAME_LENGTH} characters` });
+  } else if (reservedNames.some(reserved => reserved.toLowerCase() === name.trim().toLowerCase())) {
+    issues.push({ path: 'name', message: 'is already used by another template' });
+  }
+  if (!TEMPLATE_TYPES.includes(type as ArticleTemplate['type'])) {
+    issues.push({ path: 'type', message: `must be one of ${TEMPLATE_TYPES.join(', ')}` });
+  }
+  if (!TEMPLATE_TONES.includes(defaultTone as ArticleTemplate['defaultTone'])) {
+    issues.push({ path: 'defaultTone', message: `must be one of ${TEMPLATE_TONES.join(', ')}` });
+  }
+  if (!TEMPLATE_LENGTHS.includes(estimatedLength as ArticleTemplate['estimatedLength'])) {
+    issues.push({ path: 'estimatedLength', message: `must be one of ${TEMPLATE_LENGTHS.join(', ')}` });
+  }
+
+  const sections: TemplateSection[] = [];
+  if (!Array.isArray(structure) || structure.length === 0) {
+    issues.push({ path: 'structure', message: 'must contain at least one section' });
+  } else if (structure.length > MAX_TEMPLATE_SECTIONS) {
+    issues.push({ path: 'structure', message: `must contain at most ${MAX_TEMPLATE_SECTIONS} sections` });
+  } else {
+    structure.forEach((section, index) => {
+      const validated = validateSection(section, `structure[${index}]`, issues);
+      if (validated) sections.push(validated);
+    });
+  }
+
+  if (issues.length > 0) {
+    return { valid: false, issues };
+  }
+
+  return {
+    valid: true,
+    issues,
+    template: {
+      name: (name as string).trim(),
+      type: type as ArticleTemplate['type'],
+      defaultTone: defaultTone as ArticleTemplate['defaultTone'],
+      estimatedLength: estimatedLength as ArticleTemplate['estimatedLength'],
+      structure: sections
+    }
+  };
+}
+
+/**
+ * Keep the valid templates of a stored or received list, dropping
+ * invalid ones and later templates that repeat a name
+ */
+export function sanitizeTemplates(value: unknown, reservedNames: string[] = []): ArticleTemplate[] {
+  if (!Array.isArray(value)) return [];
+
+  const templates: ArticleTemplate[] = [];
+  for (const candidate of value) {
+    const { template } = validateArticleTemplate(candidate, [...reservedNames, ...templates.map(t => t.name)]);
+    if (template) templates.push(template);
+  }
+  return templates;
+}
+
+/**
+ * Serialize templates to the JSON file format read by importTemplates
+ */
+export function exportTemplates(templates: ArticleTemplate[]): string {
+  return JSON.stringify({ version: EXPORT_VERSION, templates }, null, 2);
+}
+
+/**
+ * Read templates from an exported file, a bare array or a single template.
+ * Throws TemplateValidationError listing every problem when any template is invalid.
+ */
+export function importTemplates(json: string, reservedNames: string[] = []): ArticleTemplate[] {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    throw new TemplateValidationError('Template file is not valid JSON');
+  }
+
+  const record = typeof value === 'object' && value !== null ? value as Record<string, unknown> : {};
+  const candidates = Array.isArray(value)
+    ? value
+    : Array.isArray(record.templates) ? record.templates : [value];
+  const prefix = Array.isArray(value) ? '' : Array.isArray(record.templates) ? 'templates' : null;
+
+  const templates: ArticleTemplate[] = [];
+  const issues: SchemaIssue[] = [];
+
+  candidates.forEach((candidate, index) => {
+    const result = validateArticleTemplate(candidate, [...reservedNames, ...templates.map(t => t.name)]);
+    const path = prefix === null ? '' : `${prefix}[${index}]`;
+    issues.push(...result.issues.map(issue => ({
+      path: [path, issue.path].filter(Boolean).join('.'),
+      message: issue.message
+    })));
+    if (result.template) templates.push(result.template);
+  });
+
+  if (candidates.length === 0) {
+    throw new TemplateValidationError('Template file contains no templates');
+  }
+  if (issues.length > 0) {
+    throw new TemplateValidationError(`Template file contains invalid templates (${issues.length} problem${issues.length === 1 ? '' : 's'})`, issues);
+  }
+
+  return templates;
+}
+
+/**
+ * Whether any keyword of a section's keywordFocus appears in the text, ignoring case
+ */
+export function matchesKeywordFocus(text: string, keywords: string[] = []): boolean {
+  const lower = text.toLowerCase();
+  return keywords.some(keyword => lower.includes(keyword.toLowerCase()));
+}
@@ -0,0 +1,180 @@
+import { Article, GenerationOptions, ProcessingStatus } from '@/types';
+import { ProcessingPipeline, PipelineResult } from './processing-pipeline';
+import { CollectionInfo } from './youtube-api';
+import { getDefaultStageCache } from './stage-cache';
+import { StageExecutor } from './stage-executor';
+
+export interface BatchVideo {
+  id: string;
+  title?: string;
+}
+
+export interface BatchItemStatus {
+  videoId: string;
+  url: string;
+  title: string;
+  stage: ProcessingStatus['stage'] | 'queued';
+  progress: number; // 0-100
+  message: string;
+  article?: Article;
+  error?: string;
+  processingTime?: number;
+}
+
+export interface BatchStatus {
+  state: 'running' | 'complete' | 'cancelled';
+  source?: CollectionInfo;
+  total: number;
+  completed: number;
+  failed: number;
+  progress: number; // 0-100, average over all items
+  items: BatchItemStatus[];
+}
+
+export interface BatchOptions {
+  concurrency?: number;
+  generationOptions?: GenerationOptions;
+  force?: boolean;
+  // Stops running pipelines and leaves videos that have not started as cancelled
+  signal?: AbortSignal;
+  onUpdate?: (status: BatchStatus) => void;
+}
+
+/**
+ * Processes many videos (e.g. a playlist or channel) through the pipeline
+ * with bounded concurrency, tracking each video's stage, article and error
+ */
+export class BatchProcessor {
+  static readonly DEFAULT_CONCURRENCY = 2;
+  static readonly MAX_CONCURRENCY = 5;
+
+  private createPipeline: () => ProcessingPipeline;
+
+  constructor(executor: StageExecutor | string = '', createPipeline?: () => ProcessingPipeline) {
+    // Each video gets its own pipeline since a pipeline tracks a single progress listener
+    this.createPipeline = createPipeline || (() => new ProcessingPipeline(executor, getDefaultStageCache()));
+  }
+
+  /**
+   * Process all videos, running at most `concurrency` pipelines at once
+   */
+  async processBatch(
+    videos: BatchVideo[],
+    options: BatchOptions = {},
+    source?: CollectionInfo
+  ): Promise<BatchStatus> {
+    const concurrency = Math.max(
+      1,
+      Math.min(options.concurrency ?? BatchProcessor.DEFAULT_CONCURRENCY, BatchProcessor.MAX_CONCURRENCY)
+    );
+
+    const status: BatchStatus = {
+      state: 'running',
+      source,
+      total: videos.length,
+      completed: 0,
+      failed: 0,
+      progress: 0,
+      items: videos.map(video => ({
+        videoId: video.id,
+        url: `https://www.youtube.com/watch?v=${video.id}`,
+        title: video.title || video.id,
+        stage: 'queued',
+        progress: 0,
+        message: 'Waiting in queue...'
+      }))
+    };
+
+    const notify = () => {
+      status.progress = status.total > 0
+        ? Math.round(status.items.reduce((sum, item) => sum + item.progress, 0) / status.total)
+        : 100;
+      options.onUpdate?.(BatchProcessor.snapshot(status));
+    };
+
+    let nextIndex = 0;
+    const worker = async () => {
+      while (nextIndex < status.items.length && !options.signal?.aborted) {
+        const item = status.items[nextIndex++];
+        await this.processItem(item, status, options, notify);
+      }
+    };
+
+    notify();
+    await Promise.all(Array.from({ length: Math.min(concurrency, videos.length) }, worker));
+
+    if (options.signal?.aborted) {
+      status.items
+        .filter(item => item.stage === 'queued')
+        .forEach(item => {
+          item.stage = 'cancelled';
+          item.message = 'Cancelled before starting';
+        });
+      status.state = 'cancelled';
+    } else {
+      status.state = 'complete';
+    }
+    notify();
+
+    return BatchProcessor.snapshot(status);
+  }
+
+  /**
+   * Run a single video through its own pipeline and record the outcome
+   */
+  private async processItem(
+    item: BatchItemStatus,
+    status: BatchStatus,
+    options: BatchOptions,
+    notify: () => void
+  ): Promise<void> {
+    const pipeline = this.createPipeline();
+    let result: PipelineResult;
+
+    try {
+      result = await pipeline.processVideo(item.url, {
+        generationOptions: options.generationOptions,
+        force: options.force,
+        signal: options.signal,
+        onProgress: (progress) => {
+          item.stage = progress.stage;
+          item.progress = progress.progress;
+          item.message = progress.message;
+          notify();
+        }
+      });
+    } catch (error) {
+      result = {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown pipeline error',
+        processingTime: 0
+      };
+    }
+
+    item.processingTime = result.processingTime;
+
+    if (result.success && result.article) {
+      item.stage = 'complete';
+      item.progress = 100;
+      item.message = 'Article generated successfully!';
+      item.article = result.article;
+      item.title = result.videoMetadata?.title || item.title;
+      status.completed++;
+    } else if (result.cancelled) {
+      item.stage = 'cancelled';
+      item.message = 'Processing cancelled';
+    } else {
+      item.stage = 'error';
+      item.progress = 100; // finished, even though it failed
+      item.message = result.error || 'Processing failed';
+      item.error = result.error || 'Processing failed';
+      status.failed++;
+    }
+
+    notify();
+  }
+
+  private static snapshot(status: BatchStatus): BatchStatus {
+    return { ...status, items: status.items.map(item => ({ ...item })) };
+  }
+}
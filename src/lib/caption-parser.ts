@@ -0,0 +1,335 @@
+import { Transcript, TranscriptSegment } from '@/types';
+import { TranscriptProcessor } from './transcript-processor';
+
+export type CaptionFormat = 'srt' | 'vtt' | 'sbv' | 'ttml';
+
+export const SUPPORTED_CAPTION_FORMATS: CaptionFormat[] = ['srt', 'vtt', 'sbv', 'ttml'];
+
+export interface CaptionParseOptions {
+  format?: CaptionFormat;
+  filename?: string; // used for format detection when format is not given
+  language?: string;
+}
+
+export class CaptionParseError extends Error {
+  format?: CaptionFormat;
+  line?: number;
+
+  constructor(message: string, format?: CaptionFormat, line?: number) {
+    super(message);
+    this.name = 'CaptionParseError';
+    this.format = format;
+    this.line = line;
+  }
+}
+
+const FILE_EXTENSIONS: Record<string, CaptionFormat> = {
+  srt: 'srt',
+  vtt: 'vtt',
+  webvtt: 'vtt',
+  sbv: 'sbv',
+  ttml: 'ttml',
+  dfxp: 'ttml',
+  xml: 'ttml'
+};
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' '
+};
+
+/**
+ * Parser for uploaded caption files (SRT, WebVTT, SBV, TTML)
+ * Produces the same Transcript shape as TranscriptService
+ */
+export class CaptionParser {
+  /**
+   * Parse caption file content into a transcript
+   */
+  static parse(content: string, options: CaptionParseOptions = {}): Transcript {
+    const normalized = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+
+    if (!normalized.trim()) {
+      throw new CaptionParseError('Caption file is empty', options.format);
+    }
+
+    const format = options.format || this.detectFormat(normalized, options.filename);
+    if (!format) {
+      throw new CaptionParseError(
+        `Could not detect caption format. Supported formats: ${SUPPORTED_CAPTION_FORMATS.join(', ')}`
+      );
+    }
+
+    let segments: TranscriptSegment[];
+    let detectedLanguage: string | undefined;
+
+    switch (format) {
+      case 'srt':
+        segments = this.parseSrt(normalized);
+        break;
+      case 'vtt':
+        segments = this.parseVtt(normalized);
+        break;
+      case 'sbv':
+        segments = this.parseSbv(normalized);
+        break;
+      case 'ttml': {
+        const result = this.parseTtml(normalized);
+        segments = result.segments;
+        detectedLanguage = result.language;
+        break;
+      }
+      default:
+        throw new CaptionParseError(`Unsupported caption format: ${format}`);
+    }
+
+    if (segments.length === 0) {
+      throw new CaptionParseError(`No captions found in ${format.toUpperCase()} file`, format);
+    }
+
+    segments.sort((a, b) => a.startTime - b.startTime);
+
+    return {
+      segments,
+      language: options.language || detectedLanguage || 'en',
+      confidence: 1.0, // Uploaded captions are treated as human-edited
+      duration: Math.max(...segments.map(segment => segment.endTime))
+    };
+  }
+
+  /**
+   * Detect the caption format from the filename or the content
+   */
+  static detectFormat(content: string, filename?: string): CaptionFormat | null {
+    const extension = filename?.split('.').pop()?.toLowerCase();
+    if (extension && FILE_EXTENSIONS[extension]) {
+      return FILE_EXTENSIONS[extension];
+    }
+
+    const trimmed = content.trimStart();
+    if (/^WEBVTT/.test(trimmed)) return 'vtt';
+    if (/^<\?xml|^<tt[\s>]/.test(trimmed) && /<tt[\s>]/.test(trimmed)) return 'ttml';
+    if (/\d{1,2}:\d{2}:\d{2},\d{3}\s*-->/.test(trimmed)) return 'srt';
+    if (/^\d+:\d{2}:\d{2}\.\d{3},\d+:\d{2}:\d{2}\.\d{3}/m.test(trimmed)) return 'sbv';
+
+    return null;
+  }
+
+  /**
+   * Parse SubRip (.srt) content
+   */
+  static parseSrt(content: string): TranscriptSegment[] {
+    return this.parseCueBlocks(content, 'srt', /^\s*(\S+)\s*-->\s*(\S+)/, value => value.replace(',', '.'));
+  }
+
+  /**
+   * Parse WebVTT (.vtt) content, including cue settings and voice spans
+   */
+  static parseVtt(content: string): TranscriptSegment[] {
+    if (!/^WEBVTT/.test(content.trimStart())) {
+      throw new CaptionParseError('WebVTT file must start with "WEBVTT"', 'vtt', 1);
+    }
+
+    // Blank out header, NOTE, STYLE and REGION blocks (keeping line numbers for errors)
+    const body = content
+      .split(/(\n{2,})/)
+      .map(block => /^(WEBVTT|NOTE|STYLE|REGION)\b/.test(block.trimStart()) ? block.replace(/[^\n]/g, '') : block)
+      .join('');
+
+    return this.parseCueBlocks(body, 'vtt', /^\s*(\S+)\s*-->\s*(\S+)/, value => value);
+  }
+
+  /**
+   * Parse YouTube SubViewer (.sbv) content
+   */
+  static parseSbv(content: string): TranscriptSegment[] {
+    return this.parseCueBlocks(content, 'sbv', /^\s*([\d:.]+)\s*,\s*([\d:.]+)\s*$/, value => value);
+  }
+
+  /**
+   * Parse TTML / DFXP content
+   */
+  static parseTtml(content: string): { segments: TranscriptSegment[]; language?: string } {
+    if (!/<tt[\s>]/.test(content)) {
+      throw new CaptionParseError('TTML file must contain a <tt> root element', 'ttml');
+    }
+
+    const language = content.match(/<tt[^>]*\sxml:lang="([^"]+)"/)?.[1];
+    const frameRate = parseFloat(content.match(/ttp:frameRate="(\d+(?:\.\d+)?)"/)?.[1] || '30');
+    const tickRate = parseFloat(content.match(/ttp:tickRate="(\d+)"/)?.[1] || '1');
+    const segments: TranscriptSegment[] = [];
+    const paragraphRegex = /<p\b([^>]*)>([\s\S]*?)<\/p>/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = paragraphRegex.exec(content)) !== null) {
+      const attributes = match[1];
+      const begin = this.getAttribute(attributes, 'begin');
+      const end = this.getAttribute(attributes, 'end');
+      const dur = this.getAttribute(attributes, 'dur');
+
+      if (!begin || (!end && !dur)) {
+        throw new CaptionParseError(
+          'TTML <p> element is missing begin/end timing',
+          'ttml',
+          this.lineNumberAt(content, match.index)
+        );
+      }
+
+      const startTime = this.parseTtmlTime(begin, frameRate, tickRate);
+      const endTime = end
+        ? this.parseTtmlTime(end, frameRate, tickRate)
+        : startTime + this.parseTtmlTime(dur!, frameRate, tickRate);
+
+      const text = this.cleanCueText(match[2].replace(/<br\s*\/?>/gi, ' '));
+      if (text) {
+        segments.push({
+          text,
+          startTime,
+          endTime,
+          confidence: 1.0,
+          speaker: this.getAttribute(attributes, 'ttm:agent')
+        });
+      }
+    }
+
+    return { segments, language };
+  }
+
+  /**
+   * Shared parser for block-based formats (SRT, VTT, SBV):
+   * blank-line separated cues with an optional identifier line, a timing line and text lines
+   */
+  private static parseCueBlocks(
+    content: string,
+    format: CaptionFormat,
+    timingRegex: RegExp,
+    normalizeTimestamp: (value: string) => string
+  ): TranscriptSegment[] {
+    const segments: TranscriptSegment[] = [];
+    const lines = content.split('\n');
+    let index = 0;
+
+    while (index < lines.length) {
+      // Skip blank lines between cues
+      while (index < lines.length && !lines[index].trim()) index++;
+      if (index >= lines.length) break;
+
+      const blockStart = index;
+      let timingMatch = lines[index].match(timingRegex);
+
+      // Optional cue identifier (SRT sequence number, VTT cue id)
+      if (!timingMatch && index + 1 < lines.length) {
+        timingMatch = lines[index + 1].match(timingRegex);
+        if (timingMatch) index++;
+      }
+
+      if (!timingMatch) {
+        throw new CaptionParseError(
+          `Invalid ${format.toUpperCase()} cue: expected a timing line`,
+          format,
+          blockStart + 1
+        );
+      }
+
+      const startTime = this.parseCueTimestamp(normalizeTimestamp(timingMatch[1]), format, index + 1);
+      const endTime = this.parseCueTimestamp(normalizeTimestamp(timingMatch[2]), format, index + 1);
+      index++;
+
+      const textLines: string[] = [];
+      while (index < lines.length && lines[index].trim()) {
+        textLines.push(lines[index]);
+        index++;
+      }
+
+      const rawText = textLines.join(' ');
+      const text = this.cleanCueText(rawText);
+      if (text) {
+        segments.push({
+          text,
+          startTime,
+          endTime: Math.max(startTime, endTime),
+          confidence: 1.0,
+          speaker: this.extractSpeaker(rawText)
+        });
+      }
+    }
+
+    return segments;
+  }
+
+  /**
+   * Parse a cue timestamp via TranscriptProcessor.parseTimestamp
+   */
+  private static parseCueTimestamp(value: string, format: CaptionFormat, line: number): number {
+    try {
+      return TranscriptProcessor.parseTimestamp(value);
+    } catch {
+      throw new CaptionParseError(`Invalid ${format.toUpperCase()} timestamp "${value}"`, format, line);
+    }
+  }
+
+  /**
+   * Parse TTML time expressions: clock time (HH:MM:SS.mmm, HH:MM:SS:FF) or offset time (1.5s, 200ms, 10t, ...)
+   */
+  private static parseTtmlTime(value: string, frameRate: number, tickRate: number): number {
+    const offset = value.trim().match(/^(\d+(?:\.\d+)?)(h|m|s|ms|f|t)$/);
+    if (offset) {
+      const amount = parseFloat(offset[1]);
+      switch (offset[2]) {
+        case 'h': return amount * 3600;
+        case 'm': return amount * 60;
+        case 's': return amount;
+        case 'ms': return amount / 1000;
+        case 'f': return amount / frameRate;
+        case 't': return amount / tickRate;
+      }
+    }
+
+    const frames = value.trim().match(/^(\d+:\d{2}:\d{2}):(\d+(?:\.\d+)?)$/);
+    if (frames) {
+      return TranscriptProcessor.parseTimestamp(frames[1]) + parseFloat(frames[2]) / frameRate;
+    }
+
+    try {
+      return TranscriptProcessor.parseTimestamp(value);
+    } catch {
+      throw new CaptionParseError(`Invalid TTML time expression "${value}"`, 'ttml');
+    }
+  }
+
+  /**
+   * Strip markup (VTT tags, HTML formatting, SRT font tags) and decode entities
+   */
+  private static cleanCueText(text: string): string {
+    return text
+      .replace(/<[^>]+>/g, '')
+      .replace(/\{\\[^}]*\}/g, '') // SSA-style override tags sometimes found in SRT
+      .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+        if (code.startsWith('#x') || code.startsWith('#X')) return String.fromCodePoint(parseInt(code.slice(2), 16));
+        if (code.startsWith('#')) return String.fromCodePoint(parseInt(code.slice(1), 10));
+        return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+      })
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  /**
+   * Extract the speaker from a WebVTT voice span (<v Speaker>)
+   */
+  private static extractSpeaker(text: string): string | undefined {
+    return text.match(/<v(?:\.[^\s>]+)?\s+([^>]+)>/)?.[1].trim();
+  }
+
+  private static getAttribute(attributes: string, name: string): string | undefined {
+    const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return attributes.match(new RegExp(`(?:^|\\s)${escaped}="([^"]*)"`))?.[1];
+  }
+
+  private static lineNumberAt(content: string, offset: number): number {
+    return content.slice(0, offset).split('\n').length;
+  }
+}
@@ -0,0 +1,276 @@
+import { Chapter, Transcript } from '@/types';
+import { TranscriptProcessor } from './transcript-processor';
+import { STOP_WORDS } from './stop-words';
+
+/**
+ * Configuration options for chapter detection
+ */
+export interface ChapterDetectionOptions {
+  windowSize?: number; // words per pseudo-sentence
+  blockSize?: number; // pseudo-sentences compared on each side of a gap
+  minChapterDuration?: number; // seconds
+  maxChapters?: number;
+}
+
+/**
+ * Consecutive transcript segments with about windowSize content words, and
+ * where they start in the video
+ */
+interface TokenSequence {
+  start: number;
+  terms: Map<string, number>;
+}
+
+// "0:00 Intro", "(1:23) - Setup", "[1:02:03] Wrap-up"
+const TIMESTAMP_FIRST_PATTERN = /^[\s*•>-]*[([]?((?:\d{1,2}:)?\d{1,2}:\d{2})[)\]]?\s*[-–—:|.]?\s*(.*)$/;
+
+// "Intro - 0:00", "Setup (1:23)"
+const TIMESTAMP_LAST_PATTERN = /^[\s*•>-]*(.+?)\s*[-–—:|]?\s*[([]?((?:\d{1,2}:)?\d{1,2}:\d{2})[)\]]?\s*$/;
+
+/**
+ * Splits a video into ordered, non-overlapping chapters: the timestamp
+ * chapters from the video description when it has them, otherwise chapters
+ * detected from the transcript with TextTiling (Hearst, 1997)
+ */
+export class ChapterDetector {
+  // YouTube ignores description chapters unless there are at least 3, the
+  // first starts at 0:00 and each one lasts at least 10 seconds
+  static readonly MIN_DESCRIPTION_CHAPTERS = 3;
+  static readonly MIN_DESCRIPTION_CHAPTER_SECONDS = 10;
+
+  private static readonly DEFAULT_OPTIONS: Required<ChapterDetectionOptions> = {
+    windowSize: 20,
+    blockSize: 6,
+    minChapterDuration: 60,
+    maxChapters: 10
+  };
+
+  /**
+   * Chapters for a video, preferring the ones listed in its description
+   */
+  static identifyChapters(
+    transcript: Transcript,
+    description = '',
+    options: ChapterDetectionOptions = {}
+  ): Chapter[] {
+    const fromDescription = this.parseDescriptionChapters(description, this.getTranscriptEnd(transcript));
+    return fromDescription.length > 0 ? fromDescription : this.detectChapters(transcript, options);
+  }
+
+  /**
+   * Parse the timestamp chapter list of a video description. The list starts
+   * at the first 0:00 line and ends at the first line without a timestamp.
+   * Returns no chapters when the list would not be valid on YouTube.
+   */
+  static parseDescriptionChapters(description: string, duration = 0): Chapter[] {
+    const entries: Array<{ start: number; title: string }> = [];
+
+    for (const line of description.split(/\r?\n/)) {
+      if (!line.trim()) continue;
+
+      const entry = this.parseChapterLine(line);
+      if (entries.length === 0) {
+        if (entry?.start === 0) entries.push(entry);
+      } else if (entry) {
+        entries.push(entry);
+      } else {
+        break;
+      }
+    }
+
+    if (entries.length < this.MIN_DESCRIPTION_CHAPTERS) {
+      return [];
+    }
+
+    const last = entries[entries.length - 1];
+    const end = Math.max(duration, last.start + this.MIN_DESCRIPTION_CHAPTER_SECONDS);
+    const chapters = entries.map((entry, index): Chapter => ({
+      title: entry.title,
+      start: entry.start,
+      end: index + 1 < entries.length ? entries[index + 1].start : end,
+      source: 'description'
+    }));
+
+    const isValid = chapters.every(chapter => chapter.end - chapter.start >= this.MIN_DESCRIPTION_CHAPTER_SECONDS) &&
+      (duration <= 0 || last.start < duration);
+
+    return isValid ? chapters : [];
+  }
+
+  /**
+   * Detect chapters with TextTiling: compare the words on either side of
+   * each gap between pseudo-sentences and cut where the similarity drops
+   * the most. Returns no chapters when no topic shift is found.
+   */
+  static detectChapters(transcript: Transcript, options: ChapterDetectionOptions = {}): Chapter[] {
+    const { windowSize, blockSize, minChapterDuration, maxChapters } = { ...this.DEFAULT_OPTIONS, ...options };
+    const sequences = this.createTokenSequences(transcript, windowSize);
+    if (sequences.length < 2 * blockSize) {
+      return [];
+    }
+
+    const end = this.getTranscriptEnd(transcript);
+
+    // Gap i lies between sequences i - 1 and i
+    const scores = sequences.map((_, gap) => gap === 0
+      ? 0
+      : this.cosineSimilarity(
+        this.mergeTerms(sequences.slice(Math.max(0, gap - blockSize), gap)),
+        this.mergeTerms(sequences.slice(gap, gap + blockSize))
+      ));
+    const depths = scores.map((_, gap) => gap === 0 ? 0 : this.depthScore(scores, gap)).slice(1);
+
+    // Hearst's cutoff: valleys deeper than the mean depth less half a standard deviation
+    const mean = depths.reduce((sum, depth) => sum + depth, 0) / depths.length;
+    const deviation = Math.sqrt(depths.reduce((sum, depth) => sum + (depth - mean) ** 2, 0) / depths.length);
+    const cutoff = mean - deviation / 2;
+    const valleys = depths
+      .map((depth, index) => ({ depth, gap: index + 1 }))
+      .filter(({ gap }) => (gap === 1 || scores[gap] <= scores[gap - 1]) &&
+        (gap + 1 >= scores.length || scores[gap] <= scores[gap + 1]));
+
+    const boundaries: number[] = [];
+    for (const { depth, gap } of valleys.sort((a, b) => b.depth - a.depth)) {
+      if (boundaries.length >= maxChapters - 1) break;
+      if (depth <= 0 || depth < cutoff) continue;
+
+      const start = sequences[gap].start;
+      const tooClose = start < minChapterDuration ||
+        end - start < minChapterDuration ||
+        boundaries.some(boundary => Math.abs(boundary - start) < minChapterDuration);
+      if (!tooClose) {
+        boundaries.push(start);
+      }
+    }
+
+    if (boundaries.length === 0) {
+      return [];
+    }
+
+    const starts = [0, ...boundaries.sort((a, b) => a - b)];
+    const chapterTerms = starts.map((start, index) => this.mergeTerms(
+      sequences.filter(sequence => sequence.start >= start && (index + 1 >= starts.length || sequence.start < starts[index + 1]))
+    ));
+
+    return starts.map((start, index) => ({
+      title: this.createTitle(chapterTerms[index], chapterTerms) || `Part ${index + 1}`,
+      start,
+      end: index + 1 < starts.length ? starts[index + 1] : end,
+      source: 'transcript'
+    }));
+  }
+
+  /**
+   * Chapter list as pasted into a YouTube video description, one
+   * "0:00 Title" line per chapter
+   */
+  static formatChapterList(chapters: Pick<Chapter, 'start' | 'title'>[]): string {
+    return chapters
+      .map(chapter => `${TranscriptProcessor.formatTimestamp(chapter.start)} ${chapter.title}`)
+      .join('\n');
+  }
+
+  private static parseChapterLine(line: string): { start: number; title: string } | null {
+    const timestampFirst = line.match(TIMESTAMP_FIRST_PATTERN);
+    const timestampLast = timestampFirst ? null : line.match(TIMESTAMP_LAST_PATTERN);
+    const [timestamp, rawTitle] = timestampFirst
+      ? [timestampFirst[1], timestampFirst[2]]
+      : timestampLast ? [timestampLast[2], timestampLast[1]] : ['', ''];
+
+    const title = rawTitle.trim().replace(/\s*[-–—:|]+$/, '');
+    if (!timestamp || !title) {
+      return null;
+    }
+
+    return { start: TranscriptProcessor.parseTimestamp(timestamp), title };
+  }
+
+  /**
+   * Group whole transcript segments into pseudo-sentences of at least
+   * windowSize content words, so chapters start where a segment starts
+   */
+  private static createTokenSequences(transcript: Transcript, windowSize: number): TokenSequence[] {
+    const sequences: TokenSequence[] = [];
+    let current: TokenSequence | null = null;
+    let count = 0;
+
+    for (const segment of transcript.segments) {
+      const terms = this.extractTerms(segment.text);
+      if (terms.length === 0) continue;
+
+      if (!current || count >= windowSize) {
+        current = { start: segment.startTime, terms: new Map() };
+        sequences.push(current);
+        count = 0;
+      }
+      for (const term of terms) {
+        current.terms.set(term, (current.terms.get(term) || 0) + 1);
+      }
+      count += terms.length;
+    }
+
+    return sequences;
+  }
+
+  private static extractTerms(text: string): string[] {
+    return text
+      .toLowerCase()
+      .replace(/[^\w\s]/g, ' ')
+      .split(/\s+/)
+      .filter(word => word.length >= 3 && !STOP_WORDS.has(word) && !/^\d+$/.test(word));
+  }
+
+  private static mergeTerms(sequences: TokenSequence[]): Map<string, number> {
+    const merged = new Map<string, number>();
+    for (const sequence of sequences) {
+      sequence.terms.forEach((count, term) => merged.set(term, (merged.get(term) || 0) + count));
+    }
+    return merged;
+  }
+
+  private static cosineSimilarity(left: Map<string, number>, right: Map<string, number>): number {
+    let dot = 0;
+    left.forEach((count, term) => {
+      dot += count * (right.get(term) || 0);
+    });
+
+    const norm = (terms: Map<string, number>) => Math.sqrt(Array.from(terms.values()).reduce((sum, count) => sum + count * count, 0));
+    const denominator = norm(left) * norm(right);
+    return denominator > 0 ? dot / denominator : 0;
+  }
+
+  /**
+   * How far the similarity at a gap drops below the nearest peaks on either side
+   */
+  private static depthScore(scores: number[], gap: number): number {
+    let left = gap;
+    while (left > 1 && scores[left - 1] >= scores[left]) left--;
+    let right = gap;
+    while (right + 1 < scores.length && scores[right + 1] >= scores[right]) right++;
+
+    return (scores[left] - scores[gap]) + (scores[right] - scores[gap]);
+  }
+
+  /**
+   * Title from the two words most specific to a chapter: frequent in it
+   * and rare in the other chapters
+   */
+  private static createTitle(terms: Map<string, number>, allChapterTerms: Map<string, number>[]): string {
+    const ranked = Array.from(terms.entries())
+      .map(([term, count]) => {
+        const chaptersWithTerm = allChapterTerms.filter(chapterTerms => chapterTerms.has(term)).length;
+        return { term, score: count * Math.log(1 + allChapterTerms.length / chaptersWithTerm) };
+      })
+      .sort((a, b) => b.score - a.score)
+      .slice(0, 2)
+      .map(({ term }) => term);
+
+    if (ranked.length === 0) return '';
+    const title = ranked.join(' and ');
+    return title.charAt(0).toUpperCase() + title.slice(1);
+  }
+
+  private static getTranscriptEnd(transcript: Transcript): number {
+    return Math.max(transcript.duration || 0, ...transcript.segments.map(segment => segment.endTime));
+  }
+}
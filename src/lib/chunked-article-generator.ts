@@ -0,0 +1,472 @@
+import {
+  ContentAnalysis,
+  Article,
+  GenerationOptions,
+  VideoMetadata,
+  Transcript,
+  TranscriptSegment
+} from '@/types';
+import { TranscriptProcessor } from './transcript-processor';
+import { ContentAnalyzer } from './content-analyzer';
+import { AIArticleGenerator, ArticleGenerationResult, createGenerationTelemetry } from './ai-article-generator';
+import { DescriptionParser } from './description-parser';
+import { throwIfAborted } from './error-handling';
+import { parseJsonResponse } from './ai-response-parser';
+import { TokenCallback } from './llm-providers';
+
+/**
+ * A contiguous slice of the transcript that fits into one LLM call
+ */
+export interface TranscriptChunk {
+  index: number;
+  startTime: number;
+  endTime: number;
+  wordCount: number;
+  segments: TranscriptSegment[];
+}
+
+/**
+ * Summary of a single chunk produced in the map step
+ */
+export interface ChunkSummary {
+  index: number;
+  startTime: number;
+  endTime: number;
+  summary: string;
+  keyPoints: Array<{ text: string; timestamp: number }>;
+  method: 'ai' | 'extractive';
+}
+
+export interface ChunkProgress {
+  phase: 'summarize' | 'compose';
+  completed: number;
+  total: number;
+  startTime?: number;
+  endTime?: number;
+}
+
+export type ChunkProgressCallback = (progress: ChunkProgress) => void;
+
+/**
+ * Map-reduce article generation for long transcripts:
+ * transcript → chunks → per-chunk summaries (map) → final article (reduce)
+ */
+export class ChunkedArticleGenerator {
+  static readonly DEFAULT_CONTEXT_TOKEN_BUDGET = 4096;
+  static readonly MIN_CONTEXT_TOKEN_BUDGET = 1024;
+  private static readonly PROMPT_OVERHEAD_TOKENS = 350;
+  private static readonly SUMMARY_RESPONSE_TOKENS = 400;
+  private static readonly WORDS_PER_TOKEN = 0.75;
+
+  /**
+   * Generate a complete article using the map-reduce strategy
+   */
+  static async generateArticle(
+    analysis: ContentAnalysis,
+    videoMetadata: VideoMetadata,
+    transcript: Transcript,
+    options: GenerationOptions,
+    onProgress?: ChunkProgressCallback,
+    signal?: AbortSignal
+  ): Promise<Article> {
+    const { article } = await this.generateArticleWithTelemetry(analysis, videoMetadata, transcript, options, onProgress, signal);
+    return article;
+  }
+
+  /**
+   * Same as generateArticle, also reporting telemetry for the compose step
+   */
+  static async generateArticleWithTelemetry(
+    analysis: ContentAnalysis,
+    videoMetadata: VideoMetadata,
+    transcript: Transcript,
+    options: GenerationOptions,
+    onProgress?: ChunkProgressCallback,
+    signal?: AbortSignal,
+    onToken?: TokenCallback
+  ): Promise<ArticleGenerationResult> {
+    const chunks = this.planChunks(transcript, options, videoMetadata.description);
+    const summaries: ChunkSummary[] = [];
+
+    for (const chunk of chunks) {
+      summaries.push(await this.summarizeChunk(chunk, chunks.length, videoMetadata, options, signal));
+      onProgress?.({
+        phase: 'summarize',
+        completed: summaries.length,
+        total: chunks.length,
+        startTime: chunk.startTime,
+        endTime: chunk.endTime
+      });
+    }
+
+    return this.composeArticleWithTelemetry(summaries, analysis, videoMetadata, transcript, options, onProgress, signal, onToken);
+  }
+
+  /**
+   * Rough token estimate (~4 characters per token for English text)
+   */
+  static estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+  }
+
+  /**
+   * Resolve the per-call context budget from options
+   */
+  static getTokenBudget(options: GenerationOptions): number {
+    const budget = options.contextTokenBudget ?? this.DEFAULT_CONTEXT_TOKEN_BUDGET;
+    return Math.max(this.MIN_CONTEXT_TOKEN_BUDGET, Math.floor(budget));
+  }
+
+  /**
+   * Split the transcript into chunks whose text fits the context budget.
+   * Uses TranscriptProcessor.segmentTranscript to find logical breaks (pauses),
+   * then packs consecutive pieces into chunks up to the word limit.
+   * Segments said during the sponsor messages of the video description are left out.
+   */
+  static planChunks(transcript: Transcript, options: GenerationOptions, videoDescription = ''): TranscriptChunk[] {
+    const content = DescriptionParser.excludeSponsorSegments(
+      transcript,
+      DescriptionParser.parse(videoDescription, transcript.duration)
+    );
+    const budget = this.getTokenBudget(options);
+    const availableTokens = budget - this.PROMPT_OVERHEAD_TOKENS - this.SUMMARY_RESPONSE_TOKENS;
+    const maxWords = Math.max(50, Math.floor(availableTokens * this.WORDS_PER_TOKEN));
+
+    const pieces = TranscriptProcessor.segmentTranscript(content, maxWords);
+    const chunks: TranscriptChunk[] = [];
+    let current: TranscriptSegment[] = [];
+    let currentWords = 0;
+
+    const flush = () => {
+      if (current.length === 0) return;
+      chunks.push({
+        index: chunks.length,
+        startTime: current[0].startTime,
+        endTime: current[current.length - 1].endTime,
+        wordCount: currentWords,
+        segments: current
+      });
+      current = [];
+      currentWords = 0;
+    };
+
+    for (const piece of pieces) {
+      const words = this.countWords(piece.text);
+      if (currentWords + words > maxWords) {
+        flush();
+      }
+      current.push(piece);
+      currentWords += words;
+    }
+    flush();
+
+    return chunks;
+  }
+
+  /**
+   * Summarize one chunk with the LLM, falling back to extractive summarization
+   */
+  static async summarizeChunk(
+    chunk: TranscriptChunk,
+    totalChunks: number,
+    videoMetadata: VideoMetadata,
+    options: GenerationOptions,
+    signal?: AbortSignal
+  ): Promise<ChunkSummary> {
+    const prompt = this.createChunkPrompt(chunk, totalChunks, videoMetadata);
+
+    try {
+      const response = await AIArticleGenerator.callLLM(prompt, {
+        ...options,
+        maxTokens: this.SUMMARY_RESPONSE_TOKENS
+      }, signal);
+      return this.parseChunkSummary(response, chunk);
+    } catch (error) {
+      throwIfAborted(signal);
+      console.warn(`Chunk ${chunk.index + 1} summarization failed, using extractive summary:`, error);
+      return this.createExtractiveSummary(chunk);
+    }
+  }
+
+  /**
+   * Reduce step: compose the final article from chunk summaries.
+   * Summaries that do not fit the budget are condensed in rounds first.
+   */
+  static async composeArticle(
+    summaries: ChunkSummary[],
+    analysis: ContentAnalysis,
+    videoMetadata: VideoMetadata,
+    transcript: Transcript,
+    options: GenerationOptions,
+    onProgress?: ChunkProgressCallback,
+    signal?: AbortSignal,
+    onToken?: TokenCallback
+  ): Promise<Article> {
+    const { article } = await this.composeArticleWithTelemetry(summaries, analysis, videoMetadata, transcript, options, onProgress, signal, onToken);
+    return article;
+  }
+
+  /**
+   * Same as composeArticle, also reporting how the response was repaired
+   * and whether the template fallback was used
+   */
+  static async composeArticleWithTelemetry(
+    summaries: ChunkSummary[],
+    analysis: ContentAnalysis,
+    videoMetadata: VideoMetadata,
+    transcript: Transcript,
+    options: GenerationOptions,
+    onProgress?: ChunkProgressCallback,
+    signal?: AbortSignal,
+    onToken?: TokenCallback
+  ): Promise<ArticleGenerationResult> {
+    const telemetry = createGenerationTelemetry();
+
+    if (summaries.length === 0) {
+      return {
+        article: await AIArticleGenerator.generateFallbackArticle(analysis, videoMetadata, transcript, options),
+        telemetry: AIArticleGenerator.recordFallback(telemetry, new Error('No chunk summaries to compose'))
+      };
+    }
+
+    try {
+      const condensed = await this.condenseToBudget(summaries, videoMetadata, options, signal);
+      const prompt = this.createComposePrompt(condensed, analysis, videoMetadata, options);
+      const response = await AIArticleGenerator.callLLM(prompt, options, signal, onToken);
+      const article = await AIArticleGenerator.completeArticleResponse(
+        response, prompt, videoMetadata, analysis, options, telemetry, signal
+      );
+
+      onProgress?.({ phase: 'compose', completed: 1, total: 1 });
+      return {
+        article: DescriptionParser.addResourcesSection(AIArticleGenerator.verifyArticle(article, transcript), videoMetadata.description, options.format),
+        telemetry
+      };
+    } catch (error) {
+      throwIfAborted(signal);
+      console.error('Chunked article composition failed:', error);
+      onProgress?.({ phase: 'compose', completed: 1, total: 1 });
+      return {
+        article: await AIArticleGenerator.generateFallbackArticle(analysis, videoMetadata, transcript, options),
+        telemetry: AIArticleGenerator.recordFallback(telemetry, error)
+      };
+    }
+  }
+
+  /**
+   * Merge neighbouring summaries until the combined text fits into one prompt
+   */
+  private static async condenseToBudget(
+    summaries: ChunkSummary[],
+    videoMetadata: VideoMetadata,
+    options: GenerationOptions,
+    signal?: AbortSignal
+  ): Promise<ChunkSummary[]> {
+    const budget = this.getTokenBudget(options);
+    const responseTokens = options.maxTokens ?? 1500;
+    const available = Math.max(200, budget - this.PROMPT_OVERHEAD_TOKENS - responseTokens);
+    let current = summaries;
+
+    while (current.length > 1 && this.estimateTokens(this.formatSummaries(current)) > available) {
+      const next: ChunkSummary[] = [];
+
+      for (let i = 0; i < current.length; i += 2) {
+        const group = current.slice(i, i + 2);
+        next.push(group.length === 1 ? group[0] : await this.mergeSummaries(group, next.length, videoMetadata, options, signal));
+      }
+
+      current = next;
+    }
+
+    return current;
+  }
+
+  /**
+   * Merge a group of adjacent summaries into one
+   */
+  private static async mergeSummaries(
+    group: ChunkSummary[],
+    index: number,
+    videoMetadata: VideoMetadata,
+    options: GenerationOptions,
+    signal?: AbortSignal
+  ): Promise<ChunkSummary> {
+    const startTime = group[0].startTime;
+    const endTime = group[group.length - 1].endTime;
+    const prompt = `The following are consecutive part summaries of the video "${videoMetadata.title}".
+Condense them into a single summary of the span ${this.formatTime(startTime)} - ${this.formatTime(endTime)}, keeping the most important points and their timestamps.
+
+${this.formatSummaries(group)}
+
+Respond with ONLY a JSON object in this format:
+{"summary": "Condensed summary", "keyPoints": [{"text": "Point", "timestamp": "1:23"}]}`;
+
+    try {
+      const response = await AIArticleGenerator.callLLM(prompt, {
+        ...options,
+        maxTokens: this.SUMMARY_RESPONSE_TOKENS
+      }, signal);
+      const merged = this.parseChunkSummary(response, {
+        index,
+        startTime,
+        endTime,
+        wordCount: 0,
+        segments: []
+      });
+      return merged;
+    } catch {
+      throwIfAborted(signal);
+      return {
+        index,
+        startTime,
+        endTime,
+        summary: group.map(s => s.summary).join(' '),
+        keyPoints: group.flatMap(s => s.keyPoints).slice(0, 5),
+        method: 'extractive'
+      };
+    }
+  }
+
+  /**
+   * Build the map-step prompt for a single chunk
+   */
+  private static createChunkPrompt(
+    chunk: TranscriptChunk,
+    totalChunks: number,
+    videoMetadata: VideoMetadata
+  ): string {
+    const excerpt = chunk.segments
+      .map(segment => `[${this.formatTime(segment.startTime)}] ${segment.text}`)
+      .join('\n');
+
+    return `You are summarizing part ${chunk.index + 1} of ${totalChunks} of the transcript of the video "${videoMetadata.title}".
+
+Transcript excerpt (${this.formatTime(chunk.startTime)} - ${this.formatTime(chunk.endTime)}):
+${excerpt}
+
+Summarize this part in 3-5 sentences and list its most important points with the timestamp where each is made.
+
+Respond with ONLY a JSON object in this format:
+{"summary": "Summary of this part", "keyPoints": [{"text": "Point", "timestamp": "1:23"}]}`;
+  }
+
+  /**
+   * Build the reduce-step prompt from chunk summaries
+   */
+  private static createComposePrompt(
+    summaries: ChunkSummary[],
+    analysis: ContentAnalysis,
+    videoMetadata: VideoMetadata,
+    options: GenerationOptions
+  ): string {
+    const topics = analysis.topics
+      .slice(0, 5)
+      .map(topic => topic.name)
+      .join(', ');
+
+    return `Create a blog article about: ${videoMetadata.title}
+
+The video has been summarized part by part, in order:
+${this.formatSummaries(summaries)}
+
+Main Topics: ${topics}
+${AIArticleGenerator.getChapterInstructions(analysis)}
+Instructions: ${AIArticleGenerator.getWritingInstructions(options)} Cover the whole video, following the order of the parts above.
+${AIArticleGenerator.getTemplateInstructions(options)}
+${AIArticleGenerator.ARTICLE_JSON_FORMAT}`;
+  }
+
+  /**
+   * Parse an LLM chunk summary response
+   */
+  private static parseChunkSummary(response: string, chunk: TranscriptChunk): ChunkSummary {
+    const { value } = parseJsonResponse(response);
+    const parsed = (typeof value === 'object' && value !== null ? value : {}) as Record<string, unknown>;
+    if (typeof parsed.summary !== 'string' || !parsed.summary.trim()) {
+      throw new Error('Chunk summary response is missing the summary field');
+    }
+
+    const keyPoints = Array.isArray(parsed.keyPoints) ? parsed.keyPoints : [];
+
+    return {
+      index: chunk.index,
+      startTime: chunk.startTime,
+      endTime: chunk.endTime,
+      summary: parsed.summary.trim(),
+      keyPoints: keyPoints
+        .filter((point: { text?: unknown }) => typeof point?.text === 'string')
+        .map((point: { text: string; timestamp?: unknown }) => ({
+          text: point.text,
+          timestamp: this.parsePointTimestamp(point.timestamp, chunk)
+        })),
+      method: 'ai'
+    };
+  }
+
+  /**
+   * Summarize a chunk without the LLM using ContentAnalyzer's sentence ranking
+   */
+  private static createExtractiveSummary(chunk: TranscriptChunk): ChunkSummary {
+    const analysis = ContentAnalyzer.analyzeContent(
+      {
+        segments: chunk.segments,
+        language: 'en',
+        confidence: 1.0,
+        duration: chunk.endTime - chunk.startTime
+      },
+      { summaryLength: 3, maxKeyPoints: 3 }
+    );
+
+    return {
+      index: chunk.index,
+      startTime: chunk.startTime,
+      endTime: chunk.endTime,
+      summary: analysis.summary,
+      keyPoints: analysis.keyPoints.map(point => ({
+        text: point.text,
+        timestamp: point.timestamp
+      })),
+      method: 'extractive'
+    };
+  }
+
+  /**
+   * Format summaries with their time spans for use in prompts
+   */
+  private static formatSummaries(summaries: ChunkSummary[]): string {
+    return summaries.map((summary, i) => {
+      const points = summary.keyPoints
+        .map(point => `  - [${this.formatTime(point.timestamp)}] ${point.text}`)
+        .join('\n');
+      const header = `Part ${i + 1} (${this.formatTime(summary.startTime)} - ${this.formatTime(summary.endTime)}): ${summary.summary}`;
+      return points ? `${header}\n${points}` : header;
+    }).join('\n\n');
+  }
+
+  /**
+   * Parse a key point timestamp, clamping it into the chunk's time span
+   */
+  private static parsePointTimestamp(value: unknown, chunk: TranscriptChunk): number {
+    let seconds = chunk.startTime;
+
+    if (typeof value === 'number' && isFinite(value)) {
+      seconds = value;
+    } else if (typeof value === 'string') {
+      try {
+        seconds = TranscriptProcessor.parseTimestamp(value);
+      } catch {
+        seconds = chunk.startTime;
+      }
+    }
+
+    return Math.min(Math.max(seconds, chunk.startTime), chunk.endTime);
+  }
+
+  private static formatTime(seconds: number): string {
+    return TranscriptProcessor.formatTimestamp(seconds);
+  }
+
+  private static countWords(text: string): number {
+    return text.split(/\s+/).filter(word => word.length > 0).length;
+  }
+}
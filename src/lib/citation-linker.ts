@@ -0,0 +1,119 @@
+import { Article, ArticleSection, Citation, Transcript, TranscriptSegment } from '@/types';
+
+// Common words that carry no meaning on their own; shorter words are skipped anyway
+const FILLER_WORDS = new Set([
+  'about', 'after', 'also', 'been', 'before', 'being', 'could', 'does', 'each', 'from',
+  'have', 'here', 'into', 'just', 'like', 'more', 'most', 'much', 'only', 'other',
+  'over', 'really', 'should', 'some', 'than', 'that', 'their', 'them', 'then', 'there',
+  'these', 'they', 'thing', 'things', 'this', 'those', 'very', 'want', 'were', 'what',
+  'when', 'where', 'which', 'while', 'will', 'with', 'would', 'your', 'going', 'know'
+]);
+
+function significantWords(text: string): Set<string> {
+  const words = text
+    .toLowerCase()
+    .split(/[^a-z0-9']+/)
+    .map(word => word.replace(/'s$|'/g, ''))
+    .filter(word => word.length > 3 && !FILLER_WORDS.has(word))
+    // Crude plural folding so "parsers" matches "parser"
+    .map(word => (word.length > 4 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word));
+  return new Set(words);
+}
+
+interface IndexedSegment {
+  segment: TranscriptSegment;
+  words: Set<string>;
+}
+
+/**
+ * Links article paragraphs back to the transcript segments they draw from.
+ * Citations are stored on the sections so exports can render them as
+ * timestamped video links or footnotes without changing the text itself.
+ */
+export class CitationLinker {
+  static readonly MAX_CITATIONS_PER_PARAGRAPH = 3;
+  // A segment must share at least this many significant words with a paragraph
+  static readonly MIN_SHARED_WORDS = 2;
+
+  /**
+   * Split section content into the paragraphs that Citation.paragraphIndex refers to
+   */
+  static splitParagraphs(content: string): string[] {
+    return content
+      .split(/\n\s*\n/)
+      .map(paragraph => paragraph.trim())
+      .filter(paragraph => paragraph.length > 0);
+  }
+
+  /**
+   * Attach citations to every section and subsection of an article
+   */
+  static attachCitations(article: Article, transcript: Transcript): Article {
+    const index = this.indexSegments(transcript.segments);
+    return {
+      ...article,
+      sections: article.sections.map(section => this.citeSectionWithIndex(section, index))
+    };
+  }
+
+  /**
+   * Attach citations to one section (and its subsections) from the given segments
+   */
+  static citeSection(section: ArticleSection, segments: TranscriptSegment[]): ArticleSection {
+    return this.citeSectionWithIndex(section, this.indexSegments(segments));
+  }
+
+  /**
+   * Find the segments a paragraph most likely draws from, in video order
+   */
+  static findSources(paragraph: string, segments: TranscriptSegment[]): TranscriptSegment[] {
+    return this.findSourcesInIndex(paragraph, this.indexSegments(segments));
+  }
+
+  /**
+   * YouTube URL that starts playback at the given second
+   */
+  static getTimestampUrl(videoId: string, seconds: number): string {
+    return `https://www.youtube.com/watch?v=${encodeURIComponent(videoId)}&t=${Math.max(0, Math.floor(seconds))}s`;
+  }
+
+  private static indexSegments(segments: TranscriptSegment[]): IndexedSegment[] {
+    return segments.map(segment => ({ segment, words: significantWords(segment.text) }));
+  }
+
+  private static citeSectionWithIndex(section: ArticleSection, index: IndexedSegment[]): ArticleSection {
+    const citations: Citation[] = [];
+
+    this.splitParagraphs(section.content).forEach((paragraph, paragraphIndex) => {
+      for (const segment of this.findSourcesInIndex(paragraph, index)) {
+        citations.push({ paragraphIndex, startTime: segment.startTime, endTime: segment.endTime });
+      }
+    });
+
+    const cited: ArticleSection = { ...section, citations };
+    if (section.subsections) {
+      cited.subsections = section.subsections.map(subsection => this.citeSectionWithIndex(subsection, index));
+    }
+    return cited;
+  }
+
+  private static findSourcesInIndex(paragraph: string, index: IndexedSegment[]): TranscriptSegment[] {
+    const paragraphWords = significantWords(paragraph);
+    if (paragraphWords.size === 0) return [];
+
+    return index
+      .map(({ segment, words }) => {
+        let shared = 0;
+        words.forEach(word => {
+          if (paragraphWords.has(word)) shared++;
+        });
+        return { segment, shared };
+      })
+      .filter(match => match.shared >= this.MIN_SHARED_WORDS)
+      // Stable sort keeps earlier segments first among equal scores
+      .sort((a, b) => b.shared - a.shared)
+      .slice(0, this.MAX_CITATIONS_PER_PARAGRAPH)
+      .map(match => match.segment)
+      .sort((a, b) => a.startTime - b.startTime);
+  }
+}
@@ -1,4 +1,7 @@
-import { Transcript, ContentAnalysis, Topic, KeyPoint, ArticleSection } from '@/types';
+import { Transcript, ContentAnalysis, Topic, KeyPoint, ArticleSection, Chapter } from '@/types';
+import { ChapterDetector } from './chapter-detector';
+import { DescriptionParser } from './description-parser';
+import { STOP_WORDS } from './stop-words';
 
 /**
  * Configuration options for content analysis
@@ -11,6 +14,9 @@ export interface ContentAnalysisOptions {
   minTopicRelevance?: number;
   summaryLength?: number; // number of sentences
   includeTimestamps?: boolean;
+  // Video description; timestamp chapters listed in it are preferred over detected
+  // ones, and the sponsor segments it marks are left out of the analysis
+  videoDescription?: string;
 }
 
 /**
@@ -36,25 +42,13 @@ interface SentenceScore {
  * Service for analyzing transcript content and extracting insights
  */
 export class ContentAnalyzer {
-  private static readonly STOP_WORDS = new Set([
-    'the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with',
-    'by', 'from', 'up', 'about', 'into', 'through', 'during', 'before', 'after',
-    'above', 'below', 'between', 'among', 'over', 'under', 'is', 'are', 'was', 'were', 'be', 'been',
-    'being', 'have', 'has', 'had', 'do', 'does', 'did', 'will', 'would', 'could',
-    'should', 'may', 'might', 'must', 'can', 'this', 'that', 'these', 'those',
-    'i', 'you', 'he', 'she', 'it', 'we', 'they', 'me', 'him', 'her', 'us', 'them',
-    'my', 'your', 'his', 'her', 'its', 'our', 'their', 'myself', 'yourself',
-    'himself', 'herself', 'itself', 'ourselves', 'yourselves', 'themselves',
-    'what', 'which', 'who', 'whom', 'whose', 'where', 'when', 'why', 'how',
-    'all', 'any', 'both', 'each', 'few', 'more', 'most', 'other', 'some', 'such',
-    'no', 'nor', 'not', 'only', 'own', 'same', 'so', 'than', 'too', 'very'
-  ]);
+  private static readonly STOP_WORDS = STOP_WORDS;
 
   /**
    * Analyze transcript content and generate comprehensive analysis
    */
   static analyzeContent(
-    transcript: Transcript,
+    videoTranscript: Transcript,
     options: ContentAnalysisOptions = {}
   ): ContentAnalysis {
     const defaultOptions: Required<ContentAnalysisOptions> = {
@@ -65,9 +59,14 @@ export class ContentAnalyzer {
       minTopicRelevance: 0.05, // Lowered to be more inclusive
       summaryLength: 3,
       includeTimestamps: true,
+      videoDescription: '',
       ...options
     };
 
+    // Leave out sponsor segments
+    const description = DescriptionParser.parse(defaultOptions.videoDescription, videoTranscript.duration);
+    const transcript = DescriptionParser.excludeSponsorSegments(videoTranscript, description);
+
     // Extract full text from transcript
     const fullText = transcript.segments.map(s => s.text).join(' ');
     
@@ -76,7 +75,9 @@ export class ContentAnalyzer {
     const topics = this.identifyTopics(wordFrequencies, defaultOptions);
     const keyPoints = this.extractKeyPoints(transcript, wordFrequencies, defaultOptions);
     const summary = this.generateSummary(transcript, wordFrequencies, defaultOptions);
-    const suggestedStructure = this.suggestArticleStructure(topics, keyPoints);
+    const chapters = ChapterDetector.identifyChapters(transcript, defaultOptions.videoDescription)
+      .filter(chapter => !DescriptionParser.isSponsorChapter(chapter));
+    const suggestedStructure = this.suggestArticleStructure(topics, keyPoints, chapters);
     const sentiment = this.analyzeSentiment(fullText);
 
     return {
@@ -84,7 +85,8 @@ export class ContentAnalyzer {
       keyPoints,
       summary,
       suggestedStructure,
-      sentiment
+      sentiment,
+      chapters
     };
   }
 
@@ -447,11 +449,13 @@ export class ContentAnalyzer {
   }
 
   /**
-   * Suggest article structure based on topics and key points
+   * Suggest article structure based on chapters, or on topics and key points
+   * when the video has no chapters
    */
   private static suggestArticleStructure(
     topics: Topic[],
-    keyPoints: KeyPoint[]
+    keyPoints: KeyPoint[],
+    chapters: Chapter[] = []
   ): ArticleSection[] {
     const sections: ArticleSection[] = [];
 
@@ -461,22 +465,38 @@ export class ContentAnalyzer {
       content: 'Overview of the main topics and key insights from the video content.'
     });
 
-    // Create sections based on topics
-    topics.forEach((topic, index) => {
-      const relatedKeyPoints = keyPoints.filter(kp => 
-        kp.text.toLowerCase().includes(topic.name.toLowerCase()) ||
-        topic.timeRanges.some(range => 
-          kp.timestamp >= range.start && kp.timestamp <= range.end
-        )
-      );
-
-      sections.push({
-        heading: topic.name,
-        content: relatedKeyPoints.length > 0 
-          ? relatedKeyPoints.map(kp => kp.text).join(' ')
-          : `Discussion of ${topic.name.toLowerCase()} and related concepts.`
+    if (chapters.length > 0) {
+      // One section per chapter, in video order
+      chapters.forEach(chapter => {
+        const chapterKeyPoints = keyPoints
+          .filter(kp => kp.timestamp >= chapter.start && kp.timestamp < chapter.end)
+          .sort((a, b) => a.timestamp - b.timestamp);
+
+        sections.push({
+          heading: chapter.title,
+          content: chapterKeyPoints.length > 0
+            ? chapterKeyPoints.map(kp => kp.text).join(' ')
+            : `Discussion of ${chapter.title.toLowerCase()}.`
+        });
       });
-    });
+    } else {
+      // Create sections based on topics
+      topics.forEach(topic => {
+        const relatedKeyPoints = keyPoints.filter(kp => 
+          kp.text.toLowerCase().includes(topic.name.toLowerCase()) ||
+          topic.timeRanges.some(range => 
+            kp.timestamp >= range.start && kp.timestamp <= range.end
+          )
+        );
+
+        sections.push({
+          heading: topic.name,
+          content: relatedKeyPoints.length > 0 
+            ? relatedKeyPoints.map(kp => kp.text).join(' ')
+            : `Discussion of ${topic.name.toLowerCase()} and related concepts.`
+        });
+      });
+    }
 
     // Conclusion section
     sections.push({
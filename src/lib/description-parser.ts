@@ -0,0 +1,259 @@
+import {
+  Article,
+  Chapter,
+  DescriptionInfo,
+  DescriptionLink,
+  GenerationOptions,
+  SponsorBlock,
+  TimeRange,
+  Transcript
+} from '@/types';
+import { ChapterDetector } from './chapter-detector';
+import { escapeHtml } from './html-sanitizer';
+import { TranscriptProcessor } from './transcript-processor';
+
+const URL_PATTERN = /https?:\/\/[^\s<>"]+/g;
+
+// "#compilers", but not "#1" or the fragment of a URL
+const HASHTAG_PATTERN = /(^|\s)#([^\s#.,;:!?()[\]{}'"]+)/g;
+
+// A line that opens a sponsor message
+const SPONSOR_PATTERN = /\b(?:sponsor\w*|brought to you by|promo code|discount code|use code|affiliate links?|paid promotion|partnered with)\b/i;
+
+// A chapter title marking a sponsor segment
+const SPONSOR_CHAPTER_PATTERN = /\b(?:sponsor\w*|advertisement|ad (?:break|read|spot)|paid promotion)\b|^\s*ad\s*$/i;
+
+// "Sponsored by Brilliant", "Thanks to NordVPN", "Sponsor: Squarespace", "Brought to you by Notion"
+const SPONSOR_NAME_PATTERN = /\b(?:[Ss]ponsored by|[Tt]hanks to|[Bb]rought to you by|[Pp]artnered with|[Ss]ponsor\s*[:\-–—])\s*([A-Z0-9][\w&'-]*(?:[ .][A-Z0-9][\w&'-]*)*)/;
+
+// "2:10 - 3:05", "2:10 to 3:05"
+const TIME_RANGE_PATTERN = /((?:\d{1,2}:)?\d{1,2}:\d{2})\s*(?:-|–|—|to)\s*((?:\d{1,2}:)?\d{1,2}:\d{2})/;
+
+// Chapter lines start with a timestamp
+const CHAPTER_LINE_PATTERN = /^[\s*•>([-]*(?:\d{1,2}:)?\d{1,2}:\d{2}\b/;
+
+// Hosts of creator profiles and support pages, which are not resources of the video
+const SOCIAL_HOSTS = [
+  'twitter.com', 'x.com', 'instagram.com', 'facebook.com', 'tiktok.com', 'linkedin.com',
+  'threads.net', 'bsky.app', 'mastodon.social', 'twitch.tv', 'discord.gg', 'discord.com',
+  'patreon.com', 'ko-fi.com', 'buymeacoffee.com'
+];
+
+// YouTube links to a channel rather than a video
+const YOUTUBE_CHANNEL_PATH = /^\/(?:@|channel\/|c\/|user\/)|sub_confirmation/;
+
+const LABEL_PREFIX = /^[\s\-–—*•·>▶►→|:)\]]+/;
+const LABEL_SUFFIX = /[\s\-–—:|([]+$/;
+
+/**
+ * Parses what creators list in a video description: timestamp chapters,
+ * links with their labels, hashtags and sponsor messages
+ */
+export class DescriptionParser {
+  static readonly RESOURCES_HEADING = 'Resources mentioned';
+
+  /**
+   * Parse a video description. duration (seconds) ends the last chapter.
+   */
+  static parse(description = '', duration = 0): DescriptionInfo {
+    const chapters = ChapterDetector.parseDescriptionChapters(description, duration);
+    const links: DescriptionLink[] = [];
+    const sponsorBlocks: SponsorBlock[] = [];
+    let sponsorLines: string[] | null = null;
+
+    const closeSponsorBlock = () => {
+      if (sponsorLines) sponsorBlocks.push(this.createSponsorBlock(sponsorLines.join('\n')));
+      sponsorLines = null;
+    };
+
+    for (const line of description.split(/\r?\n/)) {
+      const isChapterLine = CHAPTER_LINE_PATTERN.test(line) && !TIME_RANGE_PATTERN.test(line);
+      if (!line.trim() || isChapterLine) {
+        closeSponsorBlock();
+        continue;
+      }
+
+      if (!sponsorLines && SPONSOR_PATTERN.test(line)) {
+        sponsorLines = [];
+      }
+      sponsorLines?.push(line.trim());
+
+      this.parseLinks(line, sponsorLines !== null)
+        .filter(link => !links.some(existing => existing.url === link.url))
+        .forEach(link => links.push(link));
+    }
+    closeSponsorBlock();
+
+    // Chapters named like "Sponsor: NordVPN" mark the sponsor segment in the video
+    chapters.filter(chapter => this.isSponsorChapter(chapter)).forEach(chapter => {
+      const name = chapter.title.match(SPONSOR_NAME_PATTERN)?.[1];
+      sponsorBlocks.push({
+        text: chapter.title,
+        ...(name ? { sponsor: name } : {}),
+        start: chapter.start,
+        end: chapter.end
+      });
+    });
+
+    return {
+      chapters,
+      links,
+      hashtags: this.parseHashtags(description),
+      sponsorBlocks
+    };
+  }
+
+  /**
+   * Parts of the video covered by sponsor messages, in video order
+   */
+  static getSponsorRanges(info: DescriptionInfo): TimeRange[] {
+    return info.sponsorBlocks
+      .filter((block): block is SponsorBlock & TimeRange => block.start !== undefined && block.end !== undefined)
+      .map(block => ({ start: block.start, end: block.end }))
+      .sort((a, b) => a.start - b.start);
+  }
+
+  static isSponsorChapter(chapter: Pick<Chapter, 'title'>): boolean {
+    return SPONSOR_CHAPTER_PATTERN.test(chapter.title);
+  }
+
+  /**
+   * The transcript without the segments said during sponsor messages
+   */
+  static excludeSponsorSegments(transcript: Transcript, info: DescriptionInfo): Transcript {
+    const ranges = this.getSponsorRanges(info);
+    if (ranges.length === 0) return transcript;
+
+    return {
+      ...transcript,
+      segments: transcript.segments.filter(segment => {
+        const middle = (segment.startTime + segment.endTime) / 2;
+        return !ranges.some(range => middle >= range.start && middle < range.end);
+      })
+    };
+  }
+
+  /**
+   * Append a "Resources mentioned" section listing the resource links of
+   * the video description in the article's format, unless the article
+   * already has one
+   */
+  static addResourcesSection(
+    article: Article,
+    description = '',
+    format: GenerationOptions['format'] = 'markdown'
+  ): Article {
+    const resources = this.parse(description).links.filter(link => link.kind === 'resource');
+    const heading = this.RESOURCES_HEADING.toLowerCase();
+    if (resources.length === 0 || article.sections.some(section => section.heading.trim().toLowerCase() === heading)) {
+      return article;
+    }
+
+    return {
+      ...article,
+      sections: [
+        ...article.sections,
+        {
+          heading: this.RESOURCES_HEADING,
+          content: this.formatResourceList(resources, format)
+        }
+      ]
+    };
+  }
+
+  /**
+   * Bulleted list of the links, as markdown links, plain text or HTML
+   */
+  private static formatResourceList(links: DescriptionLink[], format: GenerationOptions['format']): string {
+    switch (format) {
+      case 'html':
+        return `<ul>\n${links.map(link => `<li><a href="${escapeHtml(link.url)}">${escapeHtml(link.label)}</a></li>`).join('\n')}\n</ul>`;
+      case 'plain':
+        return links.map(link => `- ${link.label}: ${link.url}`).join('\n');
+      default:
+        return links.map(link => `- [${link.label.replace(/[[\]]/g, '')}](${link.url})`).join('\n');
+    }
+  }
+
+  /**
+   * Links of one line, each labelled by the text before it or else its host name
+   */
+  private static parseLinks(line: string, isSponsored: boolean): DescriptionLink[] {
+    const links: DescriptionLink[] = [];
+    let labelStart = 0;
+
+    for (const match of Array.from(line.matchAll(URL_PATTERN))) {
+      const url = this.trimUrl(match[0]);
+      const index = match.index ?? 0;
+      const label = this.cleanLabel(line.slice(labelStart, index)) || this.getHost(url);
+      labelStart = index + match[0].length;
+
+      if (this.getHost(url)) {
+        links.push({ url, label, kind: isSponsored ? 'sponsor' : this.isSocialLink(url) ? 'social' : 'resource' });
+      }
+    }
+
+    return links;
+  }
+
+  /**
+   * Drop punctuation that ends the sentence around a URL, keeping
+   * parentheses that belong to it as in Wikipedia links
+   */
+  private static trimUrl(url: string): string {
+    let trimmed = url.replace(/[.,;:!?'"]+$/, '');
+    while (/[)\]]$/.test(trimmed)) {
+      const close = trimmed.endsWith(')') ? ')' : ']';
+      const open = close === ')' ? '(' : '[';
+      if (trimmed.split(open).length >= trimmed.split(close).length) break;
+      trimmed = trimmed.slice(0, -1).replace(/[.,;:!?'"]+$/, '');
+    }
+    return trimmed;
+  }
+
+  private static cleanLabel(text: string): string {
+    return text.replace(LABEL_PREFIX, '').replace(LABEL_SUFFIX, '').trim();
+  }
+
+  private static getHost(url: string): string {
+    try {
+      return new URL(url).hostname.replace(/^www\./, '');
+    } catch {
+      return '';
+    }
+  }
+
+  private static isSocialLink(url: string): boolean {
+    const host = this.getHost(url);
+    if (host === 'youtube.com' || host.endsWith('.youtube.com')) {
+      const { pathname, search } = new URL(url);
+      return YOUTUBE_CHANNEL_PATH.test(pathname + search);
+    }
+    return SOCIAL_HOSTS.some(social => host === social || host.endsWith(`.${social}`));
+  }
+
+  private static parseHashtags(description: string): string[] {
+    const hashtags: string[] = [];
+    for (const match of Array.from(description.matchAll(HASHTAG_PATTERN))) {
+      const tag = match[2];
+      if (!/^\d+$/.test(tag) && !hashtags.some(existing => existing.toLowerCase() === tag.toLowerCase())) {
+        hashtags.push(tag);
+      }
+    }
+    return hashtags;
+  }
+
+  private static createSponsorBlock(text: string): SponsorBlock {
+    const name = text.match(SPONSOR_NAME_PATTERN)?.[1];
+    const range = text.match(TIME_RANGE_PATTERN);
+
+    return {
+      text,
+      ...(name ? { sponsor: name } : {}),
+      ...(range ? {
+        start: TranscriptProcessor.parseTimestamp(range[1]),
+        end: TranscriptProcessor.parseTimestamp(range[2])
+      } : {})
+    };
+  }
+}
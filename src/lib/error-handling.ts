@@ -427,4 +427,20 @@ export function getRetryConfig(error: ProcessingError): {
     delay: error.details.retryDelay || 5000,
     maxRetries: error.details.maxRetries || 1
   };
-}
\ No newline at end of file
+}
+/**
+ * Checks if an error comes from an aborted operation (fetch or AbortSignal)
+ */
+export function isAbortError(error: unknown): boolean {
+  // DOMException is not an Error subclass in every environment, so check the name only
+  return typeof error === 'object' && error !== null && (error as { name?: unknown }).name === 'AbortError';
+}
+
+/**
+ * Throws an AbortError if the signal has been aborted
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new DOMException('The operation was aborted', 'AbortError');
+  }
+}
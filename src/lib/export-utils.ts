@@ -1,12 +1,46 @@
-import { Article, ArticleSection } from '@/types';
+import { Article, ArticleSection, SiteProfileOverrides, StaticSiteFormat } from '@/types';
+import { createZip } from './zip-writer';
+import { CitationLinker } from './citation-linker';
+import { TranscriptProcessor } from './transcript-processor';
+import { renderTemplate, slugify } from './template-engine';
+import { escapeHtml, renderSafeHtml, sanitizeHtml } from './html-sanitizer';
+import {
+  createStaticSiteFilename,
+  escapeMdx,
+  getFrontMatterEntries,
+  isStaticSiteFormat,
+  resolveSiteProfile,
+  serializeFrontMatter
+} from './static-site-export';
 
-export type ExportFormat = 'markdown' | 'html' | 'plain';
+// Import files for blogging platforms, built from the article rather than a template
+export type PublishingFormat = 'wordpress' | 'ghost' | 'medium';
+
+export const PUBLISHING_FORMATS: PublishingFormat[] = ['wordpress', 'ghost', 'medium'];
+
+export type ExportFormat = 'markdown' | 'html' | 'plain' | 'pdf' | StaticSiteFormat | PublishingFormat;
+
+// Formats rendered from text templates (PDF is drawn by pdf-export.ts)
+export type TemplateFormat = Exclude<ExportFormat, 'pdf' | PublishingFormat>;
+
+// Status of posts in publishing platform exports
+export type PublishStatus = 'draft' | 'published';
+
+// How section citations are rendered in markdown and HTML exports
+export type CitationStyle = 'links' | 'footnotes' | 'none';
 
 export interface ExportOptions {
   format: ExportFormat;
   includeMetadata?: boolean;
   includeTimestamps?: boolean;
   template?: string;
+  // Template source used instead of the named template, e.g. an edited copy of one
+  customTemplate?: string;
+  citationStyle?: CitationStyle;
+  // Front matter mapping for static-site formats, applied over the generator's default profile
+  siteProfile?: SiteProfileOverrides;
+  // Publishing formats only; posts are drafts unless set to 'published'
+  publishStatus?: PublishStatus;
 }
 
 export interface ExportResult {
@@ -15,8 +49,27 @@ export interface ExportResult {
   mimeType: string;
 }
 
-// Template system for different export formats
-export const templates = {
+// Markdown body of static-site exports; the title is part of the front matter
+const STATIC_SITE_TEMPLATE = `{{{frontMatter}}}
+{{introduction}}
+
+{{#each sections}}
+{{> section}}
+{{/each}}
+## Conclusion
+
+{{conclusion}}
+{{#if includeMetadata}}
+
+---
+
+*Based on the video "[{{metadata.sourceVideo.title}}]({{videoUrl}})" by {{metadata.sourceVideo.channelName}}.*
+{{/if}}
+{{{footnotes}}}`;
+
+// Export templates per format, rendered by the template engine (see template-engine.ts).
+// Templates receive the article with sections prepared by createTemplateData.
+export const templates: Record<TemplateFormat, Record<string, string>> = {
   markdown: {
     default: `# {{title}}
 
@@ -25,74 +78,50 @@ export const templates = {
 **Channel:** {{metadata.sourceVideo.channelName}}  
 **Word Count:** {{metadata.wordCount}}  
 **Reading Time:** {{metadata.readingTime}} minutes  
-**Tags:** {{tags}}
+**Tags:** {{join tags}}
 
 ---
-{{/if}}
 
+{{/if}}
 ## Introduction
 
 {{introduction}}
 
 {{#each sections}}
-## {{heading}}
-
-{{content}}
-
-{{#each subsections}}
-### {{heading}}
-
-{{content}}
-
+{{> section}}
 {{/each}}
-
-{{/each}}
-
 ## Conclusion
 
 {{conclusion}}
-`,
+{{{footnotes}}}`,
     blog: `# {{title}}
 
 {{introduction}}
 
 {{#each sections}}
-## {{heading}}
-
-{{content}}
-
-{{#each subsections}}
-### {{heading}}
-
-{{content}}
-
+{{> section}}
 {{/each}}
-{{/each}}
-
 ## Conclusion
 
 {{conclusion}}
 
-{{#if includeMetadata}}
 ---
 
-*This article was generated from the YouTube video "[{{metadata.sourceVideo.title}}](https://youtube.com/watch?v={{metadata.sourceVideo.id}})" by {{metadata.sourceVideo.channelName}}.*
+*This article was generated from the YouTube video "[{{metadata.sourceVideo.title}}]({{videoUrl}})" by {{metadata.sourceVideo.channelName}}.*
+{{#if includeMetadata}}
 
-**Tags:** {{tags}}
+**Tags:** {{join tags}}
 {{/if}}
-`,
+{{{footnotes}}}`,
     minimal: `# {{title}}
 
 {{introduction}}
 
 {{#each sections}}
-## {{heading}}
-
-{{content}}
+{{> section}}
 {{/each}}
-
 {{conclusion}}
-`
+{{{footnotes}}}`
   },
   html: {
     default: `<!DOCTYPE html>
@@ -113,7 +142,6 @@ export const templates = {
 </head>
 <body>
     <h1>{{title}}</h1>
-    
     {{#if includeMetadata}}
     <div class="metadata">
         <strong>Source:</strong> {{metadata.sourceVideo.title}}<br>
@@ -122,30 +150,20 @@ export const templates = {
         <strong>Reading Time:</strong> {{metadata.readingTime}} minutes
         <div class="tags">
             <strong>Tags:</strong>
-            {{#each tagsArray}}
+            {{#each tags}}
             <span class="tag">{{this}}</span>
             {{/each}}
         </div>
     </div>
     {{/if}}
-    
     <h2>Introduction</h2>
     <p>{{introduction}}</p>
-    
     {{#each sections}}
-    <h2>{{heading}}</h2>
-    <p>{{content}}</p>
-    
-    {{#each subsections}}
-    <h3>{{heading}}</h3>
-    <p>{{content}}</p>
-    {{/each}}
-    
+    {{> section}}
     {{/each}}
-    
     <h2>Conclusion</h2>
     <p>{{conclusion}}</p>
-</body>
+{{{footnotes}}}</body>
 </html>`,
     article: `<!DOCTYPE html>
 <html lang="en">
@@ -168,290 +186,569 @@ export const templates = {
 </head>
 <body>
     <h1>{{title}}</h1>
-    
     {{#if includeMetadata}}
-    <div class="metadata">
-        Based on "{{metadata.sourceVideo.title}}" by {{metadata.sourceVideo.channelName}}
-    </div>
+    <div class="metadata">Based on "{{metadata.sourceVideo.title}}" by {{metadata.sourceVideo.channelName}}</div>
     {{/if}}
-    
     <div class="intro">{{introduction}}</div>
-    
     {{#each sections}}
-    <h2>{{heading}}</h2>
-    <p>{{content}}</p>
-    
-    {{#each subsections}}
-    <h3>{{heading}}</h3>
-    <p>{{content}}</p>
+    {{> section}}
     {{/each}}
-    {{/each}}
-    
     <h2>Conclusion</h2>
     <p>{{conclusion}}</p>
-    
     {{#if includeMetadata}}
     <div class="tags">
-        {{#each tagsArray}}
+        {{#each tags}}
         <span class="tag">{{this}}</span>
         {{/each}}
     </div>
     {{/if}}
-</body>
+{{{footnotes}}}</body>
 </html>`
-  }
+  },
+  plain: {
+    default: `{{title}}
+
+{{#if includeMetadata}}
+Source: {{metadata.sourceVideo.title}}
+Channel: {{metadata.sourceVideo.channelName}}
+Word Count: {{metadata.wordCount}}
+Reading Time: {{metadata.readingTime}} minutes
+Tags: {{join tags}}
+
+---
+
+{{/if}}
+{{introduction}}
+
+{{#each sections}}
+{{> section}}
+{{/each}}
+{{conclusion}}
+`
+  },
+  hugo: { default: STATIC_SITE_TEMPLATE },
+  jekyll: { default: STATIC_SITE_TEMPLATE },
+  astro: { default: STATIC_SITE_TEMPLATE },
+  'next-mdx': { default: STATIC_SITE_TEMPLATE }
 };
 
-// Simple template engine for string interpolation
-function processTemplate(template: string, data: any): string {
-  let result = template;
-  let iterations = 0;
-  const maxIterations = 10; // Prevent infinite loops
-  
-  // Keep processing until no more template expressions are found
-  while (iterations < maxIterations) {
-    const originalResult = result;
-    
-    // Handle conditional blocks {{#if condition}}...{{/if}}
-    result = result.replace(/\{\{#if\s+([^}]+)\}\}([\s\S]*?)\{\{\/if\}\}/g, (match, condition, content) => {
-      const value = getNestedValue(data, condition.trim());
-      return value ? content : '';
-    });
-    
-    // Handle each loops {{#each array}}...{{/each}}
-    result = result.replace(/\{\{#each\s+([^}]+)\}\}([\s\S]*?)\{\{\/each\}\}/g, (match, arrayPath, content) => {
-      const array = getNestedValue(data, arrayPath.trim());
-      if (!Array.isArray(array)) return '';
-      
-      return array.map(item => {
-        let itemContent = content;
-        // Replace {{this}} with the current item
-        itemContent = itemContent.replace(/\{\{this\}\}/g, String(item));
-        // Replace other properties if item is an object
-        if (typeof item === 'object' && item !== null) {
-          // Create a new context with the item's properties taking precedence
-          const itemContext = { ...data, ...item };
-          itemContent = processTemplate(itemContent, itemContext);
-        }
-        return itemContent;
-      }).join('\n');
-    });
-    
-    // Handle simple variable substitution {{variable}}
-    result = result.replace(/\{\{([^}#\/][^}]*)\}\}/g, (match, path) => {
-      const value = getNestedValue(data, path.trim());
-      return value !== undefined ? String(value) : '';
-    });
-    
-    // If no changes were made, we're done
-    if (result === originalResult) {
-      break;
+const MARKDOWN_SECTION_PARTIAL = `{{headingPrefix}} {{heading}}
+
+{{content}}
+
+{{#each subsections}}
+{{> section}}
+{{/each}}`;
+
+// Partials available to every template of a format; "section" renders a section and its subsections
+export const partials: Record<TemplateFormat, Record<string, string>> = {
+  markdown: {
+    section: MARKDOWN_SECTION_PARTIAL
+  },
+  html: {
+    section: `    <h{{level}}>{{heading}}</h{{level}}>
+    {{{content}}}
+{{#each subsections}}
+{{> section}}
+{{/each}}`
+  },
+  plain: {
+    section: `{{headingPrefix}} {{heading}}
+
+{{content}}
+
+{{#each subsections}}
+{{> section}}
+{{/each}}`
+  },
+  hugo: { section: MARKDOWN_SECTION_PARTIAL },
+  jekyll: { section: MARKDOWN_SECTION_PARTIAL },
+  astro: { section: MARKDOWN_SECTION_PARTIAL },
+  'next-mdx': { section: MARKDOWN_SECTION_PARTIAL }
+};
+
+interface CitationRenderer {
+  renderContent(section: ArticleSection): string;
+  renderFootnotes(): string;
+}
+
+// Renders section citations as timestamped video links, or as numbered footnotes
+// collected while the sections are rendered and listed at the end of the document.
+// HTML content is converted from markdown and sanitized before the links are added.
+function createCitationRenderer(
+  videoId: string | undefined,
+  style: CitationStyle,
+  format: TemplateFormat
+): CitationRenderer {
+  const notes: number[] = [];
+  const text = (value: string) => format === 'html' ? renderSafeHtml(value) : value;
+
+  // Citation markup goes at the end of the paragraph, inside its last HTML block
+  const withCitations = (paragraph: string, suffix: string) => {
+    if (format !== 'html') return paragraph + suffix;
+    const html = renderSafeHtml(paragraph);
+    return html.endsWith('</p>') ? `${html.slice(0, -4)}${suffix}</p>` : `${html}\n<p>${suffix.trim()}</p>`;
+  };
+
+  const link = (seconds: number) => {
+    const url = CitationLinker.getTimestampUrl(videoId || '', seconds);
+    const label = TranscriptProcessor.formatTimestamp(seconds);
+    return format === 'html' ? `<a href="${url.replace(/&/g, '&amp;')}">${label}</a>` : `[${label}](${url})`;
+  };
+
+  // Citations of the same moment share one footnote
+  const reference = (seconds: number) => {
+    const number = notes.includes(seconds) ? notes.indexOf(seconds) + 1 : notes.push(seconds);
+    return format === 'html'
+      ? `<sup class="citation"><a href="#citation-${number}">[${number}]</a></sup>`
+      : `[^${number}]`;
+  };
+
+  return {
+    renderContent(section) {
+      const citations = section.citations || [];
+      if (format === 'plain' || style === 'none' || !videoId || citations.length === 0) return text(section.content);
+
+      return CitationLinker.splitParagraphs(section.content).map((paragraph, index) => {
+        const times = citations
+          .filter(citation => citation.paragraphIndex === index)
+          .map(citation => citation.startTime);
+        if (times.length === 0) return text(paragraph);
+
+        return style === 'footnotes'
+          ? withCitations(paragraph, times.map(reference).join(''))
+          : withCitations(paragraph, ` (${times.map(link).join(', ')})`);
+      }).join(format === 'html' ? '\n' : '\n\n');
+    },
+
+    renderFootnotes() {
+      if (notes.length === 0) return '';
+      if (format === 'html') {
+        const items = notes.map((seconds, i) => `        <li id="citation-${i + 1}">${link(seconds)}</li>\n`).join('');
+        return `    <ol class="citations">\n${items}    </ol>\n`;
+      }
+      return `\n${notes.map((seconds, i) => `[^${i + 1}]: ${link(seconds)}`).join('\n')}\n`;
     }
-    
-    iterations++;
-  }
-  
-  return result;
+  };
 }
 
-// Helper function to get nested object values
-function getNestedValue(obj: any, path: string): any {
-  return path.split('.').reduce((current, key) => {
-    return current && current[key] !== undefined ? current[key] : undefined;
-  }, obj);
+// Section as seen by the templates: content with citations applied and the heading level
+interface TemplateSection {
+  heading: string;
+  content: string;
+  level: number;
+  headingPrefix: string;
+  subsections: TemplateSection[];
 }
 
-// Convert article sections to markdown text
-function sectionsToMarkdown(sections: ArticleSection[], level: number = 2): string {
-  return sections.map(section => {
-    let text = `${'#'.repeat(level)} ${section.heading}\n\n${section.content}\n\n`;
-    
-    if (section.subsections && section.subsections.length > 0) {
-      text += sectionsToMarkdown(section.subsections, level + 1);
-    }
-    
-    return text;
-  }).join('');
+function toTemplateSections(sections: ArticleSection[], level: number, citations: CitationRenderer): TemplateSection[] {
+  return sections.map(section => ({
+    heading: section.heading,
+    content: citations.renderContent(section),
+    level,
+    headingPrefix: '#'.repeat(level),
+    subsections: toTemplateSections(section.subsections || [], level + 1, citations)
+  }));
 }
 
-// Convert article sections to HTML
-function sectionsToHtml(sections: ArticleSection[], level: number = 2): string {
-  return sections.map(section => {
-    const headingTag = `h${level}`;
-    let html = `    <${headingTag}>${section.heading}</${headingTag}>\n    <p>${section.content}</p>\n`;
-    
-    if (section.subsections && section.subsections.length > 0) {
-      html += '\n' + sectionsToHtml(section.subsections, level + 1);
-    }
-    
-    return html;
-  }).join('\n');
+// Data passed to export templates
+function createTemplateData(article: Article, format: TemplateFormat, includeMetadata: boolean, citationStyle: CitationStyle) {
+  const videoId = article.metadata?.sourceVideo?.id;
+  const citations = createCitationRenderer(videoId, citationStyle, format);
+  // Sections are rendered first so that footnotes are numbered in reading order
+  const sections = toTemplateSections(article.sections, format === 'plain' ? 1 : 2, citations);
+
+  return {
+    ...article,
+    sections,
+    includeMetadata,
+    videoUrl: `https://youtube.com/watch?v=${videoId || ''}`,
+    footnotes: citations.renderFootnotes()
+  };
 }
 
-// Convert article sections to plain text
-function sectionsToPlainText(sections: ArticleSection[], level: number = 1): string {
-  return sections.map(section => {
-    let text = `${'#'.repeat(level)} ${section.heading}\n\n${section.content}\n\n`;
-    
-    if (section.subsections && section.subsections.length > 0) {
-      text += sectionsToPlainText(section.subsections, level + 1);
-    }
-    
-    return text;
-  }).join('');
+/**
+ * Template source for a format, falling back to the format's default template
+ */
+export function getTemplateSource(format: ExportFormat, template: string = 'default'): string {
+  if (format === 'pdf') {
+    throw new Error('PDF export is rendered on the server: use exportArticleToPdf() or POST /api/export');
+  }
+  if (isPublishingFormat(format)) {
+    throw new Error(`${format} exports are built from the article and have no template`);
+  }
+  const formatTemplates = templates[format];
+  if (!formatTemplates) {
+    throw new Error(`Unsupported export format: ${format}`);
+  }
+  return Object.prototype.hasOwnProperty.call(formatTemplates, template) ? formatTemplates[template] : formatTemplates.default;
+}
+
+const FORMAT_FILE_TYPES: Record<TemplateFormat, { mimeType: string; extension: string }> = {
+  markdown: { mimeType: 'text/markdown', extension: 'md' },
+  html: { mimeType: 'text/html', extension: 'html' },
+  plain: { mimeType: 'text/plain', extension: 'txt' },
+  hugo: { mimeType: 'text/markdown', extension: 'md' },
+  jekyll: { mimeType: 'text/markdown', extension: 'md' },
+  astro: { mimeType: 'text/markdown', extension: 'md' },
+  'next-mdx': { mimeType: 'text/markdown', extension: 'mdx' }
+};
+
+// Static-site exports start with front matter built from the site profile
+function createFrontMatter(article: Article, format: StaticSiteFormat, overrides: SiteProfileOverrides | undefined, date: Date) {
+  const profile = resolveSiteProfile(format, overrides);
+  return {
+    frontMatter: serializeFrontMatter(getFrontMatterEntries(article, profile, date), profile.frontMatterFormat),
+    filename: createStaticSiteFilename(article.title, format, profile, date)
+  };
 }
 
 // Export article to different formats
 export function exportArticle(article: Article, options: ExportOptions): ExportResult {
-  const { format, includeMetadata = true, template = 'default' } = options;
-  
-  // Prepare data for template processing
-  const templateData = {
-    ...article,
-    tags: article.tags.join(', '),
-    tagsArray: article.tags,
-    includeMetadata
-  };
-  
-  let content: string;
-  let mimeType: string;
-  let extension: string;
-  
-  switch (format) {
-    case 'markdown':
-      content = `# ${article.title}\n\n`;
-      if (includeMetadata) {
-        content += `**Source:** ${article.metadata.sourceVideo.title}  \n`;
-        content += `**Channel:** ${article.metadata.sourceVideo.channelName}  \n`;
-        content += `**Word Count:** ${article.metadata.wordCount}  \n`;
-        content += `**Reading Time:** ${article.metadata.readingTime} minutes  \n`;
-        content += `**Tags:** ${article.tags.join(', ')}\n\n`;
-        content += '---\n\n';
-      }
-      content += `## Introduction\n\n${article.introduction}\n\n`;
-      content += sectionsToMarkdown(article.sections);
-      content += `## Conclusion\n\n${article.conclusion}\n`;
-      
-      // Apply template-specific modifications
-      if (template === 'blog') {
-        content += `\n---\n\n*This article was generated from the YouTube video "[${article.metadata.sourceVideo.title}](https://youtube.com/watch?v=${article.metadata.sourceVideo.id})" by ${article.metadata.sourceVideo.channelName}.*\n\n`;
-        if (includeMetadata) {
-          content += `**Tags:** ${article.tags.join(', ')}\n`;
-        }
-      } else if (template === 'minimal') {
-        // Remove metadata for minimal template
-        content = `# ${article.title}\n\n${article.introduction}\n\n`;
-        content += sectionsToMarkdown(article.sections);
-        content += `${article.conclusion}\n`;
-      }
-      
-      mimeType = 'text/markdown';
-      extension = 'md';
-      break;
-      
-    case 'html':
-      content = `<!DOCTYPE html>\n<html lang="en">\n<head>\n`;
-      content += `    <meta charset="UTF-8">\n`;
-      content += `    <meta name="viewport" content="width=device-width, initial-scale=1.0">\n`;
-      content += `    <title>${article.title}</title>\n`;
-      
-      if (template === 'article') {
-        content += `    <meta name="description" content="${article.metadata.metaDescription}">\n`;
-        content += `    <style>\n        body { font-family: Georgia, serif; line-height: 1.8; max-width: 700px; margin: 0 auto; padding: 40px 20px; color: #333; }\n`;
-        content += `        h1 { font-size: 2.5em; margin-bottom: 0.5em; text-align: center; }\n`;
-        content += `        h2 { font-size: 1.8em; margin-top: 2em; margin-bottom: 0.8em; }\n`;
-        content += `        h3 { font-size: 1.4em; margin-top: 1.5em; margin-bottom: 0.6em; }\n`;
-        content += `        p { margin-bottom: 1.2em; }\n`;
-        content += `        .intro { font-size: 1.1em; font-style: italic; text-align: center; margin: 2em 0; }\n`;
-        content += `        .metadata { text-align: center; color: #666; font-size: 0.9em; margin: 2em 0; }\n`;
-        content += `        .tags { text-align: center; margin: 2em 0; }\n`;
-        content += `        .tag { background: #f0f0f0; padding: 4px 12px; border-radius: 20px; margin: 0 3px; font-size: 0.8em; }\n`;
-        content += `    </style>\n</head>\n<body>\n`;
-        content += `    <h1>${article.title}</h1>\n`;
-        if (includeMetadata) {
-          content += `    <div class="metadata">Based on "${article.metadata.sourceVideo.title}" by ${article.metadata.sourceVideo.channelName}</div>\n`;
-        }
-        content += `    <div class="intro">${article.introduction}</div>\n`;
-      } else {
-        content += `    <style>\n        body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; max-width: 800px; margin: 0 auto; padding: 20px; }\n`;
-        content += `        h1 { color: #333; border-bottom: 2px solid #eee; padding-bottom: 10px; }\n`;
-        content += `        h2 { color: #555; margin-top: 30px; }\n`;
-        content += `        h3 { color: #666; }\n`;
-        content += `        .metadata { background: #f5f5f5; padding: 15px; border-radius: 5px; margin: 20px 0; }\n`;
-        content += `        .tags { margin-top: 10px; }\n`;
-        content += `        .tag { background: #e3f2fd; color: #1976d2; padding: 2px 8px; border-radius: 12px; font-size: 0.8em; margin-right: 5px; }\n`;
-        content += `    </style>\n</head>\n<body>\n`;
-        content += `    <h1>${article.title}</h1>\n`;
-        if (includeMetadata) {
-          content += `    <div class="metadata">\n`;
-          content += `        <strong>Source:</strong> ${article.metadata.sourceVideo.title}<br>\n`;
-          content += `        <strong>Channel:</strong> ${article.metadata.sourceVideo.channelName}<br>\n`;
-          content += `        <strong>Word Count:</strong> ${article.metadata.wordCount}<br>\n`;
-          content += `        <strong>Reading Time:</strong> ${article.metadata.readingTime} minutes\n`;
-          content += `        <div class="tags">\n            <strong>Tags:</strong>\n`;
-          article.tags.forEach(tag => {
-            content += `            <span class="tag">${tag}</span>\n`;
-          });
-          content += `        </div>\n    </div>\n`;
-        }
-        content += `    <h2>Introduction</h2>\n    <p>${article.introduction}</p>\n`;
-      }
-      
-      content += sectionsToHtml(article.sections);
-      content += `    <h2>Conclusion</h2>\n    <p>${article.conclusion}</p>\n`;
-      
-      if (template === 'article' && includeMetadata) {
-        content += `    <div class="tags">\n`;
-        article.tags.forEach(tag => {
-          content += `        <span class="tag">${tag}</span>\n`;
-        });
-        content += `    </div>\n`;
-      }
-      
-      content += `</body>\n</html>`;
-      mimeType = 'text/html';
-      extension = 'html';
-      break;
-      
-    case 'plain':
-      content = `${article.title}\n\n`;
-      if (includeMetadata) {
-        content += `Source: ${article.metadata.sourceVideo.title}\n`;
-        content += `Channel: ${article.metadata.sourceVideo.channelName}\n`;
-        content += `Word Count: ${article.metadata.wordCount}\n`;
-        content += `Reading Time: ${article.metadata.readingTime} minutes\n`;
-        content += `Tags: ${article.tags.join(', ')}\n\n`;
-        content += '---\n\n';
-      }
-      content += `${article.introduction}\n\n`;
-      content += sectionsToPlainText(article.sections);
-      content += `${article.conclusion}\n`;
-      mimeType = 'text/plain';
-      extension = 'txt';
-      break;
-      
-    default:
-      throw new Error(`Unsupported export format: ${format}`);
+  const { format, includeMetadata = true, template = 'default', citationStyle = 'links' } = options;
+
+  if (isPublishingFormat(format)) {
+    return exportPublishingPackage([article], options, article.title);
   }
-  
-  // Generate filename
-  const sanitizedTitle = article.title
+
+  const builtInTemplate = getTemplateSource(format, template);
+  const source = options.customTemplate ?? builtInTemplate;
+  const templateFormat = format as TemplateFormat;
+  const staticSite = isStaticSiteFormat(format) ? createFrontMatter(article, format, options.siteProfile, new Date()) : null;
+  const content = renderTemplate(
+    source,
+    { ...createTemplateData(article, templateFormat, includeMetadata, citationStyle), frontMatter: staticSite?.frontMatter },
+    {
+      escape: format === 'html' ? 'html' : format === 'next-mdx' ? escapeMdx : 'none',
+      partials: partials[templateFormat]
+    }
+  );
+  const { mimeType, extension } = FORMAT_FILE_TYPES[templateFormat];
+
+  return {
+    content,
+    filename: staticSite?.filename ?? createExportFilename(article.title, extension),
+    mimeType
+  };
+}
+
+// Generate a filesystem-safe filename from the article title
+export function createExportFilename(title: string, extension: string): string {
+  const sanitizedTitle = title
     .replace(/[^a-zA-Z0-9\s-]/g, '')
     .replace(/\s+/g, '-')
     .replace(/-+/g, '-')
     .toLowerCase();
-  const filename = `${sanitizedTitle}.${extension}`;
-  
+  return `${sanitizedTitle}.${extension}`;
+}
+
+// Export several articles (e.g. a batch) as one ZIP archive with an index
+export function exportArticlesAsZip(
+  articles: Article[],
+  options: ExportOptions,
+  archiveName: string = 'articles'
+): { content: Uint8Array; filename: string; mimeType: string } {
+  if (options.format === 'pdf') {
+    throw new Error('PDF export is rendered on the server and cannot be bundled into a ZIP archive');
+  }
+  if (isPublishingFormat(options.format)) {
+    throw new Error(`${options.format} exports bundle a batch into one file: use exportPublishingPackage()`);
+  }
+  if (articles.length === 0) {
+    throw new Error('No articles to export');
+  }
+
+  const entries = articles.map((article, index) => {
+    const result = exportArticle(article, options);
+    // Numbering keeps playlist order and distinguishes articles with the same title
+    const number = String(index + 1).padStart(String(articles.length).length, '0');
+    return { name: `${number}-${result.filename}`, content: result.content, title: article.title };
+  });
+
+  const index = `# ${archiveName}\n\n` +
+    entries.map(entry => `- [${entry.title}](${encodeURI(entry.name)})`).join('\n') + '\n';
+
+  return {
+    content: createZip([
+      { name: 'index.md', content: index },
+      ...entries.map(({ name, content }) => ({ name, content }))
+    ]),
+    filename: createExportFilename(archiveName, 'zip'),
+    mimeType: 'application/zip'
+  };
+}
+
+export function isPublishingFormat(format: string): format is PublishingFormat {
+  return (PUBLISHING_FORMATS as string[]).includes(format);
+}
+
+// Article body for publishing platforms: the title, tags and image are separate post fields
+const HTML_BODY_TEMPLATE = `<p>{{introduction}}</p>
+{{#each sections}}
+{{> section}}
+{{/each}}
+<p>{{conclusion}}</p>
+{{{footnotes}}}`;
+
+// The HTML section partial without the indentation of the HTML document templates
+const HTML_BODY_SECTION_PARTIAL = `<h{{level}}>{{heading}}</h{{level}}>
+{{{content}}}
+{{#each subsections}}
+{{> section}}
+{{/each}}`;
+
+const MARKDOWN_BODY_TEMPLATE = `{{introduction}}
+
+{{#each sections}}
+{{> section}}
+{{/each}}
+## Conclusion
+
+{{conclusion}}
+{{{footnotes}}}`;
+
+/**
+ * Article body without the title, as HTML or markdown, for platforms that
+ * keep the title and tags in separate fields
+ */
+export function renderArticleBody(article: Article, format: 'html' | 'markdown', citationStyle: CitationStyle = 'links'): string {
+  const body = renderTemplate(
+    format === 'html' ? HTML_BODY_TEMPLATE : MARKDOWN_BODY_TEMPLATE,
+    createTemplateData(article, format, false, citationStyle),
+    {
+      escape: format === 'html' ? 'html' : 'none',
+      partials: format === 'html' ? { section: HTML_BODY_SECTION_PARTIAL } : partials[format]
+    }
+  );
+  return body.trim();
+}
+
+// Article as a post on a publishing platform
+interface PublishingPost {
+  title: string;
+  slug: string;
+  html: string;
+  excerpt: string;
+  tags: string[];
+  featureImage: string;
+}
+
+function toPublishingPost(article: Article, citationStyle: CitationStyle): PublishingPost {
+  return {
+    title: article.title,
+    slug: slugify(article.title) || 'article',
+    html: renderArticleBody(article, 'html', citationStyle),
+    excerpt: article.metadata?.metaDescription || article.introduction,
+    tags: article.tags || [],
+    featureImage: article.metadata?.sourceVideo?.thumbnailUrl || ''
+  };
+}
+
+// Tags of all posts, once each; tags whose slugs match are the same tag
+function collectTags(posts: PublishingPost[]): Array<{ name: string; slug: string }> {
+  const tags = new Map<string, string>();
+  for (const tag of posts.flatMap(post => post.tags)) {
+    const slug = slugify(tag);
+    if (slug && !tags.has(slug)) tags.set(slug, tag);
+  }
+  return Array.from(tags, ([slug, name]) => ({ name, slug }));
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&apos;' })[char] as string);
+}
+
+// CDATA sections cannot contain "]]>", so it is split across two sections
+function cdata(value: string): string {
+  return `<![CDATA[${value.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+}
+
+function formatWordPressDate(date: Date): string {
+  return date.toISOString().slice(0, 19).replace('T', ' ');
+}
+
+// WordPress eXtended RSS (WXR 1.2), read by Tools > Import > WordPress. Featured images
+// are attachment items that the importer downloads, linked through _thumbnail_id.
+function createWxr(posts: PublishingPost[], siteTitle: string, status: PublishStatus, date: Date): string {
+  const tags = collectTags(posts);
+  const postDate = formatWordPressDate(date);
+
+  const tagElements = tags.map((tag, index) => `    <wp:tag>
+      <wp:term_id>${index + 1}</wp:term_id>
+      <wp:tag_slug>${cdata(tag.slug)}</wp:tag_slug>
+      <wp:tag_name>${cdata(tag.name)}</wp:tag_name>
+    </wp:tag>
+`).join('');
+
+  const items = posts.map((post, index) => {
+    // Each post is followed by the attachment of its featured image
+    const postId = index * 2 + 1;
+    const attachmentId = postId + 1;
+    const categories = post.tags
+      .filter(tag => slugify(tag))
+      .map(tag => `      <category domain="post_tag" nicename="${escapeXml(slugify(tag))}">${cdata(tag)}</category>\n`)
+      .join('');
+    const thumbnail = post.featureImage ? `      <wp:postmeta>
+        <wp:meta_key>_thumbnail_id</wp:meta_key>
+        <wp:meta_value>${attachmentId}</wp:meta_value>
+      </wp:postmeta>
+` : '';
+    const attachment = post.featureImage ? `    <item>
+      <title>${escapeXml(post.title)}</title>
+      <wp:post_id>${attachmentId}</wp:post_id>
+      <wp:post_date>${postDate}</wp:post_date>
+      <wp:post_date_gmt>${postDate}</wp:post_date_gmt>
+      <wp:post_name>${escapeXml(`${post.slug}-thumbnail`)}</wp:post_name>
+      <wp:status>inherit</wp:status>
+      <wp:post_parent>${postId}</wp:post_parent>
+      <wp:post_type>attachment</wp:post_type>
+      <wp:attachment_url>${escapeXml(post.featureImage)}</wp:attachment_url>
+    </item>
+` : '';
+
+    return `    <item>
+      <title>${escapeXml(post.title)}</title>
+      <pubDate>${date.toUTCString()}</pubDate>
+      <content:encoded>${cdata(post.html)}</content:encoded>
+      <excerpt:encoded>${cdata(post.excerpt)}</excerpt:encoded>
+      <wp:post_id>${postId}</wp:post_id>
+      <wp:post_date>${postDate}</wp:post_date>
+      <wp:post_date_gmt>${postDate}</wp:post_date_gmt>
+      <wp:post_name>${escapeXml(post.slug)}</wp:post_name>
+      <wp:status>${status === 'published' ? 'publish' : 'draft'}</wp:status>
+      <wp:post_type>post</wp:post_type>
+${categories}${thumbnail}    </item>
+${attachment}`;
+  }).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0"
+  xmlns:excerpt="http://wordpress.org/export/1.2/excerpt/"
+  xmlns:content="http://purl.org/rss/1.0/modules/content/"
+  xmlns:dc="http://purl.org/dc/elements/1.1/"
+  xmlns:wp="http://wordpress.org/export/1.2/">
+  <channel>
+    <title>${escapeXml(siteTitle)}</title>
+    <language>en</language>
+    <wp:wxr_version>1.2</wp:wxr_version>
+${tagElements}${items}  </channel>
+</rss>
+`;
+}
+
+// Ghost allows 300 characters in custom excerpts
+const GHOST_EXCERPT_LENGTH = 300;
+
+// Ghost import file, read by Settings > Labs > Import content
+function createGhostImport(posts: PublishingPost[], status: PublishStatus, date: Date): string {
+  const tags = collectTags(posts);
+  const timestamp = date.toISOString();
+
+  const data = {
+    db: [{
+      meta: { exported_on: date.getTime(), version: '5.0.0' },
+      data: {
+        posts: posts.map((post, index) => ({
+          id: index + 1,
+          title: post.title,
+          slug: post.slug,
+          html: post.html,
+          custom_excerpt: post.excerpt.length > GHOST_EXCERPT_LENGTH
+            ? `${post.excerpt.slice(0, GHOST_EXCERPT_LENGTH - 1).trimEnd()}…`
+            : post.excerpt,
+          feature_image: post.featureImage || null,
+          type: 'post',
+          status,
+          created_at: timestamp,
+          updated_at: timestamp,
+          published_at: status === 'published' ? timestamp : null
+        })),
+        tags: tags.map((tag, index) => ({ id: index + 1, name: tag.name, slug: tag.slug })),
+        posts_tags: posts.flatMap((post, index) => {
+          const slugs = Array.from(new Set(post.tags.map(slugify).filter(Boolean)));
+          return slugs.map((slug, order) => ({
+            post_id: index + 1,
+            tag_id: tags.findIndex(tag => tag.slug === slug) + 1,
+            sort_order: order
+          }));
+        })
+      }
+    }]
+  };
+
+  return `${JSON.stringify(data, null, 2)}\n`;
+}
+
+// HTML for Medium's story importer, one <article> per post. Medium only keeps the story
+// itself, so tags and status are kept as meta data for the editor.
+function createMediumHtml(posts: PublishingPost[], title: string, status: PublishStatus): string {
+  const articles = posts.map(post => {
+    const image = post.featureImage
+      ? `<figure><img src="${escapeHtml(post.featureImage)}" alt="${escapeHtml(post.title)}"></figure>\n`
+      : '';
+    return `<article>
+<h1>${escapeHtml(post.title)}</h1>
+<p><em>${escapeHtml(post.excerpt)}</em></p>
+${image}${post.html}
+<p>Tags: ${post.tags.map(escapeHtml).join(', ')}</p>
+</article>`;
+  }).join('\n<hr>\n');
+
+  const tags = collectTags(posts).map(tag => tag.name);
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>${escapeHtml(title)}</title>
+<meta name="description" content="${escapeHtml(posts[0]?.excerpt || '')}">
+<meta name="keywords" content="${escapeHtml(tags.join(', '))}">
+<meta name="status" content="${status}">
+</head>
+<body>
+${articles}
+</body>
+</html>
+`;
+}
+
+const PUBLISHING_FILE_TYPES: Record<PublishingFormat, { mimeType: string; extension: string }> = {
+  wordpress: { mimeType: 'application/xml', extension: 'xml' },
+  ghost: { mimeType: 'application/json', extension: 'json' },
+  medium: { mimeType: 'text/html', extension: 'html' }
+};
+
+/**
+ * Import file for a publishing platform with one post per article, so a
+ * batch becomes a single file
+ */
+export function exportPublishingPackage(articles: Article[], options: ExportOptions, name: string = 'articles'): ExportResult {
+  const { format, citationStyle = 'links', publishStatus = 'draft' } = options;
+  if (!isPublishingFormat(format)) {
+    throw new Error(`Not a publishing format: ${format}`);
+  }
+  if (articles.length === 0) {
+    throw new Error('No articles to export');
+  }
+
+  const posts = articles.map(article => toPublishingPost(article, citationStyle));
+  const date = new Date();
+  const content = format === 'wordpress'
+    ? createWxr(posts, name, publishStatus, date)
+    : format === 'ghost'
+      ? createGhostImport(posts, publishStatus, date)
+      : createMediumHtml(posts, name, publishStatus);
+  const { mimeType, extension } = PUBLISHING_FILE_TYPES[format];
+
   return {
     content,
-    filename,
+    filename: createExportFilename(`${name}-${format}`, extension),
     mimeType
   };
 }
 
 // Download file using browser File API
-export function downloadFile(content: string, filename: string, mimeType: string): void {
-  const blob = new Blob([content], { type: mimeType });
+export function downloadFile(content: string | Blob, filename: string, mimeType: string): void {
+  const blob = content instanceof Blob ? content : new Blob([content], { type: mimeType });
   const url = URL.createObjectURL(blob);
   
   const link = document.createElement('a');
@@ -465,10 +762,19 @@ export function downloadFile(content: string, filename: string, mimeType: string
   URL.revokeObjectURL(url);
 }
 
-// Copy content to clipboard
-export async function copyToClipboard(content: string): Promise<boolean> {
+// Copy content to clipboard. When html is given it is sanitized and copied as
+// rich text alongside the plain content, where the browser supports it.
+export async function copyToClipboard(content: string, html?: string): Promise<boolean> {
   try {
-    if (navigator.clipboard && window.isSecureContext) {
+    if (html !== undefined && navigator.clipboard?.write && typeof ClipboardItem !== 'undefined' && window.isSecureContext) {
+      await navigator.clipboard.write([
+        new ClipboardItem({
+          'text/html': new Blob([sanitizeHtml(html)], { type: 'text/html' }),
+          'text/plain': new Blob([content], { type: 'text/plain' })
+        })
+      ]);
+      return true;
+    } else if (navigator.clipboard && window.isSecureContext) {
       await navigator.clipboard.writeText(content);
       return true;
     } else {
@@ -500,8 +806,10 @@ export function getAvailableTemplates(format: ExportFormat): string[] {
     case 'html':
       return Object.keys(templates.html);
     case 'plain':
-      return ['default']; // Plain text only has one template
+      return Object.keys(templates.plain);
+    case 'pdf':
+      return ['default'];
     default:
-      return [];
+      return isStaticSiteFormat(format) ? Object.keys(templates[format]) : [];
   }
 }
\ No newline at end of file
@@ -0,0 +1,194 @@
+import { Article, ArticleSection, Transcript } from '@/types';
+
+// Words that say nothing about whether a claim was made in the video
+const STOP_WORDS = new Set([
+  'the', 'and', 'but', 'for', 'nor', 'yet', 'with', 'from', 'into', 'onto', 'about', 'over',
+  'under', 'after', 'before', 'between', 'through', 'during', 'are', 'was', 'were', 'been',
+  'being', 'has', 'have', 'had', 'does', 'did', 'will', 'would', 'could', 'should', 'can',
+  'may', 'might', 'must', 'this', 'that', 'these', 'those', 'you', 'your', 'they', 'them',
+  'their', 'our', 'his', 'her', 'its', 'who', 'whom', 'which', 'what', 'when', 'where', 'why',
+  'how', 'all', 'any', 'both', 'each', 'few', 'more', 'most', 'other', 'some', 'such', 'not',
+  'only', 'own', 'same', 'than', 'too', 'very', 'also', 'just', 'then', 'there', 'here',
+  'out', 'one', 'get', 'got', 'like', 'really', 'thing', 'things', 'way', 'make', 'made'
+]);
+
+/**
+ * Where a sentence sits in the article: 'introduction', 'conclusion',
+ * 'sections.0' or 'sections.0.subsections.1'
+ */
+export type ArticleLocation = string;
+
+export interface TranscriptExcerpt {
+  text: string;
+  startTime: number;
+  endTime: number;
+}
+
+export interface SentenceGrounding {
+  sentence: string;
+  location: ArticleLocation;
+  score: number; // 0-1 overlap with the best matching transcript passage
+  supported: boolean;
+  closestExcerpt?: TranscriptExcerpt;
+}
+
+export interface GroundingReport {
+  score: number; // 0-1 share of checked sentences with a supporting passage
+  sentences: SentenceGrounding[];
+  unsupported: SentenceGrounding[];
+}
+
+interface TranscriptWindow {
+  excerpt: TranscriptExcerpt;
+  words: Set<string>;
+  bigrams: Set<string>;
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9]+(?:'[a-z]+)?/g) || [];
+}
+
+function isContentWord(word: string): boolean {
+  return /\d/.test(word) || (word.length > 2 && !STOP_WORDS.has(word));
+}
+
+function toBigrams(tokens: string[]): string[] {
+  const bigrams: string[] = [];
+  for (let i = 1; i < tokens.length; i++) {
+    bigrams.push(`${tokens[i - 1]} ${tokens[i]}`);
+  }
+  return bigrams;
+}
+
+/**
+ * Verification pass for generated articles. Scores each sentence against the
+ * transcript with word and bigram overlap and flags sentences that no part of
+ * the video supports, which is where small models tend to make things up.
+ */
+export class GroundingChecker {
+  // Minimum overlap score for a sentence to count as supported
+  static readonly SUPPORT_THRESHOLD = 0.45;
+  // Shorter sentences ("Let's dive in.") carry no checkable claim
+  static readonly MIN_CONTENT_WORDS = 3;
+  // Consecutive segments compared together, since sentences span caption boundaries
+  static readonly WINDOW_SIZE = 3;
+  private static readonly WORD_WEIGHT = 0.7;
+  private static readonly BIGRAM_WEIGHT = 0.3;
+
+  /**
+   * Check every sentence of the article against the transcript
+   */
+  static checkArticle(article: Article, transcript: Transcript): GroundingReport {
+    const windows = this.buildWindows(transcript);
+    const sentences: SentenceGrounding[] = [];
+
+    const check = (text: string, location: ArticleLocation) => {
+      for (const sentence of this.splitSentences(text)) {
+        const grounding = this.checkSentence(sentence, location, windows);
+        if (grounding) sentences.push(grounding);
+      }
+    };
+
+    const checkSection = (section: ArticleSection, location: ArticleLocation) => {
+      check(section.content, location);
+      section.subsections?.forEach((subsection, index) => checkSection(subsection, `${location}.subsections.${index}`));
+    };
+
+    check(article.introduction, 'introduction');
+    article.sections.forEach((section, index) => checkSection(section, `sections.${index}`));
+    check(article.conclusion, 'conclusion');
+
+    const unsupported = sentences.filter(sentence => !sentence.supported);
+    const score = sentences.length === 0 ? 1 : (sentences.length - unsupported.length) / sentences.length;
+
+    return {
+      score: Math.round(score * 100) / 100,
+      sentences,
+      unsupported
+    };
+  }
+
+  /**
+   * Return the article with its grounding score recorded in the metadata
+   */
+  static annotate(article: Article, transcript: Transcript): Article {
+    const { score } = this.checkArticle(article, transcript);
+    return {
+      ...article,
+      metadata: {
+        ...article.metadata,
+        groundingScore: score
+      }
+    };
+  }
+
+  /**
+   * Split text into sentences, keeping each one verbatim so it can be found in the text again
+   */
+  static splitSentences(text: string): string[] {
+    return (text || '')
+      .replace(/([.!?])\s+/g, '$1\n')
+      .split(/\n+/)
+      .map(sentence => sentence.trim())
+      .filter(sentence => sentence.length > 0);
+  }
+
+  private static checkSentence(
+    sentence: string,
+    location: ArticleLocation,
+    windows: TranscriptWindow[]
+  ): SentenceGrounding | null {
+    const tokens = tokenize(sentence);
+    const contentWords = [...new Set(tokens.filter(isContentWord))];
+    if (contentWords.length < this.MIN_CONTENT_WORDS) return null;
+
+    const bigrams = toBigrams(tokens);
+    let best: TranscriptWindow | undefined;
+    let bestScore = 0;
+
+    for (const window of windows) {
+      const wordOverlap = contentWords.filter(word => window.words.has(word)).length / contentWords.length;
+      const bigramOverlap = bigrams.length === 0
+        ? wordOverlap
+        : bigrams.filter(bigram => window.bigrams.has(bigram)).length / bigrams.length;
+      const score = this.WORD_WEIGHT * wordOverlap + this.BIGRAM_WEIGHT * bigramOverlap;
+
+      if (score > bestScore) {
+        bestScore = score;
+        best = window;
+      }
+    }
+
+    return {
+      sentence,
+      location,
+      score: Math.round(bestScore * 100) / 100,
+      supported: bestScore >= this.SUPPORT_THRESHOLD,
+      closestExcerpt: best?.excerpt
+    };
+  }
+
+  private static buildWindows(transcript: Transcript): TranscriptWindow[] {
+    const segments = transcript.segments;
+    const windows: TranscriptWindow[] = [];
+    const count = Math.max(segments.length - this.WINDOW_SIZE + 1, Math.min(segments.length, 1));
+
+    for (let i = 0; i < count; i++) {
+      const group = segments.slice(i, i + this.WINDOW_SIZE);
+      const text = group.map(segment => segment.text.trim()).join(' ');
+      const tokens = tokenize(text);
+
+      windows.push({
+        excerpt: {
+          text,
+          startTime: group[0].startTime,
+          endTime: group[group.length - 1].endTime
+        },
+        words: new Set(tokens),
+        bigrams: new Set(toBigrams(tokens))
+      });
+    }
+
+    return windows;
+  }
+}
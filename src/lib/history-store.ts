@@ -0,0 +1,89 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ArticleHistoryEntry, ArticleHistoryStore, HISTORY_ID_PATTERN } from './article-history';
+
+/**
+ * Stores each article history entry as a JSON file in a directory on local disk
+ */
+export class FileHistoryStore implements ArticleHistoryStore {
+  private directory: string;
+
+  constructor(directory: string = process.env.HISTORY_STORE_DIR || path.join(process.cwd(), '.data', 'history')) {
+    this.directory = directory;
+  }
+
+  async get(id: string): Promise<ArticleHistoryEntry | null> {
+    // Ids come from URLs, so never let one escape the store directory
+    if (!HISTORY_ID_PATTERN.test(id)) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(await fs.readFile(this.filePath(id), 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async save(entry: ArticleHistoryEntry): Promise<void> {
+    if (!HISTORY_ID_PATTERN.test(entry.id)) {
+      throw new Error(`Invalid history entry id: ${entry.id}`);
+    }
+
+    await fs.mkdir(this.directory, { recursive: true });
+
+    // Write then rename so a crash mid-write never leaves a truncated entry
+    const target = this.filePath(entry.id);
+    const temporary = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(temporary, JSON.stringify(entry), 'utf8');
+    await fs.rename(temporary, target);
+  }
+
+  async list(): Promise<ArticleHistoryEntry[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const entries = await Promise.all(
+      files
+        .filter(file => file.endsWith('.json'))
+        .map(file => this.get(file.slice(0, -'.json'.length)))
+    );
+
+    return entries
+      .filter((entry): entry is ArticleHistoryEntry => entry !== null)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  async delete(id: string): Promise<void> {
+    if (!HISTORY_ID_PATTERN.test(id)) {
+      return;
+    }
+    await fs.rm(this.filePath(id), { force: true });
+  }
+
+  private filePath(id: string): string {
+    return path.join(this.directory, `${id}.json`);
+  }
+}
+
+let sharedStore: FileHistoryStore | null = null;
+
+/**
+ * Server-side history store shared by the /api/history routes
+ */
+export function getHistoryStore(): FileHistoryStore {
+  if (!sharedStore) {
+    sharedStore = new FileHistoryStore();
+  }
+  return sharedStore;
+}
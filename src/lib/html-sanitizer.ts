@@ -0,0 +1,264 @@
+/**
+ * Sanitization for HTML built from article text. Article text comes from
+ * video metadata and LLM responses, so it may contain markdown, stray tags or
+ * deliberately unsafe markup. Plain text is escaped, markdown is converted to
+ * HTML, and HTML is reduced to an allowlist of tags and attributes.
+ */
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#x27;',
+  '`': '&#x60;',
+  '=': '&#x3D;'
+};
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' '
+};
+
+// Tags kept by sanitizeHtml, with the attributes each may have (besides class and id)
+const ALLOWED_TAGS: Record<string, string[]> = {
+  p: [], br: [], hr: [], div: [], span: [],
+  h1: [], h2: [], h3: [], h4: [], h5: [], h6: [],
+  strong: [], b: [], em: [], i: [], u: [], s: [], del: [], sup: [], sub: [], mark: [],
+  code: [], pre: [], blockquote: [],
+  ul: [], ol: ['start'], li: [],
+  table: [], thead: [], tbody: [], tr: [], th: [], td: [],
+  a: ['href', 'title'],
+  img: ['src', 'alt', 'title']
+};
+
+const GLOBAL_ATTRIBUTES = ['class', 'id'];
+
+// Removed together with their content
+const DROPPED_TAGS = ['script', 'style', 'iframe', 'object', 'embed', 'template', 'noscript', 'textarea', 'select', 'head', 'title', 'svg', 'math'];
+
+const VOID_TAGS = ['br', 'hr', 'img'];
+
+const URL_ATTRIBUTES = ['href', 'src'];
+
+const TOKEN_PATTERN = /<!--[\s\S]*?(?:-->|$)|<![^>]*>?|<\?[^>]*>?|<(\/?)([a-zA-Z][a-zA-Z0-9-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'>]+))?)*)\s*\/?>/g;
+
+const ATTRIBUTE_PATTERN = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+
+/**
+ * Escape text for use in HTML content and attribute values
+ */
+export function escapeHtml(value: string): string {
+  return value.replace(/[&<>"'`=]/g, char => HTML_ESCAPES[char]);
+}
+
+/**
+ * Decode character references (&amp;, &#39;, &#x27;, ...)
+ */
+export function decodeHtmlEntities(value: string): string {
+  return value.replace(/&(#\d+|#x[0-9a-f]+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : '';
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+// Escape text taken from HTML, keeping the character references it already has
+function escapeHtmlText(value: string): string {
+  return value
+    .replace(/&(?!(?:#\d+|#x[0-9a-f]+|[a-z][a-z0-9]*);)/gi, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+/**
+ * Whether a link or image URL is safe to keep: http(s), mailto, fragments and relative URLs
+ */
+export function isSafeUrl(url: string): boolean {
+  // Browsers ignore control characters and whitespace inside the scheme
+  const normalized = decodeHtmlEntities(url).replace(/[\u0000- \u007f-\u009f]/g, '');
+  const scheme = normalized.match(/^([a-z][a-z0-9+.-]*):/i);
+  return !scheme || ['http', 'https', 'mailto'].includes(scheme[1].toLowerCase());
+}
+
+function sanitizeAttributes(tag: string, source: string): string {
+  const allowed = [...ALLOWED_TAGS[tag], ...GLOBAL_ATTRIBUTES];
+  const attributes: string[] = [];
+  ATTRIBUTE_PATTERN.lastIndex = 0;
+
+  let match: RegExpExecArray | null;
+  while ((match = ATTRIBUTE_PATTERN.exec(source)) !== null) {
+    const name = match[1].toLowerCase();
+    const value = decodeHtmlEntities(match[2] ?? match[3] ?? match[4] ?? '').trim();
+
+    if (!allowed.includes(name) || attributes.some(attribute => attribute.startsWith(`${name}=`))) continue;
+    if (URL_ATTRIBUTES.includes(name) && !isSafeUrl(value)) continue;
+    if (name === 'id' && !/^[A-Za-z][\w-]*$/.test(value)) continue;
+    if (name === 'start' && !/^\d+$/.test(value)) continue;
+
+    attributes.push(`${name}="${escapeHtml(value)}"`);
+  }
+
+  return attributes.map(attribute => ` ${attribute}`).join('');
+}
+
+/**
+ * Reduce HTML to the allowed tags and attributes. Disallowed tags are removed
+ * but their text is kept, except for scripts, styles and similar elements,
+ * which are removed with their content. Unsafe URLs are dropped, text is
+ * escaped and unclosed tags are closed.
+ */
+export function sanitizeHtml(html: string): string {
+  const open: string[] = [];
+  let output = '';
+  let position = 0;
+
+  const closeUntil = (tag: string) => {
+    while (open.length > 0) {
+      const closed = open.pop()!;
+      output += `</${closed}>`;
+      if (closed === tag) break;
+    }
+  };
+
+  TOKEN_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = TOKEN_PATTERN.exec(html)) !== null) {
+    output += escapeHtmlText(html.slice(position, match.index));
+    position = TOKEN_PATTERN.lastIndex;
+
+    const [, closing, name, attributes] = match;
+    if (!name) continue; // comments, doctypes and processing instructions
+
+    const tag = name.toLowerCase();
+    if (DROPPED_TAGS.includes(tag)) {
+      if (!closing) {
+        const end = html.slice(position).search(new RegExp(`</${tag}\\s*>`, 'i'));
+        position = end === -1 ? html.length : position + end;
+        TOKEN_PATTERN.lastIndex = position;
+      }
+      continue;
+    }
+
+    if (!Object.prototype.hasOwnProperty.call(ALLOWED_TAGS, tag)) continue;
+
+    if (closing) {
+      if (open.includes(tag)) closeUntil(tag);
+      continue;
+    }
+
+    output += `<${tag}${sanitizeAttributes(tag, attributes || '')}>`;
+    if (!VOID_TAGS.includes(tag)) open.push(tag);
+  }
+
+  output += escapeHtmlText(html.slice(position));
+  closeUntil('');
+  return output;
+}
+
+// Inline markdown: code spans, links, bold and italics. Raw HTML is left for sanitizeHtml.
+function renderInlineMarkdown(text: string): string {
+  const codeSpans: string[] = [];
+  const withoutCode = text.replace(/(`+)([\s\S]*?[^`])\1(?!`)/g, (match, ticks, code: string) => {
+    codeSpans.push(`<code>${escapeHtml(code.trim())}</code>`);
+    return `\u0000${codeSpans.length - 1}\u0000`;
+  });
+
+  return withoutCode
+    .replace(/\[([^\]]+)\]\(\s*<?((?:[^\s()<>]|\([^\s()]*\))+)>?(?:\s+"([^"]*)")?\s*\)/g, (match, label: string, url: string, title?: string) => {
+      if (!isSafeUrl(url)) return label;
+      return `<a href="${escapeHtml(url)}"${title ? ` title="${escapeHtml(title)}"` : ''}>${label}</a>`;
+    })
+    .replace(/(\*\*|__)(?=\S)([\s\S]*?\S)\1/g, '<strong>$2</strong>')
+    .replace(/(^|[^*\w])\*(?=[^\s*])([^*]*?[^\s*])\*(?![*\w])/g, '$1<em>$2</em>')
+    .replace(/(^|[^_\w])_(?=[^\s_])([^_]*?[^\s_])_(?![_\w])/g, '$1<em>$2</em>')
+    .replace(/\u0000(\d+)\u0000/g, (match, index: string) => codeSpans[Number(index)]);
+}
+
+const LIST_ITEM = /^\s*(?:([-*+])|(\d+)[.)])\s+(.*)$/;
+
+function renderMarkdownBlock(block: string): string {
+  const lines = block.split('\n');
+
+  const heading = block.match(/^(#{1,6})\s+(.+?)\s*#*$/);
+  if (heading && lines.length === 1) {
+    const level = heading[1].length;
+    return `<h${level}>${renderInlineMarkdown(heading[2])}</h${level}>`;
+  }
+
+  if (lines.every(line => /^\s*>/.test(line))) {
+    const quoted = lines.map(line => line.replace(/^\s*>\s?/, '')).join('\n');
+    return `<blockquote>${markdownToHtml(quoted)}</blockquote>`;
+  }
+
+  const firstItem = lines[0].match(LIST_ITEM);
+  if (firstItem) {
+    const ordered = !firstItem[1];
+    const items: string[] = [];
+    for (const line of lines) {
+      const item = line.match(LIST_ITEM);
+      if (item && Boolean(item[1]) === !ordered) {
+        items.push(item[3]);
+      } else if (items.length > 0) {
+        // Continuation of the previous item
+        items[items.length - 1] += `\n${line.trim()}`;
+      }
+    }
+    const tag = ordered ? 'ol' : 'ul';
+    const start = ordered && firstItem[2] !== '1' ? ` start="${Number(firstItem[2])}"` : '';
+    return `<${tag}${start}>${items.map(item => `<li>${renderInlineMarkdown(item)}</li>`).join('')}</${tag}>`;
+  }
+
+  return `<p>${lines.map(renderInlineMarkdown).join('<br>\n')}</p>`;
+}
+
+/**
+ * Convert the markdown used in article text (paragraphs, headings, lists,
+ * block quotes, code, bold, italics and links) to HTML. The result still has
+ * to go through sanitizeHtml, since raw HTML in the text is passed through.
+ */
+export function markdownToHtml(markdown: string): string {
+  const blocks: string[] = [];
+  let paragraph: string[] = [];
+
+  const flush = () => {
+    if (paragraph.length > 0) blocks.push(renderMarkdownBlock(paragraph.join('\n')));
+    paragraph = [];
+  };
+
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  for (let i = 0; i < lines.length; i++) {
+    const fence = lines[i].match(/^\s*(```|~~~)/);
+    if (fence) {
+      flush();
+      const code: string[] = [];
+      while (++i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        code.push(lines[i]);
+      }
+      blocks.push(`<pre><code>${escapeHtml(code.join('\n'))}</code></pre>`);
+    } else if (!lines[i].trim()) {
+      flush();
+    } else if (/^#{1,6}\s/.test(lines[i].trim())) {
+      flush();
+      blocks.push(renderMarkdownBlock(lines[i].trim()));
+    } else {
+      paragraph.push(lines[i]);
+    }
+  }
+  flush();
+
+  return blocks.join('\n');
+}
+
+/**
+ * Safe HTML for article text that may contain markdown or HTML
+ */
+export function renderSafeHtml(text: string): string {
+  return sanitizeHtml(markdownToHtml(text));
+}
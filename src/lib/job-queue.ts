@@ -0,0 +1,286 @@
+import { randomUUID } from 'crypto';
+import { GenerationOptions, ProcessingStatus, Transcript } from '@/types';
+import { ProcessingPipeline, PipelineResult } from './processing-pipeline';
+import { FileJobStore, JobStore, ProcessingJob } from './job-store';
+import { getDefaultStageCache } from './stage-cache';
+import { DirectStageExecutor } from './stage-executor';
+
+export interface CreateJobInput {
+  url: string;
+  baseUrl: string;
+  generationOptions?: GenerationOptions;
+  transcript?: Transcript;
+  force?: boolean;
+}
+
+export interface JobQueueOptions {
+  concurrency?: number;
+  // Defaults to running stages in-process; receives the job's baseUrl for HTTP pipelines
+  createPipeline?: (baseUrl: string) => ProcessingPipeline;
+}
+
+export class JobQueueError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode: number = 400) {
+    super(message);
+    this.name = 'JobQueueError';
+    this.statusCode = statusCode;
+  }
+}
+
+/**
+ * Runs processing jobs in the background and persists their progress,
+ * so work survives closed tabs and server restarts
+ */
+export class JobQueue {
+  static readonly DEFAULT_CONCURRENCY = 1;
+
+  private store: JobStore;
+  private concurrency: number;
+  private createPipeline: (baseUrl: string) => ProcessingPipeline;
+  private pending: string[] = [];
+  private running = new Set<string>();
+  private abortControllers = new Map<string, AbortController>();
+  // Jobs that are queued or running; the in-memory copy is the source of truth while active
+  private active = new Map<string, ProcessingJob>();
+  private writes = new Map<string, Promise<void>>();
+  private idleWaiters: Array<() => void> = [];
+
+  constructor(store: JobStore, options: JobQueueOptions = {}) {
+    this.store = store;
+    this.concurrency = Math.max(1, options.concurrency ?? JobQueue.DEFAULT_CONCURRENCY);
+    this.createPipeline = options.createPipeline || (() => new ProcessingPipeline(new DirectStageExecutor(), getDefaultStageCache()));
+  }
+
+  /**
+   * Create a job and queue it for processing
+   */
+  async createJob(input: CreateJobInput): Promise<ProcessingJob> {
+    const now = new Date().toISOString();
+    const job: ProcessingJob = {
+      id: randomUUID(),
+      url: input.url,
+      state: 'queued',
+      status: { stage: 'validation', progress: 0, message: 'Waiting to start...' },
+      baseUrl: input.baseUrl,
+      generationOptions: input.generationOptions,
+      transcript: input.transcript,
+      force: input.force,
+      checkpoint: {},
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await this.persist(job);
+    const created = { ...job };
+    this.enqueue(job);
+    return created;
+  }
+
+  async getJob(id: string): Promise<ProcessingJob | null> {
+    const job = this.active.get(id);
+    return job ? { ...job } : this.store.get(id);
+  }
+
+  async listJobs(): Promise<ProcessingJob[]> {
+    const stored = await this.store.list();
+    return stored.map(job => ({ ...(this.active.get(job.id) || job) }));
+  }
+
+  /**
+   * Cancel a queued or running job. A running job's in-flight requests are aborted.
+   */
+  async cancelJob(id: string): Promise<ProcessingJob> {
+    const job = this.active.get(id) || await this.store.get(id);
+    if (!job) {
+      throw new JobQueueError('Job not found', 404);
+    }
+    if (job.state !== 'queued' && job.state !== 'running') {
+      throw new JobQueueError(`Cannot cancel a job that is ${job.state}`, 409);
+    }
+
+    this.pending = this.pending.filter(pendingId => pendingId !== id);
+    job.state = 'cancelled';
+    job.status = { stage: 'cancelled', progress: job.status.progress, message: 'Job cancelled' };
+    this.abortControllers.get(id)?.abort();
+    await this.persist(job);
+
+    if (!this.running.has(id)) {
+      this.active.delete(id);
+    }
+    return { ...job };
+  }
+
+  /**
+   * Re-queue a failed or cancelled job. Stages completed by earlier attempts are not repeated.
+   */
+  async retryJob(id: string): Promise<ProcessingJob> {
+    if (this.running.has(id)) {
+      throw new JobQueueError('Job is still stopping, try again shortly', 409);
+    }
+
+    const job = this.active.get(id) || await this.store.get(id);
+    if (!job) {
+      throw new JobQueueError('Job not found', 404);
+    }
+    if (job.state !== 'failed' && job.state !== 'cancelled') {
+      throw new JobQueueError(`Cannot retry a job that is ${job.state}`, 409);
+    }
+
+    job.state = 'queued';
+    job.error = undefined;
+    job.result = undefined;
+    job.status = { stage: 'validation', progress: 0, message: 'Waiting to retry...' };
+    await this.persist(job);
+    const retried = { ...job };
+    this.enqueue(job);
+    return retried;
+  }
+
+  /**
+   * Re-queue jobs that were queued or running when the server stopped
+   */
+  async resume(): Promise<number> {
+    const jobs = (await this.store.list())
+      .filter(job => (job.state === 'queued' || job.state === 'running') && !this.active.has(job.id))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+    for (const job of jobs) {
+      job.state = 'queued';
+      job.status = { ...job.status, message: 'Waiting to resume...' };
+      await this.persist(job);
+      this.enqueue(job);
+    }
+
+    return jobs.length;
+  }
+
+  /**
+   * Resolves once no jobs are queued or running
+   */
+  onIdle(): Promise<void> {
+    if (this.pending.length === 0 && this.running.size === 0) {
+      return Promise.resolve();
+    }
+    return new Promise(resolve => this.idleWaiters.push(resolve));
+  }
+
+  private enqueue(job: ProcessingJob): void {
+    this.active.set(job.id, job);
+    this.pending.push(job.id);
+    this.schedule();
+  }
+
+  private schedule(): void {
+    while (this.running.size < this.concurrency && this.pending.length > 0) {
+      const id = this.pending.shift()!;
+      const job = this.active.get(id);
+      if (!job) continue;
+
+      this.running.add(id);
+      this.runJob(job).catch(error => {
+        console.error(`Job ${id} failed to run:`, error);
+      }).finally(() => {
+        this.running.delete(id);
+        if (job.state !== 'queued') {
+          this.active.delete(id);
+        }
+        this.schedule();
+
+        if (this.pending.length === 0 && this.running.size === 0) {
+          this.idleWaiters.splice(0).forEach(resolve => resolve());
+        }
+      });
+    }
+  }
+
+  private async runJob(job: ProcessingJob): Promise<void> {
+    job.state = 'running';
+    job.attempts++;
+    await this.persist(job);
+
+    const isCancelled = () => job.state === 'cancelled';
+    const abortController = new AbortController();
+    this.abortControllers.set(job.id, abortController);
+    let result: PipelineResult;
+
+    try {
+      result = await this.createPipeline(job.baseUrl).processVideo(job.url, {
+        generationOptions: job.generationOptions,
+        transcript: job.transcript,
+        force: job.force,
+        checkpoint: job.checkpoint,
+        signal: abortController.signal,
+        onProgress: (status: ProcessingStatus) => {
+          if (isCancelled()) return;
+          job.status = status;
+          this.persist(job).catch(() => undefined);
+        },
+        onCheckpoint: (checkpoint) => {
+          if (isCancelled()) return;
+          job.checkpoint = checkpoint;
+          this.persist(job).catch(() => undefined);
+        }
+      });
+    } catch (error) {
+      result = {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown pipeline error',
+        processingTime: 0
+      };
+    } finally {
+      this.abortControllers.delete(job.id);
+    }
+
+    if (isCancelled()) {
+      await this.writes.get(job.id);
+      return;
+    }
+
+    job.result = result;
+    if (result.success) {
+      job.state = 'completed';
+      job.status = { stage: 'complete', progress: 100, message: 'Article generated successfully!' };
+    } else {
+      job.state = 'failed';
+      job.error = result.error || 'Processing failed';
+      job.status = { stage: 'error', progress: job.status.progress, message: job.error };
+    }
+    await this.persist(job);
+  }
+
+  /**
+   * Save a snapshot of the job, keeping writes for the same job in order
+   */
+  private persist(job: ProcessingJob): Promise<void> {
+    const snapshot: ProcessingJob = { ...job, updatedAt: new Date().toISOString() };
+    job.updatedAt = snapshot.updatedAt;
+
+    const previous = this.writes.get(job.id) || Promise.resolve();
+    const write = previous.then(() => this.store.save(snapshot));
+
+    // Later writes still go ahead if this one fails
+    this.writes.set(job.id, write.catch(error => {
+      console.error(`Failed to save job ${job.id}:`, error);
+    }));
+    return write;
+  }
+}
+
+let sharedQueue: Promise<JobQueue> | null = null;
+
+/**
+ * Queue shared by the API routes, backed by the file store.
+ * Interrupted jobs are resumed the first time it is used.
+ */
+export function getJobQueue(): Promise<JobQueue> {
+  if (!sharedQueue) {
+    const queue = new JobQueue(new FileJobStore(), {
+      concurrency: parseInt(process.env.JOB_CONCURRENCY || '', 10) || JobQueue.DEFAULT_CONCURRENCY
+    });
+    sharedQueue = queue.resume().then(() => queue);
+  }
+  return sharedQueue;
+}
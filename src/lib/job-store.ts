@@ -0,0 +1,107 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { GenerationOptions, ProcessingStatus, Transcript } from '@/types';
+import { PipelineCheckpoint, PipelineResult } from './processing-pipeline';
+
+export type JobState = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface ProcessingJob {
+  id: string;
+  url: string;
+  state: JobState;
+  status: ProcessingStatus;
+  // Origin the job was submitted from, for pipelines that call the API routes over HTTP
+  baseUrl: string;
+  generationOptions?: GenerationOptions;
+  transcript?: Transcript;
+  // Bypass the stage cache (see src/lib/stage-cache.ts)
+  force?: boolean;
+  checkpoint: PipelineCheckpoint;
+  result?: PipelineResult;
+  error?: string;
+  attempts: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Persistence for processing jobs
+ */
+export interface JobStore {
+  get(id: string): Promise<ProcessingJob | null>;
+  save(job: ProcessingJob): Promise<void>;
+  list(): Promise<ProcessingJob[]>;
+  delete(id: string): Promise<void>;
+}
+
+const JOB_ID_PATTERN = /^[a-zA-Z0-9-]+$/;
+
+/**
+ * Stores each job as a JSON file in a directory on local disk
+ */
+export class FileJobStore implements JobStore {
+  private directory: string;
+
+  constructor(directory: string = process.env.JOB_STORE_DIR || path.join(process.cwd(), '.data', 'jobs')) {
+    this.directory = directory;
+  }
+
+  async get(id: string): Promise<ProcessingJob | null> {
+    // Ids come from URLs, so never let one escape the store directory
+    if (!JOB_ID_PATTERN.test(id)) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(await fs.readFile(this.filePath(id), 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async save(job: ProcessingJob): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    // Write then rename so a crash mid-write never leaves a truncated job file
+    const target = this.filePath(job.id);
+    const temporary = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(temporary, JSON.stringify(job), 'utf8');
+    await fs.rename(temporary, target);
+  }
+
+  async list(): Promise<ProcessingJob[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const jobs = await Promise.all(
+      files
+        .filter(file => file.endsWith('.json'))
+        .map(file => this.get(file.slice(0, -'.json'.length)))
+    );
+
+    return jobs
+      .filter((job): job is ProcessingJob => job !== null)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async delete(id: string): Promise<void> {
+    if (!JOB_ID_PATTERN.test(id)) {
+      return;
+    }
+    await fs.rm(this.filePath(id), { force: true });
+  }
+
+  private filePath(id: string): string {
+    return path.join(this.directory, `${id}.json`);
+  }
+}
@@ -0,0 +1,478 @@
+/**
+ * Pluggable LLM provider layer used by the AI article generator.
+ * Each provider turns a prompt into a completion; the registry maps
+ * provider names (as sent in GenerationOptions) to provider instances.
+ */
+
+export type TokenCallback = (token: string) => void;
+
+export interface LLMCompletionRequest {
+  prompt: string;
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  // Aborts the provider's HTTP request
+  signal?: AbortSignal;
+  // Receives the completion piece by piece as it is generated. Providers that
+  // cannot stream ignore it; complete() still resolves with the full text.
+  onToken?: TokenCallback;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly defaultModel: string;
+  complete(request: LLMCompletionRequest): Promise<string>;
+  isConfigured(): boolean;
+}
+
+export class LLMProviderError extends Error {
+  provider: string;
+  status?: number;
+
+  constructor(message: string, provider: string, status?: number) {
+    super(message);
+    this.name = 'LLMProviderError';
+    this.provider = provider;
+    this.status = status;
+  }
+}
+
+const DEFAULT_TEMPERATURE = 0.7;
+const DEFAULT_MAX_TOKENS = 1000;
+const DEFAULT_TOP_P = 0.9;
+
+/**
+ * Read an error body from a failed provider response
+ */
+async function readErrorMessage(response: Response): Promise<string> {
+  const errorText = await response.text();
+
+  try {
+    const errorData = JSON.parse(errorText);
+    return errorData.error?.message || errorData.error || errorData.message || 'Unknown error';
+  } catch {
+    return errorText || 'Unknown error';
+  }
+}
+
+/**
+ * Read a streamed response body line by line
+ */
+async function readLines(response: Response, onLine: (line: string) => void): Promise<void> {
+  if (!response.body) {
+    throw new Error('Response has no body to stream');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      // The last piece may be an incomplete line
+      buffer = lines.pop() ?? '';
+      lines.forEach(line => {
+        if (line.trim()) onLine(line.trim());
+      });
+    }
+
+    buffer += decoder.decode();
+    if (buffer.trim()) onLine(buffer.trim());
+  } catch (error) {
+    await reader.cancel().catch(() => undefined);
+    throw error;
+  }
+}
+
+export interface OpenAICompatibleConfig {
+  name?: string;
+  baseUrl: string;
+  apiKey?: string;
+  defaultModel: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Provider for any server exposing the OpenAI `/chat/completions` API
+ * (vLLM, LM Studio, llama.cpp server, OpenAI itself, ...)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: string;
+  readonly defaultModel: string;
+  protected baseUrl: string;
+  protected apiKey?: string;
+  protected headers: Record<string, string>;
+
+  constructor(config: OpenAICompatibleConfig) {
+    this.name = config.name || 'openai-compatible';
+    this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+    this.apiKey = config.apiKey;
+    this.defaultModel = config.defaultModel;
+    this.headers = config.headers || {};
+  }
+
+  isConfigured(): boolean {
+    return Boolean(this.baseUrl);
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<string> {
+    if (!this.isConfigured()) {
+      throw new LLMProviderError(`${this.name} provider is not configured`, this.name);
+    }
+
+    const requestBody = {
+      model: request.model || this.defaultModel,
+      messages: [
+        {
+          role: 'user',
+          content: request.prompt
+        }
+      ],
+      max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+      temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+      top_p: request.topP ?? DEFAULT_TOP_P,
+      ...(request.onToken ? { stream: true } : {})
+    };
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {}),
+        ...this.headers
+      },
+      body: JSON.stringify(requestBody),
+      signal: request.signal
+    });
+
+    if (!response.ok) {
+      const message = await readErrorMessage(response);
+      throw new LLMProviderError(
+        `${this.name} API error: ${response.status} - ${message}`,
+        this.name,
+        response.status
+      );
+    }
+
+    if (request.onToken) {
+      return this.readStream(response, request.onToken);
+    }
+
+    const data = await response.json();
+
+    if (!data.choices || !data.choices[0] || !data.choices[0].message) {
+      throw new LLMProviderError(`Invalid response from ${this.name} API`, this.name);
+    }
+
+    return data.choices[0].message.content;
+  }
+
+  /**
+   * Collect a streamed completion, sent as SSE `data:` lines ending with `[DONE]`
+   */
+  private async readStream(response: Response, onToken: TokenCallback): Promise<string> {
+    let content = '';
+    let finished = false;
+
+    await readLines(response, line => {
+      if (finished || !line.startsWith('data:')) return;
+      const payload = line.slice(5).trim();
+      if (payload === '[DONE]') {
+        finished = true;
+        return;
+      }
+
+      let data;
+      try {
+        data = JSON.parse(payload);
+      } catch {
+        throw new LLMProviderError(`Invalid stream chunk from ${this.name} API`, this.name);
+      }
+      if (data.error) {
+        throw new LLMProviderError(`${this.name} API error: ${data.error.message || data.error}`, this.name);
+      }
+
+      const token = data.choices?.[0]?.delta?.content;
+      if (typeof token === 'string' && token.length > 0) {
+        content += token;
+        onToken(token);
+      }
+    });
+
+    return content;
+  }
+}
+
+/**
+ * OpenRouter provider (OpenAI-compatible API with free hosted models)
+ */
+export class OpenRouterProvider extends OpenAICompatibleProvider {
+  static readonly DEFAULT_MODEL = 'meta-llama/llama-3.2-3b-instruct:free';
+
+  constructor(apiKey: string | undefined = process.env.OPENROUTER_API_KEY) {
+    super({
+      name: 'openrouter',
+      baseUrl: 'https://openrouter.ai/api/v1',
+      apiKey,
+      defaultModel: process.env.OPENROUTER_MODEL || OpenRouterProvider.DEFAULT_MODEL,
+      headers: {
+        'HTTP-Referer': process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000',
+        'X-Title': 'Vid2Blog Article Generator'
+      }
+    });
+  }
+
+  isConfigured(): boolean {
+    return Boolean(this.apiKey);
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<string> {
+    if (!this.isConfigured()) {
+      throw new LLMProviderError('OpenRouter API key not configured', this.name);
+    }
+    return super.complete(request);
+  }
+}
+
+/**
+ * Provider for a local Ollama server using its native chat API
+ */
+export class OllamaProvider implements LLMProvider {
+  readonly name = 'ollama';
+  readonly defaultModel: string;
+  private baseUrl: string;
+
+  constructor(
+    baseUrl: string = process.env.OLLAMA_BASE_URL || 'http://localhost:11434',
+    defaultModel: string = process.env.OLLAMA_MODEL || 'llama3.2'
+  ) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.defaultModel = defaultModel;
+  }
+
+  isConfigured(): boolean {
+    return Boolean(this.baseUrl);
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<string> {
+    const response = await fetch(`${this.baseUrl}/api/chat`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        model: request.model || this.defaultModel,
+        messages: [
+          {
+            role: 'user',
+            content: request.prompt
+          }
+        ],
+        stream: Boolean(request.onToken),
+        options: {
+          temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+          top_p: request.topP ?? DEFAULT_TOP_P,
+          num_predict: request.maxTokens ?? DEFAULT_MAX_TOKENS
+        }
+      }),
+      signal: request.signal
+    });
+
+    if (!response.ok) {
+      const message = await readErrorMessage(response);
+      throw new LLMProviderError(
+        `Ollama API error: ${response.status} - ${message}`,
+        this.name,
+        response.status
+      );
+    }
+
+    if (request.onToken) {
+      return this.readStream(response, request.onToken);
+    }
+
+    const data = await response.json();
+
+    if (!data.message || typeof data.message.content !== 'string') {
+      throw new LLMProviderError('Invalid response from Ollama API', this.name);
+    }
+
+    return data.message.content;
+  }
+
+  /**
+   * Collect a streamed completion, sent as one JSON object per line
+   */
+  private async readStream(response: Response, onToken: TokenCallback): Promise<string> {
+    let content = '';
+
+    await readLines(response, line => {
+      let data;
+      try {
+        data = JSON.parse(line);
+      } catch {
+        throw new LLMProviderError('Invalid stream chunk from Ollama API', this.name);
+      }
+      if (data.error) {
+        throw new LLMProviderError(`Ollama API error: ${data.error}`, this.name);
+      }
+
+      const token = data.message?.content;
+      if (typeof token === 'string' && token.length > 0) {
+        content += token;
+        onToken(token);
+      }
+    });
+
+    return content;
+  }
+}
+
+export type EchoFixture = string | ((request: LLMCompletionRequest) => string);
+
+/**
+ * Offline provider that never touches the network.
+ * Returns a fixed fixture, or a minimal article JSON derived from the prompt,
+ * which makes generation deterministic in tests and local development.
+ */
+export class EchoProvider implements LLMProvider {
+  readonly name = 'echo';
+  readonly defaultModel = 'echo-fixture';
+  // Size of the pieces passed to onToken, roughly a few tokens each
+  static readonly STREAM_CHUNK_SIZE = 16;
+  private fixture?: EchoFixture;
+
+  constructor(fixture?: EchoFixture) {
+    this.fixture = fixture;
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<string> {
+    const content = this.createResponse(request);
+
+    if (request.onToken) {
+      for (let i = 0; i < content.length; i += EchoProvider.STREAM_CHUNK_SIZE) {
+        request.onToken(content.slice(i, i + EchoProvider.STREAM_CHUNK_SIZE));
+      }
+    }
+
+    return content;
+  }
+
+  private createResponse(request: LLMCompletionRequest): string {
+    if (typeof this.fixture === 'function') {
+      return this.fixture(request);
+    }
+    if (typeof this.fixture === 'string') {
+      return this.fixture;
+    }
+
+    const subjectMatch = request.prompt.match(/^Create a blog article about: (.+)$/m);
+    const subject = subjectMatch ? subjectMatch[1].trim() : 'Echo Article';
+
+    return JSON.stringify({
+      title: subject,
+      introduction: `This article covers ${subject}.`,
+      sections: [
+        { heading: 'Overview', content: request.prompt.substring(0, 500) }
+      ],
+      conclusion: `That wraps up ${subject}.`,
+      tags: ['echo']
+    });
+  }
+}
+
+/**
+ * Registry of available LLM providers, keyed by name
+ */
+export class LLMProviderRegistry {
+  static readonly DEFAULT_PROVIDER = 'openrouter';
+  private static providers = new Map<string, LLMProvider>();
+  private static initialized = false;
+
+  /**
+   * Register (or replace) a provider under its name
+   */
+  static register(provider: LLMProvider): void {
+    this.ensureDefaults();
+    this.providers.set(provider.name.toLowerCase(), provider);
+  }
+
+  /**
+   * Remove a provider from the registry
+   */
+  static unregister(name: string): boolean {
+    this.ensureDefaults();
+    return this.providers.delete(name.toLowerCase());
+  }
+
+  /**
+   * Check whether a provider is registered
+   */
+  static has(name: string): boolean {
+    this.ensureDefaults();
+    return this.providers.has(name.toLowerCase());
+  }
+
+  /**
+   * Resolve a provider by name, falling back to the default provider
+   */
+  static get(name?: string): LLMProvider {
+    this.ensureDefaults();
+    const providerName = (name || process.env.LLM_PROVIDER || this.DEFAULT_PROVIDER).toLowerCase();
+    const provider = this.providers.get(providerName);
+
+    if (!provider) {
+      throw new LLMProviderError(`Unknown LLM provider: ${providerName}`, providerName);
+    }
+
+    return provider;
+  }
+
+  /**
+   * List registered providers with their configuration state
+   */
+  static list(): Array<{ name: string; defaultModel: string; configured: boolean }> {
+    this.ensureDefaults();
+    return Array.from(this.providers.values()).map(provider => ({
+      name: provider.name,
+      defaultModel: provider.defaultModel,
+      configured: provider.isConfigured()
+    }));
+  }
+
+  /**
+   * Restore the built-in provider set
+   */
+  static reset(): void {
+    this.providers.clear();
+    this.initialized = false;
+    this.ensureDefaults();
+  }
+
+  private static ensureDefaults(): void {
+    if (this.initialized) return;
+    this.initialized = true;
+
+    const defaults: LLMProvider[] = [
+      new OpenRouterProvider(),
+      new OpenAICompatibleProvider({
+        baseUrl: process.env.OPENAI_COMPATIBLE_BASE_URL || '',
+        apiKey: process.env.OPENAI_COMPATIBLE_API_KEY,
+        defaultModel: process.env.OPENAI_COMPATIBLE_MODEL || 'gpt-4o-mini'
+      }),
+      new OllamaProvider(),
+      new EchoProvider()
+    ];
+    defaults.forEach(provider => this.providers.set(provider.name, provider));
+  }
+}
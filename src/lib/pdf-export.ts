@@ -0,0 +1,428 @@
+import { PDFDocument, PDFFont, PDFImage, PDFPage, StandardFonts, rgb } from 'pdf-lib';
+import { Article, ArticleSection } from '@/types';
+import { createExportFilename } from './export-utils';
+
+export interface PdfExportOptions {
+  includeMetadata?: boolean;
+  includeThumbnail?: boolean;
+  pageSize?: 'a4' | 'letter';
+  // Pre-fetched thumbnail bytes (JPEG or PNG); fetched from YouTube by video id when omitted
+  thumbnail?: Uint8Array | null;
+}
+
+export interface PdfExportResult {
+  content: Uint8Array;
+  filename: string;
+  mimeType: string;
+}
+
+const PAGE_SIZES = {
+  a4: [595.28, 841.89] as [number, number],
+  letter: [612, 792] as [number, number]
+};
+
+const MARGIN = 56;
+const FOOTER_HEIGHT = 28;
+const THUMBNAIL_MAX_HEIGHT = 240;
+const THUMBNAIL_FETCH_TIMEOUT = 5000;
+const THUMBNAIL_MAX_BYTES = 2 * 1024 * 1024;
+
+// Article metadata comes from the client, so thumbnails are only fetched from YouTube's image hosts
+const THUMBNAIL_HOSTS = ['i.ytimg.com', 'img.youtube.com'];
+
+const COLORS = {
+  text: rgb(0.13, 0.13, 0.13),
+  muted: rgb(0.42, 0.42, 0.42),
+  accent: rgb(0.1, 0.46, 0.82),
+  tagBackground: rgb(0.89, 0.95, 0.99),
+  rule: rgb(0.87, 0.87, 0.87)
+};
+
+interface TextStyle {
+  font: PDFFont;
+  size: number;
+  lineHeight: number;
+  color: ReturnType<typeof rgb>;
+  spaceBefore: number;
+  spaceAfter: number;
+}
+
+/**
+ * Keeps track of the current page and vertical cursor while laying out text
+ */
+class PdfLayout {
+  private page!: PDFPage;
+  private y = 0;
+  readonly contentWidth: number;
+
+  constructor(private doc: PDFDocument, private pageSize: [number, number]) {
+    this.contentWidth = pageSize[0] - MARGIN * 2;
+    this.addPage();
+  }
+
+  addPage(): void {
+    this.page = this.doc.addPage(this.pageSize);
+    this.y = this.pageSize[1] - MARGIN;
+  }
+
+  ensureSpace(height: number): void {
+    if (this.y - height < MARGIN + FOOTER_HEIGHT) {
+      this.addPage();
+    }
+  }
+
+  moveDown(amount: number): void {
+    this.y -= amount;
+  }
+
+  drawText(text: string, style: TextStyle): void {
+    const lines = wrapText(sanitizeText(text, style.font), style.font, style.size, this.contentWidth);
+    if (lines.length === 0) return;
+
+    this.moveDown(style.spaceBefore);
+    // Keep headings together with at least one following line
+    this.ensureSpace(style.lineHeight * Math.min(lines.length, 2));
+
+    for (const line of lines) {
+      this.ensureSpace(style.lineHeight);
+      this.y -= style.lineHeight;
+      this.page.drawText(line, {
+        x: MARGIN,
+        y: this.y + (style.lineHeight - style.size) / 2,
+        size: style.size,
+        font: style.font,
+        color: style.color
+      });
+    }
+
+    this.moveDown(style.spaceAfter);
+  }
+
+  drawRule(): void {
+    this.ensureSpace(12);
+    this.moveDown(6);
+    this.page.drawLine({
+      start: { x: MARGIN, y: this.y },
+      end: { x: MARGIN + this.contentWidth, y: this.y },
+      thickness: 0.75,
+      color: COLORS.rule
+    });
+    this.moveDown(6);
+  }
+
+  drawImage(image: PDFImage): void {
+    const scale = Math.min(this.contentWidth / image.width, THUMBNAIL_MAX_HEIGHT / image.height, 1);
+    const width = image.width * scale;
+    const height = image.height * scale;
+
+    this.ensureSpace(height + 12);
+    this.y -= height;
+    this.page.drawImage(image, {
+      x: MARGIN + (this.contentWidth - width) / 2,
+      y: this.y,
+      width,
+      height
+    });
+    this.moveDown(12);
+  }
+
+  drawTags(tags: string[], font: PDFFont, size: number): void {
+    const paddingX = 6;
+    const height = size + 8;
+    let x = MARGIN;
+
+    this.moveDown(6);
+    this.ensureSpace(height);
+    this.y -= height;
+
+    for (const rawTag of tags) {
+      const tag = sanitizeText(rawTag, font);
+      const width = font.widthOfTextAtSize(tag, size) + paddingX * 2;
+
+      if (x + width > MARGIN + this.contentWidth && x > MARGIN) {
+        x = MARGIN;
+        this.ensureSpace(height + 4);
+        this.y -= height + 4;
+      }
+
+      this.page.drawRectangle({ x, y: this.y, width, height, color: COLORS.tagBackground });
+      this.page.drawText(tag, {
+        x: x + paddingX,
+        y: this.y + (height - size) / 2 + 1,
+        size,
+        font,
+        color: COLORS.accent
+      });
+      x += width + 6;
+    }
+
+    this.moveDown(8);
+  }
+}
+
+/**
+ * Render an article as a PDF document
+ */
+export async function renderArticlePdf(article: Article, options: PdfExportOptions = {}): Promise<Uint8Array> {
+  const { includeMetadata = true, includeThumbnail = true, pageSize = 'a4' } = options;
+
+  const doc = await PDFDocument.create();
+  doc.setTitle(article.title);
+  doc.setAuthor(article.metadata.sourceVideo.channelName);
+  doc.setSubject(article.metadata.metaDescription);
+  doc.setKeywords([...article.tags]);
+  doc.setProducer('Vid2Blog');
+  doc.setCreator('Vid2Blog');
+
+  const regular = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+  const italic = await doc.embedFont(StandardFonts.HelveticaOblique);
+
+  const styles = {
+    title: { font: bold, size: 22, lineHeight: 28, color: COLORS.text, spaceBefore: 0, spaceAfter: 10 },
+    heading: { font: bold, size: 16, lineHeight: 21, color: COLORS.text, spaceBefore: 14, spaceAfter: 4 },
+    subheading: { font: bold, size: 13, lineHeight: 18, color: COLORS.text, spaceBefore: 10, spaceAfter: 2 },
+    body: { font: regular, size: 11, lineHeight: 16, color: COLORS.text, spaceBefore: 0, spaceAfter: 8 },
+    meta: { font: regular, size: 9.5, lineHeight: 13, color: COLORS.muted, spaceBefore: 0, spaceAfter: 0 },
+    intro: { font: italic, size: 11.5, lineHeight: 17, color: COLORS.text, spaceBefore: 0, spaceAfter: 8 }
+  } satisfies Record<string, TextStyle>;
+
+  const layout = new PdfLayout(doc, PAGE_SIZES[pageSize]);
+  const source = article.metadata.sourceVideo;
+
+  layout.drawText(article.title, styles.title);
+
+  if (includeThumbnail) {
+    const thumbnailBytes = options.thumbnail !== undefined
+      ? options.thumbnail
+      : await fetchThumbnail(getThumbnailUrl(source.id));
+    const image = thumbnailBytes ? await embedImage(doc, thumbnailBytes) : null;
+    if (image) {
+      layout.drawImage(image);
+    }
+  }
+
+  if (includeMetadata) {
+    layout.drawText(`Source: ${source.title}`, styles.meta);
+    layout.drawText(`Channel: ${source.channelName}`, styles.meta);
+    layout.drawText(`Video: https://youtube.com/watch?v=${source.id}`, styles.meta);
+    layout.drawText(
+      `Word Count: ${article.metadata.wordCount}  |  Reading Time: ${article.metadata.readingTime} minutes`,
+      styles.meta
+    );
+    if (article.tags.length > 0) {
+      layout.drawTags(article.tags, regular, 9);
+    }
+    layout.drawRule();
+  }
+
+  drawParagraphs(layout, article.introduction, styles.intro);
+  drawSections(layout, article.sections, styles, 0);
+
+  layout.drawText('Conclusion', styles.heading);
+  drawParagraphs(layout, article.conclusion, styles.body);
+
+  drawPageNumbers(doc, regular);
+
+  return doc.save();
+}
+
+/**
+ * Export an article as a downloadable PDF file
+ */
+export async function exportArticleToPdf(article: Article, options: PdfExportOptions = {}): Promise<PdfExportResult> {
+  const content = await renderArticlePdf(article, options);
+
+  return {
+    content,
+    filename: createExportFilename(article.title, 'pdf'),
+    mimeType: 'application/pdf'
+  };
+}
+
+/**
+ * YouTube thumbnail URL of a video, or undefined for an invalid video id
+ */
+export function getThumbnailUrl(videoId: string | undefined): string | undefined {
+  if (!videoId || !/^[A-Za-z0-9_-]{1,64}$/.test(videoId)) return undefined;
+  return `https://i.ytimg.com/vi/${videoId}/hqdefault.jpg`;
+}
+
+/**
+ * Download thumbnail bytes, returning null when the image is unavailable,
+ * too large or hosted anywhere but YouTube's image servers
+ */
+export async function fetchThumbnail(url: string | undefined): Promise<Uint8Array | null> {
+  if (!url || !isAllowedThumbnailUrl(url)) return null;
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), THUMBNAIL_FETCH_TIMEOUT);
+
+  try {
+    const response = await fetch(url, { signal: controller.signal, redirect: 'error' });
+    if (!response.ok) {
+      return null;
+    }
+    if (Number(response.headers?.get('content-length')) > THUMBNAIL_MAX_BYTES) {
+      return null;
+    }
+    return await readLimited(response, THUMBNAIL_MAX_BYTES);
+  } catch (error) {
+    console.warn('Failed to fetch thumbnail for PDF export:', error);
+    return null;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+function isAllowedThumbnailUrl(url: string): boolean {
+  try {
+    const { protocol, hostname } = new URL(url);
+    return protocol === 'https:' && THUMBNAIL_HOSTS.includes(hostname);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Read a response body, giving up once it exceeds maxBytes
+ */
+async function readLimited(response: Response, maxBytes: number): Promise<Uint8Array | null> {
+  if (!response.body) {
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    return bytes.byteLength > maxBytes ? null : bytes;
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes;
+}
+
+/**
+ * Embed JPEG or PNG bytes; other formats are skipped
+ */
+async function embedImage(doc: PDFDocument, bytes: Uint8Array): Promise<PDFImage | null> {
+  try {
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+      return await doc.embedJpg(bytes);
+    }
+    if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) {
+      return await doc.embedPng(bytes);
+    }
+  } catch (error) {
+    console.warn('Failed to embed thumbnail in PDF export:', error);
+  }
+  return null;
+}
+
+function drawSections(
+  layout: PdfLayout,
+  sections: ArticleSection[],
+  styles: Record<'heading' | 'subheading' | 'body', TextStyle>,
+  level: number
+): void {
+  for (const section of sections) {
+    layout.drawText(section.heading, level === 0 ? styles.heading : styles.subheading);
+    drawParagraphs(layout, section.content, styles.body);
+
+    if (section.subsections && section.subsections.length > 0) {
+      drawSections(layout, section.subsections, styles, level + 1);
+    }
+  }
+}
+
+function drawParagraphs(layout: PdfLayout, text: string, style: TextStyle): void {
+  text
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.replace(/\s*\n\s*/g, ' ').trim())
+    .filter(paragraph => paragraph.length > 0)
+    .forEach(paragraph => layout.drawText(paragraph, style));
+}
+
+function drawPageNumbers(doc: PDFDocument, font: PDFFont): void {
+  const pages = doc.getPages();
+  const size = 9;
+
+  pages.forEach((page, index) => {
+    const label = `Page ${index + 1} of ${pages.length}`;
+    const width = font.widthOfTextAtSize(label, size);
+    page.drawText(label, {
+      x: (page.getWidth() - width) / 2,
+      y: MARGIN / 2,
+      size,
+      font,
+      color: COLORS.muted
+    });
+  });
+}
+
+/**
+ * Break text into lines that fit the given width, splitting overlong words
+ */
+function wrapText(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  const words = text.split(/\s+/).filter(word => word.length > 0);
+  const lines: string[] = [];
+  let current = '';
+
+  for (const word of words) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (font.widthOfTextAtSize(candidate, size) <= maxWidth) {
+      current = candidate;
+      continue;
+    }
+
+    if (current) {
+      lines.push(current);
+    }
+
+    current = word;
+    while (font.widthOfTextAtSize(current, size) > maxWidth && current.length > 1) {
+      let cut = current.length - 1;
+      while (cut > 1 && font.widthOfTextAtSize(current.slice(0, cut), size) > maxWidth) {
+        cut--;
+      }
+      lines.push(current.slice(0, cut));
+      current = current.slice(cut);
+    }
+  }
+
+  if (current) {
+    lines.push(current);
+  }
+
+  return lines;
+}
+
+/**
+ * Replace characters the standard (WinAnsi) fonts cannot encode
+ */
+function sanitizeText(text: string, font: PDFFont): string {
+  const supported = new Set(font.getCharacterSet());
+
+  return Array.from(text.normalize('NFC').replace(/[\t\r\n]+/g, ' '))
+    .map(char => {
+      if (supported.has(char.codePointAt(0)!)) return char;
+      const base = char.normalize('NFKD').replace(/[\u0300-\u036f]/g, '');
+      return Array.from(base).every(c => supported.has(c.codePointAt(0)!)) && base ? base : '?';
+    })
+    .join('');
+}
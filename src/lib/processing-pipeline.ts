@@ -7,10 +7,34 @@ import {
   GenerationOptions,
   ValidationResult
 } from '@/types';
+import { ChunkedArticleGenerator, ChunkSummary } from './chunked-article-generator';
+import { TranscriptProcessor } from './transcript-processor';
+import { CacheStage, StageCache, hashKey } from './stage-cache';
+import { extractVideoId } from './youtube-utils';
+import { HttpStageExecutor, PipelineStageResult, StageExecutor } from './stage-executor';
+import { ArticleDelta } from './article-stream';
+import { GenerationTelemetry } from './ai-article-generator';
 
 export interface PipelineOptions {
   generationOptions?: GenerationOptions;
   onProgress?: (status: ProcessingStatus) => void;
+  // Article text as it is generated; only called by executors that stream the LLM response
+  onArticleDelta?: (delta: ArticleDelta) => void;
+  // Pre-supplied transcript (e.g. an uploaded caption file); skips YouTube transcript extraction
+  transcript?: Transcript;
+  // Stage results from an earlier, interrupted run; completed stages are skipped
+  checkpoint?: PipelineCheckpoint;
+  onCheckpoint?: (checkpoint: PipelineCheckpoint) => void;
+  // Ignore cached stage results (fresh results are still written to the cache)
+  force?: boolean;
+  // Aborting stops the current stage's requests and ends the run as cancelled
+  signal?: AbortSignal;
+}
+
+export interface PipelineCheckpoint {
+  videoMetadata?: VideoMetadata;
+  transcript?: Transcript;
+  analysis?: ContentAnalysis;
 }
 
 export interface PipelineResult {
@@ -20,26 +44,33 @@ export interface PipelineResult {
   analysis?: ContentAnalysis;
   article?: Article;
   error?: string;
+  // Set when the run was stopped through PipelineOptions.signal
+  cancelled?: boolean;
   processingTime: number;
+  // Whether each stage looked up in the cache was a hit; skipped stages are absent
+  cacheHits?: Partial<Record<CacheStage, boolean>>;
+  // How the article was generated; absent when it came from the cache
+  telemetry?: GenerationTelemetry;
 }
 
-export interface PipelineStageResult<T = any> {
-  success: boolean;
-  data?: T;
-  error?: string;
-  duration: number;
-}
+export type { PipelineStageResult } from './stage-executor';
 
 /**
  * Main processing pipeline that orchestrates all backend services
  * Coordinates: metadata → transcript → analysis → generation
+ *
+ * Stages run through a StageExecutor. Passing a base URL (the default) calls
+ * the API routes over HTTP; server code passes a DirectStageExecutor instead.
  */
 export class ProcessingPipeline {
-  private baseUrl: string;
+  private executor: StageExecutor;
+  private cache: StageCache | null;
   private onProgress?: (status: ProcessingStatus) => void;
+  private lastProgress = 0;
 
-  constructor(baseUrl: string = '') {
-    this.baseUrl = baseUrl;
+  constructor(executor: StageExecutor | string = '', cache: StageCache | null = null) {
+    this.executor = typeof executor === 'string' ? new HttpStageExecutor(executor) : executor;
+    this.cache = cache;
   }
 
   /**
@@ -48,11 +79,49 @@ export class ProcessingPipeline {
   async processVideo(url: string, options: PipelineOptions = {}): Promise<PipelineResult> {
     const startTime = Date.now();
     this.onProgress = options.onProgress;
+    this.lastProgress = 0;
+    const signal = options.signal;
+    const cancelled = (partial: Partial<PipelineResult> = {}): PipelineResult => {
+      this.updateProgress('cancelled', this.lastProgress, 'Processing cancelled');
+      return {
+        ...partial,
+        success: false,
+        cancelled: true,
+        error: 'Processing cancelled',
+        processingTime: Date.now() - startTime
+      };
+    };
+    const checkpoint: PipelineCheckpoint = { ...options.checkpoint };
+    const saveCheckpoint = (update: PipelineCheckpoint) => {
+      Object.assign(checkpoint, update);
+      options.onCheckpoint?.({ ...checkpoint });
+    };
+    const cacheHits: Partial<Record<CacheStage, boolean>> = {};
+    const videoId = extractVideoId(url);
+    const cached = <T>(stage: CacheStage, key: string, run: () => Promise<PipelineStageResult<T>>) =>
+      this.withCache(stage, videoId && `${videoId}:${key}`, options.force, cacheHits, run);
 
     try {
+      if (signal?.aborted) {
+        return cancelled();
+      }
+
       // Stage 1: Validate URL and extract metadata
-      this.updateProgress('validation', 0, 'Validating YouTube URL...');
-      const metadataResult = await this.extractMetadata(url);
+      let metadataResult: PipelineStageResult<VideoMetadata>;
+      if (checkpoint.videoMetadata) {
+        this.updateProgress('validation', 0, 'Resuming from saved progress...');
+        metadataResult = { success: true, data: checkpoint.videoMetadata, duration: 0 };
+      } else {
+        this.updateProgress('validation', 0, 'Validating YouTube URL...');
+        metadataResult = await cached('metadata', 'video', () => this.executor.extractMetadata(url, signal));
+        if (metadataResult.success) {
+          saveCheckpoint({ videoMetadata: metadataResult.data });
+        }
+      }
+
+      if (signal?.aborted) {
+        return cancelled();
+      }
       
       if (!metadataResult.success) {
         return {
@@ -64,9 +133,25 @@ export class ProcessingPipeline {
 
       this.updateProgress('metadata', 20, 'Video metadata extracted successfully');
 
-      // Stage 2: Extract transcript
-      this.updateProgress('transcription', 25, 'Extracting video transcript...');
-      const transcriptResult = await this.extractTranscript(url);
+      // Stage 2: Extract transcript (or use the supplied one)
+      let transcriptResult: PipelineStageResult<Transcript>;
+      if (options.transcript) {
+        this.updateProgress('transcription', 25, 'Using uploaded transcript...');
+        transcriptResult = { success: true, data: options.transcript, duration: 0 };
+      } else if (checkpoint.transcript) {
+        this.updateProgress('transcription', 25, 'Using saved transcript...');
+        transcriptResult = { success: true, data: checkpoint.transcript, duration: 0 };
+      } else {
+        this.updateProgress('transcription', 25, 'Extracting video transcript...');
+        transcriptResult = await cached('transcription', 'youtube', () => this.executor.extractTranscript(url, signal));
+        if (transcriptResult.success) {
+          saveCheckpoint({ transcript: transcriptResult.data });
+        }
+      }
+
+      if (signal?.aborted) {
+        return cancelled({ videoMetadata: metadataResult.data });
+      }
       
       if (!transcriptResult.success) {
         return {
@@ -91,7 +176,25 @@ export class ProcessingPipeline {
         };
       }
       
-      const analysisResult = await this.analyzeContent(transcriptResult.data);
+      let analysisResult: PipelineStageResult<ContentAnalysis>;
+      if (checkpoint.analysis) {
+        analysisResult = { success: true, data: checkpoint.analysis, duration: 0 };
+      } else {
+        const transcript = transcriptResult.data;
+        const videoDescription = metadataResult.data?.description;
+        analysisResult = await cached(
+          'analysis',
+          hashKey({ transcript, videoDescription }),
+          () => this.executor.analyzeContent(transcript, videoDescription, signal)
+        );
+        if (analysisResult.success) {
+          saveCheckpoint({ analysis: analysisResult.data });
+        }
+      }
+
+      if (signal?.aborted) {
+        return cancelled({ videoMetadata: metadataResult.data, transcript: transcriptResult.data });
+      }
       
       if (!analysisResult.success) {
         return {
@@ -119,12 +222,37 @@ export class ProcessingPipeline {
         };
       }
       
-      const articleResult = await this.generateArticle(
-        analysisResult.data,
-        metadataResult.data,
-        transcriptResult.data,
-        options.generationOptions
+      const generationInputs = {
+        analysis: analysisResult.data,
+        videoMetadata: metadataResult.data,
+        transcript: transcriptResult.data
+      };
+      const articleResult = await cached(
+        'generation',
+        // View counts change between runs, so only the title is part of the key
+        hashKey({
+          analysis: generationInputs.analysis,
+          transcript: generationInputs.transcript,
+          title: generationInputs.videoMetadata.title,
+          options: options.generationOptions || {}
+        }),
+        () => this.generateArticle(
+          generationInputs.analysis,
+          generationInputs.videoMetadata,
+          generationInputs.transcript,
+          options.generationOptions,
+          signal,
+          options.onArticleDelta
+        )
       );
+
+      if (signal?.aborted) {
+        return cancelled({
+          videoMetadata: metadataResult.data,
+          transcript: transcriptResult.data,
+          analysis: analysisResult.data
+        });
+      }
       
       if (!articleResult.success) {
         return {
@@ -145,10 +273,16 @@ export class ProcessingPipeline {
         transcript: transcriptResult.data,
         analysis: analysisResult.data,
         article: articleResult.data,
-        processingTime: Date.now() - startTime
+        processingTime: Date.now() - startTime,
+        cacheHits,
+        ...(articleResult.telemetry ? { telemetry: articleResult.telemetry } : {})
       };
 
     } catch (error) {
+      if (signal?.aborted) {
+        return cancelled();
+      }
+
       const errorMessage = error instanceof Error ? error.message : 'Unknown pipeline error';
       
       this.updateProgress('error', 0, `Pipeline failed: ${errorMessage}`);
@@ -162,166 +296,131 @@ export class ProcessingPipeline {
   }
 
   /**
-   * Extract video metadata from YouTube URL
+   * Process a video using a transcript from an uploaded caption file.
+   * The YouTube URL is still used for metadata; the transcript stage is skipped.
    */
-  private async extractMetadata(url: string): Promise<PipelineStageResult<VideoMetadata>> {
-    const startTime = Date.now();
-    
-    try {
-      const response = await fetch(`${this.baseUrl}/api/youtube/metadata`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ url }),
-      });
-
-      const result = await response.json();
-      
-      if (!response.ok) {
-        return {
-          success: false,
-          error: result.error || 'Failed to extract metadata',
-          duration: Date.now() - startTime
-        };
-      }
-
-      return {
-        success: true,
-        data: result.metadata,
-        duration: Date.now() - startTime
-      };
-
-    } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Network error during metadata extraction',
-        duration: Date.now() - startTime
-      };
-    }
+  async processWithTranscript(
+    url: string,
+    transcript: Transcript,
+    options: Omit<PipelineOptions, 'transcript'> = {}
+  ): Promise<PipelineResult> {
+    return this.processVideo(url, { ...options, transcript });
   }
 
   /**
-   * Extract transcript from YouTube video
+   * Run a stage through the cache: return a cached result unless forced,
+   * otherwise run it and cache a successful result. Template fallback
+   * articles are not cached, so the next run retries the LLM.
    */
-  private async extractTranscript(url: string): Promise<PipelineStageResult<Transcript>> {
-    const startTime = Date.now();
-    
-    try {
-      const response = await fetch(`${this.baseUrl}/api/youtube/transcript?url=${encodeURIComponent(url)}`);
-      const result = await response.json();
-      
-      if (!response.ok) {
-        return {
-          success: false,
-          error: result.error || 'Failed to extract transcript',
-          duration: Date.now() - startTime
-        };
-      }
+  private async withCache<T>(
+    stage: CacheStage,
+    key: string | null,
+    force: boolean | undefined,
+    cacheHits: Partial<Record<CacheStage, boolean>>,
+    run: () => Promise<PipelineStageResult<T>>
+  ): Promise<PipelineStageResult<T>> {
+    if (!this.cache || !key) {
+      return run();
+    }
 
-      return {
-        success: true,
-        data: result.data,
-        duration: Date.now() - startTime
-      };
+    if (!force) {
+      const value = await this.cache.get<T>(stage, key);
+      if (value !== undefined) {
+        cacheHits[stage] = true;
+        return { success: true, data: value, duration: 0 };
+      }
+    }
 
-    } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Network error during transcript extraction',
-        duration: Date.now() - startTime
-      };
+    cacheHits[stage] = false;
+    const result = await run();
+    if (result.success && result.data !== undefined && !result.telemetry?.fallback) {
+      await this.cache.set(stage, key, result.data);
     }
+    return result;
   }
 
   /**
-   * Analyze transcript content
+   * Generate article from analysis, summarizing chunks first in chunked mode
    */
-  private async analyzeContent(transcript: Transcript): Promise<PipelineStageResult<ContentAnalysis>> {
+  private async generateArticle(
+    analysis: ContentAnalysis,
+    videoMetadata: VideoMetadata,
+    transcript: Transcript,
+    options?: GenerationOptions,
+    signal?: AbortSignal,
+    onArticleDelta?: (delta: ArticleDelta) => void
+  ): Promise<PipelineStageResult<Article>> {
     const startTime = Date.now();
     
     try {
-      const response = await fetch(`${this.baseUrl}/api/content/analyze`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ transcript }),
-      });
-
-      const result = await response.json();
-      
-      if (!response.ok) {
-        return {
-          success: false,
-          error: result.error || 'Failed to analyze content',
-          duration: Date.now() - startTime
-        };
+      let chunkSummaries: ChunkSummary[] | undefined;
+
+      if (options?.generationMode === 'chunked') {
+        const summariesResult = await this.summarizeChunks(transcript, videoMetadata, options, signal);
+        if (!summariesResult.success) {
+          return {
+            success: false,
+            error: summariesResult.error,
+            duration: Date.now() - startTime
+          };
+        }
+        chunkSummaries = summariesResult.data;
+        this.updateProgress('generation', 95, 'Composing article from chunk summaries...');
       }
 
-      return {
-        success: true,
-        data: result.analysis,
-        duration: Date.now() - startTime
-      };
+      const result = await this.executor.generateArticle(
+        analysis, videoMetadata, transcript, options, chunkSummaries, signal, onArticleDelta
+      );
+      return { ...result, duration: Date.now() - startTime };
 
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Network error during content analysis',
+        error: error instanceof Error ? error.message : 'Network error during article generation',
         duration: Date.now() - startTime
       };
     }
   }
 
   /**
-   * Generate article from analysis
+   * Map step of chunked generation: summarize each transcript chunk in order,
+   * reporting per-chunk progress between 80% and 95%
    */
-  private async generateArticle(
-    analysis: ContentAnalysis,
-    videoMetadata: VideoMetadata,
+  private async summarizeChunks(
     transcript: Transcript,
-    options?: GenerationOptions
-  ): Promise<PipelineStageResult<Article>> {
+    videoMetadata: VideoMetadata,
+    options: GenerationOptions,
+    signal?: AbortSignal
+  ): Promise<PipelineStageResult<ChunkSummary[]>> {
     const startTime = Date.now();
-    
-    try {
-      const response = await fetch(`${this.baseUrl}/api/content/generate`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          analysis,
-          videoMetadata,
-          transcript,
-          options
-        }),
-      });
+    const chunks = ChunkedArticleGenerator.planChunks(transcript, options, videoMetadata.description);
+    const summaries: ChunkSummary[] = [];
+
+    for (const chunk of chunks) {
+      const range = `${TranscriptProcessor.formatTimestamp(chunk.startTime)}–${TranscriptProcessor.formatTimestamp(chunk.endTime)}`;
+      this.updateProgress(
+        'generation',
+        Math.round(80 + (chunk.index / chunks.length) * 15),
+        `Summarizing chunk ${chunk.index + 1} of ${chunks.length} (${range})...`
+      );
 
-      const result = await response.json();
-      
-      if (!response.ok) {
+      const result = await this.executor.summarizeChunk(chunk, chunks.length, videoMetadata, options, signal);
+      if (!result.success || !result.data) {
         return {
           success: false,
-          error: result.error || 'Failed to generate article',
+          error: result.error || `Failed to summarize chunk ${chunk.index + 1}`,
           duration: Date.now() - startTime
         };
       }
 
-      return {
-        success: true,
-        data: result.article,
-        duration: Date.now() - startTime
-      };
-
-    } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Network error during article generation',
-        duration: Date.now() - startTime
-      };
+      summaries.push(result.data);
     }
+
+    return {
+      success: true,
+      data: summaries,
+      duration: Date.now() - startTime
+    };
   }
 
   /**
@@ -333,6 +432,7 @@ export class ProcessingPipeline {
     message: string,
     estimatedTimeRemaining?: number
   ): void {
+    this.lastProgress = progress;
     if (this.onProgress) {
       this.onProgress({
         stage,
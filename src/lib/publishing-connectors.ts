@@ -0,0 +1,547 @@
+import { createHash, createHmac } from 'crypto';
+import { Article, PublicationRecord, PublishingDestination } from '@/types';
+import { PublishStatus, renderArticleBody } from './export-utils';
+import { slugify } from './template-engine';
+
+/**
+ * Connectors that publish an article directly to a blog platform (WordPress
+ * REST API, Ghost Admin API, Dev.to) or to a webhook. Each publication is
+ * recorded on the article, so publishing it again updates the same post.
+ * Credentials are read from the environment; see the README for the variables.
+ */
+
+export const PUBLISHING_DESTINATIONS: PublishingDestination[] = ['wordpress', 'ghost', 'devto', 'webhook'];
+
+export interface PublishRequest {
+  status: PublishStatus;
+  // Earlier publication to the same destination; its post is updated instead of creating a new one
+  existing?: PublicationRecord;
+}
+
+export interface PublishResult {
+  remoteId: string;
+  url?: string;
+  status: PublishStatus;
+}
+
+export interface PublishingConnector {
+  readonly destination: PublishingDestination;
+  readonly label: string;
+  publish(article: Article, request: PublishRequest): Promise<PublishResult>;
+  isConfigured(): boolean;
+}
+
+export class PublishingError extends Error {
+  destination: string;
+  status?: number;
+
+  constructor(message: string, destination: string, status?: number) {
+    super(message);
+    this.name = 'PublishingError';
+    this.destination = destination;
+    this.status = status;
+  }
+}
+
+// Ghost custom excerpts are limited to 300 characters
+const GHOST_EXCERPT_LENGTH = 300;
+// Dev.to accepts up to four alphanumeric tags
+const DEVTO_MAX_TAGS = 4;
+// Lifetime of Ghost Admin API tokens, in seconds (Ghost allows at most 5 minutes)
+const GHOST_TOKEN_LIFETIME = 300;
+
+export function isPublishingDestination(destination: string): destination is PublishingDestination {
+  return (PUBLISHING_DESTINATIONS as string[]).includes(destination);
+}
+
+/**
+ * Read an error body from a failed platform response. WordPress sends
+ * { message }, Ghost { errors: [{ message }] } and Dev.to { error }.
+ */
+async function readErrorMessage(response: Response): Promise<string> {
+  const errorText = await response.text();
+
+  try {
+    const errorData = JSON.parse(errorText);
+    return errorData.errors?.[0]?.message || errorData.message || errorData.error || 'Unknown error';
+  } catch {
+    return errorText || 'Unknown error';
+  }
+}
+
+async function requestJson<T>(connector: PublishingConnector, url: string, init: RequestInit): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch (error) {
+    throw new PublishingError(
+      `${connector.label} is not reachable: ${error instanceof Error ? error.message : 'network error'}`,
+      connector.destination
+    );
+  }
+
+  if (!response.ok) {
+    const message = await readErrorMessage(response);
+    throw new PublishingError(
+      `${connector.label} API error: ${response.status} - ${message}`,
+      connector.destination,
+      response.status
+    );
+  }
+
+  const text = await response.text();
+  try {
+    return (text ? JSON.parse(text) : {}) as T;
+  } catch {
+    throw new PublishingError(`${connector.label} returned an invalid response`, connector.destination, response.status);
+  }
+}
+
+function assertConfigured(connector: PublishingConnector): void {
+  if (!connector.isConfigured()) {
+    throw new PublishingError(`${connector.label} publishing is not configured`, connector.destination);
+  }
+}
+
+function getExcerpt(article: Article): string {
+  return article.metadata?.metaDescription || article.introduction || '';
+}
+
+function trimUrl(url: string): string {
+  return url.replace(/\/+$/, '');
+}
+
+export interface WordPressConfig {
+  siteUrl: string;
+  username: string;
+  // Application password created under Users > Profile > Application Passwords
+  applicationPassword: string;
+}
+
+/**
+ * Publishes posts through the WordPress REST API (/wp-json/wp/v2), authenticated
+ * with an application password. Tags are looked up by slug and created when missing.
+ */
+export class WordPressConnector implements PublishingConnector {
+  readonly destination = 'wordpress' as const;
+  readonly label = 'WordPress';
+  private config: WordPressConfig;
+
+  constructor(config: WordPressConfig = {
+    siteUrl: process.env.WORDPRESS_URL || '',
+    username: process.env.WORDPRESS_USERNAME || '',
+    applicationPassword: process.env.WORDPRESS_APP_PASSWORD || ''
+  }) {
+    this.config = { ...config, siteUrl: trimUrl(config.siteUrl) };
+  }
+
+  isConfigured(): boolean {
+    return Boolean(this.config.siteUrl && this.config.username && this.config.applicationPassword);
+  }
+
+  async publish(article: Article, { status, existing }: PublishRequest): Promise<PublishResult> {
+    assertConfigured(this);
+
+    const post = await requestJson<{ id: number; link?: string; status: string }>(
+      this,
+      this.url(existing ? `/posts/${encodeURIComponent(existing.remoteId)}` : '/posts'),
+      {
+        // The REST API updates posts with POST as well
+        method: 'POST',
+        headers: this.headers(),
+        body: JSON.stringify({
+          title: article.title,
+          content: renderArticleBody(article, 'html'),
+          excerpt: getExcerpt(article),
+          slug: slugify(article.title) || 'article',
+          status: status === 'published' ? 'publish' : 'draft',
+          tags: await this.resolveTags(article.tags || [])
+        })
+      }
+    );
+
+    return {
+      remoteId: String(post.id),
+      url: post.link,
+      status: post.status === 'publish' ? 'published' : 'draft'
+    };
+  }
+
+  private async resolveTags(tags: string[]): Promise<number[]> {
+    const ids: number[] = [];
+    for (const name of tags) {
+      const slug = slugify(name);
+      if (!slug) continue;
+
+      const found = await requestJson<Array<{ id: number }>>(this, this.url(`/tags?slug=${encodeURIComponent(slug)}`), {
+        headers: this.headers()
+      });
+      const tag = found[0] ?? await requestJson<{ id: number }>(this, this.url('/tags'), {
+        method: 'POST',
+        headers: this.headers(),
+        body: JSON.stringify({ name, slug })
+      });
+      if (!ids.includes(tag.id)) ids.push(tag.id);
+    }
+    return ids;
+  }
+
+  private url(path: string): string {
+    return `${this.config.siteUrl}/wp-json/wp/v2${path}`;
+  }
+
+  private headers(): Record<string, string> {
+    const credentials = Buffer.from(`${this.config.username}:${this.config.applicationPassword}`).toString('base64');
+    return {
+      'Content-Type': 'application/json',
+      'Authorization': `Basic ${credentials}`
+    };
+  }
+}
+
+export interface GhostConfig {
+  adminUrl: string;
+  // Admin API key of a custom integration, as "<id>:<secret>"
+  adminApiKey: string;
+}
+
+/**
+ * Short-lived Admin API token: a JWT signed with the hex-decoded key secret
+ */
+export function createGhostToken(adminApiKey: string, now: number = Date.now()): string {
+  const [id, secret] = adminApiKey.split(':');
+  if (!id || !secret || !/^[0-9a-f]+$/i.test(secret)) {
+    throw new PublishingError('Ghost Admin API key must have the form <id>:<secret>', 'ghost');
+  }
+
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const issuedAt = Math.floor(now / 1000);
+  const unsigned = `${encode({ alg: 'HS256', typ: 'JWT', kid: id })}.${encode({
+    iat: issuedAt,
+    exp: issuedAt + GHOST_TOKEN_LIFETIME,
+    aud: '/admin/'
+  })}`;
+  const signature = createHmac('sha256', Buffer.from(secret, 'hex')).update(unsigned).digest('base64url');
+
+  return `${unsigned}.${signature}`;
+}
+
+interface GhostPost {
+  id: string;
+  url?: string;
+  status: string;
+  updated_at: string;
+}
+
+/**
+ * Publishes posts through the Ghost Admin API. Updates send the post's
+ * current updated_at, which Ghost uses to detect conflicting edits.
+ */
+export class GhostConnector implements PublishingConnector {
+  readonly destination = 'ghost' as const;
+  readonly label = 'Ghost';
+  private config: GhostConfig;
+
+  constructor(config: GhostConfig = {
+    adminUrl: process.env.GHOST_ADMIN_URL || '',
+    adminApiKey: process.env.GHOST_ADMIN_API_KEY || ''
+  }) {
+    this.config = { ...config, adminUrl: trimUrl(config.adminUrl) };
+  }
+
+  isConfigured(): boolean {
+    return Boolean(this.config.adminUrl && this.config.adminApiKey);
+  }
+
+  async publish(article: Article, { status, existing }: PublishRequest): Promise<PublishResult> {
+    assertConfigured(this);
+
+    const post: Record<string, unknown> = {
+      title: article.title,
+      html: renderArticleBody(article, 'html'),
+      custom_excerpt: getExcerpt(article).slice(0, GHOST_EXCERPT_LENGTH),
+      feature_image: article.metadata?.sourceVideo?.thumbnailUrl || null,
+      tags: (article.tags || []).map(name => ({ name })),
+      status: status === 'published' ? 'published' : 'draft'
+    };
+
+    let saved: { posts: GhostPost[] };
+    if (existing) {
+      const path = `/posts/${encodeURIComponent(existing.remoteId)}/`;
+      const current = await requestJson<{ posts: GhostPost[] }>(this, this.url(path), { headers: this.headers() });
+      saved = await requestJson(this, this.url(`${path}?source=html`), {
+        method: 'PUT',
+        headers: this.headers(),
+        body: JSON.stringify({ posts: [{ ...post, updated_at: current.posts[0]?.updated_at }] })
+      });
+    } else {
+      saved = await requestJson(this, this.url('/posts/?source=html'), {
+        method: 'POST',
+        headers: this.headers(),
+        body: JSON.stringify({ posts: [{ ...post, slug: slugify(article.title) || 'article' }] })
+      });
+    }
+
+    const result = saved.posts?.[0];
+    if (!result) {
+      throw new PublishingError('Ghost did not return the saved post', this.destination);
+    }
+
+    return {
+      remoteId: result.id,
+      url: result.url,
+      status: result.status === 'published' ? 'published' : 'draft'
+    };
+  }
+
+  private url(path: string): string {
+    return `${this.config.adminUrl}/ghost/api/admin${path}`;
+  }
+
+  private headers(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      'Accept-Version': 'v5.0',
+      'Authorization': `Ghost ${createGhostToken(this.config.adminApiKey)}`
+    };
+  }
+}
+
+export interface DevToConfig {
+  apiKey: string;
+  baseUrl: string;
+}
+
+/**
+ * Publishes articles to Dev.to (Forem) with the article body as markdown
+ */
+export class DevToConnector implements PublishingConnector {
+  readonly destination = 'devto' as const;
+  readonly label = 'Dev.to';
+  private config: DevToConfig;
+
+  constructor(config: DevToConfig = {
+    apiKey: process.env.DEVTO_API_KEY || '',
+    baseUrl: process.env.DEVTO_BASE_URL || 'https://dev.to'
+  }) {
+    this.config = { ...config, baseUrl: trimUrl(config.baseUrl) };
+  }
+
+  isConfigured(): boolean {
+    return Boolean(this.config.apiKey && this.config.baseUrl);
+  }
+
+  async publish(article: Article, { status, existing }: PublishRequest): Promise<PublishResult> {
+    assertConfigured(this);
+
+    const saved = await requestJson<{ id: number; url?: string; published: boolean }>(
+      this,
+      `${this.config.baseUrl}/api/articles${existing ? `/${encodeURIComponent(existing.remoteId)}` : ''}`,
+      {
+        method: existing ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'api-key': this.config.apiKey
+        },
+        body: JSON.stringify({
+          article: {
+            title: article.title,
+            body_markdown: renderArticleBody(article, 'markdown'),
+            description: getExcerpt(article),
+            main_image: article.metadata?.sourceVideo?.thumbnailUrl || undefined,
+            tags: toDevToTags(article.tags || []),
+            published: status === 'published'
+          }
+        })
+      }
+    );
+
+    return {
+      remoteId: String(saved.id),
+      url: saved.url,
+      status: saved.published ? 'published' : 'draft'
+    };
+  }
+}
+
+function toDevToTags(tags: string[]): string[] {
+  const names = tags.map(tag => tag.toLowerCase().replace(/[^a-z0-9]/g, '')).filter(Boolean);
+  return Array.from(new Set(names)).slice(0, DEVTO_MAX_TAGS);
+}
+
+export interface WebhookConfig {
+  url: string;
+  // Signs the payload with HMAC-SHA256 (X-Vid2Blog-Signature) when set
+  secret?: string;
+}
+
+/**
+ * Posts the article as JSON to a webhook. The Idempotency-Key header stays
+ * the same for every delivery of an article, so receivers can update the
+ * post they created the first time.
+ */
+export class WebhookConnector implements PublishingConnector {
+  readonly destination = 'webhook' as const;
+  readonly label = 'Webhook';
+  private config: WebhookConfig;
+
+  constructor(config: WebhookConfig = {
+    url: process.env.PUBLISH_WEBHOOK_URL || '',
+    secret: process.env.PUBLISH_WEBHOOK_SECRET
+  }) {
+    this.config = config;
+  }
+
+  isConfigured(): boolean {
+    return Boolean(this.config.url);
+  }
+
+  async publish(article: Article, { status, existing }: PublishRequest): Promise<PublishResult> {
+    assertConfigured(this);
+
+    const key = existing?.remoteId ?? createIdempotencyKey(article);
+    const body = JSON.stringify({
+      event: existing ? 'article.updated' : 'article.published',
+      id: key,
+      status,
+      article: {
+        ...article,
+        html: renderArticleBody(article, 'html'),
+        markdown: renderArticleBody(article, 'markdown')
+      }
+    });
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'Idempotency-Key': key
+    };
+    if (this.config.secret) {
+      headers['X-Vid2Blog-Signature'] = `sha256=${createHmac('sha256', this.config.secret).update(body).digest('hex')}`;
+    }
+
+    const response = await requestJson<{ id?: string | number; url?: string }>(this, this.config.url, {
+      method: 'POST',
+      headers,
+      body
+    });
+
+    return {
+      remoteId: response.id !== undefined ? String(response.id) : key,
+      url: response.url,
+      status
+    };
+  }
+}
+
+// Stable key for an article: its source video and title
+function createIdempotencyKey(article: Article): string {
+  const source = `${article.metadata?.sourceVideo?.id || ''}:${slugify(article.title)}`;
+  return createHash('sha256').update(source).digest('hex').slice(0, 32);
+}
+
+/**
+ * Publish an article and record the publication on it. An earlier
+ * publication to the same destination is updated in place; if its post was
+ * deleted at the destination, a new post is created.
+ */
+export async function publishArticle(
+  article: Article,
+  connector: PublishingConnector,
+  status: PublishStatus,
+  now: Date = new Date()
+): Promise<{ article: Article; publication: PublicationRecord }> {
+  const publications = article.publications || [];
+  const existing = publications.find(record => record.destination === connector.destination);
+
+  let result: PublishResult;
+  try {
+    result = await connector.publish(article, { status, existing });
+  } catch (error) {
+    if (!existing || !(error instanceof PublishingError) || error.status !== 404) throw error;
+    result = await connector.publish(article, { status });
+  }
+
+  const publishedAt = now.toISOString();
+  const publication: PublicationRecord = {
+    destination: connector.destination,
+    remoteId: result.remoteId,
+    ...(result.url ? { url: result.url } : {}),
+    status: result.status,
+    firstPublishedAt: existing?.remoteId === result.remoteId ? existing.firstPublishedAt : publishedAt,
+    lastPublishedAt: publishedAt
+  };
+
+  return {
+    article: {
+      ...article,
+      publications: existing
+        ? publications.map(record => record === existing ? publication : record)
+        : [...publications, publication]
+    },
+    publication
+  };
+}
+
+/**
+ * Registry of publishing connectors, keyed by destination
+ */
+export class PublishingConnectorRegistry {
+  private static connectors = new Map<PublishingDestination, PublishingConnector>();
+  private static initialized = false;
+
+  /**
+   * Register (or replace) the connector of a destination
+   */
+  static register(connector: PublishingConnector): void {
+    this.ensureDefaults();
+    this.connectors.set(connector.destination, connector);
+  }
+
+  /**
+   * Resolve the connector of a destination
+   */
+  static get(destination: string): PublishingConnector {
+    this.ensureDefaults();
+    const connector = isPublishingDestination(destination) ? this.connectors.get(destination) : undefined;
+
+    if (!connector) {
+      throw new PublishingError(`Unknown publishing destination: ${destination}`, destination);
+    }
+
+    return connector;
+  }
+
+  /**
+   * List destinations with their configuration state
+   */
+  static list(): Array<{ destination: PublishingDestination; label: string; configured: boolean }> {
+    this.ensureDefaults();
+    return Array.from(this.connectors.values()).map(connector => ({
+      destination: connector.destination,
+      label: connector.label,
+      configured: connector.isConfigured()
+    }));
+  }
+
+  /**
+   * Restore the built-in connectors, reading the environment again
+   */
+  static reset(): void {
+    this.connectors.clear();
+    this.initialized = false;
+    this.ensureDefaults();
+  }
+
+  private static ensureDefaults(): void {
+    if (this.initialized) return;
+    this.initialized = true;
+
+    const defaults: PublishingConnector[] = [
+      new WordPressConnector(),
+      new GhostConnector(),
+      new DevToConnector(),
+      new WebhookConnector()
+    ];
+    defaults.forEach(connector => this.connectors.set(connector.destination, connector));
+  }
+}
@@ -0,0 +1,269 @@
+import { createHmac, randomBytes } from 'crypto';
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+
+/**
+ * Local stand-in for the publishing destinations, started by the connector
+ * tests. It implements the parts of the WordPress REST API, the Ghost Admin
+ * API and the Dev.to API that the connectors use, plus a webhook receiver,
+ * and checks credentials the way the real services do. Point the connectors
+ * at `url`:
+ *
+ *   WordPress  WORDPRESS_URL=<url>
+ *   Ghost      GHOST_ADMIN_URL=<url>
+ *   Dev.to     DEVTO_BASE_URL=<url>
+ *   Webhook    PUBLISH_WEBHOOK_URL=<url>/webhook
+ *
+ * with the credentials in MOCK_PUBLISHING_CREDENTIALS.
+ */
+
+export const MOCK_PUBLISHING_CREDENTIALS = {
+  wordpress: { username: 'editor', applicationPassword: 'abcd efgh ijkl mnop' },
+  ghost: { adminApiKey: '6489b2f3c2d8a4001c7e1a2b:5f7c1e0d3a9b8c6e4f2a1d0c9b8e7f6a5d4c3b2a1f0e9d8c7b6a5f4e3d2c1b0a' },
+  devto: { apiKey: 'devto-mock-api-key' },
+  webhook: { secret: 'webhook-mock-secret' }
+};
+
+export interface MockPost {
+  destination: 'wordpress' | 'ghost' | 'devto' | 'webhook';
+  id: string;
+  // Fields as last sent by the connector
+  data: Record<string, unknown>;
+  updatedAt: string;
+}
+
+export interface MockRequest {
+  method: string;
+  path: string;
+  headers: IncomingMessage['headers'];
+  body: unknown;
+}
+
+export interface MockPublishingServer {
+  url: string;
+  posts: MockPost[];
+  requests: MockRequest[];
+  close(): Promise<void>;
+}
+
+class HttpError extends Error {
+  status: number;
+  body: unknown;
+
+  constructor(status: number, body: unknown) {
+    super(`HTTP ${status}`);
+    this.name = 'HttpError';
+    this.status = status;
+    this.body = body;
+  }
+}
+
+function readBody(request: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    request.setEncoding('utf8');
+    request.on('data', chunk => { body += chunk; });
+    request.on('end', () => resolve(body));
+    request.on('error', reject);
+  });
+}
+
+function parseJson(text: string): Record<string, unknown> {
+  try {
+    return text ? JSON.parse(text) : {};
+  } catch {
+    throw new HttpError(400, { message: 'Invalid JSON body' });
+  }
+}
+
+function slugOf(value: unknown): string {
+  return String(value || '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'post';
+}
+
+// Verify a Ghost Admin API token the way Ghost does: key id, signature, audience and expiry
+function verifyGhostToken(authorization: string | undefined): void {
+  const unauthorized = new HttpError(401, { errors: [{ message: 'Invalid token', type: 'UnauthorizedError' }] });
+  const token = authorization?.match(/^Ghost (.+)$/)?.[1];
+  if (!token) throw unauthorized;
+
+  const [header, payload, signature] = token.split('.');
+  const [id, secret] = MOCK_PUBLISHING_CREDENTIALS.ghost.adminApiKey.split(':');
+  const expected = createHmac('sha256', Buffer.from(secret, 'hex')).update(`${header}.${payload}`).digest('base64url');
+  if (!header || !payload || signature !== expected) throw unauthorized;
+
+  const decode = (part: string) => JSON.parse(Buffer.from(part, 'base64url').toString('utf8'));
+  const claims = decode(payload);
+  const now = Math.floor(Date.now() / 1000);
+  if (decode(header).kid !== id || claims.aud !== '/admin/' || !(claims.exp > now) || claims.exp - claims.iat > 300) {
+    throw unauthorized;
+  }
+}
+
+/**
+ * Start the stand-in server on a free port (or the given one)
+ */
+export async function startMockPublishingServer(port: number = 0): Promise<MockPublishingServer> {
+  const posts: MockPost[] = [];
+  const requests: MockRequest[] = [];
+  const wordpressTags: Array<{ id: number; name: string; slug: string }> = [];
+  let nextId = 1;
+  let lastUpdate = 0;
+  let url = '';
+
+  // Strictly increasing timestamps, so every update changes Ghost's updated_at
+  const timestamp = () => {
+    lastUpdate = Math.max(Date.now(), lastUpdate + 1);
+    return new Date(lastUpdate).toISOString();
+  };
+
+  const findPost = (destination: MockPost['destination'], id: string, notFound: unknown) => {
+    const post = posts.find(item => item.destination === destination && item.id === id);
+    if (!post) throw new HttpError(404, notFound);
+    return post;
+  };
+
+  const savePost = (destination: MockPost['destination'], id: string, data: Record<string, unknown>) => {
+    const existing = posts.find(item => item.destination === destination && item.id === id);
+    const post = existing ?? { destination, id, data, updatedAt: '' };
+    post.data = existing ? { ...existing.data, ...data } : data;
+    post.updatedAt = timestamp();
+    if (!existing) posts.push(post);
+    return post;
+  };
+
+  const handleWordPress = (method: string, path: string, query: URLSearchParams, headers: IncomingMessage['headers'], body: Record<string, unknown>) => {
+    const { username, applicationPassword } = MOCK_PUBLISHING_CREDENTIALS.wordpress;
+    if (headers.authorization !== `Basic ${Buffer.from(`${username}:${applicationPassword}`).toString('base64')}`) {
+      throw new HttpError(401, { code: 'rest_not_logged_in', message: 'You are not currently logged in.' });
+    }
+
+    if (path === '/tags' && method === 'GET') {
+      return wordpressTags.filter(tag => tag.slug === query.get('slug'));
+    }
+    if (path === '/tags' && method === 'POST') {
+      const tag = { id: nextId++, name: String(body.name), slug: slugOf(body.slug || body.name) };
+      wordpressTags.push(tag);
+      return tag;
+    }
+
+    const postPath = path.match(/^\/posts(?:\/(\d+))?$/);
+    if (postPath && method === 'POST') {
+      const id = postPath[1] ?? String(nextId++);
+      if (postPath[1]) findPost('wordpress', id, { code: 'rest_post_invalid_id', message: 'Invalid post ID.' });
+      const post = savePost('wordpress', id, body);
+      return { id: Number(id), link: `${url}/?p=${id}`, status: post.data.status, slug: post.data.slug };
+    }
+
+    throw new HttpError(404, { code: 'rest_no_route', message: 'No route was found matching the URL and request method.' });
+  };
+
+  const handleGhost = (method: string, path: string, headers: IncomingMessage['headers'], body: Record<string, unknown>) => {
+    verifyGhostToken(headers.authorization);
+    const notFound = { errors: [{ message: 'Post not found.', type: 'NotFoundError' }] };
+    const toResponse = (post: MockPost) => ({
+      posts: [{ ...post.data, id: post.id, url: `${url}/${post.data.slug}/`, updated_at: post.updatedAt }]
+    });
+
+    const postPath = path.match(/^\/posts\/(?:([0-9a-f]{24})\/)?$/);
+    if (!postPath) throw new HttpError(404, { errors: [{ message: 'Resource not found', type: 'NotFoundError' }] });
+
+    const [fields] = (body.posts as Array<Record<string, unknown>> | undefined) ?? [];
+    if (method === 'POST' && !postPath[1]) {
+      if (!fields?.title) throw new HttpError(422, { errors: [{ message: 'Validation error, cannot save post.', type: 'ValidationError' }] });
+      return toResponse(savePost('ghost', randomBytes(12).toString('hex'), { ...fields, slug: slugOf(fields.slug || fields.title) }));
+    }
+    if (method === 'GET' && postPath[1]) {
+      return toResponse(findPost('ghost', postPath[1], notFound));
+    }
+    if (method === 'PUT' && postPath[1]) {
+      const post = findPost('ghost', postPath[1], notFound);
+      if (!fields || fields.updated_at !== post.updatedAt) {
+        throw new HttpError(409, { errors: [{ message: 'Saving failed! Someone else is editing this post.', type: 'UpdateCollisionError' }] });
+      }
+      const changes = { ...fields };
+      delete changes.updated_at;
+      return toResponse(savePost('ghost', post.id, changes));
+    }
+
+    throw new HttpError(405, { errors: [{ message: 'Method not allowed', type: 'MethodNotAllowedError' }] });
+  };
+
+  const handleDevTo = (method: string, path: string, headers: IncomingMessage['headers'], body: Record<string, unknown>) => {
+    if (headers['api-key'] !== MOCK_PUBLISHING_CREDENTIALS.devto.apiKey) {
+      throw new HttpError(401, { error: 'unauthorized', status: 401 });
+    }
+
+    const articlePath = path.match(/^\/articles(?:\/(\d+))?$/);
+    const fields = body.article as Record<string, unknown> | undefined;
+    if (!articlePath || (method === 'POST') === Boolean(articlePath[1]) || !['POST', 'PUT'].includes(method)) {
+      throw new HttpError(404, { error: 'not found', status: 404 });
+    }
+    if (!fields?.title) throw new HttpError(422, { error: "Title can't be blank", status: 422 });
+
+    const id = articlePath[1] ?? String(nextId++);
+    if (articlePath[1]) findPost('devto', id, { error: 'not found', status: 404 });
+    const post = savePost('devto', id, fields);
+    return { id: Number(id), url: `${url}/mock/${slugOf(post.data.title)}-${id}`, published: Boolean(post.data.published) };
+  };
+
+  const handleWebhook = (headers: IncomingMessage['headers'], raw: string, body: Record<string, unknown>) => {
+    const signature = `sha256=${createHmac('sha256', MOCK_PUBLISHING_CREDENTIALS.webhook.secret).update(raw).digest('hex')}`;
+    if (headers['x-vid2blog-signature'] !== signature) {
+      throw new HttpError(401, { error: 'Invalid signature' });
+    }
+    const key = headers['idempotency-key'];
+    if (typeof key !== 'string' || !key) {
+      throw new HttpError(400, { error: 'Idempotency-Key header is required' });
+    }
+
+    savePost('webhook', key, { ...(body.article as Record<string, unknown>), status: body.status });
+    return { id: key, url: `${url}/webhook/posts/${key}` };
+  };
+
+  const server = createServer(async (request: IncomingMessage, response: ServerResponse) => {
+    const method = request.method || 'GET';
+    const { pathname, searchParams } = new URL(request.url || '/', url);
+    let status = 200;
+    let result: unknown;
+
+    try {
+      const raw = await readBody(request);
+      const body = parseJson(raw);
+      requests.push({ method, path: pathname, headers: request.headers, body });
+
+      if (pathname.startsWith('/wp-json/wp/v2/')) {
+        result = handleWordPress(method, pathname.slice('/wp-json/wp/v2'.length), searchParams, request.headers, body);
+        status = method === 'POST' && !/\/\d+$/.test(pathname) ? 201 : 200;
+      } else if (pathname.startsWith('/ghost/api/admin/')) {
+        result = handleGhost(method, pathname.slice('/ghost/api/admin'.length), request.headers, body);
+        status = method === 'POST' ? 201 : 200;
+      } else if (pathname.startsWith('/api/')) {
+        result = handleDevTo(method, pathname.slice('/api'.length), request.headers, body);
+        status = method === 'POST' ? 201 : 200;
+      } else if (pathname === '/webhook' && method === 'POST') {
+        result = handleWebhook(request.headers, raw, body);
+      } else {
+        throw new HttpError(404, { error: 'Not found' });
+      }
+    } catch (error) {
+      status = error instanceof HttpError ? error.status : 500;
+      result = error instanceof HttpError ? error.body : { error: 'Internal server error' };
+    }
+
+    response.writeHead(status, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(result));
+  });
+
+  await new Promise<void>(resolve => server.listen(port, '127.0.0.1', resolve));
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    url,
+    posts,
+    requests,
+    close: () => new Promise<void>((resolve, reject) => {
+      server.closeAllConnections();
+      server.close(error => error ? reject(error) : resolve());
+    })
+  };
+}
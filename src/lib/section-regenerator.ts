@@ -0,0 +1,110 @@
+import {
+  Article,
+  ArticleSection,
+  ContentAnalysis,
+  GenerationOptions,
+  TimeRange,
+  Transcript,
+  TranscriptSegment
+} from '@/types';
+import { AIArticleGenerator } from './ai-article-generator';
+import { ArticleGenerator } from './article-generator';
+import { throwIfAborted } from './error-handling';
+import { CitationLinker } from './citation-linker';
+
+export interface SectionRegenerationResult {
+  section: ArticleSection;
+  generationMethod: 'ai' | 'template';
+  timeRange: TimeRange;
+}
+
+function significantWords(text: string): string[] {
+  return text.toLowerCase().split(/\W+/).filter(word => word.length > 3);
+}
+
+/**
+ * Rewrites a single article section from the part of the transcript it covers
+ */
+export class SectionRegenerator {
+  // Keeps the focused prompt well inside small context windows
+  static readonly MAX_EXCERPT_CHARS = 6000;
+
+  /**
+   * Estimate the part of the video a section covers. Uses the time ranges of
+   * analysis topics named in the heading, otherwise the section's position in the article.
+   */
+  static getSectionTimeRange(
+    article: Article,
+    sectionIndex: number,
+    transcript: Transcript,
+    analysis?: ContentAnalysis
+  ): TimeRange {
+    const headingWords = new Set(significantWords(article.sections[sectionIndex].heading));
+    const ranges = (analysis?.topics || [])
+      .filter(topic => significantWords(topic.name).some(word => headingWords.has(word)))
+      .flatMap(topic => topic.timeRanges);
+
+    if (ranges.length > 0) {
+      return {
+        start: Math.min(...ranges.map(range => range.start)),
+        end: Math.max(...ranges.map(range => range.end))
+      };
+    }
+
+    const lastSegment = transcript.segments[transcript.segments.length - 1];
+    const duration = transcript.duration || lastSegment?.endTime || 0;
+    const share = duration / Math.max(article.sections.length, 1);
+    return { start: share * sectionIndex, end: share * (sectionIndex + 1) };
+  }
+
+  /**
+   * Transcript segments overlapping a time range, cut off at MAX_EXCERPT_CHARS
+   */
+  static getSegmentsInRange(transcript: Transcript, timeRange: TimeRange): TranscriptSegment[] {
+    const segments: TranscriptSegment[] = [];
+    let length = 0;
+
+    for (const segment of transcript.segments) {
+      if (segment.endTime <= timeRange.start || segment.startTime >= timeRange.end) continue;
+      length += segment.text.length;
+      if (length > this.MAX_EXCERPT_CHARS) break;
+      segments.push(segment);
+    }
+    return segments;
+  }
+
+  /**
+   * Rewrite one section with AI, falling back to template-based content from the same
+   * time range. Aborting the signal rejects with an AbortError instead of falling back.
+   */
+  static async regenerateSection(
+    article: Article,
+    sectionIndex: number,
+    instruction: string,
+    transcript: Transcript,
+    analysis?: ContentAnalysis,
+    options: GenerationOptions = {
+      length: 'medium',
+      tone: 'professional',
+      format: 'markdown'
+    },
+    signal?: AbortSignal
+  ): Promise<SectionRegenerationResult> {
+    if (!Number.isInteger(sectionIndex) || sectionIndex < 0 || sectionIndex >= article.sections.length) {
+      throw new RangeError(`Section index ${sectionIndex} is out of range`);
+    }
+
+    const timeRange = this.getSectionTimeRange(article, sectionIndex, transcript, analysis);
+    const segments = this.getSegmentsInRange(transcript, timeRange);
+
+    try {
+      const section = await AIArticleGenerator.regenerateSection(article, sectionIndex, instruction, segments, options, signal);
+      return { section: CitationLinker.citeSection(section, segments), generationMethod: 'ai', timeRange };
+    } catch (error) {
+      throwIfAborted(signal);
+      console.warn('AI section regeneration failed, falling back to template-based content:', error);
+      const section = ArticleGenerator.regenerateSection(article.sections[sectionIndex], timeRange, transcript, options);
+      return { section: CitationLinker.citeSection(section, segments), generationMethod: 'template', timeRange };
+    }
+  }
+}
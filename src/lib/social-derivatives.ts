@@ -0,0 +1,356 @@
+import { Article, Chapter, ContentAnalysis, GenerationOptions, KeyPoint, SocialDerivatives } from '@/types';
+import { AIArticleGenerator } from './ai-article-generator';
+import { parseJsonResponse } from './ai-response-parser';
+import { ChapterDetector } from './chapter-detector';
+import { DescriptionParser } from './description-parser';
+import { throwIfAborted } from './error-handling';
+import { GroundingChecker } from './grounding-checker';
+
+export interface SocialDerivativesResult {
+  derivatives: SocialDerivatives;
+  generationMethod: 'ai' | 'template';
+}
+
+// X counts every URL as a t.co link of this length
+const TWEET_URL_LENGTH = 23;
+
+// Code points X counts once; everything else (CJK, emoji, ...) counts twice
+const TWEET_LIGHT_RANGES: Array<[number, number]> = [[0, 4351], [8192, 8205], [8208, 8223], [8242, 8247]];
+
+const URL_PATTERN = /https?:\/\/\S+/g;
+
+/**
+ * Length of a post as X counts it: URLs count as 23 characters and wide
+ * characters such as CJK and emoji count as two
+ */
+export function countTweetCharacters(text: string): number {
+  let length = 0;
+  for (const char of text.replace(URL_PATTERN, '')) {
+    const code = char.codePointAt(0) ?? 0;
+    length += TWEET_LIGHT_RANGES.some(([from, to]) => code >= from && code <= to) ? 1 : 2;
+  }
+  return length + (text.match(URL_PATTERN) || []).length * TWEET_URL_LENGTH;
+}
+
+// Markdown reduced to the plain text social platforms show
+function toPlainText(text: string): string {
+  return (text || '')
+    .replace(/```[\s\S]*?```/g, '')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/^\s*#{1,6}\s+/gm, '')
+    .replace(/(\*\*|__|`)/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function sentencesOf(text: string): string[] {
+  return GroundingChecker.splitSentences(toPlainText(text));
+}
+
+function toHashtag(tag: string): string {
+  const words = tag.split(/[^A-Za-z0-9]+/).filter(Boolean);
+  return words.length > 0 ? `#${words.map(word => word[0].toUpperCase() + word.slice(1)).join('')}` : '';
+}
+
+function capitalize(text: string): string {
+  return text ? text[0].toUpperCase() + text.slice(1) : text;
+}
+
+/**
+ * Turns an article and the analysis of its video into posts that promote it:
+ * an X/Twitter thread, a LinkedIn post, a newsletter summary and video show notes
+ */
+export class SocialDerivativeGenerator {
+  static readonly TWEET_CHARACTER_LIMIT = 280;
+  static readonly LINKEDIN_CHARACTER_LIMIT = 3000;
+  static readonly NEWSLETTER_WORD_LIMIT = 80;
+  static readonly MAX_THREAD_KEY_POINTS = 5;
+  static readonly MAX_HASHTAGS = 3;
+  // YouTube only shows chapters when there are at least three, each 10 seconds or longer
+  static readonly MIN_CHAPTERS = 3;
+  static readonly MIN_CHAPTER_SECONDS = 10;
+
+  static readonly DERIVATIVES_JSON_FORMAT = `Please respond with ONLY a JSON object in this exact format:
+{"thread": ["First post", "Second post"], "linkedInPost": "LinkedIn post text", "newsletterSummary": "Newsletter summary text"}`;
+
+  /**
+   * Write the thread, LinkedIn post and newsletter summary with AI, falling
+   * back to templates. Show notes are always built from the analysis, since
+   * chapter timestamps must match the video. Aborting the signal rejects with
+   * an AbortError instead of falling back.
+   */
+  static async generate(
+    article: Article,
+    analysis?: ContentAnalysis,
+    options: GenerationOptions = {
+      length: 'medium',
+      tone: 'professional',
+      format: 'markdown'
+    },
+    signal?: AbortSignal
+  ): Promise<SocialDerivativesResult> {
+    const showNotes = this.createShowNotes(article, analysis);
+
+    try {
+      const prompt = this.createPrompt(article, analysis, options);
+      const aiResponse = await AIArticleGenerator.callLLM(prompt, { ...options, maxTokens: options.maxTokens ?? 900 }, signal);
+      const { value } = parseJsonResponse(aiResponse);
+      const parsed = (typeof value === 'object' && value !== null ? value : {}) as Record<string, unknown>;
+      const thread = Array.isArray(parsed.thread)
+        ? parsed.thread.filter((post): post is string => typeof post === 'string' && post.trim().length > 0)
+        : [];
+
+      const missing = [
+        ...(thread.length === 0 ? ['thread'] : []),
+        ...(['linkedInPost', 'newsletterSummary'] as const).filter(field => typeof parsed[field] !== 'string' || !(parsed[field] as string).trim())
+      ];
+      if (missing.length > 0) {
+        throw new Error(`Missing required fields in AI response: ${missing.join(', ')}`);
+      }
+
+      return {
+        derivatives: {
+          // Posts are re-split and numbered, since models do not count characters reliably
+          thread: this.fitThread(thread.map(post => post.trim().replace(/\s*\d+\/\d+$/, ''))),
+          linkedInPost: this.truncate((parsed.linkedInPost as string).trim(), this.LINKEDIN_CHARACTER_LIMIT),
+          newsletterSummary: (parsed.newsletterSummary as string).trim(),
+          showNotes
+        },
+        generationMethod: 'ai'
+      };
+    } catch (error) {
+      throwIfAborted(signal);
+      console.warn('AI derivative generation failed, falling back to templates:', error);
+      return { derivatives: { ...this.generateFromTemplates(article, analysis), showNotes }, generationMethod: 'template' };
+    }
+  }
+
+  /**
+   * Derivatives built from the article text and key points alone, without an LLM
+   */
+  static generateFromTemplates(article: Article, analysis?: ContentAnalysis): SocialDerivatives {
+    return {
+      thread: this.createThread(article, analysis),
+      linkedInPost: this.createLinkedInPost(article, analysis),
+      newsletterSummary: this.createNewsletterSummary(article, analysis),
+      showNotes: this.createShowNotes(article, analysis)
+    };
+  }
+
+  /**
+   * The most important key points in video order. Without an analysis, the
+   * first sentence of each section stands in for the key points.
+   */
+  static getKeyPoints(article: Article, analysis: ContentAnalysis | undefined, limit: number): string[] {
+    const keyPoints: KeyPoint[] = analysis?.keyPoints || [];
+    if (keyPoints.length > 0) {
+      return [...keyPoints]
+        .sort((a, b) => b.importance - a.importance)
+        .slice(0, limit)
+        .sort((a, b) => a.timestamp - b.timestamp)
+        .map(point => capitalize(toPlainText(point.text)))
+        .filter(Boolean);
+    }
+
+    return article.sections
+      .filter(section => section.heading !== DescriptionParser.RESOURCES_HEADING)
+      .map(section => sentencesOf(section.content)[0])
+      .filter((sentence): sentence is string => Boolean(sentence))
+      .slice(0, limit);
+  }
+
+  /**
+   * Split posts that are over the character limit at sentence (or word)
+   * boundaries and number the posts of a thread
+   */
+  static fitThread(posts: string[], limit: number = this.TWEET_CHARACTER_LIMIT): string[] {
+    let count = posts.length;
+    // The numbering takes up room, which can make more posts; repeat until the count is stable
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const reserve = count > 1 ? ` ${count}/${count}`.length : 0;
+      const split = posts.flatMap(post => this.splitPost(post, limit - reserve));
+      if (split.length === count || attempt === 4) {
+        return split.length > 1 ? split.map((post, index) => `${post} ${index + 1}/${split.length}`) : split;
+      }
+      count = split.length;
+    }
+    return posts;
+  }
+
+  private static splitPost(post: string, limit: number): string[] {
+    if (countTweetCharacters(post) <= limit) return [post];
+
+    const chunks: string[] = [];
+    let current = '';
+    const pieces = post.split(/\n+/).flatMap(paragraph => GroundingChecker.splitSentences(paragraph));
+    for (const piece of pieces.flatMap(sentence => countTweetCharacters(sentence) > limit ? sentence.split(/\s+/) : [sentence])) {
+      const candidate = current ? `${current} ${piece}` : piece;
+      if (countTweetCharacters(candidate) <= limit) {
+        current = candidate;
+        continue;
+      }
+      if (current) chunks.push(current);
+      // A single word over the limit (e.g. CJK text without spaces) continues in the next posts
+      const parts = countTweetCharacters(piece) > limit ? this.cutToLimit(piece, limit) : [piece];
+      chunks.push(...parts.slice(0, -1));
+      current = parts[parts.length - 1];
+    }
+    if (current) chunks.push(current);
+    return chunks;
+  }
+
+  /**
+   * Cut text into parts that each fit the limit, as X weighs characters
+   */
+  private static cutToLimit(text: string, limit: number): string[] {
+    const parts: string[] = [];
+    let part = '';
+    for (const char of Array.from(text)) {
+      if (part && countTweetCharacters(part + char) > limit) {
+        parts.push(part);
+        part = '';
+      }
+      part += char;
+    }
+    if (part) parts.push(part);
+    return parts;
+  }
+
+  private static createThread(article: Article, analysis?: ContentAnalysis): string[] {
+    const videoUrl = this.getVideoUrl(article);
+    const hashtags = this.getHashtags(article, 2);
+    const opening = sentencesOf(article.introduction)[0];
+
+    const posts = [
+      opening ? `${article.title}\n\n${opening}` : article.title,
+      ...this.getKeyPoints(article, analysis, this.MAX_THREAD_KEY_POINTS),
+      [sentencesOf(article.conclusion)[0], videoUrl ? `Watch the full video: ${videoUrl}` : '', hashtags]
+        .filter(Boolean)
+        .join('\n\n')
+    ].filter(post => post.trim().length > 0);
+
+    return this.fitThread(posts);
+  }
+
+  private static createLinkedInPost(article: Article, analysis?: ContentAnalysis): string {
+    const videoUrl = this.getVideoUrl(article);
+    const keyPoints = this.getKeyPoints(article, analysis, this.MAX_THREAD_KEY_POINTS);
+    const parts = [
+      article.title,
+      sentencesOf(article.introduction).slice(0, 2).join(' '),
+      keyPoints.length > 0 ? `Key takeaways:\n${keyPoints.map(point => `- ${point}`).join('\n')}` : '',
+      sentencesOf(article.conclusion)[0] || '',
+      videoUrl ? `Watch the full video: ${videoUrl}` : '',
+      this.getHashtags(article, this.MAX_HASHTAGS)
+    ];
+
+    return this.truncate(parts.filter(Boolean).join('\n\n'), this.LINKEDIN_CHARACTER_LIMIT);
+  }
+
+  private static createNewsletterSummary(article: Article, analysis?: ContentAnalysis): string {
+    const [topPoint] = this.getKeyPoints(article, analysis, 1);
+    const sentences = [
+      ...sentencesOf(article.metadata?.metaDescription || article.introduction).slice(0, 2),
+      ...(topPoint ? [`The key takeaway: ${topPoint.replace(/[.!?]*$/, '.')}`] : [])
+    ];
+
+    // Whole sentences up to the word limit; the first sentence is always kept
+    const summary: string[] = [];
+    let words = 0;
+    for (const sentence of sentences) {
+      const sentenceWords = sentence.split(/\s+/).length;
+      if (summary.length > 0 && words + sentenceWords > this.NEWSLETTER_WORD_LIMIT) break;
+      summary.push(sentence);
+      words += sentenceWords;
+    }
+    return summary.join(' ');
+  }
+
+  /**
+   * Show notes for the video description: a summary, chapters and key points
+   */
+  static createShowNotes(article: Article, analysis?: ContentAnalysis): string {
+    const chapters = this.getChapters(article, analysis);
+    const keyPoints = this.getKeyPoints(article, analysis, this.MAX_THREAD_KEY_POINTS);
+    const parts = [
+      toPlainText(analysis?.summary || article.metadata?.metaDescription || article.introduction),
+      chapters.length > 0
+        ? `Chapters:\n${ChapterDetector.formatChapterList(chapters)}`
+        : '',
+      keyPoints.length > 0 ? `Key points:\n${keyPoints.map(point => `- ${point}`).join('\n')}` : '',
+      this.getHashtags(article, this.MAX_HASHTAGS)
+    ];
+
+    return parts.filter(Boolean).join('\n\n');
+  }
+
+  /**
+   * Chapters for YouTube: the analysis chapters, or else the topics where they
+   * first come up in the video, or the key points when there are too few
+   * topics. The first chapter starts at 0:00; chapters closer than
+   * MIN_CHAPTER_SECONDS are merged. Returns no chapters when fewer than
+   * MIN_CHAPTERS remain, as YouTube would ignore them.
+   */
+  static getChapters(article: Article, analysis?: ContentAnalysis): Pick<Chapter, 'start' | 'title'>[] {
+    const fromChapters = (analysis?.chapters || [])
+      .map(chapter => ({ start: chapter.start, title: chapter.title }));
+    const fromTopics = (analysis?.topics || [])
+      .filter(topic => topic.timeRanges.length > 0)
+      .map(topic => ({ start: Math.min(...topic.timeRanges.map(range => range.start)), title: capitalize(topic.name.trim()) }));
+    const fromKeyPoints = (analysis?.keyPoints || [])
+      .map(point => ({ start: point.timestamp, title: this.truncate(capitalize(toPlainText(point.text)).replace(/[.!?]+$/, ''), 60) }));
+    const candidates = [fromChapters, fromTopics].find(list => list.length >= this.MIN_CHAPTERS) || fromKeyPoints;
+
+    const chapters: Pick<Chapter, 'start' | 'title'>[] = [];
+    for (const candidate of [...candidates].sort((a, b) => a.start - b.start)) {
+      const previous = chapters[chapters.length - 1];
+      if (!candidate.title || (previous && candidate.start - previous.start < this.MIN_CHAPTER_SECONDS)) continue;
+      chapters.push({ start: chapters.length === 0 ? 0 : Math.floor(candidate.start), title: candidate.title });
+    }
+
+    return chapters.length >= this.MIN_CHAPTERS ? chapters : [];
+  }
+
+  private static createPrompt(article: Article, analysis: ContentAnalysis | undefined, options: GenerationOptions): string {
+    const keyPoints = this.getKeyPoints(article, analysis, this.MAX_THREAD_KEY_POINTS);
+    const videoUrl = this.getVideoUrl(article);
+
+    return `You are promoting the blog article "${article.title}" on social media.
+
+Introduction:
+${toPlainText(article.introduction)}
+
+Sections:
+${article.sections.map(section => `- ${section.heading}`).join('\n')}
+
+Key points from the video:
+${keyPoints.map(point => `- ${point}`).join('\n') || '(none)'}
+
+Conclusion:
+${toPlainText(article.conclusion)}
+${videoUrl ? `\nVideo: ${videoUrl}\n` : ''}
+Write:
+1. An X/Twitter thread of 3 to 7 posts. Each post must be at most ${this.TWEET_CHARACTER_LIMIT} characters. Open with a hook and end with a link to the video. Do not number the posts.
+2. A LinkedIn post of at most 1300 characters with a short list of takeaways and up to ${this.MAX_HASHTAGS} hashtags.
+3. A newsletter summary of 2 or 3 sentences, at most ${this.NEWSLETTER_WORD_LIMIT} words.
+
+Only use facts from the article. Use a ${options.tone} tone and plain text without markdown.
+
+${this.DERIVATIVES_JSON_FORMAT}`;
+  }
+
+  private static getVideoUrl(article: Article): string {
+    const id = article.metadata?.sourceVideo?.id;
+    return id ? `https://www.youtube.com/watch?v=${id}` : '';
+  }
+
+  private static getHashtags(article: Article, limit: number): string {
+    const hashtags = (article.tags || []).map(toHashtag).filter(Boolean);
+    return Array.from(new Set(hashtags)).slice(0, limit).join(' ');
+  }
+
+  private static truncate(text: string, limit: number): string {
+    const chars = Array.from(text);
+    return chars.length <= limit ? text : `${chars.slice(0, limit - 1).join('').trimEnd()}…`;
+  }
+}
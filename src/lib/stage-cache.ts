@@ -0,0 +1,205 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export type CacheStage = 'metadata' | 'transcription' | 'analysis' | 'generation';
+
+export interface CacheRecord {
+  value: unknown;
+  expiresAt: number; // epoch milliseconds
+}
+
+/**
+ * Storage used by StageCache
+ */
+export interface CacheBackend {
+  get(key: string): Promise<CacheRecord | null>;
+  set(key: string, record: CacheRecord): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+// Seconds. Metadata changes (views, titles); transcripts and analysis practically never do.
+export const DEFAULT_STAGE_TTLS: Record<CacheStage, number> = {
+  metadata: 60 * 60,
+  transcription: 7 * 24 * 60 * 60,
+  analysis: 7 * 24 * 60 * 60,
+  generation: 24 * 60 * 60
+};
+
+/**
+ * Keeps cache records in process memory, evicting the oldest entries beyond maxEntries
+ */
+export class MemoryCacheBackend implements CacheBackend {
+  private records = new Map<string, CacheRecord>();
+  private maxEntries: number;
+
+  constructor(maxEntries: number = 500) {
+    this.maxEntries = maxEntries;
+  }
+
+  async get(key: string): Promise<CacheRecord | null> {
+    return this.records.get(key) || null;
+  }
+
+  async set(key: string, record: CacheRecord): Promise<void> {
+    this.records.delete(key);
+    this.records.set(key, record);
+
+    while (this.records.size > this.maxEntries) {
+      this.records.delete(this.records.keys().next().value as string);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.records.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.records.clear();
+  }
+}
+
+/**
+ * Stores each cache record as a JSON file, so the cache survives restarts
+ */
+export class DiskCacheBackend implements CacheBackend {
+  private directory: string;
+
+  constructor(directory: string = process.env.STAGE_CACHE_DIR || path.join(process.cwd(), '.data', 'cache')) {
+    this.directory = directory;
+  }
+
+  async get(key: string): Promise<CacheRecord | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath(key), 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async set(key: string, record: CacheRecord): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const target = this.filePath(key);
+    const temporary = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(temporary, JSON.stringify(record), 'utf8');
+    await fs.rename(temporary, target);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.filePath(key), { force: true });
+  }
+
+  async clear(): Promise<void> {
+    await fs.rm(this.directory, { recursive: true, force: true });
+  }
+
+  private filePath(key: string): string {
+    // Keys contain ':' and arbitrary ids, so hash them into safe file names
+    return path.join(this.directory, `${hashKey(key)}.json`);
+  }
+}
+
+/**
+ * Caches pipeline stage results by stage and content key, with a TTL per stage.
+ * Backend failures are logged and treated as cache misses.
+ */
+export class StageCache {
+  private backend: CacheBackend;
+  private ttls: Record<CacheStage, number>;
+
+  constructor(backend: CacheBackend, ttls: Partial<Record<CacheStage, number>> = {}) {
+    this.backend = backend;
+    this.ttls = { ...DEFAULT_STAGE_TTLS, ...ttls };
+  }
+
+  async get<T>(stage: CacheStage, key: string): Promise<T | undefined> {
+    const fullKey = `${stage}:${key}`;
+
+    try {
+      const record = await this.backend.get(fullKey);
+      if (!record) {
+        return undefined;
+      }
+      if (record.expiresAt <= Date.now()) {
+        await this.backend.delete(fullKey);
+        return undefined;
+      }
+      return record.value as T;
+    } catch (error) {
+      console.warn(`Stage cache read failed (${stage}):`, error);
+      return undefined;
+    }
+  }
+
+  async set<T>(stage: CacheStage, key: string, value: T): Promise<void> {
+    try {
+      await this.backend.set(`${stage}:${key}`, {
+        value,
+        expiresAt: Date.now() + this.ttls[stage] * 1000
+      });
+    } catch (error) {
+      console.warn(`Stage cache write failed (${stage}):`, error);
+    }
+  }
+
+  async clear(): Promise<void> {
+    await this.backend.clear();
+  }
+}
+
+/**
+ * Stable hash of any JSON-serializable value (object keys are sorted first)
+ */
+export function hashKey(value: unknown): string {
+  const text = typeof value === 'string' ? value : stableStringify(value);
+
+  // cyrb53: fast 53-bit string hash, collisions are negligible at cache scale
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const char = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+}
+
+function stableStringify(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'undefined';
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value instanceof Date) {
+    return JSON.stringify(value.toISOString());
+  }
+
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, entry]) => entry !== undefined)
+    .sort(([a], [b]) => a.localeCompare(b));
+  return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(',')}}`;
+}
+
+let defaultCache: StageCache | null | undefined;
+
+/**
+ * Cache shared by pipelines in this process.
+ * STAGE_CACHE selects the backend: "memory" (default), "disk" or "off".
+ */
+export function getDefaultStageCache(): StageCache | null {
+  if (defaultCache === undefined) {
+    const mode = process.env.STAGE_CACHE || 'memory';
+    defaultCache = mode === 'off'
+      ? null
+      : new StageCache(mode === 'disk' ? new DiskCacheBackend() : new MemoryCacheBackend());
+  }
+  return defaultCache;
+}
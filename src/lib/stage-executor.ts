@@ -0,0 +1,375 @@
+import {
+  VideoMetadata,
+  Transcript,
+  ContentAnalysis,
+  Article,
+  GenerationOptions
+} from '@/types';
+import { ChunkedArticleGenerator, ChunkSummary, TranscriptChunk } from './chunked-article-generator';
+import {
+  AIArticleGenerator,
+  ArticleGenerationResult,
+  GenerationTelemetry,
+  createGenerationTelemetry
+} from './ai-article-generator';
+import { ArticleGenerator } from './article-generator';
+import { ContentAnalyzer } from './content-analyzer';
+import { LLMProviderRegistry } from './llm-providers';
+import { TranscriptService } from './transcript-service';
+import { YouTubeApiService } from './youtube-api';
+import { extractVideoId, validateYouTubeUrl } from './youtube-utils';
+import { createProcessingError, ErrorType, throwIfAborted } from './error-handling';
+import { ArticleDelta, ArticleStreamParser } from './article-stream';
+
+export interface PipelineStageResult<T = any> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  duration: number;
+  // Article generation only: how the article was produced, when the executor reports it
+  telemetry?: GenerationTelemetry;
+}
+
+/**
+ * Runs the individual stages of the processing pipeline
+ */
+export interface StageExecutor {
+  extractMetadata(url: string, signal?: AbortSignal): Promise<PipelineStageResult<VideoMetadata>>;
+  extractTranscript(url: string, signal?: AbortSignal): Promise<PipelineStageResult<Transcript>>;
+  // videoDescription: chapters listed in it are preferred over detected ones
+  analyzeContent(transcript: Transcript, videoDescription?: string, signal?: AbortSignal): Promise<PipelineStageResult<ContentAnalysis>>;
+  summarizeChunk(
+    chunk: TranscriptChunk,
+    totalChunks: number,
+    videoMetadata: VideoMetadata,
+    options: GenerationOptions,
+    signal?: AbortSignal
+  ): Promise<PipelineStageResult<ChunkSummary>>;
+  generateArticle(
+    analysis: ContentAnalysis,
+    videoMetadata: VideoMetadata,
+    transcript: Transcript,
+    options?: GenerationOptions,
+    chunkSummaries?: ChunkSummary[],
+    signal?: AbortSignal,
+    // Receives the article text while it is generated, when the executor can stream it
+    onArticleDelta?: (delta: ArticleDelta) => void
+  ): Promise<PipelineStageResult<Article>>;
+}
+
+/**
+ * Runs each stage by calling this app's API routes over HTTP.
+ * Used from the browser and for talking to a remote deployment.
+ */
+export class HttpStageExecutor implements StageExecutor {
+  private baseUrl: string;
+
+  constructor(baseUrl: string = '') {
+    this.baseUrl = baseUrl;
+  }
+
+  async extractMetadata(url: string, signal?: AbortSignal): Promise<PipelineStageResult<VideoMetadata>> {
+    return this.request(
+      '/api/youtube/metadata',
+      { method: 'POST', body: { url }, signal },
+      result => result.metadata as VideoMetadata,
+      'Failed to extract metadata',
+      'Network error during metadata extraction'
+    );
+  }
+
+  async extractTranscript(url: string, signal?: AbortSignal): Promise<PipelineStageResult<Transcript>> {
+    return this.request(
+      `/api/youtube/transcript?url=${encodeURIComponent(url)}`,
+      { method: 'GET', signal },
+      result => result.data as Transcript,
+      'Failed to extract transcript',
+      'Network error during transcript extraction'
+    );
+  }
+
+  async analyzeContent(transcript: Transcript, videoDescription?: string, signal?: AbortSignal): Promise<PipelineStageResult<ContentAnalysis>> {
+    return this.request(
+      '/api/content/analyze',
+      { method: 'POST', body: { transcript, options: { videoDescription } }, signal },
+      result => result.analysis as ContentAnalysis,
+      'Failed to analyze content',
+      'Network error during content analysis'
+    );
+  }
+
+  async summarizeChunk(
+    chunk: TranscriptChunk,
+    totalChunks: number,
+    videoMetadata: VideoMetadata,
+    options: GenerationOptions,
+    signal?: AbortSignal
+  ): Promise<PipelineStageResult<ChunkSummary>> {
+    return this.request(
+      '/api/content/summarize-chunk',
+      { method: 'POST', body: { chunk, totalChunks, videoMetadata, options }, signal },
+      result => result.summary as ChunkSummary,
+      `Failed to summarize chunk ${chunk.index + 1}`,
+      'Network error during chunk summarization'
+    );
+  }
+
+  async generateArticle(
+    analysis: ContentAnalysis,
+    videoMetadata: VideoMetadata,
+    transcript: Transcript,
+    options?: GenerationOptions,
+    chunkSummaries?: ChunkSummary[],
+    signal?: AbortSignal
+  ): Promise<PipelineStageResult<Article>> {
+    return this.request(
+      '/api/content/generate',
+      { method: 'POST', body: { analysis, videoMetadata, transcript, options, chunkSummaries }, signal },
+      result => result.article as Article,
+      'Failed to generate article',
+      'Network error during article generation',
+      result => result.telemetry as GenerationTelemetry | undefined
+    );
+  }
+
+  private async request<T>(
+    path: string,
+    init: ({ method: 'GET' } | { method: 'POST'; body: unknown }) & { signal?: AbortSignal },
+    pick: (result: Record<string, unknown>) => T,
+    failureMessage: string,
+    networkMessage: string,
+    pickTelemetry?: (result: Record<string, unknown>) => GenerationTelemetry | undefined
+  ): Promise<PipelineStageResult<T>> {
+    const startTime = Date.now();
+
+    try {
+      const response = init.method === 'GET'
+        ? await fetch(`${this.baseUrl}${path}`, { signal: init.signal })
+        : await fetch(`${this.baseUrl}${path}`, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify(init.body),
+            signal: init.signal
+          });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        return {
+          success: false,
+          error: (result.error as string) || failureMessage,
+          duration: Date.now() - startTime
+        };
+      }
+
+      const telemetry = pickTelemetry?.(result);
+      return {
+        success: true,
+        data: pick(result),
+        duration: Date.now() - startTime,
+        ...(telemetry ? { telemetry } : {})
+      };
+
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : networkMessage,
+        duration: Date.now() - startTime
+      };
+    }
+  }
+}
+
+// Same limits as /api/youtube/metadata
+const MAX_VIDEO_DURATION = 3 * 60 * 60; // seconds
+const MIN_VIDEO_DURATION = 60;
+
+/**
+ * Runs each stage in-process by calling the library services directly.
+ * Mirrors the validation and error messages of the corresponding API routes.
+ */
+export class DirectStageExecutor implements StageExecutor {
+  private apiKey?: string;
+
+  constructor(apiKey: string | undefined = process.env.YOUTUBE_API_KEY) {
+    this.apiKey = apiKey;
+  }
+
+  async extractMetadata(url: string, signal?: AbortSignal): Promise<PipelineStageResult<VideoMetadata>> {
+    return this.run(async () => {
+      const validation = validateYouTubeUrl(url);
+      if (!validation.isValid) {
+        throw createProcessingError(ErrorType.INVALID_URL);
+      }
+      if (!this.apiKey) {
+        throw createProcessingError(ErrorType.API_KEY_INVALID);
+      }
+
+      let metadata: VideoMetadata;
+      try {
+        metadata = await new YouTubeApiService(this.apiKey).getVideoMetadata(validation.videoId!, signal);
+      } catch (error) {
+        throwIfAborted(signal);
+        throw createProcessingError(metadataErrorType(error), error instanceof Error ? error : undefined);
+      }
+
+      if (metadata.duration > MAX_VIDEO_DURATION) {
+        throw createProcessingError(ErrorType.VIDEO_TOO_LONG);
+      }
+      if (metadata.duration < MIN_VIDEO_DURATION) {
+        throw createProcessingError(ErrorType.VIDEO_TOO_SHORT);
+      }
+      return metadata;
+    }, 'Failed to extract metadata', signal);
+  }
+
+  async extractTranscript(url: string, signal?: AbortSignal): Promise<PipelineStageResult<Transcript>> {
+    return this.run(async () => {
+      const videoId = extractVideoId(url);
+      if (!videoId) {
+        throw createProcessingError(ErrorType.INVALID_URL);
+      }
+
+      // youtube-transcript cannot be aborted, so a cancel takes effect once it returns
+      try {
+        return await TranscriptService.extractTranscript(videoId, { lang: 'en', country: 'US' });
+      } catch (error) {
+        throwIfAborted(signal);
+        throw createProcessingError(transcriptErrorType(error), error instanceof Error ? error : undefined);
+      }
+    }, 'Failed to extract transcript', signal);
+  }
+
+  async analyzeContent(transcript: Transcript, videoDescription?: string, signal?: AbortSignal): Promise<PipelineStageResult<ContentAnalysis>> {
+    return this.run(async () => {
+      if (!transcript || !Array.isArray(transcript.segments)) {
+        throw new Error('Transcript must contain segments array');
+      }
+      return ContentAnalyzer.analyzeContent(transcript, { videoDescription });
+    }, 'Failed to analyze content', signal);
+  }
+
+  async summarizeChunk(
+    chunk: TranscriptChunk,
+    totalChunks: number,
+    videoMetadata: VideoMetadata,
+    options: GenerationOptions,
+    signal?: AbortSignal
+  ): Promise<PipelineStageResult<ChunkSummary>> {
+    return this.run(async () => {
+      assertKnownProvider(options);
+      return ChunkedArticleGenerator.summarizeChunk(chunk, totalChunks || 1, videoMetadata, options, signal);
+    }, `Failed to summarize chunk ${chunk.index + 1}`, signal);
+  }
+
+  async generateArticle(
+    analysis: ContentAnalysis,
+    videoMetadata: VideoMetadata,
+    transcript: Transcript,
+    options?: GenerationOptions,
+    chunkSummaries?: ChunkSummary[],
+    signal?: AbortSignal,
+    onArticleDelta?: (delta: ArticleDelta) => void
+  ): Promise<PipelineStageResult<Article>> {
+    const result = await this.run(async (): Promise<ArticleGenerationResult> => {
+      assertKnownProvider(options);
+      const resolved: GenerationOptions = {
+        length: 'medium',
+        tone: 'professional',
+        format: 'markdown',
+        includeTimestamps: false,
+        ...options
+      };
+
+      const parser = new ArticleStreamParser();
+      const onToken = onArticleDelta
+        ? (token: string) => parser.push(token).forEach(onArticleDelta)
+        : undefined;
+
+      // AI generation first, falling back to templates like /api/content/generate
+      try {
+        return chunkSummaries
+          ? await ChunkedArticleGenerator.composeArticleWithTelemetry(chunkSummaries, analysis, videoMetadata, transcript, resolved, undefined, signal, onToken)
+          : await AIArticleGenerator.generateArticleWithTelemetry(analysis, videoMetadata, transcript, resolved, signal, onToken);
+      } catch (error) {
+        throwIfAborted(signal);
+        console.warn('AI generation failed, falling back to template-based generation:', error);
+        return {
+          article: ArticleGenerator.generateArticle(analysis, videoMetadata, transcript, resolved),
+          telemetry: AIArticleGenerator.recordFallback(createGenerationTelemetry(), error)
+        };
+      }
+    }, 'Failed to generate article', signal);
+
+    const { data, ...rest } = result;
+    return data ? { ...rest, data: data.article, telemetry: data.telemetry } : rest;
+  }
+
+  private async run<T>(
+    stage: () => Promise<T>,
+    failureMessage: string,
+    signal?: AbortSignal
+  ): Promise<PipelineStageResult<T>> {
+    const startTime = Date.now();
+
+    try {
+      throwIfAborted(signal);
+      const data = await stage();
+      throwIfAborted(signal);
+
+      return {
+        success: true,
+        data,
+        duration: Date.now() - startTime
+      };
+    } catch (error) {
+      // Processing errors use their user-facing message, the same one the API routes return
+      return {
+        success: false,
+        error: (error instanceof Error && error.message) || failureMessage,
+        duration: Date.now() - startTime
+      };
+    }
+  }
+}
+
+function assertKnownProvider(options?: GenerationOptions): void {
+  if (options?.provider !== undefined && !LLMProviderRegistry.has(options.provider)) {
+    throw new Error(`Unknown LLM provider: ${options.provider}`);
+  }
+}
+
+function metadataErrorType(error: unknown): ErrorType {
+  if (!(error instanceof Error)) {
+    return ErrorType.SERVICE_UNAVAILABLE;
+  }
+
+  const message = error.message;
+  if (message.includes('not found') || message.includes('private') || message.includes('deleted')) {
+    return ErrorType.PRIVATE_VIDEO;
+  }
+  if (message.includes('live')) {
+    return ErrorType.LIVE_STREAM;
+  }
+  if (message.includes('quota') || message.includes('limit')) {
+    return ErrorType.API_QUOTA_EXCEEDED;
+  }
+  return ErrorType.SERVICE_UNAVAILABLE;
+}
+
+function transcriptErrorType(error: unknown): ErrorType {
+  const message = error instanceof Error ? error.message : '';
+
+  if (message.includes('Transcript is disabled') || message.includes('No transcript found')) {
+    return ErrorType.NO_TRANSCRIPT;
+  }
+  if (message.includes('Video unavailable') || message.includes('Private video')) {
+    return ErrorType.PRIVATE_VIDEO;
+  }
+  if (message.includes('language') && message.includes('unavailable')) {
+    return ErrorType.TRANSCRIPT_LANGUAGE_UNAVAILABLE;
+  }
+  return ErrorType.PROCESSING_FAILED;
+}
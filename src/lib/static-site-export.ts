@@ -0,0 +1,251 @@
+import {
+  Article,
+  FrontMatterField,
+  FrontMatterFormat,
+  FrontMatterValue,
+  SiteProfileOverrides,
+  StaticSiteFormat
+} from '@/types';
+import { slugify } from './template-engine';
+
+/**
+ * Front matter for static-site generator exports (Hugo, Jekyll, Astro and
+ * Next.js MDX). Each generator has a site profile that maps the article
+ * fields to front matter keys; exports can override the mapping per site.
+ */
+
+export const STATIC_SITE_FORMATS: StaticSiteFormat[] = ['hugo', 'jekyll', 'astro', 'next-mdx'];
+
+export const FRONT_MATTER_FIELDS: FrontMatterField[] = ['title', 'date', 'slug', 'tags', 'description', 'thumbnail', 'canonicalUrl'];
+
+export interface SiteProfile {
+  frontMatterFormat: FrontMatterFormat;
+  // Front matter key of each article field; fields mapped to '' are left out
+  fields: Record<FrontMatterField, string>;
+  // Fixed entries written after the article fields, e.g. a Jekyll layout
+  extra: Record<string, FrontMatterValue>;
+  extension: 'md' | 'mdx';
+}
+
+export class SiteProfileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SiteProfileError';
+  }
+}
+
+// Default profiles follow each generator's starter blog
+export const siteProfiles: Record<StaticSiteFormat, SiteProfile> = {
+  hugo: {
+    frontMatterFormat: 'toml',
+    fields: {
+      title: 'title',
+      date: 'date',
+      slug: 'slug',
+      tags: 'tags',
+      description: 'description',
+      thumbnail: 'thumbnail',
+      canonicalUrl: 'canonicalURL'
+    },
+    extra: { draft: false },
+    extension: 'md'
+  },
+  jekyll: {
+    frontMatterFormat: 'yaml',
+    fields: {
+      title: 'title',
+      date: 'date',
+      slug: 'slug',
+      tags: 'tags',
+      description: 'description',
+      thumbnail: 'image',
+      canonicalUrl: 'canonical_url'
+    },
+    extra: { layout: 'post' },
+    extension: 'md'
+  },
+  astro: {
+    frontMatterFormat: 'yaml',
+    fields: {
+      title: 'title',
+      date: 'pubDate',
+      slug: 'slug',
+      tags: 'tags',
+      description: 'description',
+      thumbnail: 'heroImage',
+      canonicalUrl: 'canonicalURL'
+    },
+    extra: {},
+    extension: 'md'
+  },
+  'next-mdx': {
+    frontMatterFormat: 'yaml',
+    fields: {
+      title: 'title',
+      date: 'date',
+      slug: 'slug',
+      tags: 'tags',
+      description: 'description',
+      thumbnail: 'image',
+      canonicalUrl: 'canonical'
+    },
+    extra: {},
+    extension: 'mdx'
+  }
+};
+
+export function isStaticSiteFormat(format: string): format is StaticSiteFormat {
+  return (STATIC_SITE_FORMATS as string[]).includes(format);
+}
+
+function isFrontMatterValue(value: unknown): value is FrontMatterValue {
+  return typeof value === 'string' ||
+    typeof value === 'boolean' ||
+    (typeof value === 'number' && Number.isFinite(value)) ||
+    value instanceof Date ||
+    (Array.isArray(value) && value.every(item => typeof item === 'string'));
+}
+
+/**
+ * The generator's default profile with the overrides applied. Throws a
+ * SiteProfileError for unknown fields, invalid values or keys used twice.
+ */
+export function resolveSiteProfile(format: StaticSiteFormat, overrides: SiteProfileOverrides = {}): SiteProfile {
+  const profile = siteProfiles[format];
+  const { frontMatterFormat = profile.frontMatterFormat, fields = {}, extra = {} } = overrides;
+
+  if (frontMatterFormat !== 'yaml' && frontMatterFormat !== 'toml') {
+    throw new SiteProfileError(`Unsupported front matter format: ${String(frontMatterFormat)}`);
+  }
+
+  for (const [field, key] of Object.entries(fields)) {
+    if (!(FRONT_MATTER_FIELDS as string[]).includes(field)) {
+      throw new SiteProfileError(`Unknown front matter field: ${field}`);
+    }
+    if (typeof key !== 'string') {
+      throw new SiteProfileError(`Front matter key for ${field} must be a string`);
+    }
+  }
+
+  for (const [key, value] of Object.entries(extra)) {
+    if (!isFrontMatterValue(value)) {
+      throw new SiteProfileError(`Front matter value for ${key} must be a string, number, boolean, date or list of strings`);
+    }
+  }
+
+  const resolved: SiteProfile = {
+    ...profile,
+    frontMatterFormat,
+    fields: { ...profile.fields, ...trimKeys(fields) },
+    extra: { ...profile.extra, ...extra }
+  };
+
+  const keys = [...Object.values(resolved.fields).filter(Boolean), ...Object.keys(resolved.extra)];
+  const repeated = keys.find((key, index) => keys.indexOf(key) !== index);
+  if (repeated) {
+    throw new SiteProfileError(`Front matter key "${repeated}" is used more than once`);
+  }
+
+  return resolved;
+}
+
+/**
+ * Keep the stored profile overrides that still resolve, e.g. when loading preferences
+ */
+export function sanitizeSiteProfiles(value: unknown): Partial<Record<StaticSiteFormat, SiteProfileOverrides>> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+
+  const profiles: Partial<Record<StaticSiteFormat, SiteProfileOverrides>> = {};
+  for (const [format, overrides] of Object.entries(value)) {
+    if (!isStaticSiteFormat(format) || !overrides || typeof overrides !== 'object') continue;
+    try {
+      resolveSiteProfile(format, overrides as SiteProfileOverrides);
+      profiles[format] = overrides as SiteProfileOverrides;
+    } catch {
+      // Invalid profiles fall back to the generator defaults
+    }
+  }
+  return profiles;
+}
+
+function trimKeys(fields: Partial<Record<FrontMatterField, string>>): Partial<Record<FrontMatterField, string>> {
+  return Object.fromEntries(Object.entries(fields).map(([field, key]) => [field, (key as string).trim()]));
+}
+
+/**
+ * Front matter entries of an article, in profile order. Empty descriptions
+ * and thumbnails are left out.
+ */
+export function getFrontMatterEntries(article: Article, profile: SiteProfile, date: Date): Array<[string, FrontMatterValue]> {
+  const video = article.metadata?.sourceVideo;
+  const values: Record<FrontMatterField, FrontMatterValue> = {
+    title: article.title,
+    date,
+    slug: slugify(article.title),
+    tags: article.tags || [],
+    description: article.metadata?.metaDescription || '',
+    thumbnail: video?.thumbnailUrl || '',
+    canonicalUrl: video?.id ? `https://www.youtube.com/watch?v=${video.id}` : ''
+  };
+
+  const entries: Array<[string, FrontMatterValue]> = FRONT_MATTER_FIELDS
+    .filter(field => profile.fields[field] && values[field] !== '')
+    .map(field => [profile.fields[field], values[field]]);
+
+  return [...entries, ...Object.entries(profile.extra)];
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+function formatScalar(value: Exclude<FrontMatterValue, string[]>): string {
+  if (value instanceof Date) return formatDate(value);
+  // JSON strings are valid double-quoted strings in both YAML and TOML
+  return typeof value === 'string' ? JSON.stringify(value) : String(value);
+}
+
+function formatKey(key: string, format: FrontMatterFormat): string {
+  const bare = format === 'yaml' ? /^[A-Za-z_][\w-]*$/ : /^[A-Za-z0-9_-]+$/;
+  return bare.test(key) ? key : JSON.stringify(key);
+}
+
+/**
+ * Front matter block between --- (YAML) or +++ (TOML) delimiters
+ */
+export function serializeFrontMatter(entries: Array<[string, FrontMatterValue]>, format: FrontMatterFormat): string {
+  const lines = entries.map(([key, value]) => {
+    const name = formatKey(key, format);
+    if (format === 'toml') {
+      const formatted = Array.isArray(value) ? `[${value.map(item => JSON.stringify(item)).join(', ')}]` : formatScalar(value);
+      return `${name} = ${formatted}`;
+    }
+    if (Array.isArray(value)) {
+      return value.length === 0 ? `${name}: []` : `${name}:\n${value.map(item => `  - ${JSON.stringify(item)}`).join('\n')}`;
+    }
+    return `${name}: ${formatScalar(value)}`;
+  });
+
+  const delimiter = format === 'toml' ? '+++' : '---';
+  return `${delimiter}\n${lines.join('\n')}\n${delimiter}\n`;
+}
+
+/**
+ * Escape text for MDX, where { and < start JavaScript expressions and JSX.
+ * Code spans and fenced code blocks are left as they are.
+ */
+export function escapeMdx(value: string): string {
+  return value
+    .split(/(```[\s\S]*?```|`[^`\n]+`)/)
+    .map((part, index) => index % 2 === 1 ? part : part.replace(/[{}<]/g, '\\$&'))
+    .join('');
+}
+
+/**
+ * File name for a static-site export. Jekyll posts are named after their date.
+ */
+export function createStaticSiteFilename(title: string, format: StaticSiteFormat, profile: SiteProfile, date: Date): string {
+  const slug = slugify(title) || 'article';
+  const prefix = format === 'jekyll' ? `${formatDate(date).slice(0, 10)}-` : '';
+  return `${prefix}${slug}.${profile.extension}`;
+}
@@ -0,0 +1,447 @@
+import { TranscriptProcessor } from './transcript-processor';
+import { escapeHtml } from './html-sanitizer';
+
+/**
+ * Template engine for export templates, compatible with the subset of
+ * Handlebars the export templates use:
+ *
+ * - `{{path}}` (escaped when rendering HTML) and `{{{path}}}` / `{{& path}}` (never escaped)
+ * - `{{#if}}`, `{{#unless}}`, `{{#each}}` and `{{#with}}` blocks, each with an optional `{{else}}`
+ * - `@index`, `@first`, `@last`, `@key`, `@root` and `../` inside blocks
+ * - partials (`{{> name}}` or `{{> name context}}`), which may call themselves
+ * - helpers called with positional arguments (`{{date publishDate "YYYY-MM-DD"}}`)
+ * - comments (`{{! ... }}` and `{{!-- ... --}}`)
+ *
+ * Like Handlebars, a block, else, partial or comment tag that stands alone on
+ * its line removes that line from the output. Unlike Handlebars, helpers do not
+ * receive an options object, and only own properties of the data can be looked up.
+ */
+
+export type TemplateHelper = (...args: unknown[]) => unknown;
+
+export interface TemplateOptions {
+  // 'html' escapes the output of {{...}} tags; a function escapes it for other formats (e.g. MDX)
+  escape?: 'html' | 'none' | ((value: string) => string);
+  partials?: Record<string, string>;
+  // Added to (and overriding) the default helpers
+  helpers?: Record<string, TemplateHelper>;
+}
+
+export class TemplateError extends Error {
+  line?: number;
+
+  constructor(message: string, line?: number) {
+    super(line === undefined ? message : `${message} (line ${line})`);
+    this.name = 'TemplateError';
+    this.line = line;
+  }
+}
+
+/**
+ * A string helpers can return to keep it from being escaped
+ */
+export class SafeString {
+  constructor(private readonly value: string) {}
+
+  toString(): string {
+    return this.value;
+  }
+}
+
+type Param =
+  | { type: 'literal'; value: unknown }
+  | { type: 'path'; path: string };
+
+export type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'mustache'; name: string; params: Param[]; escape: boolean; line: number }
+  | { type: 'block'; name: string; params: Param[]; program: TemplateNode[]; inverse: TemplateNode[]; line: number }
+  | { type: 'partial'; name: string; context?: Param; line: number };
+
+type TagKind = 'mustache' | 'raw' | 'open' | 'else' | 'close' | 'partial' | 'comment';
+
+type Token =
+  | { type: 'text'; value: string }
+  | { type: 'tag'; kind: TagKind; expression: string; line: number };
+
+// Tags that remove their line from the output when they stand alone on it
+const STANDALONE_KINDS: TagKind[] = ['open', 'else', 'close', 'partial', 'comment'];
+
+const MAX_PARTIAL_DEPTH = 64;
+const MAX_CACHED_TEMPLATES = 100;
+
+/**
+ * URL-friendly version of a text: lowercase ASCII words joined by hyphens
+ */
+export function slugify(value: string): string {
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+const DATE_TOKENS = /YYYY|MM|DD|HH|mm|ss/g;
+
+export const defaultHelpers: Record<string, TemplateHelper> = {
+  // Format a date (Date, ISO string or epoch milliseconds) in UTC, e.g. {{date publishDate "DD.MM.YYYY"}}
+  date(value, format = 'YYYY-MM-DD') {
+    if (value === undefined || value === null || value === '') return '';
+    const date = value instanceof Date ? value : new Date(value as string | number);
+    if (isNaN(date.getTime())) return '';
+
+    const parts: Record<string, number> = {
+      YYYY: date.getUTCFullYear(),
+      MM: date.getUTCMonth() + 1,
+      DD: date.getUTCDate(),
+      HH: date.getUTCHours(),
+      mm: date.getUTCMinutes(),
+      ss: date.getUTCSeconds()
+    };
+    return String(format).replace(DATE_TOKENS, token => String(parts[token]).padStart(token.length, '0'));
+  },
+
+  // URL-friendly version of a text, e.g. "Hello, World!" becomes "hello-world"
+  slug(value) {
+    return slugify(String(value ?? ''));
+  },
+
+  // Join a list, with ", " unless another separator is given
+  join(value, separator = ', ') {
+    return Array.isArray(value) ? value.map(item => String(item ?? '')).join(String(separator)) : '';
+  },
+
+  // Video position in seconds as m:ss or h:mm:ss
+  timestamp(value) {
+    const seconds = Number(value);
+    return value === null || value === '' || isNaN(seconds) ? '' : TranscriptProcessor.formatTimestamp(seconds);
+  }
+};
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+  let line = 1;
+
+  while (position < source.length) {
+    const start = source.indexOf('{{', position);
+    if (start === -1) {
+      tokens.push({ type: 'text', value: source.slice(position) });
+      break;
+    }
+
+    if (start > position) {
+      const text = source.slice(position, start);
+      tokens.push({ type: 'text', value: text });
+      line += text.split('\n').length - 1;
+    }
+
+    const triple = source.startsWith('{{{', start);
+    const longComment = source.startsWith('{{!--', start);
+    const closing = triple ? '}}}' : longComment ? '--}}' : '}}';
+    const end = source.indexOf(closing, start + 2);
+    if (end === -1) {
+      throw new TemplateError('Unclosed tag', line);
+    }
+
+    const inner = source.slice(start + (triple ? 3 : 2), end).trim();
+    tokens.push({ type: 'tag', line, ...classifyTag(inner, triple) });
+
+    line += source.slice(start, end).split('\n').length - 1;
+    position = end + closing.length;
+  }
+
+  return stripStandaloneLines(tokens);
+}
+
+function classifyTag(inner: string, triple: boolean): { kind: TagKind; expression: string } {
+  if (triple) return { kind: 'raw', expression: inner };
+
+  switch (inner[0]) {
+    case '!': return { kind: 'comment', expression: '' };
+    case '#': return { kind: 'open', expression: inner.slice(1).trim() };
+    case '/': return { kind: 'close', expression: inner.slice(1).trim() };
+    case '>': return { kind: 'partial', expression: inner.slice(1).trim() };
+    case '&': return { kind: 'raw', expression: inner.slice(1).trim() };
+  }
+  return inner === 'else' ? { kind: 'else', expression: '' } : { kind: 'mustache', expression: inner };
+}
+
+function stripStandaloneLines(tokens: Token[]): Token[] {
+  const last = tokens.length - 1;
+
+  // Decide on the original text first, since neighbouring tags share text tokens
+  const standalone = tokens.map((token, i) => {
+    if (token.type !== 'tag' || !STANDALONE_KINDS.includes(token.kind)) return false;
+
+    const previous = tokens[i - 1];
+    const next = tokens[i + 1];
+    const startsLine = i === 0 || (previous.type === 'text' &&
+      (/\n[ \t]*$/.test(previous.value) || (i === 1 && /^[ \t]*$/.test(previous.value))));
+    const endsLine = i === last || (next.type === 'text' &&
+      (/^[ \t]*\r?\n/.test(next.value) || (i + 1 === last && /^[ \t]*$/.test(next.value))));
+    return startsLine && endsLine;
+  });
+
+  return tokens.map((token, i) => {
+    if (token.type !== 'text') return token;
+
+    let value = token.value;
+    if (standalone[i - 1]) value = value.replace(/^[ \t]*(\r?\n)?/, '');
+    if (standalone[i + 1]) value = value.replace(/[ \t]*$/, '');
+    return { type: 'text', value };
+  });
+}
+
+function parseParams(expression: string, line: number): { name: string; params: Param[] } {
+  const [name, ...rest] = expression.match(/"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|\S+/g) || [];
+  if (name === undefined) {
+    throw new TemplateError('Empty tag', line);
+  }
+
+  return { name: unquote(name), params: rest.map(parseParam) };
+}
+
+function parseParam(word: string): Param {
+  if (/^(["']).*\1$/.test(word)) return { type: 'literal', value: unquote(word) };
+  if (/^-?\d+(\.\d+)?$/.test(word)) return { type: 'literal', value: Number(word) };
+  if (word === 'true' || word === 'false') return { type: 'literal', value: word === 'true' };
+  if (word === 'null' || word === 'undefined') return { type: 'literal', value: undefined };
+  return { type: 'path', path: word };
+}
+
+function unquote(word: string): string {
+  return /^(["']).*\1$/.test(word) ? word.slice(1, -1).replace(/\\(.)/g, '$1') : word;
+}
+
+/**
+ * Parse a template into its node tree, throwing TemplateError on syntax errors
+ */
+export function compileTemplate(source: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: { block: Extract<TemplateNode, { type: 'block' }>; inElse: boolean }[] = [];
+  const current = (): TemplateNode[] => {
+    const top = stack[stack.length - 1];
+    return !top ? root : top.inElse ? top.block.inverse : top.block.program;
+  };
+
+  for (const token of tokenize(source)) {
+    if (token.type === 'text') {
+      if (token.value) current().push({ type: 'text', value: token.value });
+      continue;
+    }
+
+    const { kind, expression, line } = token;
+    switch (kind) {
+      case 'comment':
+        break;
+      case 'mustache':
+      case 'raw':
+        current().push({ type: 'mustache', ...parseParams(expression, line), escape: kind === 'mustache', line });
+        break;
+      case 'partial': {
+        const { name, params } = parseParams(expression, line);
+        current().push({ type: 'partial', name, context: params[0], line });
+        break;
+      }
+      case 'open': {
+        const block = { type: 'block' as const, ...parseParams(expression, line), program: [], inverse: [], line };
+        current().push(block);
+        stack.push({ block, inElse: false });
+        break;
+      }
+      case 'else': {
+        const top = stack[stack.length - 1];
+        if (!top || top.inElse) {
+          throw new TemplateError('Unexpected {{else}}', line);
+        }
+        top.inElse = true;
+        break;
+      }
+      case 'close': {
+        const top = stack.pop();
+        if (!top) {
+          throw new TemplateError(`Unexpected {{/${expression}}}`, line);
+        }
+        if (top.block.name !== expression) {
+          throw new TemplateError(`{{#${top.block.name}}} from line ${top.block.line} closed by {{/${expression}}}`, line);
+        }
+        break;
+      }
+    }
+  }
+
+  const unclosed = stack.pop();
+  if (unclosed) {
+    throw new TemplateError(`Unclosed {{#${unclosed.block.name}}}`, unclosed.block.line);
+  }
+
+  return root;
+}
+
+const compiledTemplates = new Map<string, TemplateNode[]>();
+
+function getCompiledTemplate(source: string): TemplateNode[] {
+  let nodes = compiledTemplates.get(source);
+  if (!nodes) {
+    nodes = compileTemplate(source);
+    if (compiledTemplates.size >= MAX_CACHED_TEMPLATES) compiledTemplates.clear();
+    compiledTemplates.set(source, nodes);
+  }
+  return nodes;
+}
+
+interface Frame {
+  context: unknown;
+  parent?: Frame;
+  data: Record<string, unknown>;
+}
+
+interface RenderState {
+  root: unknown;
+  escape: ((value: string) => string) | null;
+  partials: Record<string, string>;
+  helpers: Record<string, TemplateHelper>;
+  depth: number;
+}
+
+function lookup(value: unknown, key: string): unknown {
+  if (value === null || value === undefined) return undefined;
+  return Object.prototype.hasOwnProperty.call(value, key)
+    ? (value as Record<string, unknown>)[key]
+    : undefined;
+}
+
+function resolvePath(path: string, frame: Frame, state: RenderState): unknown {
+  if (path.startsWith('@')) {
+    const [name, ...rest] = path.slice(1).split('.');
+    const base = name === 'root' ? state.root : frame.data[name];
+    return rest.reduce(lookup, base);
+  }
+
+  let target: Frame | undefined = frame;
+  let remaining = path;
+  while (remaining.startsWith('../')) {
+    target = target?.parent;
+    remaining = remaining.slice(3);
+  }
+  if (!target) return undefined;
+
+  const segments = remaining.split(/[./]/).filter(Boolean);
+  if (segments[0] === 'this') segments.shift();
+  return segments.reduce(lookup, target.context);
+}
+
+function evaluate(param: Param, frame: Frame, state: RenderState): unknown {
+  return param.type === 'literal' ? param.value : resolvePath(param.path, frame, state);
+}
+
+// Handlebars truthiness: empty arrays are falsy as well
+function isTruthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+function stringify(value: unknown, escape: ((value: string) => string) | null): string {
+  if (value instanceof SafeString) return value.toString();
+  if (value === null || value === undefined) return '';
+  return escape ? escape(String(value)) : String(value);
+}
+
+function renderNodes(nodes: TemplateNode[], frame: Frame, state: RenderState): string {
+  let output = '';
+  for (const node of nodes) {
+    output += renderNode(node, frame, state);
+  }
+  return output;
+}
+
+function renderNode(node: TemplateNode, frame: Frame, state: RenderState): string {
+  switch (node.type) {
+    case 'text':
+      return node.value;
+
+    case 'mustache': {
+      const helper = Object.prototype.hasOwnProperty.call(state.helpers, node.name) ? state.helpers[node.name] : undefined;
+      if (!helper && node.params.length > 0) {
+        throw new TemplateError(`Unknown helper "${node.name}"`, node.line);
+      }
+      const value = helper
+        ? helper(...node.params.map(param => evaluate(param, frame, state)))
+        : resolvePath(node.name, frame, state);
+      return stringify(value, node.escape ? state.escape : null);
+    }
+
+    case 'block':
+      return renderBlock(node, frame, state);
+
+    case 'partial': {
+      const source = Object.prototype.hasOwnProperty.call(state.partials, node.name) ? state.partials[node.name] : undefined;
+      if (source === undefined) {
+        throw new TemplateError(`Unknown partial "${node.name}"`, node.line);
+      }
+      if (state.depth >= MAX_PARTIAL_DEPTH) {
+        throw new TemplateError(`Partials nested more than ${MAX_PARTIAL_DEPTH} levels deep`, node.line);
+      }
+
+      const partialFrame = node.context
+        ? { context: evaluate(node.context, frame, state), parent: frame, data: frame.data }
+        : frame;
+      state.depth++;
+      try {
+        return renderNodes(getCompiledTemplate(source), partialFrame, state);
+      } finally {
+        state.depth--;
+      }
+    }
+  }
+}
+
+function renderBlock(node: Extract<TemplateNode, { type: 'block' }>, frame: Frame, state: RenderState): string {
+  const value = node.params[0] ? evaluate(node.params[0], frame, state) : undefined;
+
+  switch (node.name) {
+    case 'if':
+      return renderNodes(isTruthy(value) ? node.program : node.inverse, frame, state);
+
+    case 'unless':
+      return renderNodes(isTruthy(value) ? node.inverse : node.program, frame, state);
+
+    case 'with':
+      return isTruthy(value)
+        ? renderNodes(node.program, { context: value, parent: frame, data: frame.data }, state)
+        : renderNodes(node.inverse, frame, state);
+
+    case 'each': {
+      const entries: [string | number, unknown][] = Array.isArray(value)
+        ? value.map((item, index) => [index, item])
+        : typeof value === 'object' && value !== null ? Object.entries(value) : [];
+      if (entries.length === 0) {
+        return renderNodes(node.inverse, frame, state);
+      }
+
+      return entries.map(([key, item], index) => renderNodes(node.program, {
+        context: item,
+        parent: frame,
+        data: { ...frame.data, index, key, first: index === 0, last: index === entries.length - 1 }
+      }, state)).join('');
+    }
+
+    default:
+      throw new TemplateError(`Unknown block helper "${node.name}"`, node.line);
+  }
+}
+
+/**
+ * Render a template with the given data
+ */
+export function renderTemplate(source: string, data: unknown, options: TemplateOptions = {}): string {
+  const state: RenderState = {
+    root: data,
+    escape: options.escape === 'html' ? escapeHtml : typeof options.escape === 'function' ? options.escape : null,
+    partials: options.partials || {},
+    helpers: { ...defaultHelpers, ...options.helpers },
+    depth: 0
+  };
+  return renderNodes(getCompiledTemplate(source), { context: data, data: {} }, state);
+}
@@ -1,5 +1,6 @@
 import { YoutubeTranscript } from 'youtube-transcript';
 import { Transcript, TranscriptSegment } from '@/types';
+import { CaptionParser, CaptionParseOptions } from './caption-parser';
 
 export interface TranscriptOptions {
   lang?: string;
@@ -13,7 +14,7 @@ export interface AvailableCaption {
 }
 
 /**
- * Service for extracting transcripts from YouTube videos
+ * Service for extracting transcripts from YouTube videos or uploaded caption files
  */
 export class TranscriptService {
   /**
@@ -100,4 +101,11 @@ export class TranscriptService {
       return false;
     }
   }
+
+  /**
+   * Build a transcript from an uploaded caption file (SRT, WebVTT, SBV or TTML)
+   */
+  static parseCaptionFile(content: string, options: CaptionParseOptions = {}): Transcript {
+    return CaptionParser.parse(content, options);
+  }
 }
\ No newline at end of file
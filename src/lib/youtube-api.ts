@@ -1,5 +1,20 @@
 import { VideoMetadata } from '@/types';
-import { parseIsoDuration } from './youtube-utils';
+import { parseIsoDuration, YouTubeCollection } from './youtube-utils';
+
+export interface PlaylistVideo {
+  id: string;
+  title: string;
+  position: number;
+  thumbnailUrl?: string;
+  publishedAt?: Date;
+}
+
+export interface CollectionInfo {
+  type: 'playlist' | 'channel';
+  id: string;
+  title: string;
+  channelName?: string;
+}
 
 export class YouTubeApiError extends Error {
   code: number;
@@ -32,11 +47,11 @@ export class YouTubeApiService {
   /**
    * Fetches video metadata from YouTube Data API v3
    */
-  async getVideoMetadata(videoId: string): Promise<VideoMetadata> {
+  async getVideoMetadata(videoId: string, signal?: AbortSignal): Promise<VideoMetadata> {
     const url = `${this.baseUrl}/videos?part=snippet,statistics,contentDetails&id=${videoId}&key=${this.apiKey}`;
 
     try {
-      const response = await fetch(url);
+      const response = await fetch(url, { signal });
       const data = await response.json();
 
       if (!response.ok) {
@@ -98,4 +113,111 @@ export class YouTubeApiService {
       };
     }
   }
+
+  /**
+   * Lists videos in a playlist, following pagination up to maxVideos.
+   * Private and deleted entries are skipped.
+   */
+  async getPlaylistVideos(playlistId: string, maxVideos = 50): Promise<PlaylistVideo[]> {
+    const videos: PlaylistVideo[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const data = await this.request('playlistItems', {
+        part: 'snippet,contentDetails',
+        playlistId,
+        maxResults: String(Math.min(50, maxVideos - videos.length)),
+        ...(pageToken ? { pageToken } : {})
+      });
+
+      for (const item of data.items || []) {
+        const videoId = item.contentDetails?.videoId || item.snippet?.resourceId?.videoId;
+        // Private and deleted videos stay in playlists without a publish date
+        if (!videoId || !item.contentDetails?.videoPublishedAt) continue;
+
+        videos.push({
+          id: videoId,
+          title: item.snippet?.title || videoId,
+          position: item.snippet?.position ?? videos.length,
+          thumbnailUrl: item.snippet?.thumbnails?.medium?.url || item.snippet?.thumbnails?.default?.url,
+          publishedAt: new Date(item.contentDetails.videoPublishedAt)
+        });
+
+        if (videos.length >= maxVideos) break;
+      }
+
+      pageToken = data.nextPageToken;
+    } while (pageToken && videos.length < maxVideos);
+
+    return videos;
+  }
+
+  /**
+   * Resolves a playlist or channel to its title and the videos it contains.
+   * Channels are enumerated through their uploads playlist.
+   */
+  async getCollectionVideos(
+    collection: YouTubeCollection,
+    maxVideos = 50
+  ): Promise<{ info: CollectionInfo; videos: PlaylistVideo[] }> {
+    if (collection.type === 'playlist') {
+      const data = await this.request('playlists', { part: 'snippet', id: collection.playlistId });
+      const playlist = data.items?.[0];
+      if (!playlist) {
+        throw new YouTubeApiError('Playlist not found. It may be private or deleted.', 404);
+      }
+
+      return {
+        info: {
+          type: 'playlist',
+          id: collection.playlistId,
+          title: playlist.snippet.title,
+          channelName: playlist.snippet.channelTitle
+        },
+        videos: await this.getPlaylistVideos(collection.playlistId, maxVideos)
+      };
+    }
+
+    const lookup: Record<string, string> = collection.channelId
+      ? { id: collection.channelId }
+      : collection.handle
+        ? { forHandle: collection.handle }
+        : { forUsername: collection.username || '' };
+
+    const data = await this.request('channels', { part: 'snippet,contentDetails', ...lookup });
+    const channel = data.items?.[0];
+    const uploadsPlaylistId = channel?.contentDetails?.relatedPlaylists?.uploads;
+    if (!channel || !uploadsPlaylistId) {
+      throw new YouTubeApiError('Channel not found.', 404);
+    }
+
+    return {
+      info: {
+        type: 'channel',
+        id: channel.id,
+        title: channel.snippet.title,
+        channelName: channel.snippet.title
+      },
+      videos: await this.getPlaylistVideos(uploadsPlaylistId, maxVideos)
+    };
+  }
+
+  /**
+   * Performs a Data API request and surfaces API errors as YouTubeApiError
+   */
+  private async request(resource: string, params: Record<string, string>) {
+    const query = new URLSearchParams({ ...params, key: this.apiKey });
+    const response = await fetch(`${this.baseUrl}/${resource}?${query.toString()}`);
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new YouTubeApiError(
+        data.error?.message || `YouTube API request failed (${resource})`,
+        data.error?.code || response.status,
+        data.error?.errors
+      );
+    }
+
+    return data;
+  }
 }
\ No newline at end of file
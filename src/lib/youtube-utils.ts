@@ -108,4 +108,58 @@ export function parseIsoDuration(duration: string): number {
   const seconds = parseInt(match[3] || '0', 10);
 
   return hours * 3600 + minutes * 60 + seconds;
-}
\ No newline at end of file
+}
+/**
+ * A playlist or channel that expands to multiple videos
+ */
+export type YouTubeCollection =
+  | { type: 'playlist'; playlistId: string }
+  | { type: 'channel'; channelId?: string; handle?: string; username?: string };
+
+/**
+ * Parses playlist and channel URLs
+ * Supports:
+ * - https://www.youtube.com/playlist?list=PLAYLIST_ID
+ * - https://www.youtube.com/channel/CHANNEL_ID
+ * - https://www.youtube.com/@handle
+ * - https://www.youtube.com/user/USERNAME
+ * - https://www.youtube.com/c/NAME (resolved as a handle)
+ * Watch URLs with a list parameter are treated as single videos.
+ */
+export function parseYouTubeCollectionUrl(url: string): YouTubeCollection | null {
+  try {
+    const urlObj = new URL(url);
+    if (!urlObj.hostname.includes('youtube.com')) {
+      return null;
+    }
+
+    const segments = urlObj.pathname.split('/').filter(Boolean);
+
+    if (segments[0] === 'playlist') {
+      const playlistId = urlObj.searchParams.get('list');
+      return playlistId && /^[a-zA-Z0-9_-]+$/.test(playlistId)
+        ? { type: 'playlist', playlistId }
+        : null;
+    }
+
+    if (segments[0]?.startsWith('@') && segments[0].length > 1) {
+      return { type: 'channel', handle: decodeURIComponent(segments[0].slice(1)) };
+    }
+
+    if (segments[0] === 'channel' && segments[1]?.startsWith('UC')) {
+      return { type: 'channel', channelId: segments[1] };
+    }
+
+    if (segments[0] === 'user' && segments[1]) {
+      return { type: 'channel', username: segments[1] };
+    }
+
+    if (segments[0] === 'c' && segments[1]) {
+      return { type: 'channel', handle: decodeURIComponent(segments[1]) };
+    }
+
+    return null;
+  } catch {
+    return null;
+  }
+}
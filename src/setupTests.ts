@@ -1 +1,5 @@
-import '@testing-library/jest-dom';
\ No newline at end of file
+import '@testing-library/jest-dom';
+import { TextEncoder, TextDecoder } from 'util';
+
+// jsdom does not provide the Encoding API that browsers (and Node) have
+Object.assign(global, { TextEncoder, TextDecoder });
@@ -44,10 +44,51 @@ export interface KeyPoint {
   category: string;
 }
 
+// Links a paragraph of a section to the transcript segment it draws from
+export interface Citation {
+  paragraphIndex: number; // index into the section content split on blank lines
+  startTime: number; // seconds
+  endTime: number;
+}
+
 export interface ArticleSection {
   heading: string;
   content: string;
   subsections?: ArticleSection[];
+  citations?: Citation[];
+}
+
+// A titled part of the video, in video order (see src/lib/chapter-detector.ts)
+export interface Chapter {
+  title: string;
+  start: number; // seconds
+  end: number; // seconds
+  // 'description': timestamps listed in the video description; 'transcript': detected from the transcript
+  source: 'description' | 'transcript';
+}
+
+// A link in a video description. 'social': the creator's profiles and support
+// pages; 'sponsor': links in a sponsor block; 'resource': everything else
+export interface DescriptionLink {
+  url: string;
+  label: string;
+  kind: 'resource' | 'social' | 'sponsor';
+}
+
+// A sponsor message in a video description, with the part of the video it covers when known
+export interface SponsorBlock {
+  text: string;
+  sponsor?: string;
+  start?: number; // seconds
+  end?: number; // seconds
+}
+
+// What a creator listed in a video description (see src/lib/description-parser.ts)
+export interface DescriptionInfo {
+  chapters: Chapter[];
+  links: DescriptionLink[];
+  hashtags: string[];
+  sponsorBlocks: SponsorBlock[];
 }
 
 export interface ContentAnalysis {
@@ -56,6 +97,8 @@ export interface ContentAnalysis {
   summary: string;
   suggestedStructure: ArticleSection[];
   sentiment: 'positive' | 'neutral' | 'negative';
+  // Ordered, non-overlapping chapters; empty when the video has no clear chapter structure
+  chapters?: Chapter[];
 }
 
 export interface ArticleMetadata {
@@ -64,6 +107,33 @@ export interface ArticleMetadata {
   seoTitle: string;
   metaDescription: string;
   sourceVideo: VideoMetadata;
+  // 0-1 share of sentences supported by the transcript (see src/lib/grounding-checker.ts)
+  groundingScore?: number;
+}
+
+// Posts that promote an article, derived from it (see src/lib/social-derivatives.ts)
+export interface SocialDerivatives {
+  // X/Twitter thread, one entry per post
+  thread: string[];
+  linkedInPost: string;
+  newsletterSummary: string;
+  // Video description with chapter timestamps, as shown under YouTube videos
+  showNotes: string;
+}
+
+// Destinations the article can be published to (see src/lib/publishing-connectors.ts)
+export type PublishingDestination = 'wordpress' | 'ghost' | 'devto' | 'webhook';
+
+// Where an article was published; republishing updates the same remote post
+export interface PublicationRecord {
+  destination: PublishingDestination;
+  // ID of the post at the destination
+  remoteId: string;
+  url?: string;
+  status: 'draft' | 'published';
+  // ISO timestamps
+  firstPublishedAt: string;
+  lastPublishedAt: string;
 }
 
 export interface Article {
@@ -73,6 +143,7 @@ export interface Article {
   conclusion: string;
   metadata: ArticleMetadata;
   tags: string[];
+  publications?: PublicationRecord[];
 }
 
 // Additional utility types for the application
@@ -84,18 +155,52 @@ export interface ValidationResult {
 }
 
 export interface ProcessingStatus {
-  stage: 'validation' | 'metadata' | 'transcription' | 'analysis' | 'generation' | 'complete' | 'error';
+  stage: 'validation' | 'metadata' | 'transcription' | 'analysis' | 'generation' | 'complete' | 'error' | 'cancelled';
   progress: number; // 0-100
   message: string;
   estimatedTimeRemaining?: number; // seconds
 }
 
+/**
+ * Article template interface for different content types
+ */
+export interface ArticleTemplate {
+  name: string;
+  type: 'tutorial' | 'interview' | 'presentation' | 'discussion' | 'review' | 'general';
+  structure: TemplateSection[];
+  defaultTone: 'professional' | 'casual' | 'technical';
+  estimatedLength: 'short' | 'medium' | 'long';
+}
+
+/**
+ * Template section configuration
+ */
+export interface TemplateSection {
+  heading: string;
+  contentType: 'introduction' | 'main_content' | 'key_points' | 'summary' | 'conclusion' | 'custom';
+  minLength?: number; // minimum words
+  maxLength?: number; // maximum words
+  includeTimestamps?: boolean;
+  keywordFocus?: string[]; // focus on specific keywords
+}
+
 export interface GenerationOptions {
   length: 'short' | 'medium' | 'long';
   tone: 'professional' | 'casual' | 'technical';
   format: 'markdown' | 'html' | 'plain';
   includeTimestamps?: boolean;
+  // Name of a built-in or user template; auto-selected from the content when unset
   customTemplate?: string;
+  // User-defined templates customTemplate may refer to (see src/lib/article-templates.ts)
+  userTemplates?: ArticleTemplate[];
+  // LLM selection for AI generation (see src/lib/llm-providers.ts)
+  provider?: string;
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  // Map-reduce generation for long transcripts (see src/lib/chunked-article-generator.ts)
+  generationMode?: 'single' | 'chunked';
+  contextTokenBudget?: number; // tokens available per LLM call
 }
 
 export interface ExportOptions {
@@ -105,6 +210,25 @@ export interface ExportOptions {
   filename?: string;
 }
 
+// Static-site generator exports (see src/lib/static-site-export.ts)
+export type StaticSiteFormat = 'hugo' | 'jekyll' | 'astro' | 'next-mdx';
+
+export type FrontMatterFormat = 'yaml' | 'toml';
+
+// Article fields available to front matter
+export type FrontMatterField = 'title' | 'date' | 'slug' | 'tags' | 'description' | 'thumbnail' | 'canonicalUrl';
+
+export type FrontMatterValue = string | number | boolean | Date | string[];
+
+// Changes to a generator's default site profile
+export interface SiteProfileOverrides {
+  frontMatterFormat?: FrontMatterFormat;
+  // Front matter key per article field; '' leaves the field out
+  fields?: Partial<Record<FrontMatterField, string>>;
+  // Fixed entries added to the front matter, e.g. a Jekyll layout
+  extra?: Record<string, FrontMatterValue>;
+}
+
 // User preferences and configuration types
 export interface UserPreferences {
   articleLength: 'short' | 'medium' | 'long';
@@ -115,6 +239,8 @@ export interface UserPreferences {
   autoSave: boolean;
   exportFormat: 'markdown' | 'html' | 'pdf';
   includeMetadata: boolean;
+  customTemplates: ArticleTemplate[];
+  siteProfiles: Partial<Record<StaticSiteFormat, SiteProfileOverrides>>;
 }
 
 export interface ConfigurationOptions {